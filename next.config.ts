@@ -2,7 +2,7 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   // Server-only packages that shouldn't be bundled for client
-  serverExternalPackages: ['sharp', 'pdfjs-dist'],
+  serverExternalPackages: ['sharp', 'pdfjs-dist', 'sql.js'],
 
   // Turbopack configuration (required for Next.js 16+)
   turbopack: {},
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { fetchAllRows } from '@/lib/supabase/paging'
+import { AIProviderError, isAIConfigured } from '@/lib/ai/provider'
+import { getEmbeddingBackend } from '@/lib/ai/embeddings'
+import { loadSectionIndex, retrieveChunks } from '@/lib/ai/section-index'
+import { answerFromSources, NO_ANSWER_MESSAGE } from '@/lib/ai/script-qa'
+import type { ScriptAnswer, ScriptAnswerCitation, Section } from '@/lib/supabase/types'
+
+// The first question may have to build the index of the whole module
+export const maxDuration = 120
+
+type SourceSection = Pick<Section, 'id' | 'document_id' | 'title' | 'content' | 'page_start' | 'page_end'>
+
+function pageLabel(section: SourceSection): string {
+  if (!section.page_start) return ''
+  return section.page_end && section.page_end !== section.page_start
+    ? `S. ${section.page_start}–${section.page_end}`
+    : `S. ${section.page_start}`
+}
+
+/**
+ * POST /api/ai/ask
+ * Answer a question from the sections of a document or of all documents in
+ * a module. Only the most relevant passages are passed to the model; every
+ * statement cites its source. Without relevant passages the question is
+ * declined instead of answered from general knowledge.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { question, documentId, moduleId } = await request.json()
+
+    if (typeof question !== 'string' || !question.trim() || (!documentId && !moduleId)) {
+      return NextResponse.json(
+        { error: 'Frage und Dokument oder Modul sind erforderlich' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    if (!isAIConfigured()) {
+      return NextResponse.json({ error: 'Kein KI-Anbieter konfiguriert' }, { status: 500 })
+    }
+
+    // Documents in scope (only those the user can see)
+    let documentIds: string[] = [documentId]
+    if (moduleId) {
+      const { data: moduleDocuments, error: moduleError } = await supabase
+        .from('module_documents')
+        .select('document_id')
+        .eq('module_id', moduleId)
+
+      if (moduleError) {
+        console.error('Error fetching module documents:', moduleError)
+        return NextResponse.json({ error: 'Fehler beim Laden des Moduls' }, { status: 500 })
+      }
+      documentIds = (moduleDocuments || []).map((md) => md.document_id)
+    }
+
+    const [{ data: documents }, sections] = await Promise.all([
+      supabase.from('documents').select('id, title').in('id', documentIds),
+      fetchAllRows<SourceSection>((from, to) =>
+        supabase
+          .from('sections')
+          .select('id, document_id, title, content, page_start, page_end')
+          .in('document_id', documentIds)
+          .order('id')
+          .range(from, to)
+      ).catch((sectionsError) => {
+        console.error('Error fetching sections:', sectionsError)
+        return null
+      }),
+    ])
+
+    if (!sections) {
+      return NextResponse.json({ error: 'Fehler beim Laden der Sektionen' }, { status: 500 })
+    }
+
+    const documentTitles = new Map((documents || []).map((d) => [d.id, d.title as string]))
+    const sectionsById = new Map(sections.map((s) => [s.id, s]))
+    const trimmedQuestion = question.trim()
+
+    const backend = getEmbeddingBackend()
+    const index = await loadSectionIndex(supabase, [...sectionsById.values()], backend)
+    const [questionVector] = await backend.embed([trimmedQuestion])
+    const chunks = retrieveChunks(questionVector, index, backend.minScore)
+
+    const refusal: ScriptAnswer = {
+      question: trimmedQuestion,
+      answer: NO_ANSWER_MESSAGE,
+      citations: [],
+      refused: true,
+    }
+
+    if (chunks.length === 0) {
+      return NextResponse.json(refusal)
+    }
+
+    const sources = chunks.map((chunk) => {
+      const section = sectionsById.get(chunk.section_id)!
+      const label = [documentTitles.get(section.document_id), section.title].filter(Boolean).join(' · ')
+      const pages = pageLabel(section)
+      return {
+        chunk,
+        section,
+        label: pages ? `${label} (${pages})` : label,
+        text: section.content.slice(chunk.start_offset, chunk.end_offset),
+      }
+    })
+
+    const result = await answerFromSources(trimmedQuestion, sources)
+    if (!result) {
+      return NextResponse.json(refusal)
+    }
+
+    const citations: ScriptAnswerCitation[] = result.cited.map((n) => {
+      const { chunk, section } = sources[n - 1]
+      return {
+        index: n,
+        document_id: section.document_id,
+        document_title: documentTitles.get(section.document_id) ?? '',
+        section_id: section.id,
+        section_title: section.title,
+        page_start: section.page_start,
+        page_end: section.page_end,
+        offset: chunk.start_offset,
+      }
+    })
+
+    const answer: ScriptAnswer = {
+      question: trimmedQuestion,
+      answer: result.answer,
+      citations,
+      refused: false,
+    }
+
+    return NextResponse.json(answer)
+  } catch (error) {
+    console.error('AI ask error:', error)
+    if (error instanceof AIProviderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Fehler beim Parsen der KI-Antwort' }, { status: 500 })
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
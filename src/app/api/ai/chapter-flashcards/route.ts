@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAIConfigured } from '@/lib/ai/provider'
+import { generateFlashcards } from '@/lib/ai/pdf-processor'
+import {
+  cardCountForSection,
+  chapterSections,
+  dropNearDuplicates,
+  type CardProposal,
+} from '@/lib/flashcards/chapter-cards'
+import type { Section } from '@/lib/supabase/types'
+
+// One AI request per section of the chapter
+export const maxDuration = 300
+
+/**
+ * POST /api/ai/chapter-flashcards
+ * Propose flashcards for every section of a chapter. Nothing is saved: the
+ * proposals are reviewed by the user first. Proposals repeating an existing
+ * card of the document are dropped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { documentId, chapterNumber } = await request.json()
+
+    if (!documentId || !chapterNumber) {
+      return NextResponse.json(
+        { error: 'Dokument und Kapitel sind erforderlich' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    if (!isAIConfigured()) {
+      return NextResponse.json({ error: 'Kein KI-Anbieter konfiguriert' }, { status: 500 })
+    }
+
+    const [{ data: sections, error: sectionsError }, { data: existing }] = await Promise.all([
+      supabase
+        .from('sections')
+        .select('*')
+        .eq('document_id', documentId)
+        .order('order_index', { ascending: true }),
+      supabase
+        .from('flashcards')
+        .select('question')
+        .eq('document_id', documentId)
+        .eq('user_id', user.id),
+    ])
+
+    if (sectionsError) {
+      console.error('Error fetching sections:', sectionsError)
+      return NextResponse.json({ error: 'Fehler beim Laden der Sektionen' }, { status: 500 })
+    }
+
+    const chapter = chapterSections((sections || []) as Section[], String(chapterNumber))
+    if (chapter.length === 0) {
+      return NextResponse.json({ error: 'Kapitel nicht gefunden' }, { status: 404 })
+    }
+
+    // Sequential, so a long chapter does not run into the provider's rate limit
+    const generated: CardProposal[] = []
+    for (const section of chapter) {
+      if (request.signal.aborted) break
+      const cards = await generateFlashcards(
+        section.title,
+        section.content,
+        cardCountForSection(section.content)
+      )
+      generated.push(
+        ...cards.map((card) => ({
+          section_id: section.id,
+          section_title: section.title,
+          question: String(card.question ?? '').trim(),
+          answer: String(card.answer ?? '').trim(),
+        }))
+      )
+    }
+
+    if (generated.length === 0) {
+      return NextResponse.json({ error: 'Die KI hat keine Lernkarten erzeugt' }, { status: 502 })
+    }
+
+    const { proposals, dropped } = dropNearDuplicates(
+      generated,
+      (existing || []).map((card) => card.question)
+    )
+
+    return NextResponse.json({ proposals, dropped, sectionCount: chapter.length })
+  } catch (error) {
+    console.error('Chapter flashcard error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
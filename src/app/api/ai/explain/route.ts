@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { AIProviderError, getAIProvider, isAIConfigured } from '@/lib/ai/provider'
 
 const SYSTEM_PROMPT = `Du bist ein Lernassistent. Antworte EXTREM kurz und knackig.
 
@@ -23,91 +24,55 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const apiKey = process.env.OPENAI_API_KEY
-
-    if (!apiKey) {
+    if (!isAIConfigured()) {
       return NextResponse.json(
-        { error: 'OPENAI_API_KEY ist nicht konfiguriert' },
+        { error: 'Kein KI-Anbieter konfiguriert' },
         { status: 500 }
       )
     }
 
-    // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        max_tokens: 250,
-        messages: [
-          {
-            role: 'system',
-            content: SYSTEM_PROMPT,
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        stream: true,
-      }),
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error('OpenAI API error:', errorData)
+    const tokens = getAIProvider().stream({
+      task: 'explain',
+      maxTokens: 250,
+      messages: [
+        {
+          role: 'system',
+          content: SYSTEM_PROMPT,
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+    })[Symbol.asyncIterator]()
+
+    // Wait for the first token so provider errors still get a proper status code
+    let first: IteratorResult<string>
+    try {
+      first = await tokens.next()
+    } catch (error) {
+      console.error('AI provider error:', error)
       return NextResponse.json(
         {
           error:
-            errorData.error?.message ||
-            `API Fehler: ${response.status}`,
+            error instanceof Error
+              ? error.message
+              : 'KI-Anfrage fehlgeschlagen',
         },
-        { status: response.status }
+        { status: error instanceof AIProviderError ? error.status : 500 }
       )
     }
 
     // Return streaming response
     const encoder = new TextEncoder()
-    const decoder = new TextDecoder()
 
     const stream = new ReadableStream({
       async start(controller) {
-        const reader = response.body?.getReader()
-        if (!reader) {
-          controller.close()
-          return
-        }
-
         try {
-          let buffer = ''
-
-          while (true) {
-            const { done, value } = await reader.read()
-            if (done) break
-
-            buffer += decoder.decode(value, { stream: true })
-            const lines = buffer.split('\n')
-            buffer = lines.pop() || ''
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6).trim()
-                if (data === '[DONE]') continue
-
-                try {
-                  const parsed = JSON.parse(data)
-                  const content = parsed.choices?.[0]?.delta?.content
-                  if (content) {
-                    controller.enqueue(encoder.encode(content))
-                  }
-                } catch {
-                  // Skip non-JSON lines
-                }
-              }
-            }
+          let result = first
+          while (!result.done) {
+            controller.enqueue(encoder.encode(result.value))
+            result = await tokens.next()
           }
 
           controller.close()
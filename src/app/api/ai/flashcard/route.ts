@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { AIProviderError, getAIProvider, isAIConfigured } from '@/lib/ai/provider'
 
 const SYSTEM_PROMPT = `Du bist ein Experte für das Erstellen von Lernkarten. Generiere aus dem gegebenen Text eine prägnante Frage und Antwort.
 
@@ -24,11 +25,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const apiKey = process.env.OPENAI_API_KEY
-
-    if (!apiKey) {
+    if (!isAIConfigured()) {
       return NextResponse.json(
-        { error: 'OPENAI_API_KEY ist nicht konfiguriert' },
+        { error: 'Kein KI-Anbieter konfiguriert' },
         { status: 500 }
       )
     }
@@ -37,16 +36,11 @@ export async function POST(request: NextRequest) {
       ? `Kontext: ${context}\n\nText für Lernkarte: ${selectedText}`
       : `Text für Lernkarte: ${selectedText}`
 
-    // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        max_tokens: 200,
+    let content: string
+    try {
+      content = await getAIProvider().complete({
+        task: 'flashcards',
+        maxTokens: 200,
         messages: [
           {
             role: 'system',
@@ -57,26 +51,21 @@ export async function POST(request: NextRequest) {
             content: userPrompt,
           },
         ],
-        response_format: { type: 'json_object' },
-      }),
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error('OpenAI API error:', errorData)
+        json: true,
+      })
+    } catch (error) {
+      console.error('AI provider error:', error)
       return NextResponse.json(
         {
           error:
-            errorData.error?.message ||
-            `API Fehler: ${response.status}`,
+            error instanceof Error
+              ? error.message
+              : 'KI-Anfrage fehlgeschlagen',
         },
-        { status: response.status }
+        { status: error instanceof AIProviderError ? error.status : 500 }
       )
     }
 
-    const data = await response.json()
-    const content = data.choices?.[0]?.message?.content
-
     if (!content) {
       return NextResponse.json(
         { error: 'Keine Antwort von der KI erhalten' },
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AIProviderError, getAIProvider, isAIConfigured } from '@/lib/ai/provider'
+import { buildTutorMessages, threadTitle } from '@/lib/ai/tutor'
+import type { TutorMessage, TutorMode, TutorThread } from '@/lib/supabase/types'
+
+const TUTOR_MODES: TutorMode[] = ['explain', 'socratic']
+
+/**
+ * POST /api/ai/tutor
+ * Send a message in a conversation with the AI assistant and stream the
+ * reply. Without threadId a new thread is started for the section and the
+ * marked text. Both turns are saved together once the reply is complete;
+ * the thread id is returned in the X-Thread-Id header.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { threadId, sectionId, selectedText, message, mode, title } = await request.json()
+
+    if (typeof message !== 'string' || !message.trim()) {
+      return NextResponse.json({ error: 'Nachricht ist erforderlich' }, { status: 400 })
+    }
+    if (!threadId && (!sectionId || !selectedText)) {
+      return NextResponse.json(
+        { error: 'Abschnitt und markierter Text sind erforderlich' },
+        { status: 400 }
+      )
+    }
+    if (mode !== undefined && !TUTOR_MODES.includes(mode)) {
+      return NextResponse.json({ error: 'Ungültiger Modus' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    if (!isAIConfigured()) {
+      return NextResponse.json({ error: 'Kein KI-Anbieter konfiguriert' }, { status: 500 })
+    }
+
+    // Existing thread with its turns so far (only the user's own, via RLS)
+    let thread: TutorThread | null = null
+    let history: Pick<TutorMessage, 'role' | 'content'>[] = []
+    if (threadId) {
+      const [{ data: threadData }, { data: messages, error: messagesError }] = await Promise.all([
+        supabase.from('tutor_threads').select('*').eq('id', threadId).single(),
+        supabase
+          .from('tutor_messages')
+          .select('role, content')
+          .eq('thread_id', threadId)
+          .order('created_at', { ascending: true }),
+      ])
+
+      if (!threadData) {
+        return NextResponse.json({ error: 'Gespräch nicht gefunden' }, { status: 404 })
+      }
+      if (messagesError) {
+        console.error('Error fetching tutor messages:', messagesError)
+        return NextResponse.json({ error: 'Fehler beim Laden des Gesprächs' }, { status: 500 })
+      }
+      thread = threadData
+      history = messages || []
+    }
+
+    const { data: section } = await supabase
+      .from('sections')
+      .select('id, document_id, title, content')
+      .eq('id', thread?.section_id ?? sectionId)
+      .single()
+
+    if (!section) {
+      return NextResponse.json({ error: 'Abschnitt nicht gefunden' }, { status: 404 })
+    }
+
+    const trimmedMessage = message.trim()
+    const askedAt = new Date().toISOString()
+    const threadMode: TutorMode = thread?.mode ?? mode ?? 'explain'
+    const textSelection: string = thread?.text_selection ?? selectedText
+
+    const tokens = getAIProvider().stream({
+      task: 'explain',
+      maxTokens: 400,
+      messages: buildTutorMessages(
+        threadMode,
+        { sectionTitle: section.title, sectionContent: section.content, textSelection },
+        history,
+        trimmedMessage
+      ),
+    })[Symbol.asyncIterator]()
+
+    // Wait for the first token so provider errors still get a proper status code
+    let first: IteratorResult<string>
+    try {
+      first = await tokens.next()
+    } catch (error) {
+      console.error('AI provider error:', error)
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'KI-Anfrage fehlgeschlagen' },
+        { status: error instanceof AIProviderError ? error.status : 500 }
+      )
+    }
+
+    // Start the thread only once the model has answered
+    const startsThread = !thread
+    if (!thread) {
+      const { data: created, error: createError } = await supabase
+        .from('tutor_threads')
+        .insert({
+          user_id: user.id,
+          section_id: section.id,
+          document_id: section.document_id,
+          title: threadTitle(typeof title === 'string' && title.trim() ? title : trimmedMessage),
+          text_selection: textSelection,
+          mode: threadMode,
+        })
+        .select()
+        .single()
+
+      if (createError || !created) {
+        console.error('Error creating tutor thread:', createError)
+        return NextResponse.json({ error: 'Fehler beim Speichern des Gesprächs' }, { status: 500 })
+      }
+      thread = created as TutorThread
+    }
+
+    const savedThreadId = thread.id
+
+    // Return streaming response; the turns are saved once the reply is complete,
+    // so a failed stream leaves no question without an answer in the thread
+    const encoder = new TextEncoder()
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        let reply = ''
+        try {
+          let result = first
+          while (!result.done) {
+            reply += result.value
+            controller.enqueue(encoder.encode(result.value))
+            result = await tokens.next()
+          }
+
+          // Both turns carry their own time, so the question always sorts first
+          const answeredAt = new Date().toISOString()
+          const [{ error: replyError }] = await Promise.all([
+            supabase
+              .from('tutor_messages')
+              .insert([
+                { thread_id: savedThreadId, role: 'user', content: trimmedMessage, created_at: askedAt },
+                { thread_id: savedThreadId, role: 'assistant', content: reply.trim(), created_at: answeredAt },
+              ]),
+            supabase
+              .from('tutor_threads')
+              .update({ updated_at: answeredAt })
+              .eq('id', savedThreadId),
+          ])
+          if (replyError) {
+            console.error('Error saving tutor messages:', replyError)
+          }
+
+          controller.close()
+        } catch (error) {
+          console.error('Stream error:', error)
+          // A thread started by this message has nothing to show
+          if (startsThread) {
+            await supabase.from('tutor_threads').delete().eq('id', savedThreadId)
+          }
+          controller.error(error)
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Thread-Id': savedThreadId,
+      },
+    })
+  } catch (error) {
+    console.error('AI tutor error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient as createServiceClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { audiobookFilename } from '@/lib/export/audiobook'
+import {
+  AUDIOBOOK_JOB_COLUMNS,
+  getAudiobookDownloadUrl,
+  isAudiobookJobIdle,
+  runAudiobookJob,
+} from '@/lib/export/audiobook-job'
+import type { AudiobookJob } from '@/lib/supabase/types'
+
+// A paused job continues in the worker started after this response
+export const maxDuration = 300
+
+// Lazy initialization of Supabase client for service role access
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    throw new Error('Supabase environment variables not configured')
+  }
+
+  return createServiceClient(url, key)
+}
+
+/**
+ * GET /api/documents/[id]/audiobook/[jobId]
+ * Progress of an audiobook export, with a download link once it is finished.
+ * Paused or abandoned exports continue with the next part.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; jobId: string }> }
+) {
+  try {
+    const { id, jobId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    // RLS only returns the user's own jobs
+    const { data, error } = await supabase
+      .from('audiobook_jobs')
+      .select(AUDIOBOOK_JOB_COLUMNS)
+      .eq('id', jobId)
+      .eq('document_id', id)
+      .single()
+
+    if (error || !data) {
+      return NextResponse.json({ error: 'Hörbuch-Export nicht gefunden' }, { status: 404 })
+    }
+
+    const job = data as unknown as AudiobookJob
+
+    if (isAudiobookJobIdle(job)) {
+      after(() => runAudiobookJob(getSupabaseClient(), job.id))
+    }
+
+    const downloadUrl = job.status === 'completed' && job.storage_path
+      ? await getAudiobookDownloadUrl(getSupabaseClient(), job.storage_path, audiobookFilename(job.title))
+      : null
+
+    return NextResponse.json({ job, downloadUrl })
+  } catch (error) {
+    console.error('Audiobook job GET error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
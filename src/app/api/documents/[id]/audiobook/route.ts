@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient as createServiceClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { planAudiobook } from '@/lib/export/audiobook'
+import { enqueueAudiobookJob, runAudiobookJob } from '@/lib/export/audiobook-job'
+import { isTTSConfigured } from '@/lib/tts/backend'
+import type { Section } from '@/lib/supabase/types'
+
+// The worker started after the response renders parts until shortly before this limit
+export const maxDuration = 300
+
+// Lazy initialization of Supabase client for service role access
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    throw new Error('Supabase environment variables not configured')
+  }
+
+  return createServiceClient(url, key)
+}
+
+/**
+ * POST /api/documents/[id]/audiobook
+ * Start rendering the document (or one learning unit with ?learning_unit_id=)
+ * as an MP3 audiobook with chapter markers. Rendering runs in the background;
+ * follow it via GET /api/documents/[id]/audiobook/[jobId].
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const learningUnitId = request.nextUrl.searchParams.get('learning_unit_id')
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    if (!isTTSConfigured()) {
+      return NextResponse.json({ error: 'Sprachausgabe ist nicht konfiguriert' }, { status: 503 })
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, title, author, institution')
+      .eq('id', id)
+      .single()
+
+    if (docError || !document) {
+      return NextResponse.json({ error: 'Dokument nicht gefunden' }, { status: 404 })
+    }
+
+    let title = document.title
+    let sections: Section[]
+
+    if (learningUnitId) {
+      const { data: unit } = await supabase
+        .from('learning_units')
+        .select('id, title, document_id')
+        .eq('id', learningUnitId)
+        .eq('document_id', id)
+        .single()
+
+      if (!unit) {
+        return NextResponse.json({ error: 'Lerneinheit nicht gefunden' }, { status: 404 })
+      }
+
+      const { data: unitSections, error } = await supabase
+        .from('learning_unit_sections')
+        .select('sections(*)')
+        .eq('learning_unit_id', learningUnitId)
+        .order('sequence_order', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching learning unit sections:', error)
+        return NextResponse.json({ error: 'Fehler beim Laden der Sektionen' }, { status: 500 })
+      }
+
+      title = `${document.title} – ${unit.title}`
+      sections = (unitSections || []).map((us) => us.sections as unknown as Section)
+    } else {
+      const { data, error } = await supabase
+        .from('sections')
+        .select('*')
+        .eq('document_id', id)
+        .order('order_index', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching sections:', error)
+        return NextResponse.json({ error: 'Fehler beim Laden der Sektionen' }, { status: 500 })
+      }
+
+      sections = (data || []) as Section[]
+    }
+
+    const chapters = planAudiobook(sections.filter(Boolean), { introTitle: title })
+    if (chapters.length === 0) {
+      return NextResponse.json({ error: 'Keine vorlesbaren Abschnitte vorhanden' }, { status: 400 })
+    }
+
+    const serviceClient = getSupabaseClient()
+    const { job, queued } = await enqueueAudiobookJob(serviceClient, {
+      documentId: id,
+      learningUnitId: learningUnitId || null,
+      userId: user.id,
+      info: { title, author: document.author, institution: document.institution },
+      chapters,
+    })
+
+    // Only start a worker if no other request is already rendering this audiobook
+    if (queued) {
+      after(() => runAudiobookJob(getSupabaseClient(), job.id))
+    }
+
+    return NextResponse.json({ job }, { status: 202 })
+  } catch (error) {
+    console.error('Audiobook export error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AnkiFormatError, readApkg } from '@/lib/flashcards/anki'
+import { parseCardsCsv } from '@/lib/flashcards/csv'
+import { deckResponse, isDeckFormat } from '@/lib/flashcards/deck-export'
+import {
+  completeSchedule,
+  normalizeQuestion,
+  sectionForTags,
+  toExchangeCards,
+  type ExchangeCard,
+  type ImportResult,
+} from '@/lib/flashcards/exchange'
+import type { Flashcard } from '@/lib/supabase/types'
+
+// Anki packages may carry media we do not import
+const MAX_IMPORT_SIZE = 50 * 1024 * 1024
+
+/**
+ * GET /api/documents/[id]/flashcards?format=csv|apkg
+ * Export the user's flashcards of a document with their scheduling state,
+ * tagged with the section title
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const format = request.nextUrl.searchParams.get('format')
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    if (!isDeckFormat(format)) {
+      return NextResponse.json({ error: 'Ungültiges Format' }, { status: 400 })
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, title')
+      .eq('id', id)
+      .single()
+
+    if (docError || !document) {
+      return NextResponse.json({ error: 'Dokument nicht gefunden' }, { status: 404 })
+    }
+
+    const [{ data: flashcards, error: cardsError }, { data: sections }] = await Promise.all([
+      supabase
+        .from('flashcards')
+        .select('*')
+        .eq('document_id', id)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('sections')
+        .select('id, title')
+        .eq('document_id', id),
+    ])
+
+    if (cardsError) {
+      console.error('Error fetching flashcards:', cardsError)
+      return NextResponse.json({ error: 'Fehler beim Laden der Lernkarten' }, { status: 500 })
+    }
+
+    if (!flashcards?.length) {
+      return NextResponse.json({ error: 'Keine Lernkarten vorhanden' }, { status: 400 })
+    }
+
+    const cards = toExchangeCards(flashcards as Flashcard[], sections || [], document.title)
+    return deckResponse(cards, format, document.title)
+  } catch (error) {
+    console.error('Flashcard export error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/documents/[id]/flashcards
+ * Import flashcards from a CSV file or Anki package (multipart field "file").
+ * Cards whose question already exists in the document are skipped.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Keine Datei hochgeladen' }, { status: 400 })
+    }
+
+    if (file.size > MAX_IMPORT_SIZE) {
+      return NextResponse.json({ error: 'Datei zu groß (max. 50 MB)' }, { status: 400 })
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('id', id)
+      .single()
+
+    if (docError || !document) {
+      return NextResponse.json({ error: 'Dokument nicht gefunden' }, { status: 404 })
+    }
+
+    let cards: ExchangeCard[]
+    if (file.name.toLowerCase().endsWith('.apkg')) {
+      cards = await readApkg(new Uint8Array(await file.arrayBuffer()))
+    } else {
+      cards = parseCardsCsv(await file.text())
+    }
+
+    if (cards.length === 0) {
+      return NextResponse.json({ error: 'Keine Lernkarten in der Datei gefunden' }, { status: 400 })
+    }
+
+    const [{ data: existing, error: existingError }, { data: sections }] = await Promise.all([
+      supabase
+        .from('flashcards')
+        .select('question, card_type')
+        .eq('document_id', id)
+        .eq('user_id', user.id),
+      supabase
+        .from('sections')
+        .select('id, title')
+        .eq('document_id', id),
+    ])
+
+    if (existingError) {
+      console.error('Error fetching flashcards:', existingError)
+      return NextResponse.json({ error: 'Fehler beim Laden der Lernkarten' }, { status: 500 })
+    }
+
+    // Duplicates against the document's cards and within the file
+    const seen = new Set((existing || []).map((c) => normalizeQuestion(c.question, c.card_type)))
+    const rows = []
+    for (const card of cards) {
+      const key = normalizeQuestion(card.question, card.cardType)
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      rows.push({
+        user_id: user.id,
+        document_id: id,
+        section_id: sectionForTags(card.tags, sections || []),
+        question: card.question,
+        answer: card.answer,
+        card_type: card.cardType,
+        ...completeSchedule(card.schedule),
+      })
+    }
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase.from('flashcards').insert(rows)
+      if (insertError) {
+        console.error('Error importing flashcards:', insertError)
+        return NextResponse.json({ error: 'Fehler beim Importieren der Lernkarten' }, { status: 500 })
+      }
+    }
+
+    const result: ImportResult = { imported: rows.length, duplicates: cards.length - rows.length }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Flashcard import error:', error)
+    if (error instanceof AnkiFormatError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { syncDocumentGlossary } from '@/lib/glossary/sync'
+
+/**
+ * POST /api/documents/[id]/glossary
+ * Take the glossary terms again from the definition sections of a document,
+ * e.g. after editing them. Terms added or edited by an author are kept.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('id', id)
+      .single()
+
+    if (docError || !document) {
+      return NextResponse.json({ error: 'Dokument nicht gefunden' }, { status: 404 })
+    }
+
+    let count: number
+    try {
+      count = await syncDocumentGlossary(supabase, id)
+    } catch (error) {
+      // Writes are limited to authors of the document by RLS
+      console.error('Error syncing glossary:', error)
+      return NextResponse.json({ error: 'Fehler beim Aktualisieren des Glossars' }, { status: 500 })
+    }
+
+    return NextResponse.json({ count })
+  } catch (error) {
+    console.error('Glossary sync error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
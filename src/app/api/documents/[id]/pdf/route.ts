@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient as createServiceClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+
+// Long enough to read a document without the link running out
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+// Lazy initialization of Supabase client for service role access
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    throw new Error('Supabase environment variables not configured')
+  }
+
+  return createServiceClient(url, key)
+}
+
+/**
+ * GET /api/documents/[id]/pdf
+ * Signed URL of the original PDF for the split view in the reader. Storage
+ * only lets the uploader read the file, so members of a module get the link
+ * here once the document itself is visible to them.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    // Visibility of the document decides access to its PDF (RLS)
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, storage_path')
+      .eq('id', id)
+      .single()
+
+    if (docError || !document) {
+      return NextResponse.json({ error: 'Dokument nicht gefunden' }, { status: 404 })
+    }
+
+    const { data, error } = await getSupabaseClient()
+      .storage
+      .from('documents')
+      .createSignedUrl(document.storage_path, SIGNED_URL_TTL_SECONDS)
+
+    if (error || !data) {
+      console.error('Error signing PDF URL:', error)
+      return NextResponse.json({ error: 'Original-PDF nicht verfügbar' }, { status: 404 })
+    }
+
+    return NextResponse.json({ url: data.signedUrl })
+  } catch (error) {
+    console.error('PDF URL error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AIProviderError, isAIConfigured } from '@/lib/ai/provider'
+import { generateAnswerFeedback } from '@/lib/ai/exercise-feedback'
+import type { Section, SectionMetadata } from '@/lib/supabase/types'
+
+interface CreateExerciseFeedbackRequest {
+  exercise_section_id: string
+  answer: string
+}
+
+/**
+ * GET /api/exercise-feedback
+ * Saved feedback for an exercise, latest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const exerciseSectionId = searchParams.get('exercise_section_id')
+
+    if (!exerciseSectionId) {
+      return NextResponse.json(
+        { error: 'exercise_section_id ist erforderlich' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Nicht authentifiziert' },
+        { status: 401 }
+      )
+    }
+
+    const { data: feedback, error } = await supabase
+      .from('exercise_feedback')
+      .select('*')
+      .eq('exercise_section_id', exerciseSectionId)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching exercise feedback:', error)
+      return NextResponse.json(
+        { error: 'Fehler beim Laden der Rückmeldungen' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ feedback: feedback || [] })
+  } catch (error) {
+    console.error('Error in GET /api/exercise-feedback:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/exercise-feedback
+ * Compare a written answer with the linked solution and save the feedback
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: CreateExerciseFeedbackRequest = await request.json()
+    const answer = body.answer?.trim()
+
+    if (!body.exercise_section_id || !answer) {
+      return NextResponse.json(
+        { error: 'Aufgabe und Antwort sind erforderlich' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Nicht authentifiziert' },
+        { status: 401 }
+      )
+    }
+
+    if (!isAIConfigured()) {
+      return NextResponse.json(
+        { error: 'Kein KI-Anbieter konfiguriert' },
+        { status: 500 }
+      )
+    }
+
+    const { data: exercise, error: exerciseError } = await supabase
+      .from('sections')
+      .select('*')
+      .eq('id', body.exercise_section_id)
+      .single()
+
+    if (exerciseError || !exercise) {
+      return NextResponse.json(
+        { error: 'Übungsaufgabe nicht gefunden' },
+        { status: 404 }
+      )
+    }
+
+    // Linked solution, otherwise the solution pointing back via its metadata
+    const { data: link } = await supabase
+      .from('exercise_solutions')
+      .select('solution_section:sections!solution_section_id(*)')
+      .eq('exercise_section_id', exercise.id)
+      .limit(1)
+      .maybeSingle()
+
+    let solution = (link?.solution_section as Section | undefined) ?? null
+    if (!solution) {
+      const { data: solutions } = await supabase
+        .from('sections')
+        .select('*')
+        .eq('document_id', exercise.document_id)
+        .eq('section_type', 'solution')
+
+      solution = (solutions || []).find(
+        (s: Section) => (s.metadata as SectionMetadata)?.exercise_id === exercise.id
+      ) ?? null
+    }
+
+    if (!solution) {
+      return NextResponse.json(
+        { error: 'Zu dieser Aufgabe ist keine Lösung verknüpft' },
+        { status: 404 }
+      )
+    }
+
+    let feedback
+    try {
+      feedback = await generateAnswerFeedback(exercise.title, exercise.content, solution.content, answer)
+    } catch (error) {
+      console.error('AI provider error:', error)
+      return NextResponse.json(
+        {
+          error: error instanceof SyntaxError
+            ? 'Fehler beim Parsen der KI-Antwort'
+            : error instanceof Error ? error.message : 'KI-Anfrage fehlgeschlagen',
+        },
+        { status: error instanceof AIProviderError ? error.status : 500 }
+      )
+    }
+
+    const { data: saved, error: insertError } = await supabase
+      .from('exercise_feedback')
+      .insert({
+        user_id: user.id,
+        document_id: exercise.document_id,
+        exercise_section_id: exercise.id,
+        answer,
+        feedback,
+        score: feedback.score,
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('Error saving exercise feedback:', insertError)
+      return NextResponse.json(
+        { error: 'Fehler beim Speichern der Rückmeldung' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ feedback: saved }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/exercise-feedback:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient as createServiceClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { scoreQuiz } from '@/lib/progress/quiz-stats'
+import type { QuizQuestion } from '@/lib/supabase/types'
+
+// Attempts are only written with the service role, so scores cannot be set by the client
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    throw new Error('Supabase environment variables not configured')
+  }
+
+  return createServiceClient(url, key)
+}
+
+interface CreateQuizAttemptRequest {
+  quiz_id: string
+  answers: (number | null)[] // Chosen option per question, null = skipped
+}
+
+/**
+ * POST /api/learning-units/[id]/quiz/attempts
+ * Save a finished quiz attempt. The score is computed here from the stored
+ * questions, not taken from the client.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body: CreateQuizAttemptRequest = await request.json()
+
+    if (!body.quiz_id || !Array.isArray(body.answers)) {
+      return NextResponse.json(
+        { error: 'quiz_id und answers sind erforderlich' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Nicht authentifiziert' },
+        { status: 401 }
+      )
+    }
+
+    // Read with the user's client, so only quizzes of units the user can see are found
+    const { data: quiz, error: quizError } = await supabase
+      .from('quizzes')
+      .select('id, questions')
+      .eq('id', body.quiz_id)
+      .eq('learning_unit_id', id)
+      .single()
+
+    if (quizError || !quiz) {
+      return NextResponse.json(
+        { error: 'Quiz nicht gefunden' },
+        { status: 404 }
+      )
+    }
+
+    const questions = quiz.questions as QuizQuestion[]
+    const answers = questions.map((_, index) => {
+      const answer = body.answers[index]
+      return typeof answer === 'number' ? answer : null
+    })
+
+    const { data: attempt, error: insertError } = await getSupabaseClient()
+      .from('quiz_attempts')
+      .insert({
+        quiz_id: quiz.id,
+        learning_unit_id: id,
+        user_id: user.id,
+        answers,
+        ...scoreQuiz(questions, answers),
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('Error saving quiz attempt:', insertError)
+      return NextResponse.json(
+        { error: 'Fehler beim Speichern des Ergebnisses' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ attempt }, { status: 201 })
+
+  } catch (error) {
+    console.error('Quiz attempt POST error:', error)
+    return NextResponse.json(
+      { error: 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AIProviderError, isAIConfigured } from '@/lib/ai/provider'
+import { generateQuiz, quizObjectives } from '@/lib/ai/quiz-generator'
+import type { Section } from '@/lib/supabase/types'
+
+interface LearningUnitSectionRow {
+  sequence_order: number
+  sections: Section
+}
+
+/**
+ * GET /api/learning-units/[id]/quiz
+ * Latest quiz of a learning unit and the attempts visible to the user
+ * (own attempts; module owners also see those of other students)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Nicht authentifiziert' },
+        { status: 401 }
+      )
+    }
+
+    const [{ data: quiz, error: quizError }, { data: attempts, error: attemptsError }] = await Promise.all([
+      supabase
+        .from('quizzes')
+        .select('*')
+        .eq('learning_unit_id', id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('quiz_attempts')
+        .select('*')
+        .eq('learning_unit_id', id)
+        .order('created_at', { ascending: true }),
+    ])
+
+    if (quizError || attemptsError) {
+      console.error('Error fetching quiz:', quizError || attemptsError)
+      return NextResponse.json(
+        { error: 'Fehler beim Laden des Quiz' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      quiz,
+      attempts: attempts || [],
+      user_id: user.id,
+    })
+
+  } catch (error) {
+    console.error('Quiz GET error:', error)
+    return NextResponse.json(
+      { error: 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/learning-units/[id]/quiz
+ * Generate a new quiz from the sections of a learning unit
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Nicht authentifiziert' },
+        { status: 401 }
+      )
+    }
+
+    if (!isAIConfigured()) {
+      return NextResponse.json(
+        { error: 'Kein KI-Anbieter konfiguriert' },
+        { status: 500 }
+      )
+    }
+
+    const { data: unit, error: unitError } = await supabase
+      .from('learning_units')
+      .select('*, learning_unit_sections(sequence_order, sections(*))')
+      .eq('id', id)
+      .single()
+
+    if (unitError || !unit) {
+      return NextResponse.json(
+        { error: 'Lerneinheit nicht gefunden' },
+        { status: 404 }
+      )
+    }
+
+    const sections = ((unit.learning_unit_sections || []) as LearningUnitSectionRow[])
+      .sort((a, b) => a.sequence_order - b.sequence_order)
+      .map((lus) => lus.sections)
+      .filter((s) => s && s.section_type !== 'solution' && s.content.trim().length > 0)
+
+    if (sections.length === 0) {
+      return NextResponse.json(
+        { error: 'Die Lerneinheit enthält keine Abschnitte' },
+        { status: 400 }
+      )
+    }
+
+    let questions
+    try {
+      questions = await generateQuiz(unit.title, quizObjectives(unit.title, unit.learning_objectives), sections)
+    } catch (error) {
+      console.error('AI provider error:', error)
+      return NextResponse.json(
+        {
+          error: error instanceof SyntaxError
+            ? 'Fehler beim Parsen der KI-Antwort'
+            : error instanceof Error ? error.message : 'KI-Anfrage fehlgeschlagen',
+        },
+        { status: error instanceof AIProviderError ? error.status : 500 }
+      )
+    }
+
+    if (questions.length === 0) {
+      return NextResponse.json(
+        { error: 'Die KI hat keine gültigen Fragen erzeugt' },
+        { status: 500 }
+      )
+    }
+
+    const { data: quiz, error: insertError } = await supabase
+      .from('quizzes')
+      .insert({
+        learning_unit_id: id,
+        created_by: user.id,
+        questions,
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('Error saving quiz:', insertError)
+      return NextResponse.json(
+        { error: 'Fehler beim Speichern des Quiz' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ quiz }, { status: 201 })
+
+  } catch (error) {
+    console.error('Quiz POST error:', error)
+    return NextResponse.json(
+      { error: 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient as createServiceClient, type SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { generateAnswerFeedback } from '@/lib/ai/exercise-feedback'
+import { examView } from '@/lib/exam/exam-builder'
+import {
+  examDeadline,
+  gradeExam,
+  isGradingStale,
+  isLateSubmission,
+  type ExamAnswers,
+} from '@/lib/exam/exam-grading'
+import type { ModuleExam } from '@/lib/supabase/types'
+
+// Open answers are graded after the response, a few AI requests at a time
+export const maxDuration = 300
+
+// Exams hold their answer key, so they are only read and written with the service role
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    throw new Error('Supabase environment variables not configured')
+  }
+
+  return createServiceClient(url, key)
+}
+
+interface SubmitExamRequest {
+  answers: ExamAnswers
+}
+
+/**
+ * Grade the saved answers of a submitted exam and store the results.
+ * Only an exam without results is written, so a second run changes nothing.
+ */
+async function gradeSubmittedExam(supabase: SupabaseClient, exam: ModuleExam): Promise<void> {
+  const results = await gradeExam(exam.items, exam.answers ?? {}, (item, answer) =>
+    item.kind === 'exercise'
+      ? generateAnswerFeedback(item.prompt.split('\n')[0], item.prompt, item.reference, answer)
+      : generateAnswerFeedback('Lernkarte', item.prompt, item.reference, answer)
+  )
+
+  const { error } = await supabase
+    .from('module_exams')
+    .update({
+      results,
+      score: results.reduce((sum, r) => sum + r.points, 0),
+    })
+    .eq('id', exam.id)
+    .is('results', null)
+
+  if (error) {
+    console.error('Error saving exam results:', error)
+  }
+}
+
+/**
+ * GET /api/modules/[id]/exam/[examId]
+ * A mock exam: while it runs without the answer key, afterwards with the
+ * report (results stay null while the answers are being graded)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; examId: string }> }
+) {
+  try {
+    const { id, examId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    const serviceClient = getSupabaseClient()
+    const { data: exam, error } = await serviceClient
+      .from('module_exams')
+      .select('*')
+      .eq('id', examId)
+      .eq('module_id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (error || !exam) {
+      return NextResponse.json({ error: 'Probeklausur nicht gefunden' }, { status: 404 })
+    }
+
+    // Grading that was cut off (e.g. by a timeout) starts again from the saved
+    // answers; claiming it first keeps polling requests from starting it twice
+    if (isGradingStale(exam as ModuleExam)) {
+      const claim = serviceClient
+        .from('module_exams')
+        .update({ grading_started_at: new Date().toISOString() })
+        .eq('id', examId)
+        .is('results', null)
+      const { data: claimed } = await (exam.grading_started_at
+        ? claim.eq('grading_started_at', exam.grading_started_at)
+        : claim.is('grading_started_at', null)
+      )
+        .select()
+        .maybeSingle()
+
+      if (claimed) {
+        after(() => gradeSubmittedExam(serviceClient, claimed as ModuleExam))
+      }
+    }
+
+    return NextResponse.json({ exam: examView(exam as ModuleExam) })
+  } catch (error) {
+    console.error('Exam GET error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/modules/[id]/exam/[examId]
+ * Hand in the answers (also sent automatically when time is up). The answers
+ * are saved right away and graded in the background; the client polls the
+ * exam until its results are there.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; examId: string }> }
+) {
+  try {
+    const { id, examId } = await params
+    const body: SubmitExamRequest = await request.json()
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    const serviceClient = getSupabaseClient()
+    const { data: exam, error } = await serviceClient
+      .from('module_exams')
+      .select('*')
+      .eq('id', examId)
+      .eq('module_id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (error || !exam) {
+      return NextResponse.json({ error: 'Probeklausur nicht gefunden' }, { status: 404 })
+    }
+
+    if (exam.submitted_at) {
+      return NextResponse.json(
+        { error: 'Die Probeklausur wurde bereits abgegeben', exam: examView(exam as ModuleExam) },
+        { status: 409 }
+      )
+    }
+
+    // The countdown runs in the browser; answers handed in after the time is up
+    // do not count and the exam is closed as of its deadline
+    const late = isLateSubmission(exam as ModuleExam)
+    const answers: ExamAnswers = late ? {} : body.answers || {}
+
+    // Only the first submission is saved, even if two arrive at the same time
+    const { data: submitted, error: updateError } = await serviceClient
+      .from('module_exams')
+      .update({
+        submitted_at: (late ? examDeadline(exam as ModuleExam) : new Date()).toISOString(),
+        answers,
+        grading_started_at: new Date().toISOString(),
+      })
+      .eq('id', examId)
+      .is('submitted_at', null)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Error saving exam answers:', updateError)
+      return NextResponse.json({ error: 'Fehler beim Speichern der Antworten' }, { status: 500 })
+    }
+
+    if (!submitted) {
+      const { data: current } = await serviceClient
+        .from('module_exams')
+        .select('*')
+        .eq('id', examId)
+        .single()
+
+      return NextResponse.json(
+        {
+          error: 'Die Probeklausur wurde bereits abgegeben',
+          exam: current ? examView(current as ModuleExam) : undefined,
+        },
+        { status: 409 }
+      )
+    }
+
+    after(() => gradeSubmittedExam(serviceClient, submitted as ModuleExam))
+
+    return NextResponse.json({ exam: examView(submitted as ModuleExam) }, { status: 202 })
+  } catch (error) {
+    console.error('Exam submit error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,251 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient as createServiceClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { fetchAllRows } from '@/lib/supabase/paging'
+import { isAIConfigured } from '@/lib/ai/provider'
+import {
+  chapterWeights,
+  collectExamCandidates,
+  drawExamItems,
+  examView,
+  exerciseSolutionIds,
+  normalizeExamConfig,
+  type ExamConfig,
+  type ExamSources,
+} from '@/lib/exam/exam-builder'
+import type { QuizQuestion } from '@/lib/supabase/types'
+
+// Exams hold their answer key, so they are only read and written with the service role
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    throw new Error('Supabase environment variables not configured')
+  }
+
+  return createServiceClient(url, key)
+}
+
+interface QuizRow {
+  learning_unit_id: string
+  questions: QuizQuestion[]
+}
+
+interface LearningUnitRow {
+  id: string
+  learning_unit_sections: { section_id: string; sequence_order: number }[]
+}
+
+/**
+ * GET /api/modules/[id]/exam
+ * The user's recent mock exams in a module, latest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    const { data: exams, error } = await getSupabaseClient()
+      .from('module_exams')
+      .select('id, started_at, submitted_at, duration_minutes, score, max_score')
+      .eq('module_id', id)
+      .eq('user_id', user.id)
+      .order('started_at', { ascending: false })
+      .limit(10)
+
+    if (error) {
+      console.error('Error fetching exams:', error)
+      return NextResponse.json({ error: 'Fehler beim Laden der Probeklausuren' }, { status: 500 })
+    }
+
+    return NextResponse.json({ exams: exams || [] })
+  } catch (error) {
+    console.error('Exam GET error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/modules/[id]/exam
+ * Start a mock exam: draw questions from all documents of the module.
+ * The countdown starts now.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const requested: Partial<ExamConfig> = await request.json().catch(() => ({}))
+    const config = normalizeExamConfig(requested)
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    // Open answers are graded by the AI; without a provider only quiz questions are asked
+    if (!isAIConfigured()) {
+      config.mix = { quiz: 1, flashcard: 0, exercise: 0 }
+    }
+
+    // Exams are written with the service role, so module access is checked here
+    const { data: moduleRow } = await supabase
+      .from('modules')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!moduleRow) {
+      return NextResponse.json({ error: 'Modul nicht gefunden' }, { status: 404 })
+    }
+
+    const { data: moduleDocuments, error: docsError } = await supabase
+      .from('module_documents')
+      .select('document_id, documents(id, title)')
+      .eq('module_id', id)
+
+    if (docsError) {
+      console.error('Error fetching module documents:', docsError)
+      return NextResponse.json({ error: 'Fehler beim Laden der Dokumente' }, { status: 500 })
+    }
+
+    const documents = (moduleDocuments || [])
+      .map((md) => md.documents as unknown as { id: string; title: string } | null)
+      .filter((doc): doc is { id: string; title: string } => doc !== null)
+    const documentIds = documents.map((doc) => doc.id)
+
+    if (documentIds.length === 0) {
+      return NextResponse.json({ error: 'Das Modul enthält keine Dokumente' }, { status: 400 })
+    }
+
+    const [
+      sections,
+      flashcards,
+      { data: units },
+    ] = await Promise.all([
+      fetchAllRows<ExamSources['sections'][number]>((from, to) =>
+        supabase
+          .from('sections')
+          .select('id, document_id, title, section_type, metadata, content')
+          .in('document_id', documentIds)
+          .order('id')
+          .range(from, to)
+      ).catch((sectionsError) => {
+        console.error('Error fetching sections:', sectionsError)
+        return null
+      }),
+      fetchAllRows<ExamSources['flashcards'][number]>((from, to) =>
+        supabase
+          .from('flashcards')
+          .select('document_id, section_id, question, answer, card_type')
+          .in('document_id', documentIds)
+          .eq('user_id', user.id)
+          .order('id')
+          .range(from, to)
+      ).catch((flashcardsError) => {
+        console.error('Error fetching flashcards:', flashcardsError)
+        return null
+      }),
+      supabase
+        .from('learning_units')
+        .select('id, learning_unit_sections(section_id, sequence_order)')
+        .in('document_id', documentIds),
+    ])
+
+    if (!sections) {
+      return NextResponse.json({ error: 'Fehler beim Laden der Sektionen' }, { status: 500 })
+    }
+
+    if (!flashcards) {
+      return NextResponse.json({ error: 'Fehler beim Laden der Karteikarten' }, { status: 500 })
+    }
+
+    const exerciseIds = sections.filter((s) => s.section_type === 'exercise').map((s) => s.id)
+    const unitRows = (units || []) as LearningUnitRow[]
+
+    const [{ data: links }, { data: quizzes }] = await Promise.all([
+      exerciseIds.length > 0
+        ? supabase
+            .from('exercise_solutions')
+            .select('exercise_section_id, solution_section_id')
+            .in('exercise_section_id', exerciseIds)
+        : Promise.resolve({ data: [] }),
+      unitRows.length > 0
+        ? supabase
+            .from('quizzes')
+            .select('learning_unit_id, questions')
+            .in('learning_unit_id', unitRows.map((u) => u.id))
+            .order('created_at', { ascending: false })
+        : Promise.resolve({ data: [] }),
+    ])
+
+    // Only the latest quiz of each learning unit
+    const latestQuizzes = new Map<string, QuizRow>()
+    for (const quiz of (quizzes || []) as QuizRow[]) {
+      if (!latestQuizzes.has(quiz.learning_unit_id)) latestQuizzes.set(quiz.learning_unit_id, quiz)
+    }
+
+    const candidates = collectExamCandidates({
+      documents,
+      sections,
+      flashcards,
+      solutionIds: exerciseSolutionIds(sections, links || []),
+      quizzes: unitRows.flatMap((unit) => {
+        const quiz = latestQuizzes.get(unit.id)
+        if (!quiz) return []
+        const first = [...unit.learning_unit_sections].sort((a, b) => a.sequence_order - b.sequence_order)[0]
+        return [{ questions: quiz.questions, fallbackSectionId: first?.section_id ?? null }]
+      }),
+    })
+
+    const items = drawExamItems(candidates, config, chapterWeights(sections))
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'Keine Fragen gefunden. Erstelle zuerst Lernkarten, verknüpfe Lösungen oder erzeuge Quizze.' },
+        { status: 400 }
+      )
+    }
+
+    const { data: exam, error: insertError } = await getSupabaseClient()
+      .from('module_exams')
+      .insert({
+        module_id: id,
+        user_id: user.id,
+        items,
+        duration_minutes: config.durationMinutes,
+        max_score: items.reduce((sum, item) => sum + item.points, 0),
+      })
+      .select()
+      .single()
+
+    if (insertError || !exam) {
+      console.error('Error creating exam:', insertError)
+      return NextResponse.json({ error: 'Fehler beim Starten der Probeklausur' }, { status: 500 })
+    }
+
+    return NextResponse.json({ exam: examView(exam) }, { status: 201 })
+  } catch (error) {
+    console.error('Exam POST error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { deckResponse, isDeckFormat } from '@/lib/flashcards/deck-export'
+import { toExchangeCards } from '@/lib/flashcards/exchange'
+import type { Flashcard } from '@/lib/supabase/types'
+
+/**
+ * GET /api/modules/[id]/flashcards?format=csv|apkg
+ * Export the user's flashcards of all documents in a module, one sub-deck
+ * per document
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const format = request.nextUrl.searchParams.get('format')
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    if (!isDeckFormat(format)) {
+      return NextResponse.json({ error: 'Ungültiges Format' }, { status: 400 })
+    }
+
+    const { data: moduleInfo, error: moduleError } = await supabase
+      .from('modules')
+      .select('id, title')
+      .eq('id', id)
+      .single()
+
+    if (moduleError || !moduleInfo) {
+      return NextResponse.json({ error: 'Modul nicht gefunden' }, { status: 404 })
+    }
+
+    const { data: moduleDocuments, error: docsError } = await supabase
+      .from('module_documents')
+      .select('document_id, documents(id, title)')
+      .eq('module_id', id)
+      .order('sequence_order', { ascending: true })
+
+    if (docsError) {
+      console.error('Error fetching module documents:', docsError)
+      return NextResponse.json({ error: 'Fehler beim Laden der Dokumente' }, { status: 500 })
+    }
+
+    const documents = (moduleDocuments || [])
+      .map((md) => md.documents as unknown as { id: string; title: string } | null)
+      .filter((doc): doc is { id: string; title: string } => doc !== null)
+    const documentIds = documents.map((doc) => doc.id)
+
+    if (documentIds.length === 0) {
+      return NextResponse.json({ error: 'Keine Lernkarten vorhanden' }, { status: 400 })
+    }
+
+    const [{ data: flashcards, error: cardsError }, { data: sections }] = await Promise.all([
+      supabase
+        .from('flashcards')
+        .select('*')
+        .in('document_id', documentIds)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('sections')
+        .select('id, title')
+        .in('document_id', documentIds),
+    ])
+
+    if (cardsError) {
+      console.error('Error fetching flashcards:', cardsError)
+      return NextResponse.json({ error: 'Fehler beim Laden der Lernkarten' }, { status: 500 })
+    }
+
+    if (!flashcards?.length) {
+      return NextResponse.json({ error: 'Keine Lernkarten vorhanden' }, { status: 400 })
+    }
+
+    const cards = documents.flatMap((doc) =>
+      toExchangeCards(
+        (flashcards as Flashcard[]).filter((card) => card.document_id === doc.id),
+        sections || [],
+        `${moduleInfo.title}::${doc.title}`
+      )
+    )
+    return deckResponse(cards, format, moduleInfo.title)
+  } catch (error) {
+    console.error('Flashcard export error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
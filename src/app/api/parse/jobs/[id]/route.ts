@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient as createServiceClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import {
+  INGESTION_STAGES,
+  isJobActive,
+  resetStagesFrom,
+  runIngestionJob,
+} from '@/lib/ingestion/job-runner'
+import type { IngestionJob, IngestionStage } from '@/lib/supabase/types'
+
+// Lazy initialization of Supabase client for service role access
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    throw new Error('Supabase environment variables not configured')
+  }
+
+  return createServiceClient(url, key)
+}
+
+// Artifacts hold the full document text and are never sent to the client
+const JOB_COLUMNS = 'id, document_id, user_id, status, stages, options, result, error, created_at, updated_at'
+
+/**
+ * GET /api/parse/jobs/[id]
+ * Get the processing status of an ingestion job
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Nicht authentifiziert' },
+        { status: 401 }
+      )
+    }
+
+    const { data: job, error } = await supabase
+      .from('ingestion_jobs')
+      .select(JOB_COLUMNS)
+      .eq('id', id)
+      .single()
+
+    if (error || !job) {
+      return NextResponse.json(
+        { error: 'Verarbeitungsauftrag nicht gefunden' },
+        { status: 404 }
+      )
+    }
+
+    const typedJob = job as IngestionJob
+
+    return NextResponse.json({
+      job: typedJob,
+      // Failed or abandoned jobs can be resumed via POST
+      resumable: typedJob.status !== 'completed' && !isJobActive(typedJob),
+    })
+
+  } catch (error) {
+    console.error('Ingestion job GET error:', error)
+    return NextResponse.json(
+      { error: 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/parse/jobs/[id]
+ * Retry an ingestion job, optionally starting again at a specific stage
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body: { stage?: IngestionStage } = await request.json().catch(() => ({}))
+
+    if (body.stage && !INGESTION_STAGES.includes(body.stage)) {
+      return NextResponse.json(
+        { error: `Ungültiger Verarbeitungsschritt: ${body.stage}` },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Nicht authentifiziert' },
+        { status: 401 }
+      )
+    }
+
+    // RLS only returns the user's own jobs
+    const { data: job, error } = await supabase
+      .from('ingestion_jobs')
+      .select(JOB_COLUMNS)
+      .eq('id', id)
+      .single()
+
+    if (error || !job) {
+      return NextResponse.json(
+        { error: 'Verarbeitungsauftrag nicht gefunden' },
+        { status: 404 }
+      )
+    }
+
+    const typedJob = job as IngestionJob
+
+    if (isJobActive(typedJob)) {
+      return NextResponse.json(
+        { error: 'Das Dokument wird bereits verarbeitet' },
+        { status: 409 }
+      )
+    }
+
+    // Without an explicit stage, resume at the first stage that did not complete
+    const stage = body.stage
+      ?? INGESTION_STAGES.find(name => typedJob.stages[name]?.status !== 'completed')
+      ?? INGESTION_STAGES[0]
+
+    const serviceClient = getSupabaseClient()
+    await resetStagesFrom(serviceClient, typedJob, stage)
+    after(() => runIngestionJob(getSupabaseClient(), typedJob.id))
+
+    return NextResponse.json({ success: true, jobId: typedJob.id, stage }, { status: 202 })
+
+  } catch (error) {
+    console.error('Ingestion job retry error:', error)
+    return NextResponse.json(
+      { error: 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { SEARCH_MIN_QUERY_LENGTH, SEARCH_RESULT_KINDS } from '@/lib/search/search-results'
+import type { SearchResult, SearchResultKind } from '@/lib/supabase/types'
+
+const DEFAULT_LIMIT = 30
+
+/** Comma-separated list parameter, null when not given */
+function listParam(searchParams: URLSearchParams, name: string): string[] | null {
+  const values = (searchParams.get(name) || '')
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean)
+  return values.length > 0 ? values : null
+}
+
+/**
+ * GET /api/search?q=...
+ * Full-text search (German stemming) over sections, the user's notes and
+ * highlights and flashcards, best matches first.
+ * Filters: module_id, document_id, section_type and kind (comma-separated), limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = (searchParams.get('q') || '').trim()
+
+    if (query.length < SEARCH_MIN_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Suchbegriff muss mindestens ${SEARCH_MIN_QUERY_LENGTH} Zeichen lang sein` },
+        { status: 400 }
+      )
+    }
+
+    const kinds = listParam(searchParams, 'kind')
+    if (kinds?.some((kind) => !SEARCH_RESULT_KINDS.includes(kind as SearchResultKind))) {
+      return NextResponse.json(
+        { error: `Ungültige Trefferart. Erlaubt: ${SEARCH_RESULT_KINDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Nicht authentifiziert' },
+        { status: 401 }
+      )
+    }
+
+    const limit = Number(searchParams.get('limit')) || DEFAULT_LIMIT
+
+    const { data, error } = await supabase.rpc('search_content', {
+      p_query: query,
+      p_module_id: searchParams.get('module_id') || null,
+      p_document_id: searchParams.get('document_id') || null,
+      p_section_types: listParam(searchParams, 'section_type'),
+      p_kinds: kinds,
+      p_limit: limit,
+    })
+
+    if (error) {
+      console.error('Error searching content:', error)
+      return NextResponse.json(
+        { error: 'Fehler bei der Suche' },
+        { status: 500 }
+      )
+    }
+
+    const results: SearchResult[] = data || []
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('Error in GET /api/search:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient as createServiceClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import {
+  DEFAULT_VOICE_SETTINGS,
+  MAX_TTS_TEXT_LENGTH,
+  isElevenLabsConfigured,
+  readSpeechChunks,
+  synthesizeSpeech,
+  type VoiceSettings,
+} from '@/lib/tts/elevenlabs'
+import {
+  cacheSpeech,
+  concatChunks,
+  getCachedAlignment,
+  getCachedAudio,
+  ttsCachePath,
+} from '@/lib/tts/audio-cache'
+import { appendAlignment, emptyAlignment, type CharacterAlignment } from '@/lib/tts/alignment'
+
+// Lazy initialization of Supabase client for service role access
+function getSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) {
+    throw new Error('Supabase environment variables not configured')
+  }
+
+  return createServiceClient(url, key)
+}
+
+const AUDIO_HEADERS = {
+  'Content-Type': 'audio/mpeg',
+  'Cache-Control': 'private, max-age=86400',
+}
+
+const TIMESTAMP_HEADERS = {
+  'Content-Type': 'application/x-ndjson',
+  'Cache-Control': 'private, max-age=86400',
+}
+
+const encoder = new TextEncoder()
+
+/**
+ * One line of the timestamp stream: base64 MP3 chunk and the timestamps
+ * of the characters it speaks (absolute times within the paragraph)
+ */
+function speechLine(audio: Uint8Array, alignment: CharacterAlignment | null): string {
+  return JSON.stringify({
+    audio: Buffer.from(audio).toString('base64'),
+    alignment,
+  }) + '\n'
+}
+
+function toUnitInterval(value: unknown, fallback: number): number {
+  return typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback
+}
+
+/**
+ * POST /api/tts
+ * Synthesize one paragraph with ElevenLabs, served from the storage cache when available.
+ * Returns MP3, or with `timestamps: true` newline-delimited JSON with audio
+ * chunks and character timestamps for read-along highlighting.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Nicht authentifiziert' }, { status: 401 })
+    }
+
+    const { text, voiceId, modelId, stability, similarityBoost, timestamps } = await request.json()
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json({ error: 'Text ist erforderlich' }, { status: 400 })
+    }
+
+    if (text.length > MAX_TTS_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `Text ist zu lang (max. ${MAX_TTS_TEXT_LENGTH} Zeichen)` },
+        { status: 400 }
+      )
+    }
+
+    // Client reads 503 as "use the browser voice instead"
+    if (!isElevenLabsConfigured()) {
+      return NextResponse.json({ error: 'Sprachausgabe ist nicht konfiguriert' }, { status: 503 })
+    }
+
+    const settings: VoiceSettings = {
+      voiceId: typeof voiceId === 'string' && /^[A-Za-z0-9]+$/.test(voiceId)
+        ? voiceId
+        : DEFAULT_VOICE_SETTINGS.voiceId,
+      modelId: typeof modelId === 'string' && /^[a-z0-9_]+$/.test(modelId)
+        ? modelId
+        : DEFAULT_VOICE_SETTINGS.modelId,
+      stability: toUnitInterval(stability, DEFAULT_VOICE_SETTINGS.stability),
+      similarityBoost: toUnitInterval(similarityBoost, DEFAULT_VOICE_SETTINGS.similarityBoost),
+    }
+
+    const serviceClient = getSupabaseClient()
+    const cachePath = ttsCachePath(text, settings)
+
+    const withTimestamps = timestamps === true
+
+    const cached = await getCachedAudio(serviceClient, cachePath)
+    if (cached && !withTimestamps) {
+      return new Response(cached, {
+        headers: { ...AUDIO_HEADERS, 'X-TTS-Cache': 'hit' },
+      })
+    }
+    if (cached) {
+      // Audio cached without timestamps is generated again
+      const alignment = await getCachedAlignment(serviceClient, cachePath)
+      if (alignment) {
+        return new Response(speechLine(new Uint8Array(await cached.arrayBuffer()), alignment), {
+          headers: { ...TIMESTAMP_HEADERS, 'X-TTS-Cache': 'hit' },
+        })
+      }
+    }
+
+    const response = await synthesizeSpeech(text.trim(), settings, request.signal)
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}))
+      console.error('ElevenLabs API error:', errorData)
+      return NextResponse.json(
+        { error: errorData.detail?.message || `API Fehler: ${response.status}` },
+        { status: response.status === 401 || response.status === 429 ? 503 : 502 }
+      )
+    }
+
+    // Stream to the client while keeping a copy for the cache
+    const chunks = readSpeechChunks(response.body)
+    const audioChunks: Uint8Array[] = []
+    const alignment = emptyAlignment()
+    let finish: (complete: boolean) => void = () => {}
+    const finished = new Promise<boolean>((resolve) => { finish = resolve })
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await chunks.next()
+          if (done) {
+            controller.close()
+            finish(true)
+            return
+          }
+
+          const alignedBefore = alignment.characters.length
+          audioChunks.push(value.audio)
+          if (value.alignment) appendAlignment(alignment, value.alignment)
+
+          controller.enqueue(withTimestamps
+            ? encoder.encode(speechLine(value.audio, value.alignment && {
+                characters: alignment.characters.slice(alignedBefore),
+                character_start_times_seconds: alignment.character_start_times_seconds.slice(alignedBefore),
+                character_end_times_seconds: alignment.character_end_times_seconds.slice(alignedBefore),
+              }))
+            : value.audio)
+        } catch (error) {
+          finish(false)
+          controller.error(error)
+        }
+      },
+      cancel() {
+        finish(false)
+      },
+    })
+
+    after(async () => {
+      // Only complete audio is cached; aborted playback would leave a truncated file
+      if (!(await finished) || audioChunks.length === 0) return
+      try {
+        await cacheSpeech(serviceClient, cachePath, concatChunks(audioChunks), alignment)
+      } catch (error) {
+        console.error('TTS cache error:', error)
+      }
+    })
+
+    return new Response(stream, {
+      headers: { ...(withTimestamps ? TIMESTAMP_HEADERS : AUDIO_HEADERS), 'X-TTS-Cache': 'miss' },
+    })
+  } catch (error) {
+    console.error('TTS error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ein unerwarteter Fehler ist aufgetreten' },
+      { status: 500 }
+    )
+  }
+}
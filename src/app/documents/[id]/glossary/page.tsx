@@ -0,0 +1,55 @@
+import { createClient } from '@/lib/supabase/server'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, BookA } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { GlossaryView } from '@/components/glossary/GlossaryView'
+
+export const dynamic = 'force-dynamic'
+
+interface Props {
+  params: Promise<{ id: string }>
+}
+
+export default async function DocumentGlossaryPage({ params }: Props) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data: document, error: docError } = await supabase
+    .from('documents')
+    .select('id, title')
+    .eq('id', id)
+    .single()
+
+  if (docError || !document) {
+    notFound()
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background via-background to-muted/20">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <header className="mb-8">
+          <Link href={`/documents/${id}`}>
+            <Button variant="ghost" size="sm" className="mb-4">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {document.title}
+            </Button>
+          </Link>
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-blue-700 to-blue-800 flex items-center justify-center shadow-lg shadow-blue-800/25">
+              <BookA className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Glossar</h1>
+              <p className="text-muted-foreground">
+                Begriffe aus den Definitionen des Skripts
+              </p>
+            </div>
+          </div>
+        </header>
+
+        <GlossaryView scope={{ documentId: id }} />
+      </div>
+    </div>
+  )
+}
@@ -6,10 +6,12 @@ export const dynamic = 'force-dynamic'
 
 interface Props {
   params: Promise<{ id: string }>
+  searchParams: Promise<{ section?: string; offset?: string }>
 }
 
-export default async function DocumentPage({ params }: Props) {
+export default async function DocumentPage({ params, searchParams }: Props) {
   const { id } = await params
+  const { section, offset } = await searchParams
   const supabase = await createClient()
 
   // Fetch document
@@ -40,6 +42,8 @@ export default async function DocumentPage({ params }: Props) {
     <DocumentReader
       document={document}
       sections={sections || []}
+      initialSectionId={section}
+      initialOffset={offset ? Number.parseInt(offset, 10) || 0 : undefined}
     />
   )
 }
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter, useParams } from 'next/navigation'
+import { ArrowLeft, GraduationCap, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ExamSetup } from '@/components/modules/exam/ExamSetup'
+import { ExamRunner } from '@/components/modules/exam/ExamRunner'
+import { ExamReport } from '@/components/modules/exam/ExamReport'
+import { useModule } from '@/hooks/useModules'
+import { useModuleExam } from '@/hooks/useModuleExam'
+import { DEFAULT_EXAM_CONFIG, normalizeExamConfig, type ExamConfig } from '@/lib/exam/exam-builder'
+
+export default function ModuleExamPage() {
+  const router = useRouter()
+  const params = useParams()
+  const moduleId = params.id as string
+
+  const { module } = useModule(moduleId)
+  const {
+    history,
+    exam,
+    isGrading,
+    isLoading,
+    isStarting,
+    isSubmitting,
+    error,
+    startExam,
+    openExam,
+    submitExam,
+    closeExam,
+  } = useModuleExam(moduleId)
+
+  const [config, setConfig] = useState<ExamConfig>(DEFAULT_EXAM_CONFIG)
+
+  const handleStart = async () => {
+    const normalized = normalizeExamConfig(config)
+    setConfig(normalized)
+    await startExam(normalized)
+  }
+
+  // While the exam runs there is no navigation, in particular not to the reader
+  if (exam && !exam.submitted_at) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 pb-8 max-w-3xl">
+          <ExamRunner exam={exam} onSubmit={submitExam} isSubmitting={isSubmitting} />
+          {error && <p className="mt-4 text-sm text-destructive text-center">{error}</p>}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background via-background to-muted/20">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        {exam && isGrading ? (
+          <div className="flex flex-col items-center gap-3 py-16 text-center">
+            <Loader2 className="w-8 h-8 animate-spin text-purple-500" />
+            <p className="font-medium">Deine Antworten sind abgegeben</p>
+            <p className="text-sm text-muted-foreground">
+              Die offenen Antworten werden bewertet, das kann einige Minuten dauern.
+            </p>
+          </div>
+        ) : exam ? (
+          <ExamReport exam={exam} onClose={closeExam} />
+        ) : (
+          <>
+            <header className="mb-8">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => router.push(`/modules/${moduleId}`)}
+                className="mb-4"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                {module?.title ?? 'Modul'}
+              </Button>
+              <div className="flex items-center gap-3">
+                <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center shadow-lg shadow-purple-500/25">
+                  <GraduationCap className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-3xl font-bold text-foreground">Probeklausur</h1>
+                  <p className="text-muted-foreground">
+                    Fragen aus dem ganzen Modul unter Zeitdruck, ohne Skript
+                  </p>
+                </div>
+              </div>
+            </header>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <ExamSetup
+                config={config}
+                onChange={setConfig}
+                onStart={handleStart}
+                isStarting={isStarting}
+                history={history}
+                onOpen={openExam}
+              />
+            )}
+          </>
+        )}
+
+        {error && <p className="mt-4 text-sm text-destructive text-center">{error}</p>}
+      </div>
+    </div>
+  )
+}
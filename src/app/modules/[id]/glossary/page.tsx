@@ -0,0 +1,46 @@
+'use client'
+
+import { useRouter, useParams } from 'next/navigation'
+import { ArrowLeft, BookA } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { GlossaryView } from '@/components/glossary/GlossaryView'
+import { useModule } from '@/hooks/useModules'
+
+export default function ModuleGlossaryPage() {
+  const router = useRouter()
+  const params = useParams()
+  const moduleId = params.id as string
+
+  const { module } = useModule(moduleId)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background via-background to-muted/20">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <header className="mb-8">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.push(`/modules/${moduleId}`)}
+            className="mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {module?.title ?? 'Modul'}
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-blue-700 to-blue-800 flex items-center justify-center shadow-lg shadow-blue-800/25">
+              <BookA className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Glossar</h1>
+              <p className="text-muted-foreground">
+                Begriffe aus allen Skripten des Moduls
+              </p>
+            </div>
+          </div>
+        </header>
+
+        <GlossaryView scope={{ moduleId }} />
+      </div>
+    </div>
+  )
+}
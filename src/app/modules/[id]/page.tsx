@@ -15,6 +15,8 @@ import {
   Globe,
   Lock,
   ExternalLink,
+  GraduationCap,
+  BookA,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
@@ -241,19 +243,41 @@ export default function ModuleDetailPage() {
                 Dokumente
               </h2>
             </div>
-            {canEdit && (
-              <Button
-                size="sm"
-                onClick={() => {
-                  // TODO: Open document selector modal
-                  alert('Dokument-Auswahl kommt bald!')
-                }}
-                className="bg-purple-600 hover:bg-purple-700"
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Hinzufügen
-              </Button>
-            )}
+            <div className="flex gap-2">
+              {module.documents.length > 0 && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => router.push(`/modules/${moduleId}/exam`)}
+                >
+                  <GraduationCap className="w-4 h-4 mr-2" />
+                  Probeklausur
+                </Button>
+              )}
+              {module.documents.length > 0 && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => router.push(`/modules/${moduleId}/glossary`)}
+                >
+                  <BookA className="w-4 h-4 mr-2" />
+                  Glossar
+                </Button>
+              )}
+              {canEdit && (
+                <Button
+                  size="sm"
+                  onClick={() => {
+                    // TODO: Open document selector modal
+                    alert('Dokument-Auswahl kommt bald!')
+                  }}
+                  className="bg-purple-600 hover:bg-purple-700"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Hinzufügen
+                </Button>
+              )}
+            </div>
           </div>
 
           {module.documents.length === 0 ? (
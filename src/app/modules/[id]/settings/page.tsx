@@ -15,6 +15,7 @@ import {
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 import { useModule } from '@/hooks/useModules'
+import { QuickPromptsSettings } from '@/components/modules/QuickPromptsSettings'
 import type { ModuleRole } from '@/lib/supabase/types'
 
 const roleConfig: Record<ModuleRole, { label: string; icon: typeof Crown; color: string }> = {
@@ -285,6 +286,9 @@ export default function ModuleSettingsPage() {
           </div>
         </section>
 
+        {/* AI assistant quick prompts */}
+        <QuickPromptsSettings moduleId={moduleId} />
+
         {/* Role Explanation */}
         <section className="mt-6 p-4 rounded-lg bg-muted/30 text-sm text-muted-foreground">
           <p className="font-medium text-foreground mb-2">Rollen-Übersicht:</p>
@@ -0,0 +1,27 @@
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { Navbar } from '@/components/layout/Navbar'
+
+export const dynamic = 'force-dynamic'
+
+export default async function ReviewLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar userEmail={user.email} />
+      <main className="flex-1">
+        {children}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { CalendarCheck } from 'lucide-react'
+import { DailyReview } from '@/components/flashcards'
+
+export const dynamic = 'force-dynamic'
+
+export default function ReviewPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <header className="mb-8 flex items-center gap-3">
+        <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-teal-500 to-teal-600 flex items-center justify-center shadow-lg shadow-teal-500/25">
+          <CalendarCheck className="w-6 h-6 text-white" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Heute lernen</h1>
+          <p className="text-muted-foreground">
+            Fällige Lernkarten aus allen Skripten und Modulen
+          </p>
+        </div>
+      </header>
+
+      <DailyReview />
+    </div>
+  )
+}
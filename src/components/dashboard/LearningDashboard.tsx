@@ -1,5 +1,6 @@
 'use client'
 
+import Link from 'next/link'
 import { motion } from 'framer-motion'
 import {
   BookOpen,
@@ -12,6 +13,9 @@ import {
   Clock,
   Flame,
   Target,
+  CalendarCheck,
+  ArrowRight,
+  PenTool,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useDashboardStats } from '@/hooks/useDashboardStats'
@@ -107,6 +111,9 @@ function ProgressRing({ progress, size = 80, strokeWidth = 8 }: ProgressRingProp
   )
 }
 
+// Chapters listed in the exercise overview
+const MAX_EXERCISE_CHAPTERS = 6
+
 /**
  * Learning Dashboard component showing statistics and progress
  */
@@ -127,6 +134,11 @@ export function LearningDashboard() {
     return null // Silently fail
   }
 
+  // Chapters worked on come first
+  const exerciseChapters = [...stats.exercises.chapters]
+    .sort((a, b) => Number(b.attempted > 0) - Number(a.attempted > 0))
+    .slice(0, MAX_EXERCISE_CHAPTERS)
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -245,6 +257,64 @@ export function LearningDashboard() {
               </span>
             </div>
           )}
+          <Link
+            href="/review"
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-teal-50 dark:bg-teal-950/30 border border-teal-200 dark:border-teal-800 hover:bg-teal-100 dark:hover:bg-teal-900/40 transition-colors"
+          >
+            <CalendarCheck className="w-4 h-4 text-teal-600 dark:text-teal-400" />
+            <span className="text-sm font-medium">Heute lernen</span>
+            <ArrowRight className="w-4 h-4 text-teal-600 dark:text-teal-400" />
+          </Link>
+        </motion.div>
+      )}
+
+      {/* Exercise self-test per chapter */}
+      {stats.exercises.total > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.6 }}
+          className="rounded-xl border p-4 space-y-3"
+        >
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="text-sm font-semibold flex items-center gap-2">
+              <PenTool className="w-4 h-4 text-orange-500" />
+              Übungsaufgaben
+            </h3>
+            <span className="text-xs text-muted-foreground">
+              {stats.exercises.solved} von {stats.exercises.total} gelöst · {stats.exercises.attempted} versucht
+            </span>
+          </div>
+          <div className="space-y-2">
+            {exerciseChapters.map((chapter) => (
+              <Link
+                key={`${chapter.documentId}-${chapter.chapter}`}
+                href={`/documents/${chapter.documentId}`}
+                className="block rounded-lg px-2 py-1.5 -mx-2 hover:bg-muted/50 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-4 text-sm">
+                  <span className="truncate">
+                    <span className="text-muted-foreground">{chapter.documentTitle} · </span>
+                    {chapter.chapterTitle}
+                  </span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {chapter.solved}/{chapter.total}
+                    {chapter.attempted > chapter.solved && ` (${chapter.attempted} versucht)`}
+                  </span>
+                </div>
+                <div className="mt-1 h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden flex">
+                  <div
+                    className="h-full bg-green-500"
+                    style={{ width: `${(chapter.solved / chapter.total) * 100}%` }}
+                  />
+                  <div
+                    className="h-full bg-amber-400"
+                    style={{ width: `${((chapter.attempted - chapter.solved) / chapter.total) * 100}%` }}
+                  />
+                </div>
+              </Link>
+            ))}
+          </div>
         </motion.div>
       )}
     </motion.div>
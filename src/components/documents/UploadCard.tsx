@@ -12,6 +12,10 @@ import {
   Brain,
   Cloud,
   FileSearch,
+  Image as ImageIcon,
+  Search,
+  BookA,
+  XCircle,
 } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { GlassCard } from '@/components/ui/glass-card'
@@ -19,19 +23,51 @@ import { Button } from '@/components/ui/button'
 import { LinearProgress } from '@/components/ui/circular-progress'
 import { toast } from 'sonner'
 import { scaleIn, fadeInUp } from '@/lib/animations'
+import type { IngestionJob, IngestionStage, IngestionStageStatus } from '@/lib/supabase/types'
+import type { StructurerMode } from '@/lib/ai/pdf-processor'
 
 interface UploadStep {
   id: string
   label: string
   icon: React.ReactNode
-  status: 'pending' | 'active' | 'completed'
+  status: 'pending' | 'active' | 'completed' | 'error'
 }
 
+// How often the ingestion job status is polled while the server processes the PDF
+const POLL_INTERVAL_MS = 1500
+
+// Server-side stages shown after the client-side upload, in order
+const PROCESSING_STEPS: { id: IngestionStage; label: string; icon: React.ReactNode }[] = [
+  { id: 'extract', label: 'Extrahieren', icon: <FileText className="w-4 h-4" /> },
+  { id: 'images', label: 'Bilder', icon: <ImageIcon className="w-4 h-4" /> },
+  { id: 'structure', label: 'KI-Analyse', icon: <Brain className="w-4 h-4" /> },
+  { id: 'persist', label: 'Speichern', icon: <FileSearch className="w-4 h-4" /> },
+  { id: 'glossary', label: 'Glossar', icon: <BookA className="w-4 h-4" /> },
+  { id: 'index', label: 'Suchindex', icon: <Search className="w-4 h-4" /> },
+]
+
+const STRUCTURER_OPTIONS: { id: StructurerMode; label: string; description: string; icon: React.ReactNode }[] = [
+  {
+    id: 'ai',
+    label: 'KI-Strukturierung',
+    description: 'Kapitel und Elemente werden von der KI erkannt',
+    icon: <Sparkles className="w-3 h-3" />,
+  },
+  {
+    id: 'rules',
+    label: 'Regelbasiert (offline)',
+    description: 'Nummerierte Kapitel, Aufgaben und Lösungen werden ohne KI erkannt',
+    icon: <FileText className="w-3 h-3" />,
+  },
+]
+
 export function UploadCard() {
   const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
-  const [currentStep, setCurrentStep] = useState(0)
+  const [isUploaded, setIsUploaded] = useState(false)
+  const [job, setJob] = useState<IngestionJob | null>(null)
+  const [structurer, setStructurer] = useState<StructurerMode>('ai')
   const router = useRouter()
 
   // Lazy initialize supabase client only on client side
@@ -40,33 +76,115 @@ export function UploadCard() {
     return createClient()
   }, [])
 
+  const toStepStatus = (status: IngestionStageStatus | undefined): UploadStep['status'] => {
+    if (status === 'completed') return 'completed'
+    if (status === 'running') return 'active'
+    if (status === 'error') return 'error'
+    return 'pending'
+  }
+
   const uploadSteps: UploadStep[] = [
     {
       id: 'upload',
       label: 'Hochladen',
       icon: <Cloud className="w-4 h-4" />,
-      status: currentStep > 0 ? 'completed' : currentStep === 0 && isUploading ? 'active' : 'pending',
-    },
-    {
-      id: 'process',
-      label: 'Verarbeiten',
-      icon: <FileSearch className="w-4 h-4" />,
-      status: currentStep > 1 ? 'completed' : currentStep === 1 ? 'active' : 'pending',
-    },
-    {
-      id: 'extract',
-      label: 'Extrahieren',
-      icon: <FileText className="w-4 h-4" />,
-      status: currentStep > 2 ? 'completed' : currentStep === 2 ? 'active' : 'pending',
-    },
-    {
-      id: 'ai',
-      label: 'KI-Analyse',
-      icon: <Brain className="w-4 h-4" />,
-      status: currentStep > 3 ? 'completed' : currentStep === 3 ? 'active' : 'pending',
+      status: isUploaded ? 'completed' : isUploading ? 'active' : 'pending',
     },
+    ...PROCESSING_STEPS.map((step) => ({
+      ...step,
+      label: step.id === 'structure' && structurer === 'rules' ? 'Strukturieren' : step.label,
+      status: toStepStatus(job?.stages[step.id]?.status),
+    })),
   ]
 
+  const isDone = job?.status === 'completed'
+
+  const resetUpload = () => {
+    setIsUploading(false)
+    setUploadProgress(0)
+    setIsUploaded(false)
+    setJob(null)
+  }
+
+  /**
+   * Poll the ingestion job until it completes or fails
+   */
+  const waitForJob = async (jobId: string): Promise<IngestionJob> => {
+    while (true) {
+      const response = await fetch(`/api/parse/jobs/${jobId}`)
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.error || 'Status der Verarbeitung konnte nicht geladen werden')
+      }
+
+      const { job: current }: { job: IngestionJob } = await response.json()
+      setJob(current)
+
+      // Upload is the first 40%, every completed server stage adds its share
+      const completedStages = PROCESSING_STEPS.filter(
+        (step) => current.stages[step.id]?.status === 'completed'
+      ).length
+      setUploadProgress(40 + Math.round((completedStages / PROCESSING_STEPS.length) * 60))
+
+      if (current.status === 'completed' || current.status === 'error') {
+        return current
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+    }
+  }
+
+  /**
+   * Follow a job to the end and open the document, offering a retry on failure
+   */
+  const followJob = async (jobId: string, documentId: string) => {
+    const finished = await waitForJob(jobId)
+
+    if (finished.status === 'error') {
+      toast.error(finished.error || 'Fehler beim Verarbeiten der PDF', {
+        duration: Infinity,
+        action: {
+          label: 'Erneut versuchen',
+          onClick: () => retryJob(jobId, documentId),
+        },
+        cancel: {
+          label: 'Abbrechen',
+          onClick: resetUpload,
+        },
+      })
+      return
+    }
+
+    toast.success('Skript erfolgreich hochgeladen!')
+    router.refresh()
+
+    // Navigate to the document
+    setTimeout(() => {
+      router.push(`/documents/${documentId}`)
+    }, 800)
+  }
+
+  const retryJob = async (jobId: string, documentId: string) => {
+    try {
+      const response = await fetch(`/api/parse/jobs/${jobId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.error || 'Verarbeitung konnte nicht neu gestartet werden')
+      }
+
+      await followJob(jobId, documentId)
+    } catch (error) {
+      console.error('Retry error:', error)
+      toast.error(error instanceof Error ? error.message : 'Fehler beim Verarbeiten der PDF')
+      resetUpload()
+    }
+  }
+
   const handleUpload = async (file: File) => {
     if (!supabase) return
 
@@ -82,7 +200,8 @@ export function UploadCard() {
 
     setIsUploading(true)
     setUploadProgress(10)
-    setCurrentStep(0)
+    setIsUploaded(false)
+    setJob(null)
 
     try {
       const { data: { user } } = await supabase.auth.getUser()
@@ -94,7 +213,7 @@ export function UploadCard() {
       const fileExt = file.name.split('.').pop()
       const fileName = `${user.id}/${Date.now()}.${fileExt}`
 
-      setUploadProgress(30)
+      setUploadProgress(20)
 
       // Upload to Supabase Storage
       const { error: uploadError } = await supabase.storage
@@ -103,8 +222,7 @@ export function UploadCard() {
 
       if (uploadError) throw uploadError
 
-      setUploadProgress(50)
-      setCurrentStep(1)
+      setUploadProgress(30)
 
       // Create document record
       const { data: document, error: dbError } = await supabase
@@ -120,14 +238,11 @@ export function UploadCard() {
 
       if (dbError) throw dbError
 
-      setUploadProgress(70)
-      setCurrentStep(2)
-
-      // Parse PDF and extract text
+      // Queue background processing on the server
       const response = await fetch('/api/parse', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ documentId: document.id, storagePath: fileName }),
+        body: JSON.stringify({ documentId: document.id, storagePath: fileName, structurer }),
       })
 
       if (!response.ok) {
@@ -135,29 +250,17 @@ export function UploadCard() {
         throw new Error(error.message || 'Fehler beim Verarbeiten der PDF')
       }
 
-      setUploadProgress(90)
-      setCurrentStep(3)
-
-      // Small delay to show AI step
-      await new Promise(resolve => setTimeout(resolve, 500))
+      const { jobId } = await response.json()
 
-      setUploadProgress(100)
-      setCurrentStep(4)
+      setUploadProgress(40)
+      setIsUploaded(true)
 
-      toast.success('Skript erfolgreich hochgeladen!')
-      router.refresh()
-
-      // Navigate to the document
-      setTimeout(() => {
-        router.push(`/documents/${document.id}`)
-      }, 800)
+      await followJob(jobId, document.id)
 
     } catch (error) {
       console.error('Upload error:', error)
       toast.error(error instanceof Error ? error.message : 'Fehler beim Hochladen')
-      setIsUploading(false)
-      setUploadProgress(0)
-      setCurrentStep(0)
+      resetUpload()
     }
   }
 
@@ -243,7 +346,7 @@ export function UploadCard() {
                     animate={{ scale: [1, 1.05, 1] }}
                     transition={{ duration: 2, repeat: Infinity }}
                   >
-                    {currentStep === 4 ? (
+                    {isDone ? (
                       <CheckCircle2 className="w-10 h-10 text-green-500" />
                     ) : (
                       <Loader2 className="w-10 h-10 text-brand-400 animate-spin" />
@@ -259,6 +362,8 @@ export function UploadCard() {
                         className={`w-10 h-10 rounded-xl flex items-center justify-center transition-colors ${
                           step.status === 'completed'
                             ? 'bg-green-500/20 text-green-500'
+                            : step.status === 'error'
+                            ? 'bg-red-500/20 text-red-500'
                             : step.status === 'active'
                             ? 'bg-brand-500/20 text-brand-400'
                             : 'bg-muted/50 text-muted-foreground'
@@ -268,6 +373,8 @@ export function UploadCard() {
                       >
                         {step.status === 'completed' ? (
                           <CheckCircle2 className="w-5 h-5" />
+                        ) : step.status === 'error' ? (
+                          <XCircle className="w-5 h-5" />
                         ) : step.status === 'active' ? (
                           <Loader2 className="w-5 h-5 animate-spin" />
                         ) : (
@@ -277,6 +384,8 @@ export function UploadCard() {
                       <span className={`text-xs font-medium ${
                         step.status === 'completed'
                           ? 'text-green-500'
+                          : step.status === 'error'
+                          ? 'text-red-500'
                           : step.status === 'active'
                           ? 'text-brand-400'
                           : 'text-muted-foreground'
@@ -284,7 +393,7 @@ export function UploadCard() {
                         {step.label}
                       </span>
                       {index < uploadSteps.length - 1 && (
-                        <div className="absolute" style={{ left: `${(index + 0.5) * 25}%`, top: '50%' }}>
+                        <div className="absolute" style={{ left: `${(index + 0.5) * (100 / uploadSteps.length)}%`, top: '50%' }}>
                         </div>
                       )}
                     </div>
@@ -332,16 +441,26 @@ export function UploadCard() {
                   Ziehe eine PDF-Datei hierher oder wähle eine Datei aus
                 </p>
 
-                {/* Feature badges */}
-                <div className="flex flex-wrap justify-center gap-2 mb-6">
-                  <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-brand-500/10 text-brand-400 text-xs font-medium">
-                    <Sparkles className="w-3 h-3" />
-                    KI-Strukturierung
-                  </span>
-                  <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-muted/50 text-muted-foreground text-xs font-medium">
-                    <FileText className="w-3 h-3" />
-                    Automatische Kapitel
-                  </span>
+                {/* Structurer selection */}
+                <div className="flex flex-wrap justify-center gap-2 mb-6" role="radiogroup" aria-label="Strukturierung">
+                  {STRUCTURER_OPTIONS.map((option) => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      role="radio"
+                      aria-checked={structurer === option.id}
+                      title={option.description}
+                      onClick={() => setStructurer(option.id)}
+                      className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                        structurer === option.id
+                          ? 'bg-brand-500/10 text-brand-400'
+                          : 'bg-muted/50 text-muted-foreground hover:text-foreground'
+                      }`}
+                    >
+                      {option.icon}
+                      {option.label}
+                    </button>
+                  ))}
                 </div>
 
                 <label className="cursor-pointer">
@@ -0,0 +1,352 @@
+'use client'
+
+import { useState, useCallback, useMemo } from 'react'
+import Link from 'next/link'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  CalendarCheck,
+  Check,
+  Clock,
+  ExternalLink,
+  Folder,
+  GraduationCap,
+  RotateCcw,
+  Trophy,
+  X,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { GlassCard } from '@/components/ui/glass-card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useDailyReview } from '@/hooks/useDailyReview'
+import { getSchedule, previewIntervals } from '@/lib/flashcards/scheduler'
+import { FlashcardViewer } from './FlashcardViewer'
+import type { FlashcardWithSource, ReviewGrade } from '@/lib/supabase/types'
+
+type SessionState = 'idle' | 'learning' | 'completed'
+
+interface SessionStats {
+  total: number
+  correct: number
+  incorrect: number
+}
+
+/**
+ * Link from a card to the section it was created from
+ */
+function sourceHref(card: FlashcardWithSource): string {
+  const base = `/documents/${card.document_id}`
+  return card.section_id ? `${base}?section=${card.section_id}` : base
+}
+
+function startOfTomorrow(): Date {
+  const tomorrow = new Date()
+  tomorrow.setHours(24, 0, 0, 0)
+  return tomorrow
+}
+
+/**
+ * "Heute lernen": one session with today's cards from all documents
+ */
+export function DailyReview() {
+  const {
+    queue,
+    dueCount,
+    newCount,
+    doneToday,
+    limits,
+    updateLimits,
+    isLoading,
+    error,
+    updateReview,
+    refetch,
+  } = useDailyReview()
+
+  const [sessionState, setSessionState] = useState<SessionState>('idle')
+  const [sessionCards, setSessionCards] = useState<FlashcardWithSource[]>([])
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [stats, setStats] = useState<SessionStats>({ total: 0, correct: 0, incorrect: 0 })
+
+  // Modules (or documents outside a module) in today's session
+  const sources = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const card of queue) {
+      const title = card.module_title ?? card.document_title
+      counts.set(title, (counts.get(title) || 0) + 1)
+    }
+    return [...counts.entries()]
+  }, [queue])
+
+  const queuedNew = queue.filter((c) => c.state === 'new').length
+
+  // The queue is fixed for the session, so grading does not reshuffle it;
+  // only cards due again today (relearning after "Nochmal") are added at the end
+  const startSession = useCallback(() => {
+    setSessionCards(queue)
+    setCurrentIndex(0)
+    setStats({ total: 0, correct: 0, incorrect: 0 })
+    setSessionState('learning')
+  }, [queue])
+
+  const handleGrade = useCallback(async (grade: ReviewGrade) => {
+    const card = sessionCards[currentIndex]
+    const updated = await updateReview(card.id, grade)
+
+    // Not saved: stay on the card so it can be graded again
+    if (!updated) return
+
+    setStats((prev) => grade === 'again'
+      ? { ...prev, total: prev.total + 1, incorrect: prev.incorrect + 1 }
+      : { ...prev, total: prev.total + 1, correct: prev.correct + 1 })
+
+    const dueToday = updated.next_review !== null && new Date(updated.next_review) < startOfTomorrow()
+    const remaining = dueToday ? [...sessionCards, updated] : sessionCards
+    if (dueToday) setSessionCards(remaining)
+
+    if (currentIndex < remaining.length - 1) {
+      setCurrentIndex((prev) => prev + 1)
+    } else {
+      setSessionState('completed')
+    }
+  }, [sessionCards, currentIndex, updateReview])
+
+  const handleReset = useCallback(() => {
+    setSessionState('idle')
+    setSessionCards([])
+    setCurrentIndex(0)
+    refetch()
+  }, [refetch])
+
+  const intervals = useMemo(() => {
+    const card = sessionCards[currentIndex]
+    return card ? previewIntervals(getSchedule(card)) : undefined
+  }, [sessionCards, currentIndex])
+
+  if (isLoading && sessionState === 'idle') {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin w-8 h-8 border-2 border-teal-500 border-t-transparent rounded-full" />
+      </div>
+    )
+  }
+
+  if (error && sessionState === 'idle') {
+    return (
+      <GlassCard className="p-8 text-center">
+        <p className="text-red-500 text-sm mb-4">{error}</p>
+        <Button variant="outline" onClick={refetch}>
+          Erneut versuchen
+        </Button>
+      </GlassCard>
+    )
+  }
+
+  // Learning session
+  if (sessionState === 'learning' && sessionCards.length > 0) {
+    const currentCard = sessionCards[currentIndex]
+
+    return (
+      <div className="space-y-6">
+        {/* Header with progress */}
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={handleReset}>
+            <X className="w-4 h-4 mr-2" />
+            Beenden
+          </Button>
+
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Check className="w-4 h-4 text-green-500" />
+              <span className="text-green-500 font-medium">{stats.correct}</span>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <X className="w-4 h-4 text-red-500" />
+              <span className="text-red-500 font-medium">{stats.incorrect}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Progress bar */}
+        <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
+          <motion.div
+            className="h-full bg-gradient-to-r from-teal-500 to-teal-600"
+            initial={{ width: 0 }}
+            animate={{ width: `${((currentIndex + 1) / sessionCards.length) * 100}%` }}
+            transition={{ duration: 0.3 }}
+          />
+        </div>
+
+        {/* Flashcard */}
+        <AnimatePresence mode="wait">
+          <motion.div
+            key={currentCard.id}
+            initial={{ opacity: 0, x: 50 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: -50 }}
+            transition={{ duration: 0.2 }}
+          >
+            <FlashcardViewer
+              flashcard={currentCard}
+              onGrade={handleGrade}
+              intervals={intervals}
+              currentIndex={currentIndex}
+              totalCount={sessionCards.length}
+              showNavigation={false}
+            />
+          </motion.div>
+        </AnimatePresence>
+
+        {/* Grade could not be saved: the card stays until it is */}
+        {error && (
+          <p className="text-center text-sm text-red-500">{error}</p>
+        )}
+
+        {/* Source of the card */}
+        <div className="max-w-xl mx-auto flex items-center justify-between gap-3 text-sm text-muted-foreground">
+          <span className="truncate">
+            {currentCard.module_title && (
+              <span className="font-medium text-foreground">{currentCard.module_title} · </span>
+            )}
+            {currentCard.document_title}
+            {currentCard.section_title && ` · ${currentCard.section_title}`}
+          </span>
+          <Link
+            href={sourceHref(currentCard)}
+            target="_blank"
+            className="flex items-center gap-1 shrink-0 text-teal-600 dark:text-teal-400 hover:underline"
+          >
+            Im Skript öffnen
+            <ExternalLink className="w-3.5 h-3.5" />
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  // Completion screen
+  if (sessionState === 'completed') {
+    const percentage = stats.total > 0
+      ? Math.round((stats.correct / stats.total) * 100)
+      : 0
+
+    return (
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="text-center space-y-6"
+      >
+        <div className="w-20 h-20 mx-auto rounded-full bg-gradient-to-br from-teal-500/20 to-teal-600/20 flex items-center justify-center">
+          <Trophy className="w-10 h-10 text-teal-500" />
+        </div>
+
+        <div>
+          <h2 className="text-2xl font-bold mb-2">Für heute geschafft!</h2>
+          <p className="text-muted-foreground">
+            {stats.total} Karten wiederholt, {percentage}% gewusst
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          <Button variant="outline" onClick={handleReset} className="gap-2">
+            <RotateCcw className="w-4 h-4" />
+            Zur Übersicht
+          </Button>
+          <Link href="/documents">
+            <Button>Fertig</Button>
+          </Link>
+        </div>
+      </motion.div>
+    )
+  }
+
+  // Start screen
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-4">
+        <GlassCard className="p-4 text-center">
+          <div className="text-2xl font-bold text-teal-500">{queue.length}</div>
+          <div className="text-xs text-muted-foreground">Heute</div>
+        </GlassCard>
+        <GlassCard className="p-4 text-center">
+          <div className="text-2xl font-bold text-amber-500">{queue.length - queuedNew}</div>
+          <div className="text-xs text-muted-foreground">
+            Wiederholungen{dueCount > queue.length - queuedNew && ` (${dueCount} fällig)`}
+          </div>
+        </GlassCard>
+        <GlassCard className="p-4 text-center">
+          <div className="text-2xl font-bold text-green-500">{queuedNew}</div>
+          <div className="text-xs text-muted-foreground">
+            Neu{newCount > queuedNew && ` (von ${newCount})`}
+          </div>
+        </GlassCard>
+      </div>
+
+      {sources.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {sources.map(([title, count]) => (
+            <span
+              key={title}
+              className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-muted text-xs"
+            >
+              <Folder className="w-3.5 h-3.5 text-muted-foreground" />
+              {title}
+              <span className="font-medium">{count}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Daily limits */}
+      <GlassCard className="p-4 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="daily-new-limit" className="flex items-center gap-1.5 text-xs">
+              <GraduationCap className="w-3.5 h-3.5" />
+              Neue Karten pro Tag
+            </Label>
+            <Input
+              id="daily-new-limit"
+              type="number"
+              min={0}
+              value={limits.newCards}
+              onChange={(e) => updateLimits({ newCards: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="daily-review-limit" className="flex items-center gap-1.5 text-xs">
+              <Clock className="w-3.5 h-3.5" />
+              Wiederholungen pro Tag
+            </Label>
+            <Input
+              id="daily-review-limit"
+              type="number"
+              min={0}
+              value={limits.reviews}
+              onChange={(e) => updateLimits({ reviews: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+        </div>
+        {(doneToday.newCards > 0 || doneToday.reviews > 0) && (
+          <p className="text-xs text-muted-foreground">
+            Heute bereits gelernt: {doneToday.reviews} Wiederholungen, {doneToday.newCards} neue Karten
+          </p>
+        )}
+      </GlassCard>
+
+      {queue.length > 0 ? (
+        <Button size="lg" className="w-full gap-2" onClick={startSession}>
+          <CalendarCheck className="w-5 h-5" />
+          {queue.length} Karten lernen
+        </Button>
+      ) : (
+        <GlassCard className="p-8 text-center">
+          <CalendarCheck className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Alles erledigt</h3>
+          <p className="text-muted-foreground text-sm">
+            Für heute stehen keine Lernkarten mehr an.
+          </p>
+        </GlassCard>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useCallback, useMemo } from 'react'
+import { useState, useCallback, useMemo, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   BookOpen,
@@ -12,12 +12,17 @@ import {
   Clock,
   Layers,
   ArrowRight,
+  Upload,
+  Loader2,
 } from 'lucide-react'
+import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { GlassCard } from '@/components/ui/glass-card'
 import { FlashcardViewer } from './FlashcardViewer'
-import type { Flashcard } from '@/lib/supabase/types'
+import { getSchedule, previewIntervals } from '@/lib/flashcards/scheduler'
+import type { ImportResult } from '@/lib/flashcards/exchange'
+import type { Flashcard, ReviewGrade } from '@/lib/supabase/types'
 
 type LearningMode = 'all' | 'review' | 'new'
 type SessionState = 'idle' | 'learning' | 'completed'
@@ -30,17 +35,69 @@ interface SessionStats {
 
 interface FlashcardDeckProps {
   flashcards: Flashcard[]
-  onUpdateReview: (id: string, correct: boolean) => Promise<boolean>
+  onUpdateReview: (id: string, grade: ReviewGrade) => Promise<boolean>
+  onImport?: (file: File) => Promise<ImportResult>
   onClose?: () => void
   isLoading?: boolean
 }
 
+/**
+ * Import cards from a CSV file or Anki package
+ */
+function ImportButton({ onImport }: { onImport: (file: File) => Promise<ImportResult> }) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const handleFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setIsImporting(true)
+    try {
+      const { imported, duplicates } = await onImport(file)
+      toast.success(
+        `${imported} ${imported === 1 ? 'Karte' : 'Karten'} importiert` +
+          (duplicates > 0 ? `, ${duplicates} bereits vorhanden` : '')
+      )
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Import fehlgeschlagen')
+    } finally {
+      setIsImporting(false)
+    }
+  }, [onImport])
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".apkg,.csv,.tsv,.txt"
+        className="hidden"
+        onChange={handleFile}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        disabled={isImporting}
+        onClick={() => inputRef.current?.click()}
+        title="Anki-Stapel (.apkg) oder CSV importieren"
+      >
+        {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+        Importieren
+      </Button>
+    </>
+  )
+}
+
 /**
  * Flashcard learning deck with session management
  */
 export function FlashcardDeck({
   flashcards,
   onUpdateReview,
+  onImport,
   onClose,
   isLoading = false,
 }: FlashcardDeckProps) {
@@ -60,7 +117,7 @@ export function FlashcardDeck({
   }, [flashcards])
 
   const newCards = useMemo(() => {
-    return flashcards.filter((f) => f.review_count === 0)
+    return flashcards.filter((f) => f.state === 'new')
   }, [flashcards])
 
   // Start learning session
@@ -88,12 +145,14 @@ export function FlashcardDeck({
     setSessionState('learning')
   }, [flashcards, dueForReview, newCards])
 
-  // Handle correct answer
-  const handleCorrect = useCallback(async () => {
+  // Grade the current card; "again" counts as a wrong answer
+  const handleGrade = useCallback(async (grade: ReviewGrade) => {
     const card = sessionCards[currentIndex]
-    await onUpdateReview(card.id, true)
+    await onUpdateReview(card.id, grade)
 
-    setStats((prev) => ({ ...prev, correct: prev.correct + 1 }))
+    setStats((prev) => grade === 'again'
+      ? { ...prev, incorrect: prev.incorrect + 1 }
+      : { ...prev, correct: prev.correct + 1 })
 
     if (currentIndex < sessionCards.length - 1) {
       setCurrentIndex((prev) => prev + 1)
@@ -102,19 +161,10 @@ export function FlashcardDeck({
     }
   }, [sessionCards, currentIndex, onUpdateReview])
 
-  // Handle incorrect answer
-  const handleIncorrect = useCallback(async () => {
+  const intervals = useMemo(() => {
     const card = sessionCards[currentIndex]
-    await onUpdateReview(card.id, false)
-
-    setStats((prev) => ({ ...prev, incorrect: prev.incorrect + 1 }))
-
-    if (currentIndex < sessionCards.length - 1) {
-      setCurrentIndex((prev) => prev + 1)
-    } else {
-      setSessionState('completed')
-    }
-  }, [sessionCards, currentIndex, onUpdateReview])
+    return card ? previewIntervals(getSchedule(card)) : undefined
+  }, [sessionCards, currentIndex])
 
   // Reset to start screen
   const handleReset = useCallback(() => {
@@ -153,6 +203,11 @@ export function FlashcardDeck({
         <p className="text-muted-foreground text-sm">
           Erstelle Lernkarten, indem du Text im Dokument markierst und "Lernkarte erstellen" wählst.
         </p>
+        {onImport && (
+          <div className="mt-4 flex justify-center">
+            <ImportButton onImport={onImport} />
+          </div>
+        )}
       </GlassCard>
     )
   }
@@ -174,11 +229,14 @@ export function FlashcardDeck({
               </p>
             </div>
           </div>
-          {onClose && (
-            <Button variant="ghost" size="icon" onClick={onClose}>
-              <X className="w-5 h-5" />
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {onImport && <ImportButton onImport={onImport} />}
+            {onClose && (
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-5 h-5" />
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Stats overview */}
@@ -339,8 +397,8 @@ export function FlashcardDeck({
           >
             <FlashcardViewer
               flashcard={currentCard}
-              onCorrect={handleCorrect}
-              onIncorrect={handleIncorrect}
+              onGrade={handleGrade}
+              intervals={intervals}
               currentIndex={currentIndex}
               totalCount={sessionCards.length}
               showNavigation={false}
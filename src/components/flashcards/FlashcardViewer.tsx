@@ -2,15 +2,18 @@
 
 import { useState, useCallback } from 'react'
 import { motion } from 'framer-motion'
-import { RotateCcw, Check, X, ChevronLeft, ChevronRight } from 'lucide-react'
+import { RotateCcw, ChevronLeft, ChevronRight } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
-import type { Flashcard } from '@/lib/supabase/types'
+import { parseCloze } from '@/lib/flashcards/cloze'
+import { formatInterval, REVIEW_GRADES } from '@/lib/flashcards/scheduler'
+import type { Flashcard, ReviewGrade } from '@/lib/supabase/types'
 
 interface FlashcardViewerProps {
   flashcard: Flashcard
-  onCorrect: () => void
-  onIncorrect: () => void
+  onGrade: (grade: ReviewGrade) => void
+  /** Time until the card is due again per grade, shown on the buttons */
+  intervals?: Record<ReviewGrade, number>
   onSkip?: () => void
   showNavigation?: boolean
   onPrevious?: () => void
@@ -21,13 +24,55 @@ interface FlashcardViewerProps {
   totalCount?: number
 }
 
+const GRADE_BUTTONS: Record<ReviewGrade, { label: string; className: string }> = {
+  again: {
+    label: 'Nochmal',
+    className: 'border-red-200 text-red-600 hover:bg-red-50 hover:border-red-300 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-950/30',
+  },
+  hard: {
+    label: 'Schwer',
+    className: 'border-amber-200 text-amber-600 hover:bg-amber-50 hover:border-amber-300 dark:border-amber-800 dark:text-amber-400 dark:hover:bg-amber-950/30',
+  },
+  good: {
+    label: 'Gut',
+    className: 'border-green-200 text-green-600 hover:bg-green-50 hover:border-green-300 dark:border-green-800 dark:text-green-400 dark:hover:bg-green-950/30',
+  },
+  easy: {
+    label: 'Einfach',
+    className: 'border-teal-200 text-teal-600 hover:bg-teal-50 hover:border-teal-300 dark:border-teal-800 dark:text-teal-400 dark:hover:bg-teal-950/30',
+  },
+}
+
+/**
+ * Cloze text with its gaps hidden (front) or filled in and marked (back)
+ */
+function ClozeText({ text, revealed }: { text: string; revealed: boolean }) {
+  return (
+    <>
+      {parseCloze(text).map((segment, i) =>
+        segment.type === 'text' ? (
+          <span key={i}>{segment.text}</span>
+        ) : revealed ? (
+          <mark key={i} className="px-1 rounded bg-teal-100 text-teal-800 dark:bg-teal-900/50 dark:text-teal-200 font-semibold">
+            {segment.answer}
+          </mark>
+        ) : (
+          <span key={i} className="inline-block min-w-[3em] px-2 rounded bg-white/25 text-white/90 font-semibold">
+            [{segment.hint ?? '…'}]
+          </span>
+        )
+      )}
+    </>
+  )
+}
+
 /**
  * Single flashcard with flip animation
  */
 export function FlashcardViewer({
   flashcard,
-  onCorrect,
-  onIncorrect,
+  onGrade,
+  intervals,
   onSkip,
   showNavigation = false,
   onPrevious,
@@ -39,6 +84,7 @@ export function FlashcardViewer({
 }: FlashcardViewerProps) {
   const [isFlipped, setIsFlipped] = useState(false)
   const [isAnimating, setIsAnimating] = useState(false)
+  const isCloze = flashcard.card_type === 'cloze'
 
   const handleFlip = useCallback(() => {
     if (isAnimating) return
@@ -47,28 +93,21 @@ export function FlashcardViewer({
     setTimeout(() => setIsAnimating(false), 300)
   }, [isAnimating])
 
-  const handleCorrect = useCallback(() => {
-    onCorrect()
+  const handleGrade = useCallback((grade: ReviewGrade) => {
+    onGrade(grade)
     setIsFlipped(false)
-  }, [onCorrect])
-
-  const handleIncorrect = useCallback(() => {
-    onIncorrect()
-    setIsFlipped(false)
-  }, [onIncorrect])
+  }, [onGrade])
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       if (e.key === ' ' || e.key === 'Enter') {
         e.preventDefault()
         handleFlip()
-      } else if (e.key === 'ArrowRight' && isFlipped) {
-        handleCorrect()
-      } else if (e.key === 'ArrowLeft' && isFlipped) {
-        handleIncorrect()
+      } else if (isFlipped && ['1', '2', '3', '4'].includes(e.key)) {
+        handleGrade(REVIEW_GRADES[Number(e.key) - 1])
       }
     },
-    [handleFlip, handleCorrect, handleIncorrect, isFlipped]
+    [handleFlip, handleGrade, isFlipped]
   )
 
   return (
@@ -107,10 +146,15 @@ export function FlashcardViewer({
             )}
             style={{ backfaceVisibility: 'hidden' }}
           >
-            <div className="text-xs font-medium text-white/70 mb-2">FRAGE</div>
-            <div className="flex-1 flex items-center justify-center">
-              <p className="text-xl font-medium text-white text-center leading-relaxed">
-                {flashcard.question}
+            <div className="text-xs font-medium text-white/70 mb-2">
+              {isCloze ? 'LÜCKENTEXT' : 'FRAGE'}
+            </div>
+            <div className="flex-1 flex items-center justify-center overflow-auto">
+              <p className={cn(
+                'font-medium text-white text-center leading-relaxed',
+                isCloze ? 'text-lg' : 'text-xl'
+              )}>
+                {isCloze ? <ClozeText text={flashcard.question} revealed={false} /> : flashcard.question}
               </p>
             </div>
             <div className="text-center text-white/60 text-sm mt-4">
@@ -135,7 +179,7 @@ export function FlashcardViewer({
             <div className="text-xs font-medium text-teal-600 dark:text-teal-400 mb-2">ANTWORT</div>
             <div className="flex-1 flex items-center justify-center overflow-auto">
               <p className="text-lg text-foreground text-center leading-relaxed whitespace-pre-wrap">
-                {flashcard.answer}
+                {isCloze ? <ClozeText text={flashcard.question} revealed /> : flashcard.answer}
               </p>
             </div>
           </div>
@@ -144,37 +188,32 @@ export function FlashcardViewer({
 
       {/* Actions */}
       <div className="mt-6 space-y-4">
-        {/* Correct/Incorrect buttons - only show when flipped */}
+        {/* Grade buttons - only show when flipped */}
         {isFlipped && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
-            className="flex items-center justify-center gap-4"
+            className="grid grid-cols-4 gap-2"
           >
-            <Button
-              variant="outline"
-              size="lg"
-              className="flex-1 max-w-[160px] border-red-200 text-red-600 hover:bg-red-50 hover:border-red-300 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-950/30"
-              onClick={(e) => {
-                e.stopPropagation()
-                handleIncorrect()
-              }}
-            >
-              <X className="w-5 h-5 mr-2" />
-              Falsch
-            </Button>
-            <Button
-              variant="outline"
-              size="lg"
-              className="flex-1 max-w-[160px] border-green-200 text-green-600 hover:bg-green-50 hover:border-green-300 dark:border-green-800 dark:text-green-400 dark:hover:bg-green-950/30"
-              onClick={(e) => {
-                e.stopPropagation()
-                handleCorrect()
-              }}
-            >
-              <Check className="w-5 h-5 mr-2" />
-              Richtig
-            </Button>
+            {REVIEW_GRADES.map((grade) => (
+              <Button
+                key={grade}
+                variant="outline"
+                size="lg"
+                className={cn('h-auto flex-col gap-0.5 py-2', GRADE_BUTTONS[grade].className)}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleGrade(grade)
+                }}
+              >
+                <span>{GRADE_BUTTONS[grade].label}</span>
+                {intervals && (
+                  <span className="text-xs font-normal opacity-70">
+                    {formatInterval(intervals[grade])}
+                  </span>
+                )}
+              </Button>
+            ))}
           </motion.div>
         )}
 
@@ -239,9 +278,7 @@ export function FlashcardViewer({
           {isFlipped && (
             <>
               {' · '}
-              <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs">←</kbd> falsch
-              {' · '}
-              <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs">→</kbd> richtig
+              <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs">1</kbd>–<kbd className="px-1.5 py-0.5 bg-muted rounded text-xs">4</kbd> bewerten
             </>
           )}
         </span>
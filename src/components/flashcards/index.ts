@@ -1,2 +1,3 @@
 export { FlashcardViewer } from './FlashcardViewer'
 export { FlashcardDeck } from './FlashcardDeck'
+export { DailyReview } from './DailyReview'
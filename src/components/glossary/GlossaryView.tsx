@@ -0,0 +1,391 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import {
+  BookA,
+  Search,
+  Plus,
+  Pencil,
+  Trash2,
+  RefreshCw,
+  Layers,
+  ArrowRight,
+  Loader2,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { AuthorModeToggle } from '@/components/reader/author'
+import { cn } from '@/lib/utils'
+import { useAuthorMode } from '@/hooks/useAuthorMode'
+import {
+  useGlossary,
+  type GlossaryScope,
+  type GlossaryTermData,
+  type GlossaryTermWithSource,
+} from '@/hooks/useGlossary'
+import { glossaryLetter } from '@/lib/glossary/glossary'
+import { readerHref } from '@/lib/search/search-results'
+
+const LETTERS = [...'ABCDEFGHIJKLMNOPQRSTUVWXYZ', '#']
+
+const inputClassName = cn(
+  'w-full px-4 py-2 rounded-lg',
+  'bg-background border border-input',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500'
+)
+
+interface TermFormProps {
+  initial?: GlossaryTermWithSource
+  documents?: { id: string; title: string }[]
+  onSubmit: (data: GlossaryTermData, documentId: string) => Promise<boolean>
+  onCancel: () => void
+}
+
+/**
+ * Form for adding or editing a term; aliases are entered comma-separated
+ */
+function TermForm({ initial, documents = [], onSubmit, onCancel }: TermFormProps) {
+  const [term, setTerm] = useState(initial?.term ?? '')
+  const [aliases, setAliases] = useState(initial?.aliases.join(', ') ?? '')
+  const [definition, setDefinition] = useState(initial?.definition ?? '')
+  const [documentId, setDocumentId] = useState(initial?.document_id ?? documents[0]?.id ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canSave = term.trim() && definition.trim() && documentId
+
+  const handleSubmit = async () => {
+    if (!canSave) return
+    setIsSaving(true)
+    const saved = await onSubmit(
+      { term, definition, aliases: aliases.split(','), sectionId: initial?.section_id },
+      documentId
+    )
+    setIsSaving(false)
+    if (saved) onCancel()
+  }
+
+  return (
+    <div className="space-y-3 p-4 rounded-xl border border-purple-500/30 bg-purple-500/5">
+      <input
+        type="text"
+        value={term}
+        onChange={(e) => setTerm(e.target.value)}
+        placeholder="Begriff"
+        maxLength={80}
+        className={inputClassName}
+        autoFocus
+      />
+      <input
+        type="text"
+        value={aliases}
+        onChange={(e) => setAliases(e.target.value)}
+        placeholder="Abkürzungen und Synonyme, durch Komma getrennt"
+        className={inputClassName}
+      />
+      <textarea
+        value={definition}
+        onChange={(e) => setDefinition(e.target.value)}
+        placeholder="Definition"
+        rows={4}
+        className={cn(inputClassName, 'resize-none')}
+      />
+      {!initial && documents.length > 1 && (
+        <select
+          value={documentId}
+          onChange={(e) => setDocumentId(e.target.value)}
+          className={inputClassName}
+        >
+          {documents.map((doc) => (
+            <option key={doc.id} value={doc.id}>
+              {doc.title}
+            </option>
+          ))}
+        </select>
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={handleSubmit}
+          disabled={isSaving || !canSave}
+          className="bg-purple-600 hover:bg-purple-700"
+        >
+          {isSaving ? 'Speichern...' : 'Speichern'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Abbrechen
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface GlossaryViewProps {
+  scope: GlossaryScope
+}
+
+/**
+ * Glossary of a document or module with A–Z navigation, links to the
+ * definitions in the reader and, in author mode, editing of the terms
+ */
+export function GlossaryView({ scope }: GlossaryViewProps) {
+  const {
+    terms,
+    documents,
+    role,
+    isLoading,
+    error,
+    createTerm,
+    updateTerm,
+    deleteTerm,
+    rebuild,
+    exportFlashcards,
+  } = useGlossary(scope)
+  const { isAuthorMode, toggleAuthorMode, canEdit } = useAuthorMode(role)
+
+  const [query, setQuery] = useState('')
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isRebuilding, setIsRebuilding] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const showDocument = documents.length > 1
+  const documentTitles = useMemo(
+    () => new Map(documents.map((doc) => [doc.id, doc.title])),
+    [documents]
+  )
+
+  const filteredTerms = useMemo(() => {
+    const q = query.trim().toLowerCase()
+    if (!q) return terms
+    return terms.filter((t) =>
+      t.term.toLowerCase().includes(q)
+      || t.aliases.some((a) => a.toLowerCase().includes(q))
+      || t.definition.toLowerCase().includes(q)
+    )
+  }, [terms, query])
+
+  const termsByLetter = useMemo(() => {
+    const result = new Map<string, GlossaryTermWithSource[]>()
+    for (const term of filteredTerms) {
+      const letter = glossaryLetter(term.term)
+      result.set(letter, [...(result.get(letter) ?? []), term])
+    }
+    return result
+  }, [filteredTerms])
+
+  const handleRebuild = async () => {
+    if (!confirm('Begriffe aus den Definitionen neu übernehmen? Hinzugefügte und bearbeitete Begriffe bleiben erhalten.')) return
+    setIsRebuilding(true)
+    if (await rebuild()) toast.success('Glossar aktualisiert')
+    setIsRebuilding(false)
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    const created = await exportFlashcards(filteredTerms)
+    setIsExporting(false)
+    if (created > 0) {
+      toast.success(`${created} Lernkarte${created !== 1 ? 'n' : ''} erstellt`)
+    } else {
+      toast.info('Alle Begriffe sind schon als Lernkarten vorhanden')
+    }
+  }
+
+  const handleDelete = async (term: GlossaryTermWithSource) => {
+    if (!confirm(`„${term.term}“ aus dem Glossar entfernen?`)) return
+    await deleteTerm(term.id)
+  }
+
+  const scrollToLetter = (letter: string) => {
+    document.getElementById(`glossary-${letter}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Begriff suchen..."
+            className={cn(inputClassName, 'pl-9')}
+          />
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={isExporting || filteredTerms.length === 0}
+          title="Begriffe als Lernkarten speichern"
+          className="gap-2"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Layers className="w-4 h-4" />}
+          Als Lernkarten
+        </Button>
+        <AuthorModeToggle
+          isAuthorMode={isAuthorMode}
+          onToggle={toggleAuthorMode}
+          canEdit={canEdit}
+        />
+      </div>
+
+      {isAuthorMode && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Button
+            size="sm"
+            onClick={() => setShowAddForm(true)}
+            disabled={showAddForm}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Begriff hinzufügen
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleRebuild}
+            disabled={isRebuilding}
+            className="gap-2"
+          >
+            <RefreshCw className={cn('w-4 h-4', isRebuilding && 'animate-spin')} />
+            Aus Definitionen aktualisieren
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+      {showAddForm && (
+        <div className="mb-6">
+          <TermForm
+            documents={documents}
+            onSubmit={(data, documentId) => createTerm(documentId, data)}
+            onCancel={() => setShowAddForm(false)}
+          />
+        </div>
+      )}
+
+      {/* A–Z navigation */}
+      <nav className="sticky top-0 z-10 flex flex-wrap gap-1 py-2 mb-4 bg-background/90 backdrop-blur">
+        {LETTERS.map((letter) => {
+          const available = termsByLetter.has(letter)
+          return (
+            <button
+              key={letter}
+              onClick={() => scrollToLetter(letter)}
+              disabled={!available}
+              className={cn(
+                'w-8 h-8 rounded-md text-sm font-medium transition-colors',
+                available
+                  ? 'text-foreground hover:bg-muted'
+                  : 'text-muted-foreground/40 cursor-default'
+              )}
+            >
+              {letter}
+            </button>
+          )
+        })}
+      </nav>
+
+      {filteredTerms.length === 0 ? (
+        <div className="text-center py-12">
+          <BookA className="w-12 h-12 mx-auto mb-3 text-muted-foreground/50" />
+          <p className="text-muted-foreground">
+            {query ? 'Kein Begriff gefunden' : 'Noch keine Begriffe. Sie werden aus den Definitionen der Skripte übernommen.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {LETTERS.filter((letter) => termsByLetter.has(letter)).map((letter) => (
+            <section key={letter} id={`glossary-${letter}`} className="scroll-mt-16">
+              <h2 className="text-2xl font-bold text-foreground mb-3">{letter}</h2>
+              <div className="space-y-3">
+                {termsByLetter.get(letter)!.map((term) => (
+                  editingId === term.id ? (
+                    <TermForm
+                      key={term.id}
+                      initial={term}
+                      onSubmit={(data) => updateTerm(term.id, data)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  ) : (
+                    <article
+                      key={term.id}
+                      className="bg-card border border-border/50 rounded-xl p-4"
+                    >
+                      <div className="flex items-start gap-3">
+                        <div className="flex-1 min-w-0">
+                          <h3 className="font-semibold text-foreground">
+                            {term.term}
+                            {term.aliases.length > 0 && (
+                              <span className="font-normal text-muted-foreground"> ({term.aliases.join(', ')})</span>
+                            )}
+                          </h3>
+                          <p className="mt-1 text-sm text-foreground/80 whitespace-pre-line">
+                            {term.definition}
+                          </p>
+                          {(term.section_id || showDocument) && (
+                            <Link
+                              href={readerHref(term.document_id, term.section_id)}
+                              className="mt-2 inline-flex items-center gap-1 text-xs text-brand-600 dark:text-brand-400 hover:underline"
+                            >
+                              {[showDocument && documentTitles.get(term.document_id), term.section_title]
+                                .filter(Boolean)
+                                .join(' · ') || 'Zur Quelle'}
+                              <ArrowRight className="w-3 h-3" />
+                            </Link>
+                          )}
+                        </div>
+                        {isAuthorMode && (
+                          <div className="flex items-center gap-1 shrink-0">
+                            {!term.is_manual && (
+                              <span
+                                className="text-xs text-muted-foreground mr-1"
+                                title="Aus einer Definition übernommen"
+                              >
+                                automatisch
+                              </span>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setEditingId(term.id)}
+                              title="Bearbeiten"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDelete(term)}
+                              title="Entfernen"
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </article>
+                  )
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,318 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useRouter } from 'next/navigation'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  ChevronRight,
+  FileText,
+  Highlighter,
+  Layers,
+  Loader2,
+  Search,
+  StickyNote,
+  X,
+  type LucideIcon,
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { scaleIn } from '@/lib/animations'
+import { useModules, useModule } from '@/hooks/useModules'
+import { useSearch, type SearchFilters } from '@/hooks/useSearch'
+import { sectionTypeLabels } from '@/hooks/useEditSection'
+import { searchResultHref, splitSnippet, SEARCH_MIN_QUERY_LENGTH } from '@/lib/search/search-results'
+import type { SearchResult, SearchResultKind, SectionType } from '@/lib/supabase/types'
+
+const KIND_LABELS: Record<SearchResultKind, { label: string; icon: LucideIcon }> = {
+  section: { label: 'Skript', icon: FileText },
+  note: { label: 'Notiz', icon: StickyNote },
+  highlight: { label: 'Markierung', icon: Highlighter },
+  flashcard: { label: 'Lernkarte', icon: Layers },
+}
+
+const EMPTY_FILTERS: SearchFilters = { moduleId: null, documentId: null, sectionType: null }
+
+const filterSelectClass =
+  'h-8 min-w-0 flex-1 rounded-md border border-input bg-background px-2 text-xs focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50'
+
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+      {splitSnippet(snippet).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-900/50 text-foreground px-0.5 rounded">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </p>
+  )
+}
+
+interface SearchFilterBarProps {
+  filters: SearchFilters
+  onChange: (filters: SearchFilters) => void
+}
+
+function SearchFilterBar({ filters, onChange }: SearchFilterBarProps) {
+  const { modules } = useModules()
+  const { module } = useModule(filters.moduleId)
+  const documents = filters.moduleId ? module?.documents ?? [] : []
+
+  return (
+    <div className="flex items-center gap-2 mt-3">
+      <select
+        aria-label="Modul"
+        value={filters.moduleId ?? ''}
+        onChange={(e) => onChange({ ...filters, moduleId: e.target.value || null, documentId: null })}
+        className={filterSelectClass}
+      >
+        <option value="">Alle Module</option>
+        {modules.map((m) => (
+          <option key={m.id} value={m.id}>{m.title}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Dokument"
+        value={filters.documentId ?? ''}
+        onChange={(e) => onChange({ ...filters, documentId: e.target.value || null })}
+        disabled={!filters.moduleId}
+        className={filterSelectClass}
+      >
+        <option value="">Alle Dokumente</option>
+        {documents.map((md) => (
+          <option key={md.document_id} value={md.document_id}>{md.document.title}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Abschnittstyp"
+        value={filters.sectionType ?? ''}
+        onChange={(e) => onChange({ ...filters, sectionType: (e.target.value || null) as SectionType | null })}
+        className={filterSelectClass}
+      >
+        <option value="">Alle Abschnitte</option>
+        {(Object.keys(sectionTypeLabels) as SectionType[]).map((type) => (
+          <option key={type} value={type}>{sectionTypeLabels[type]}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
+interface GlobalSearchDialogProps {
+  onClose: () => void
+}
+
+function GlobalSearchDialog({ onClose }: GlobalSearchDialogProps) {
+  const router = useRouter()
+  const [query, setQuery] = useState('')
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS)
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const { results, isSearching, error } = useSearch(query, filters)
+  const hasQuery = query.trim().length >= SEARCH_MIN_QUERY_LENGTH
+
+  useEffect(() => {
+    const timer = setTimeout(() => inputRef.current?.focus(), 100)
+    return () => clearTimeout(timer)
+  }, [])
+
+  const openResult = useCallback((result: SearchResult) => {
+    router.push(searchResultHref(result))
+    onClose()
+  }, [router, onClose])
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault()
+        setSelectedIndex((prev) => Math.min(prev + 1, results.length - 1))
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault()
+        setSelectedIndex((prev) => Math.max(prev - 1, 0))
+      } else if (e.key === 'Enter' && results[selectedIndex]) {
+        e.preventDefault()
+        openResult(results[selectedIndex])
+      } else if (e.key === 'Escape') {
+        onClose()
+      }
+    },
+    [results, selectedIndex, openResult, onClose]
+  )
+
+  return (
+    <>
+      {/* Backdrop */}
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+        onClick={onClose}
+      />
+
+      {/* Search Modal */}
+      <motion.div
+        variants={scaleIn}
+        initial="initial"
+        animate="animate"
+        exit="exit"
+        className={cn(
+          'fixed top-[10%] left-1/2 -translate-x-1/2 z-50',
+          'w-[calc(100%-2rem)] max-w-2xl',
+          'bg-white dark:bg-gray-900',
+          'rounded-2xl shadow-2xl',
+          'border border-gray-200/50 dark:border-gray-700/50',
+          'overflow-hidden'
+        )}
+      >
+        {/* Search Input */}
+        <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50">
+          <div className="relative flex items-center gap-2">
+            <Search className="absolute left-3 w-5 h-5 text-muted-foreground" />
+            <Input
+              ref={inputRef}
+              type="text"
+              placeholder="Alle Skripte, Notizen und Lernkarten durchsuchen..."
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value)
+                setSelectedIndex(0)
+              }}
+              onKeyDown={handleKeyDown}
+              className="pl-10 pr-10 h-12 text-base"
+              autoComplete="off"
+            />
+            {isSearching ? (
+              <Loader2 className="absolute right-3 w-4 h-4 animate-spin text-muted-foreground" />
+            ) : query && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-1 h-8 w-8"
+                onClick={() => {
+                  setQuery('')
+                  inputRef.current?.focus()
+                }}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          <SearchFilterBar
+            filters={filters}
+            onChange={(next) => {
+              setFilters(next)
+              setSelectedIndex(0)
+            }}
+          />
+        </div>
+
+        {/* Results */}
+        <ScrollArea className="max-h-[60vh]">
+          {error ? (
+            <p className="p-8 text-center text-sm text-destructive">{error}</p>
+          ) : results.length > 0 ? (
+            <div className="p-2">
+              {results.map((result, index) => {
+                const { label, icon: Icon } = KIND_LABELS[result.kind]
+                return (
+                  <button
+                    key={`${result.kind}-${result.id}`}
+                    onClick={() => openResult(result)}
+                    className={cn(
+                      'w-full text-left p-3 rounded-lg transition-colors',
+                      'flex items-start gap-3',
+                      index === selectedIndex
+                        ? 'bg-brand-500/10 text-brand-600 dark:text-brand-400'
+                        : 'hover:bg-muted/50'
+                    )}
+                  >
+                    <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-muted flex items-center justify-center">
+                      <Icon className="w-4 h-4 text-muted-foreground" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span>{label}</span>
+                        <span>·</span>
+                        <span className="truncate">{result.document_title}</span>
+                      </div>
+                      <span className="block text-sm font-medium truncate">
+                        {result.section_title ?? result.document_title}
+                      </span>
+                      <Snippet snippet={result.snippet} />
+                    </div>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-2" />
+                  </button>
+                )
+              })}
+            </div>
+          ) : (
+            <div className="p-8 text-center text-muted-foreground">
+              <Search className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              {hasQuery && !isSearching ? (
+                <>
+                  <p className="text-sm">Keine Treffer für &quot;{query.trim()}&quot;</p>
+                  <p className="text-xs mt-1">Versuche andere Suchbegriffe oder weniger Filter</p>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm">Durchsucht alle Skripte, deine Notizen, Markierungen und Lernkarten</p>
+                  <p className="text-xs mt-1">
+                    Auch gebeugte Formen werden gefunden; &quot;Wortgruppe&quot; sucht genau, -Wort schließt aus
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+      </motion.div>
+    </>
+  )
+}
+
+/**
+ * Search across all documents in the navigation bar (Ctrl/Cmd+K). Results
+ * open the reader at the matching section.
+ */
+export function GlobalSearch() {
+  const [isOpen, setIsOpen] = useState(false)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
+        e.preventDefault()
+        setIsOpen(true)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const close = useCallback(() => setIsOpen(false), [])
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        className="gap-2 text-muted-foreground hover:text-foreground"
+        aria-label="Suchen"
+      >
+        <Search className="w-4 h-4" />
+        <span className="hidden lg:inline">Suchen</span>
+        <kbd className="hidden lg:inline px-1.5 py-0.5 bg-muted rounded text-[10px]">Strg K</kbd>
+      </Button>
+
+      <AnimatePresence>
+        {isOpen && <GlobalSearchDialog onClose={close} />}
+      </AnimatePresence>
+    </>
+  )
+}
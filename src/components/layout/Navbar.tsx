@@ -17,6 +17,7 @@ import {
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { ThemeToggle } from '@/components/ThemeToggle'
 import { MobileNav } from './MobileNav'
+import { GlobalSearch } from './GlobalSearch'
 
 interface NavbarProps {
   userEmail?: string
@@ -68,6 +69,9 @@ export function Navbar({ userEmail }: NavbarProps) {
           {/* Mobile Navigation */}
           <MobileNav userEmail={userEmail} onLogout={handleLogout} />
 
+          {/* Search across all documents */}
+          <GlobalSearch />
+
           {/* Desktop Navigation - hidden on mobile */}
           <Link href="/documents" className="hidden md:block">
             <Button variant="ghost" size="sm" className="gap-2 text-muted-foreground hover:text-foreground">
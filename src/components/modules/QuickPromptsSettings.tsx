@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Trash2, Wand2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { useModuleQuickPrompts } from '@/hooks/useQuickPrompts'
+
+interface QuickPromptsSettingsProps {
+  moduleId: string
+}
+
+/**
+ * Owner settings: own quick prompts that appear in the AI assistant for all
+ * documents of the module, after the built-in ones
+ */
+export function QuickPromptsSettings({ moduleId }: QuickPromptsSettingsProps) {
+  const { prompts, isLoading, error, addPrompt, deletePrompt } = useModuleQuickPrompts(moduleId)
+
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [label, setLabel] = useState('')
+  const [prompt, setPrompt] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+
+  const handleAdd = async () => {
+    if (!label.trim() || !prompt.trim()) return
+
+    setIsAdding(true)
+    const added = await addPrompt(label, prompt)
+    if (added) {
+      setLabel('')
+      setPrompt('')
+      setShowAddForm(false)
+    }
+    setIsAdding(false)
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Schnellaktion wirklich entfernen?')) return
+    await deletePrompt(id)
+  }
+
+  const inputClassName = cn(
+    'w-full px-4 py-2 rounded-lg',
+    'bg-background border border-input',
+    'focus:outline-none focus:ring-2 focus:ring-purple-500'
+  )
+
+  return (
+    <section className="bg-card border border-border/50 rounded-xl p-6 mt-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="font-semibold text-foreground">
+          Schnellaktionen im KI-Assistenten
+        </h2>
+        {!showAddForm && (
+          <Button
+            size="sm"
+            onClick={() => setShowAddForm(true)}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Hinzufügen
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Erscheinen für alle Mitglieder neben „Einfach erklären“, „Zusammenfassen“ und „Beispiel“.
+      </p>
+
+      {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+      {showAddForm && (
+        <div className="space-y-3 mb-4">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Beschriftung, z. B. Formel herleiten"
+            maxLength={40}
+            className={inputClassName}
+          />
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="Anweisung an die KI, z. B. Leite die Formel Schritt für Schritt her:"
+            rows={3}
+            className={cn(inputClassName, 'resize-none')}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={handleAdd}
+              disabled={isAdding || !label.trim() || !prompt.trim()}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              {isAdding ? 'Hinzufügen...' : 'Hinzufügen'}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                setShowAddForm(false)
+                setLabel('')
+                setPrompt('')
+              }}
+              disabled={isAdding}
+            >
+              Abbrechen
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {prompts.map((p) => (
+          <div
+            key={p.id}
+            className="flex items-start gap-4 p-4 rounded-lg border border-border"
+          >
+            <Wand2 className="w-5 h-5 mt-0.5 text-purple-500 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-foreground">{p.label}</p>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{p.prompt}</p>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => handleDelete(p.id)}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+
+        {!isLoading && prompts.length === 0 && !showAddForm && (
+          <p className="text-center text-muted-foreground py-4">
+            Noch keine eigenen Schnellaktionen
+          </p>
+        )}
+      </div>
+    </section>
+  )
+}
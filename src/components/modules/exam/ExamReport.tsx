@@ -0,0 +1,184 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { ArrowLeft, CheckCircle2, ChevronDown, ExternalLink, Trophy, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { GlassCard } from '@/components/ui/glass-card'
+import { EXAM_KIND_LABELS } from './ExamSetup'
+import { examGrade, isMissed, scoresByKind } from '@/lib/exam/exam-grading'
+import type { ExamView } from '@/lib/exam/exam-builder'
+import type { ExamItemKey, ExamItemResult } from '@/lib/supabase/types'
+
+interface ExamReportProps {
+  exam: ExamView
+  onClose: () => void
+}
+
+function sectionHref(item: ExamItemKey): string {
+  const base = `/documents/${item.document_id}`
+  return item.section_id ? `${base}?section=${item.section_id}` : base
+}
+
+function answerText(item: ExamItemKey, result: ExamItemResult | undefined): string {
+  if (result?.answer === null || result?.answer === undefined) return 'Keine Antwort'
+  return typeof result.answer === 'number' ? item.options?.[result.answer] ?? '' : result.answer
+}
+
+function ReportItem({ item, index, result }: { item: ExamItemKey; index: number; result?: ExamItemResult }) {
+  const missed = isMissed(item, result)
+  const { label } = EXAM_KIND_LABELS[item.kind]
+
+  return (
+    <li className="bg-card border border-border/50 rounded-xl p-5 space-y-3">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          {missed ? (
+            <XCircle className="w-4 h-4 text-red-500" />
+          ) : (
+            <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+          )}
+          <span className="font-semibold text-foreground">Aufgabe {index + 1}</span> · {label}
+        </span>
+        <span className={cn('tabular-nums font-medium', missed ? 'text-amber-600 dark:text-amber-400' : 'text-emerald-600 dark:text-emerald-400')}>
+          {result?.points ?? 0} / {item.points}
+        </span>
+      </div>
+
+      <p className="whitespace-pre-wrap text-sm">{item.prompt}</p>
+
+      <div className="grid gap-3 sm:grid-cols-2 text-sm">
+        <div className="rounded-lg bg-muted/40 p-3">
+          <p className="text-xs font-medium text-muted-foreground mb-1">Deine Antwort</p>
+          <p className="whitespace-pre-wrap">{answerText(item, result)}</p>
+        </div>
+        <div className="rounded-lg bg-emerald-50 dark:bg-emerald-900/20 p-3">
+          <p className="text-xs font-medium text-emerald-700 dark:text-emerald-300 mb-1">
+            {item.kind === 'quiz' ? 'Richtige Antwort' : 'Musterlösung'}
+          </p>
+          {item.kind === 'quiz' && item.correct_index !== undefined && (
+            <p className="font-medium">{item.options?.[item.correct_index]}</p>
+          )}
+          <div className="prose prose-sm prose-neutral dark:prose-invert max-w-none">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{item.reference}</ReactMarkdown>
+          </div>
+        </div>
+      </div>
+
+      {result?.feedback && (
+        <p className="text-sm text-muted-foreground">{result.feedback}</p>
+      )}
+      {result?.grading_failed && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          Diese Antwort konnte nicht automatisch bewertet werden. Vergleiche sie selbst mit der Musterlösung.
+        </p>
+      )}
+
+      <Link
+        href={sectionHref(item)}
+        className="inline-flex items-center gap-1 text-sm text-purple-600 dark:text-purple-400 hover:underline"
+      >
+        Im Skript nachlesen: {item.source_title}
+        <ExternalLink className="w-3.5 h-3.5" />
+      </Link>
+    </li>
+  )
+}
+
+/**
+ * Graded report of a submitted mock exam. Missed questions come first and
+ * link back to the section they were drawn from.
+ */
+export function ExamReport({ exam, onClose }: ExamReportProps) {
+  const [showCorrect, setShowCorrect] = useState(false)
+
+  const items = exam.items as ExamItemKey[]
+  const results = useMemo(() => new Map((exam.results || []).map((r) => [r.item_id, r])), [exam.results])
+  const score = exam.score ?? 0
+  const kindScores = useMemo(() => scoresByKind(items, exam.results || []), [items, exam.results])
+
+  const numbered = items.map((item, index) => ({ item, index, result: results.get(item.id) }))
+  const missed = numbered.filter(({ item, result }) => isMissed(item, result))
+  const correct = numbered.filter(({ item, result }) => !isMissed(item, result))
+
+  const minutesUsed = exam.submitted_at
+    ? Math.min(
+        exam.duration_minutes,
+        Math.ceil((new Date(exam.submitted_at).getTime() - new Date(exam.started_at).getTime()) / 60000)
+      )
+    : exam.duration_minutes
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" size="sm" onClick={onClose}>
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        Zur Übersicht
+      </Button>
+
+      <GlassCard className="p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-6">
+          <div className="flex items-center gap-4">
+            <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center shadow-lg shadow-purple-500/25">
+              <Trophy className="w-8 h-8 text-white" />
+            </div>
+            <div>
+              <p className="text-3xl font-bold">Note {examGrade(score, exam.max_score)}</p>
+              <p className="text-muted-foreground tabular-nums">
+                {score} von {exam.max_score} Punkten ({exam.max_score > 0 ? Math.round((score / exam.max_score) * 100) : 0}%)
+                · {minutesUsed} von {exam.duration_minutes} Minuten
+              </p>
+            </div>
+          </div>
+
+          <div className="flex-1 space-y-2">
+            {kindScores.map(({ kind, points, max_points }) => (
+              <div key={kind} className="flex items-center gap-3 text-sm">
+                <span className="w-32 shrink-0">{EXAM_KIND_LABELS[kind].label}</span>
+                <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className={cn('h-full', points / max_points >= 0.5 ? 'bg-emerald-500' : 'bg-amber-500')}
+                    style={{ width: `${max_points > 0 ? (points / max_points) * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="w-16 shrink-0 text-right tabular-nums">{points}/{max_points}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </GlassCard>
+
+      {missed.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Nachbereiten ({missed.length})</h2>
+          <ol className="space-y-4">
+            {missed.map(({ item, index, result }) => (
+              <ReportItem key={item.id} item={item} index={index} result={result} />
+            ))}
+          </ol>
+        </section>
+      )}
+
+      {correct.length > 0 && (
+        <section className="space-y-3">
+          <button
+            onClick={() => setShowCorrect(!showCorrect)}
+            className="flex items-center gap-2 text-lg font-semibold"
+          >
+            Richtig beantwortet ({correct.length})
+            <ChevronDown className={cn('w-5 h-5 transition-transform', showCorrect && 'rotate-180')} />
+          </button>
+          {showCorrect && (
+            <ol className="space-y-4">
+              {correct.map(({ item, index, result }) => (
+                <ReportItem key={item.id} item={item} index={index} result={result} />
+              ))}
+            </ol>
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { Clock, Loader2, Send } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { EXAM_KIND_LABELS } from './ExamSetup'
+import type { ExamView } from '@/lib/exam/exam-builder'
+import type { ExamAnswers } from '@/lib/exam/exam-grading'
+
+interface ExamRunnerProps {
+  exam: ExamView
+  onSubmit: (answers: ExamAnswers) => Promise<boolean>
+  isSubmitting: boolean
+}
+
+function storageKey(examId: string): string {
+  return `exam-answers-${examId}`
+}
+
+function loadAnswers(examId: string): ExamAnswers {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(examId)) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`
+}
+
+/**
+ * A running mock exam: all questions on one page under a countdown. Answers
+ * are kept in local storage so a reload does not lose them; when time is up
+ * the exam is handed in automatically.
+ */
+export function ExamRunner({ exam, onSubmit, isSubmitting }: ExamRunnerProps) {
+  const [answers, setAnswers] = useState<ExamAnswers>(() => loadAnswers(exam.id))
+  const [now, setNow] = useState(() => Date.now())
+  const answersRef = useRef(answers)
+  const autoSubmittedRef = useRef(false)
+
+  const endsAt = new Date(exam.started_at).getTime() + exam.duration_minutes * 60 * 1000
+  const remaining = endsAt - now
+  const answeredCount = exam.items.filter((item) => {
+    const answer = answers[item.id]
+    return typeof answer === 'number' || (typeof answer === 'string' && answer.trim())
+  }).length
+
+  useEffect(() => {
+    answersRef.current = answers
+    localStorage.setItem(storageKey(exam.id), JSON.stringify(answers))
+  }, [exam.id, answers])
+
+  const submit = useCallback(async () => {
+    if (await onSubmit(answersRef.current)) {
+      localStorage.removeItem(storageKey(exam.id))
+    }
+  }, [exam.id, onSubmit])
+
+  // Countdown; hand in once when the time is up
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      if (current >= endsAt && !autoSubmittedRef.current) {
+        autoSubmittedRef.current = true
+        submit()
+      }
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [endsAt, submit])
+
+  const handleSubmit = useCallback(() => {
+    const open = exam.items.length - answeredCount
+    if (open > 0 && !confirm(`${open} Fragen sind noch unbeantwortet. Trotzdem abgeben?`)) return
+    autoSubmittedRef.current = true
+    submit()
+  }, [exam.items.length, answeredCount, submit])
+
+  const setAnswer = (itemId: string, answer: string | number) => {
+    setAnswers((prev) => ({ ...prev, [itemId]: answer }))
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Countdown bar */}
+      <div className="sticky top-0 z-10 -mx-4 px-4 py-3 bg-background/90 backdrop-blur border-b border-border flex items-center justify-between gap-4">
+        <div
+          className={cn(
+            'flex items-center gap-2 text-lg font-semibold tabular-nums',
+            remaining < 5 * 60 * 1000 && 'text-red-600 dark:text-red-400'
+          )}
+        >
+          <Clock className="w-5 h-5" />
+          {formatRemaining(remaining)}
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {answeredCount} von {exam.items.length} beantwortet
+        </span>
+        <Button
+          onClick={handleSubmit}
+          disabled={isSubmitting}
+          className="gap-2 bg-purple-600 hover:bg-purple-700"
+        >
+          {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          {isSubmitting ? 'Wird bewertet...' : 'Abgeben'}
+        </Button>
+      </div>
+
+      {/* Questions */}
+      <ol className="space-y-6">
+        {exam.items.map((item, index) => {
+          const { label, icon: Icon } = EXAM_KIND_LABELS[item.kind]
+          const answer = answers[item.id]
+          return (
+            <li key={item.id} className="bg-card border border-border/50 rounded-xl p-5 space-y-3">
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1.5">
+                  <span className="font-semibold text-foreground">Aufgabe {index + 1}</span>
+                  · <Icon className="w-3.5 h-3.5" /> {label}
+                </span>
+                <span>{item.points} {item.points === 1 ? 'Punkt' : 'Punkte'}</span>
+              </div>
+
+              <p className="whitespace-pre-wrap">{item.prompt}</p>
+
+              {item.options ? (
+                <div className="grid gap-2">
+                  {item.options.map((option, optionIndex) => (
+                    <label
+                      key={optionIndex}
+                      className={cn(
+                        'flex items-center gap-3 rounded-lg border px-3 py-2 text-sm cursor-pointer transition-colors',
+                        answer === optionIndex
+                          ? 'border-purple-500 bg-purple-50 dark:bg-purple-950/30'
+                          : 'border-border hover:bg-muted/50'
+                      )}
+                    >
+                      <input
+                        type="radio"
+                        name={item.id}
+                        checked={answer === optionIndex}
+                        onChange={() => setAnswer(item.id, optionIndex)}
+                        disabled={isSubmitting}
+                        className="accent-purple-600"
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <Textarea
+                  value={typeof answer === 'string' ? answer : ''}
+                  onChange={(e) => setAnswer(item.id, e.target.value)}
+                  placeholder="Deine Antwort..."
+                  rows={item.kind === 'exercise' ? 6 : 3}
+                  disabled={isSubmitting}
+                />
+              )}
+            </li>
+          )
+        })}
+      </ol>
+
+      <Button
+        size="lg"
+        onClick={handleSubmit}
+        disabled={isSubmitting}
+        className="w-full gap-2 bg-purple-600 hover:bg-purple-700"
+      >
+        {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+        {isSubmitting ? 'Wird bewertet...' : 'Probeklausur abgeben'}
+      </Button>
+    </div>
+  )
+}
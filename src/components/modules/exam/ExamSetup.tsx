@@ -0,0 +1,143 @@
+'use client'
+
+import { Clock, ClipboardCheck, FileQuestion, History, Layers, Loader2, PenTool, Play, type LucideIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { GlassCard } from '@/components/ui/glass-card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { EXAM_ITEM_KINDS, EXAM_LIMITS, EXAM_POINTS, type ExamConfig } from '@/lib/exam/exam-builder'
+import { examGrade } from '@/lib/exam/exam-grading'
+import type { ExamSummary } from '@/hooks/useModuleExam'
+import type { ExamItemKind } from '@/lib/supabase/types'
+
+export const EXAM_KIND_LABELS: Record<ExamItemKind, { label: string; icon: LucideIcon }> = {
+  quiz: { label: 'Quizfragen', icon: ClipboardCheck },
+  flashcard: { label: 'Lernkarten', icon: Layers },
+  exercise: { label: 'Übungsaufgaben', icon: PenTool },
+}
+
+interface ExamSetupProps {
+  config: ExamConfig
+  onChange: (config: ExamConfig) => void
+  onStart: () => void
+  isStarting: boolean
+  history: ExamSummary[]
+  onOpen: (examId: string) => void
+}
+
+/**
+ * Settings for a new mock exam and the list of earlier ones
+ */
+export function ExamSetup({ config, onChange, onStart, isStarting, history, onOpen }: ExamSetupProps) {
+  const mixTotal = EXAM_ITEM_KINDS.reduce((sum, kind) => sum + config.mix[kind], 0)
+
+  return (
+    <div className="space-y-6">
+      <GlassCard className="p-6 space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="exam-question-count" className="flex items-center gap-1.5 text-xs">
+              <FileQuestion className="w-3.5 h-3.5" />
+              Anzahl Fragen
+            </Label>
+            <Input
+              id="exam-question-count"
+              type="number"
+              min={EXAM_LIMITS.questionCount.min}
+              max={EXAM_LIMITS.questionCount.max}
+              value={config.questionCount}
+              onChange={(e) => onChange({ ...config, questionCount: Number(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="exam-duration" className="flex items-center gap-1.5 text-xs">
+              <Clock className="w-3.5 h-3.5" />
+              Bearbeitungszeit (Minuten)
+            </Label>
+            <Input
+              id="exam-duration"
+              type="number"
+              min={EXAM_LIMITS.durationMinutes.min}
+              max={EXAM_LIMITS.durationMinutes.max}
+              value={config.durationMinutes}
+              onChange={(e) => onChange({ ...config, durationMinutes: Number(e.target.value) || 0 })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-xs font-medium text-muted-foreground">Zusammensetzung</p>
+          {EXAM_ITEM_KINDS.map((kind) => {
+            const { label, icon: Icon } = EXAM_KIND_LABELS[kind]
+            const share = mixTotal > 0 ? Math.round((config.mix[kind] / mixTotal) * 100) : 0
+            return (
+              <div key={kind} className="flex items-center gap-3">
+                <Label htmlFor={`exam-mix-${kind}`} className="w-40 shrink-0 flex items-center gap-1.5 text-sm">
+                  <Icon className="w-4 h-4 text-muted-foreground" />
+                  {label}
+                </Label>
+                <input
+                  id={`exam-mix-${kind}`}
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={config.mix[kind]}
+                  onChange={(e) => onChange({ ...config, mix: { ...config.mix, [kind]: Number(e.target.value) } })}
+                  className="flex-1 accent-purple-600"
+                />
+                <span className="w-20 shrink-0 text-right text-sm tabular-nums text-muted-foreground">
+                  {share}% · {EXAM_POINTS[kind]} P.
+                </span>
+              </div>
+            )
+          })}
+          <p className="text-xs text-muted-foreground">
+            Die Fragen kommen aus allen Dokumenten des Moduls, jedes Kapitel entsprechend seinem Umfang.
+            Freie Antworten bewertet die KI.
+          </p>
+        </div>
+
+        <Button
+          size="lg"
+          className="w-full gap-2 bg-purple-600 hover:bg-purple-700"
+          onClick={onStart}
+          disabled={isStarting || mixTotal === 0}
+        >
+          {isStarting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />}
+          Probeklausur starten
+        </Button>
+      </GlassCard>
+
+      {history.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+            <History className="w-4 h-4" />
+            Frühere Probeklausuren
+          </h2>
+          {history.map((exam) => (
+            <button
+              key={exam.id}
+              onClick={() => onOpen(exam.id)}
+              className="w-full flex items-center justify-between gap-3 p-3 rounded-lg border border-border bg-background hover:border-purple-500/50 transition-colors text-left"
+            >
+              <span className="text-sm">
+                {new Date(exam.started_at).toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' })}
+              </span>
+              {exam.submitted_at && exam.score !== null ? (
+                <span className="text-sm tabular-nums">
+                  {exam.score} / {exam.max_score} Punkte ·{' '}
+                  <span className="font-semibold">Note {examGrade(exam.score, exam.max_score)}</span>
+                </span>
+              ) : exam.submitted_at ? (
+                <span className="text-sm text-muted-foreground">Wird bewertet</span>
+              ) : (
+                <span className="text-sm text-amber-600 dark:text-amber-400">Nicht abgegeben</span>
+              )}
+            </button>
+          ))}
+        </section>
+      )}
+    </div>
+  )
+}
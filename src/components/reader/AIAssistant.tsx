@@ -12,17 +12,28 @@ import {
   MessageCircle,
   Copy,
   Check,
-  ChevronDown,
   StickyNote,
+  History,
+  Plus,
+  Trash2,
+  GraduationCap,
+  Wand2,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { GlassCard } from '@/components/ui/glass-card'
 import { scaleIn } from '@/lib/animations'
+import { useTutorThreads } from '@/hooks/useTutorThreads'
+import { useDocumentQuickPrompts } from '@/hooks/useQuickPrompts'
+import type { TutorMode } from '@/lib/supabase/types'
 
 interface AIAssistantProps {
   /** Selected text to analyze */
   selectedText: string
+  /** Section the selection belongs to; conversations are stored per section */
+  sectionId: string | null
+  /** Document, for the quick prompts of its modules */
+  documentId: string
   /** Whether the assistant is visible */
   visible: boolean
   /** Close callback */
@@ -63,336 +74,469 @@ const QUICK_PROMPTS: QuickPrompt[] = [
   },
 ]
 
-export function AIAssistant({
+const MODES: { id: TutorMode; label: string; icon: typeof Lightbulb; description: string }[] = [
+  { id: 'explain', label: 'Erklären', icon: Lightbulb, description: 'Die KI antwortet direkt' },
+  { id: 'socratic', label: 'Tutor', icon: GraduationCap, description: 'Die KI stellt Fragen zurück' },
+]
+
+const PANEL_WIDTH = 420
+const PANEL_WIDTH_WITH_HISTORY = 680
+
+interface AssistantPanelProps extends Omit<AIAssistantProps, 'visible' | 'position'> {
+  showHistory: boolean
+  onToggleHistory: () => void
+}
+
+/**
+ * Content of the open assistant; mounted per opening so every selection
+ * starts a new conversation
+ */
+function AssistantPanel({
   selectedText,
-  visible,
+  sectionId,
+  documentId,
   onClose,
-  position,
   isTabletMode = false,
   onSaveAsNote,
-}: AIAssistantProps) {
+  showHistory,
+  onToggleHistory,
+}: AssistantPanelProps) {
   const [customPrompt, setCustomPrompt] = useState('')
-  const [response, setResponse] = useState('')
-  const [isLoading, setIsLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [copied, setCopied] = useState(false)
-  const [saved, setSaved] = useState(false)
-  const [showQuickPrompts, setShowQuickPrompts] = useState(true)
+  const [mode, setMode] = useState<TutorMode>('explain')
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null)
+  const [savedIndex, setSavedIndex] = useState<number | null>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
   const responseRef = useRef<HTMLDivElement>(null)
 
-  // Focus input when visible
+  const {
+    threads,
+    activeThread,
+    messages,
+    isLoading,
+    isStreaming,
+    error,
+    openThread,
+    newThread,
+    send,
+    deleteThread,
+  } = useTutorThreads(sectionId)
+  const modulePrompts = useDocumentQuickPrompts(documentId)
+
+  const quickPrompts: QuickPrompt[] = [
+    ...QUICK_PROMPTS,
+    ...modulePrompts.map((p) => ({
+      id: p.id,
+      label: p.label,
+      icon: <Wand2 className="w-4 h-4" />,
+      prompt: p.prompt,
+    })),
+  ]
+
+  // The passage of an opened thread, otherwise the current selection
+  const contextText = activeThread?.text_selection ?? selectedText
+  const threadMode = activeThread?.mode ?? mode
+  const isAnswerPending = isStreaming && messages[messages.length - 1]?.content === ''
+
+  // Focus input when opened
   useEffect(() => {
-    if (visible && inputRef.current) {
-      inputRef.current.focus()
-    }
-  }, [visible])
+    inputRef.current?.focus()
+  }, [])
 
-  // Scroll to bottom of response
+  // Scroll to the latest message
   useEffect(() => {
-    if (response && responseRef.current) {
+    if (responseRef.current) {
       responseRef.current.scrollTop = responseRef.current.scrollHeight
     }
-  }, [response])
-
-  const handleSubmit = useCallback(
-    async (prompt: string) => {
-      if (!prompt.trim() || !selectedText.trim()) return
-
-      setIsLoading(true)
-      setError(null)
-      setResponse('')
-      setShowQuickPrompts(false)
-
-      try {
-        const fullPrompt = `${prompt}\n\n"${selectedText}"`
-
-        const res = await fetch('/api/ai/explain', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            prompt: fullPrompt,
-            selectedText,
-          }),
-        })
-
-        if (!res.ok) {
-          const errorData = await res.json().catch(() => ({}))
-          throw new Error(errorData.error || `API error: ${res.status}`)
-        }
-
-        // Handle streaming response
-        const reader = res.body?.getReader()
-        const decoder = new TextDecoder()
-
-        if (!reader) {
-          throw new Error('No response stream')
-        }
-
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-
-          const text = decoder.decode(value, { stream: true })
-          setResponse((prev) => prev + text)
-        }
-      } catch (err) {
-        console.error('AI error:', err)
-        setError(
-          err instanceof Error ? err.message : 'KI-Anfrage fehlgeschlagen'
-        )
-      } finally {
-        setIsLoading(false)
-      }
-    },
-    [selectedText]
-  )
+  }, [messages])
 
-  const handleQuickPrompt = useCallback(
-    (prompt: QuickPrompt) => {
-      handleSubmit(prompt.prompt)
+  const handleSend = useCallback(
+    async (message: string, title?: string) => {
+      if (!message.trim() || !contextText.trim() || isStreaming) return
+      await send(message, { selectedText: contextText, mode, title })
     },
-    [handleSubmit]
+    [contextText, isStreaming, send, mode]
   )
 
   const handleCustomSubmit = useCallback(
     (e: React.FormEvent) => {
       e.preventDefault()
-      handleSubmit(customPrompt)
+      handleSend(customPrompt)
       setCustomPrompt('')
     },
-    [customPrompt, handleSubmit]
+    [customPrompt, handleSend]
   )
 
-  const handleCopy = useCallback(() => {
-    navigator.clipboard.writeText(response)
-    setCopied(true)
-    setTimeout(() => setCopied(false), 2000)
-  }, [response])
-
-  const handleSaveAsNote = useCallback(() => {
-    if (onSaveAsNote && response) {
-      onSaveAsNote(response, selectedText)
-      setSaved(true)
-      setTimeout(() => setSaved(false), 2000)
-    }
-  }, [onSaveAsNote, response, selectedText])
-
-  const handleReset = useCallback(() => {
-    setResponse('')
-    setError(null)
-    setShowQuickPrompts(true)
-    setCustomPrompt('')
+  const handleCopy = useCallback((content: string, index: number) => {
+    navigator.clipboard.writeText(content)
+    setCopiedIndex(index)
+    setTimeout(() => setCopiedIndex(null), 2000)
   }, [])
 
-  // Calculate position styles
-  const positionStyles = position
-    ? {
-        position: 'fixed' as const,
-        left: Math.min(position.x, window.innerWidth - 420),
-        top: Math.min(position.y + 16, window.innerHeight - 500),
-        zIndex: 50,
+  const handleSaveAsNote = useCallback(
+    (content: string, index: number) => {
+      if (onSaveAsNote && content) {
+        onSaveAsNote(content, contextText)
+        setSavedIndex(index)
+        setTimeout(() => setSavedIndex(null), 2000)
       }
-    : {}
+    },
+    [onSaveAsNote, contextText]
+  )
+
+  const handleOpenThread = useCallback(
+    async (threadId: string) => {
+      await openThread(threadId)
+      // On small screens the list covers the conversation
+      if (window.innerWidth < 640) onToggleHistory()
+    },
+    [openThread, onToggleHistory]
+  )
+
+  const handleDeleteThread = useCallback(
+    async (threadId: string) => {
+      if (!confirm('Gespräch wirklich löschen?')) return
+      await deleteThread(threadId)
+    },
+    [deleteThread]
+  )
 
   return (
-    <AnimatePresence>
-      {visible && (
-        <>
-          {/* Backdrop */}
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 z-40 bg-black/20 backdrop-blur-sm"
-            onClick={onClose}
-          />
+    <GlassCard variant="elevated" className="w-full overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-border/50">
+        <div className="flex items-center gap-2 min-w-0">
+          <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-purple-500/20 to-pink-500/20 flex items-center justify-center shrink-0">
+            <Sparkles className="w-4 h-4 text-purple-500" />
+          </div>
+          <div className="min-w-0">
+            <h3 className="font-semibold">KI-Assistent</h3>
+            <p className="text-xs text-muted-foreground truncate">
+              {activeThread ? activeThread.title : 'Frage mich zum markierten Text'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {messages.length > 0 && (
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={newThread}
+              disabled={isStreaming}
+              title="Neues Gespräch"
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant={showHistory ? 'secondary' : 'ghost'}
+            size="icon-sm"
+            onClick={onToggleHistory}
+            title="Verlauf"
+            className="relative"
+          >
+            <History className="w-4 h-4" />
+            {threads.length > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-purple-500 text-white text-[10px] leading-4">
+                {threads.length}
+              </span>
+            )}
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
 
-          {/* Panel */}
-          <motion.div
-            variants={scaleIn}
-            initial="initial"
-            animate="animate"
-            exit="exit"
-            style={positionStyles}
-            className={cn(
-              position
-                ? ''
-                : 'fixed inset-x-4 top-1/4 z-50 mx-auto max-w-md',
-              'z-50'
+      <div className="flex">
+        {/* Thread history of the section */}
+        {showHistory && (
+          <aside className="w-full sm:w-60 shrink-0 sm:border-r border-border/50 max-h-[460px] overflow-y-auto p-2 space-y-1">
+            <p className="px-2 py-1 text-xs text-muted-foreground">Gespräche zu diesem Abschnitt</p>
+            {threads.length === 0 && (
+              <p className="px-2 py-4 text-sm text-muted-foreground text-center">
+                Noch keine Gespräche
+              </p>
             )}
-          >
-            <GlassCard
-              variant="elevated"
-              className="w-full max-w-md overflow-hidden"
-            >
-              {/* Header */}
-              <div className="flex items-center justify-between p-4 border-b border-border/50">
-                <div className="flex items-center gap-2">
-                  <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-purple-500/20 to-pink-500/20 flex items-center justify-center">
-                    <Sparkles className="w-4 h-4 text-purple-500" />
-                  </div>
-                  <div>
-                    <h3 className="font-semibold">KI-Assistent</h3>
+            {threads.map((thread) => {
+              const ModeIcon = thread.mode === 'socratic' ? GraduationCap : Lightbulb
+              return (
+                <div
+                  key={thread.id}
+                  className={cn(
+                    'group flex items-start gap-2 rounded-lg px-2 py-2 cursor-pointer hover:bg-muted/50',
+                    activeThread?.id === thread.id && 'bg-purple-500/10'
+                  )}
+                  onClick={() => handleOpenThread(thread.id)}
+                >
+                  <ModeIcon className="w-4 h-4 mt-0.5 text-purple-500 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm truncate">{thread.title}</p>
                     <p className="text-xs text-muted-foreground">
-                      Frage mich zum markierten Text
+                      {new Date(thread.updated_at).toLocaleDateString('de-DE')}
                     </p>
                   </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDeleteThread(thread.id)
+                    }}
+                    className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                    aria-label="Gespräch löschen"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
                 </div>
-                <Button variant="ghost" size="icon-sm" onClick={onClose}>
-                  <X className="w-4 h-4" />
-                </Button>
-              </div>
+              )
+            })}
+          </aside>
+        )}
 
-              {/* Selected text preview */}
-              <div className="px-4 py-3 bg-muted/30 border-b border-border/50">
-                <p className="text-xs text-muted-foreground mb-1">
-                  Markierter Text:
-                </p>
-                <p className="text-sm italic line-clamp-3">"{selectedText}"</p>
-              </div>
+        <div className={cn('flex-1 min-w-0 flex-col', showHistory ? 'hidden sm:flex' : 'flex')}>
+          {/* Selected text preview */}
+          <div className="px-4 py-3 bg-muted/30 border-b border-border/50">
+            <p className="text-xs text-muted-foreground mb-1">
+              Markierter Text:
+            </p>
+            <p className="text-sm italic line-clamp-3">"{contextText}"</p>
+          </div>
 
-              {/* Content */}
-              <div className="p-4 max-h-[300px] overflow-y-auto" ref={responseRef}>
-                {/* Quick prompts */}
-                {showQuickPrompts && !response && !isLoading && (
-                  <div className="space-y-2">
-                    <p className="text-xs text-muted-foreground mb-3">
-                      Wähle eine Aktion:
-                    </p>
-                    {QUICK_PROMPTS.map((prompt) => (
-                      <Button
-                        key={prompt.id}
-                        variant="outline"
-                        size={isTabletMode ? 'touch' : 'default'}
-                        className="w-full justify-start gap-3"
-                        onClick={() => handleQuickPrompt(prompt)}
-                      >
-                        <span className="text-purple-500">{prompt.icon}</span>
-                        {prompt.label}
-                      </Button>
-                    ))}
-                  </div>
+          {/* Mode: fixed once the conversation has started */}
+          <div className="px-4 pt-3 flex items-center gap-1">
+            {MODES.map(({ id, label, icon: Icon, description }) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                disabled={messages.length > 0}
+                title={description}
+                className={cn(
+                  'flex items-center gap-1.5 rounded-full px-3 py-1 text-xs transition-colors',
+                  threadMode === id
+                    ? 'bg-purple-500/15 text-purple-700 dark:text-purple-300'
+                    : 'text-muted-foreground hover:bg-muted',
+                  messages.length > 0 && threadMode !== id && 'hidden'
                 )}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
 
-                {/* Loading state */}
-                {isLoading && (
-                  <div className="flex items-center gap-3 text-muted-foreground">
-                    <Loader2 className="w-5 h-5 animate-spin text-purple-500" />
-                    <span className="text-sm">KI denkt nach...</span>
-                  </div>
-                )}
+          {/* Content */}
+          <div className="p-4 max-h-[300px] overflow-y-auto space-y-3" ref={responseRef}>
+            {/* Quick prompts */}
+            {messages.length === 0 && !isLoading && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground mb-3">
+                  {threadMode === 'socratic'
+                    ? 'Wähle einen Einstieg – die KI führt dich mit Fragen zur Antwort:'
+                    : 'Wähle eine Aktion:'}
+                </p>
+                {quickPrompts.map((prompt) => (
+                  <Button
+                    key={prompt.id}
+                    variant="outline"
+                    size={isTabletMode ? 'touch' : 'default'}
+                    className="w-full justify-start gap-3"
+                    onClick={() => handleSend(prompt.prompt, prompt.label)}
+                  >
+                    <span className="text-purple-500">{prompt.icon}</span>
+                    {prompt.label}
+                  </Button>
+                ))}
+              </div>
+            )}
 
-                {/* Error state */}
-                {error && (
-                  <div className="p-3 bg-destructive/10 rounded-lg text-destructive text-sm">
-                    {error}
-                  </div>
-                )}
+            {isLoading && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
 
-                {/* Response */}
-                {response && (
-                  <div className="space-y-3">
+            {/* Conversation */}
+            {messages.map((message, index) =>
+              message.role === 'user' ? (
+                <p
+                  key={index}
+                  className="ml-8 rounded-xl rounded-tr-sm bg-purple-500/10 px-3 py-2 text-sm whitespace-pre-wrap"
+                >
+                  {message.content}
+                </p>
+              ) : (
+                message.content && (
+                  <div key={index} className="mr-4 space-y-1">
                     <div className="prose prose-sm dark:prose-invert max-w-none">
-                      <p className="whitespace-pre-wrap">{response}</p>
+                      <p className="whitespace-pre-wrap">{message.content}</p>
                     </div>
 
                     {/* Actions */}
-                    <div className="flex items-center gap-2 pt-2 border-t border-border/50">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={handleCopy}
-                        className="gap-2"
-                      >
-                        {copied ? (
-                          <>
-                            <Check className="w-4 h-4 text-green-500" />
-                            Kopiert
-                          </>
-                        ) : (
-                          <>
-                            <Copy className="w-4 h-4" />
-                            Kopieren
-                          </>
-                        )}
-                      </Button>
-                      {onSaveAsNote && (
+                    {!(isStreaming && index === messages.length - 1) && (
+                      <div className="flex items-center gap-1">
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={handleSaveAsNote}
-                          className="gap-2"
+                          onClick={() => handleCopy(message.content, index)}
+                          className="gap-2 h-7 px-2 text-xs"
                         >
-                          {saved ? (
+                          {copiedIndex === index ? (
                             <>
-                              <Check className="w-4 h-4 text-green-500" />
-                              Gespeichert
+                              <Check className="w-3.5 h-3.5 text-green-500" />
+                              Kopiert
                             </>
                           ) : (
                             <>
-                              <StickyNote className="w-4 h-4" />
-                              Als Notiz
+                              <Copy className="w-3.5 h-3.5" />
+                              Kopieren
                             </>
                           )}
                         </Button>
-                      )}
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={handleReset}
-                      >
-                        Neue Frage
-                      </Button>
-                    </div>
+                        {onSaveAsNote && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSaveAsNote(message.content, index)}
+                            className="gap-2 h-7 px-2 text-xs"
+                          >
+                            {savedIndex === index ? (
+                              <>
+                                <Check className="w-3.5 h-3.5 text-green-500" />
+                                Gespeichert
+                              </>
+                            ) : (
+                              <>
+                                <StickyNote className="w-3.5 h-3.5" />
+                                Als Notiz
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      </div>
+                    )}
                   </div>
-                )}
+                )
+              )
+            )}
+
+            {/* Loading state */}
+            {isAnswerPending && (
+              <div className="flex items-center gap-3 text-muted-foreground">
+                <Loader2 className="w-5 h-5 animate-spin text-purple-500" />
+                <span className="text-sm">KI denkt nach...</span>
+              </div>
+            )}
+
+            {/* Error state */}
+            {error && (
+              <div className="p-3 bg-destructive/10 rounded-lg text-destructive text-sm">
+                {error}
               </div>
+            )}
+          </div>
 
-              {/* Custom prompt input */}
-              <form
-                onSubmit={handleCustomSubmit}
-                className="p-4 border-t border-border/50"
+          {/* Custom prompt input */}
+          <form
+            onSubmit={handleCustomSubmit}
+            className="p-4 border-t border-border/50"
+          >
+            <div className="flex items-end gap-2">
+              <textarea
+                ref={inputRef}
+                value={customPrompt}
+                onChange={(e) => setCustomPrompt(e.target.value)}
+                placeholder={
+                  messages.length === 0
+                    ? 'Eigene Frage stellen...'
+                    : threadMode === 'socratic'
+                      ? 'Deine Antwort oder Frage...'
+                      : 'Nachfrage stellen...'
+                }
+                className={cn(
+                  'flex-1 min-h-[60px] max-h-[120px] p-3 rounded-lg',
+                  'bg-muted/50 border border-input',
+                  'resize-none text-sm',
+                  'focus:outline-none focus:ring-2 focus:ring-purple-500/50',
+                  isTabletMode && 'min-h-[80px] text-base'
+                )}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                    handleCustomSubmit(e)
+                  }
+                }}
+              />
+              <Button
+                type="submit"
+                variant="premium"
+                size={isTabletMode ? 'icon-touch' : 'icon'}
+                disabled={!customPrompt.trim() || isStreaming}
+                className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600"
               >
-                <div className="flex items-end gap-2">
-                  <textarea
-                    ref={inputRef}
-                    value={customPrompt}
-                    onChange={(e) => setCustomPrompt(e.target.value)}
-                    placeholder="Eigene Frage stellen..."
-                    className={cn(
-                      'flex-1 min-h-[60px] max-h-[120px] p-3 rounded-lg',
-                      'bg-muted/50 border border-input',
-                      'resize-none text-sm',
-                      'focus:outline-none focus:ring-2 focus:ring-purple-500/50',
-                      isTabletMode && 'min-h-[80px] text-base'
-                    )}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
-                        handleCustomSubmit(e)
-                      }
-                    }}
-                  />
-                  <Button
-                    type="submit"
-                    variant="premium"
-                    size={isTabletMode ? 'icon-touch' : 'icon'}
-                    disabled={!customPrompt.trim() || isLoading}
-                    className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600"
-                  >
-                    <Send className="w-4 h-4" />
-                  </Button>
-                </div>
-                <p className="text-xs text-muted-foreground mt-2">
-                  <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs">
-                    ⌘/Ctrl + Enter
-                  </kbd>{' '}
-                  zum Senden
-                </p>
-              </form>
-            </GlassCard>
+                <Send className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs">
+                ⌘/Ctrl + Enter
+              </kbd>{' '}
+              zum Senden
+            </p>
+          </form>
+        </div>
+      </div>
+    </GlassCard>
+  )
+}
+
+export function AIAssistant({
+  visible,
+  position,
+  ...panelProps
+}: AIAssistantProps) {
+  const [showHistory, setShowHistory] = useState(false)
+  const width = showHistory ? PANEL_WIDTH_WITH_HISTORY : PANEL_WIDTH
+
+  // Calculate position styles
+  const positionStyles = position
+    ? {
+        position: 'fixed' as const,
+        left: Math.max(16, Math.min(position.x, window.innerWidth - width - 16)),
+        top: Math.min(position.y + 16, window.innerHeight - 560),
+        width: Math.min(width, window.innerWidth - 32),
+        zIndex: 50,
+      }
+    : {}
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-40 bg-black/20 backdrop-blur-sm"
+            onClick={panelProps.onClose}
+          />
+
+          {/* Panel */}
+          <motion.div
+            variants={scaleIn}
+            initial="initial"
+            animate="animate"
+            exit="exit"
+            style={positionStyles}
+            className={cn(
+              position
+                ? ''
+                : cn('fixed inset-x-4 top-1/4 z-50 mx-auto', showHistory ? 'max-w-2xl' : 'max-w-md'),
+              'z-50'
+            )}
+          >
+            <AssistantPanel
+              {...panelProps}
+              showHistory={showHistory}
+              onToggleHistory={() => setShowHistory((prev) => !prev)}
+            />
           </motion.div>
         </>
       )}
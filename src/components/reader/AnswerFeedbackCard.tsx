@@ -0,0 +1,99 @@
+'use client'
+
+import { AlertTriangle, CheckCircle2, CircleDashed, Sparkles, type LucideIcon } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { AnswerFeedback } from '@/lib/supabase/types'
+
+interface AnswerFeedbackCardProps {
+  feedback: AnswerFeedback
+  /** Show the answer the feedback refers to (for earlier feedback) */
+  answer?: string
+  createdAt?: string
+}
+
+function scoreClassName(score: number, maxScore: number): string {
+  const ratio = maxScore > 0 ? score / maxScore : 0
+  if (ratio >= 0.8) return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300'
+  if (ratio >= 0.5) return 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'
+  return 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+}
+
+function PointList({ title, points, icon: Icon, className }: {
+  title: string
+  points: string[]
+  icon: LucideIcon
+  className: string
+}) {
+  if (points.length === 0) return null
+
+  return (
+    <div>
+      <p className={cn('flex items-center gap-1.5 text-xs font-medium mb-1', className)}>
+        <Icon className="w-3.5 h-3.5" />
+        {title}
+      </p>
+      <ul className="list-disc pl-5 space-y-0.5 text-sm">
+        {points.map((point, index) => (
+          <li key={index}>{point}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+/**
+ * AI feedback on a written answer: covered and missing points,
+ * misconceptions and the rubric score
+ */
+export function AnswerFeedbackCard({ feedback, answer, createdAt }: AnswerFeedbackCardProps) {
+  return (
+    <div className="rounded-lg border border-violet-200 dark:border-violet-800 bg-violet-50/60 dark:bg-violet-950/20 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-sm font-semibold text-violet-700 dark:text-violet-300">
+          <Sparkles className="w-4 h-4" />
+          KI-Feedback
+          {createdAt && (
+            <span className="font-normal text-xs text-muted-foreground">
+              {new Date(createdAt).toLocaleDateString('de-DE')}
+            </span>
+          )}
+        </span>
+        <span
+          className={cn(
+            'px-2 py-0.5 rounded-full text-xs font-semibold tabular-nums',
+            scoreClassName(feedback.score, feedback.max_score)
+          )}
+        >
+          {feedback.score}/{feedback.max_score} Punkte
+        </span>
+      </div>
+
+      {answer && (
+        <p className="text-sm text-muted-foreground whitespace-pre-wrap border-l-2 border-violet-200 dark:border-violet-800 pl-3">
+          {answer}
+        </p>
+      )}
+
+      {feedback.summary && <p className="text-sm">{feedback.summary}</p>}
+
+      <PointList
+        title="Abgedeckt"
+        points={feedback.covered}
+        icon={CheckCircle2}
+        className="text-emerald-700 dark:text-emerald-400"
+      />
+      <PointList
+        title="Fehlt noch"
+        points={feedback.missing}
+        icon={CircleDashed}
+        className="text-amber-700 dark:text-amber-400"
+      />
+      <PointList
+        title="Fehlvorstellungen"
+        points={feedback.misconceptions}
+        icon={AlertTriangle}
+        className="text-red-700 dark:text-red-400"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,292 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, Loader2, Sparkles, Check, Layers, Trash2, Undo2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { scaleIn } from '@/lib/animations'
+import type { CardProposal } from '@/lib/flashcards/chapter-cards'
+
+interface ReviewedProposal extends CardProposal {
+  accepted: boolean
+}
+
+interface ChapterFlashcardGeneratorProps {
+  visible: boolean
+  documentId: string
+  chapterNumber: string | null
+  chapterTitle: string
+  sectionCount: number
+  onClose: () => void
+  onSave: (cards: CardProposal[]) => Promise<number>
+  isTabletMode?: boolean
+}
+
+/**
+ * Modal for generating flashcards for every section of a chapter and
+ * reviewing them before they are saved
+ */
+export function ChapterFlashcardGenerator({
+  visible,
+  documentId,
+  chapterNumber,
+  chapterTitle,
+  sectionCount,
+  onClose,
+  onSave,
+  isTabletMode = false,
+}: ChapterFlashcardGeneratorProps) {
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [proposals, setProposals] = useState<ReviewedProposal[] | null>(null)
+  const [dropped, setDropped] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  const acceptedCount = proposals?.filter((p) => p.accepted).length ?? 0
+
+  // Generate proposals for the whole chapter using AI
+  const handleGenerate = useCallback(async () => {
+    setIsGenerating(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/ai/chapter-flashcards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentId, chapterNumber }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Fehler beim Generieren')
+      }
+
+      setProposals((data.proposals as CardProposal[]).map((p) => ({ ...p, accepted: true })))
+      setDropped(data.dropped)
+    } catch (err) {
+      console.error('Failed to generate chapter flashcards:', err)
+      setError(err instanceof Error ? err.message : 'Fehler beim Generieren')
+    } finally {
+      setIsGenerating(false)
+    }
+  }, [documentId, chapterNumber])
+
+  const updateProposal = useCallback((index: number, changes: Partial<ReviewedProposal>) => {
+    setProposals((prev) => prev && prev.map((p, i) => (i === index ? { ...p, ...changes } : p)))
+  }, [])
+
+  // Close and reset
+  const handleClose = useCallback(() => {
+    setProposals(null)
+    setDropped(0)
+    setError(null)
+    onClose()
+  }, [onClose])
+
+  // Save accepted cards
+  const handleSave = useCallback(async () => {
+    const accepted = (proposals || [])
+      .filter((p) => p.accepted && p.question.trim() && p.answer.trim())
+      .map((p) => ({
+        section_id: p.section_id,
+        section_title: p.section_title,
+        question: p.question.trim(),
+        answer: p.answer.trim(),
+      }))
+    if (accepted.length === 0) return
+
+    setIsSaving(true)
+    try {
+      const saved = await onSave(accepted)
+      if (saved === 0) {
+        throw new Error('Lernkarten konnten nicht gespeichert werden')
+      }
+      handleClose()
+    } catch (err) {
+      console.error('Failed to save chapter flashcards:', err)
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern')
+    } finally {
+      setIsSaving(false)
+    }
+  }, [proposals, onSave, handleClose])
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+            onClick={isGenerating ? undefined : handleClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            variants={scaleIn}
+            initial="initial"
+            animate="animate"
+            exit="exit"
+            className={cn(
+              'fixed z-50',
+              'left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2',
+              'w-full max-w-2xl max-h-[90vh] flex flex-col',
+              'bg-white dark:bg-gray-900',
+              'rounded-2xl shadow-2xl',
+              'border border-gray-200/50 dark:border-gray-700/50',
+              'overflow-hidden'
+            )}
+          >
+            {/* Header */}
+            <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <div className="w-8 h-8 shrink-0 rounded-lg bg-green-500/20 flex items-center justify-center">
+                    <Layers className="w-4 h-4 text-green-600 dark:text-green-400" />
+                  </div>
+                  <div className="min-w-0">
+                    <h2 className="font-semibold">Karten für dieses Kapitel</h2>
+                    <p className="text-xs text-muted-foreground truncate">{chapterTitle}</p>
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={handleClose} disabled={isGenerating}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="p-4 space-y-4 overflow-y-auto">
+              {/* Generate button (if not yet generated) */}
+              {!proposals && (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Die KI schlägt für jeden der {sectionCount} Abschnitte dieses Kapitels Lernkarten vor.
+                    Du kannst sie vor dem Speichern bearbeiten oder verwerfen.
+                  </p>
+                  <Button
+                    variant="premium"
+                    className="w-full"
+                    onClick={handleGenerate}
+                    disabled={isGenerating}
+                  >
+                    {isGenerating ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Generiere Lernkarten für {sectionCount} Abschnitte...
+                      </>
+                    ) : (
+                      <>
+                        <Sparkles className="w-4 h-4 mr-2" />
+                        Mit KI generieren
+                      </>
+                    )}
+                  </Button>
+                </>
+              )}
+
+              {/* Review list */}
+              {proposals && (
+                <>
+                  {dropped > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {dropped} {dropped === 1 ? 'Vorschlag ähnelte' : 'Vorschläge ähnelten'} einer vorhandenen Karte und
+                      {dropped === 1 ? ' wurde' : ' wurden'} ausgelassen.
+                    </p>
+                  )}
+
+                  {proposals.length === 0 && (
+                    <p className="text-sm text-center text-muted-foreground py-6">
+                      Alle Vorschläge gibt es schon als Lernkarte.
+                    </p>
+                  )}
+
+                  {proposals.map((proposal, index) => (
+                    <div
+                      key={index}
+                      className={cn(
+                        'rounded-xl border p-3 space-y-2 transition-opacity',
+                        proposal.accepted
+                          ? 'border-gray-200 dark:border-gray-700'
+                          : 'border-dashed border-gray-200 dark:border-gray-700 opacity-50'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-muted-foreground truncate">
+                          {proposal.section_title}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="xs"
+                          onClick={() => updateProposal(index, { accepted: !proposal.accepted })}
+                        >
+                          {proposal.accepted ? (
+                            <>
+                              <Trash2 className="w-3 h-3 mr-1" />
+                              Verwerfen
+                            </>
+                          ) : (
+                            <>
+                              <Undo2 className="w-3 h-3 mr-1" />
+                              Übernehmen
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                      <Textarea
+                        value={proposal.question}
+                        onChange={(e) => updateProposal(index, { question: e.target.value })}
+                        placeholder="Frage"
+                        rows={2}
+                        disabled={!proposal.accepted}
+                        className={cn('font-medium', isTabletMode && 'text-base')}
+                      />
+                      <Textarea
+                        value={proposal.answer}
+                        onChange={(e) => updateProposal(index, { answer: e.target.value })}
+                        placeholder="Antwort"
+                        rows={2}
+                        disabled={!proposal.accepted}
+                        className={isTabletMode ? 'text-base' : ''}
+                      />
+                    </div>
+                  ))}
+                </>
+              )}
+
+              {/* Error message */}
+              {error && (
+                <p className="text-sm text-destructive text-center">{error}</p>
+              )}
+            </div>
+
+            {/* Actions */}
+            {proposals && proposals.length > 0 && (
+              <div className="p-4 border-t border-gray-200/50 dark:border-gray-700/50">
+                <Button
+                  variant="premium"
+                  className="w-full"
+                  onClick={handleSave}
+                  disabled={isSaving || acceptedCount === 0}
+                >
+                  {isSaving ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <>
+                      <Check className="w-4 h-4 mr-2" />
+                      {acceptedCount} von {proposals.length} Karten speichern
+                    </>
+                  )}
+                </Button>
+              </div>
+            )}
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
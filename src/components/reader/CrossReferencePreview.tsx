@@ -0,0 +1,57 @@
+'use client'
+
+import { ArrowRight, CornerDownRight } from 'lucide-react'
+import { TextAnchorPopover } from './TextAnchorPopover'
+import { referencePreview } from '@/lib/references/cross-references'
+import type { Section } from '@/lib/supabase/types'
+
+interface CrossReferencePreviewProps {
+  /** Section the hovered reference points to */
+  target: Section | null
+  /** Bounding box of the reference in the text */
+  anchor: DOMRect | null
+  onClose: () => void
+  onPointerEnter?: () => void
+  onPointerLeave?: () => void
+  onOpen: (section: Section) => void
+}
+
+/**
+ * Preview of the section a cross reference points to
+ */
+export function CrossReferencePreview({
+  target,
+  anchor,
+  onClose,
+  onPointerEnter,
+  onPointerLeave,
+  onOpen,
+}: CrossReferencePreviewProps) {
+  return (
+    <TextAnchorPopover
+      anchor={target ? anchor : null}
+      onClose={onClose}
+      onPointerEnter={onPointerEnter}
+      onPointerLeave={onPointerLeave}
+    >
+      {target && (
+        <>
+          <div className="flex items-center gap-2 mb-2">
+            <CornerDownRight className="w-4 h-4 text-brand-600 dark:text-brand-400 flex-shrink-0" />
+            <p className="font-semibold text-sm text-foreground line-clamp-2">{target.title}</p>
+          </div>
+          <p className="text-sm text-foreground/80 leading-relaxed">
+            {referencePreview(target)}
+          </p>
+          <button
+            onClick={() => onOpen(target)}
+            className="mt-3 flex items-center gap-1 text-xs font-medium text-brand-600 dark:text-brand-400 hover:underline"
+          >
+            Zum Abschnitt
+            <ArrowRight className="w-3 h-3" />
+          </button>
+        </>
+      )}
+    </TextAnchorPopover>
+  )
+}
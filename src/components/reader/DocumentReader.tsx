@@ -2,7 +2,9 @@
 
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import Link from 'next/link'
+import { useRouter } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
@@ -10,7 +12,7 @@ import { TableOfContents } from './TableOfContents'
 import { SectionView } from './SectionView'
 import { DocumentCover } from './DocumentCover'
 import { FullscreenTableOfContents } from './FullscreenTableOfContents'
-import { TextToSpeech } from './TextToSpeech'
+import { TextToSpeech, type TextToSpeechHandle } from './TextToSpeech'
 import {
   HighlightProvider,
   useHighlightContext,
@@ -21,19 +23,24 @@ import { NoteEditor } from './notes/NoteEditor'
 import { AIAssistant } from './AIAssistant'
 import { DocumentSearch } from './DocumentSearch'
 import { FlashcardGenerator } from './FlashcardGenerator'
+import { ChapterFlashcardGenerator } from './ChapterFlashcardGenerator'
 import { FlashcardDeck } from '@/components/flashcards'
 import { ExportPanel } from './ExportPanel'
+import { QuizPanel } from './QuizPanel'
+import { ScriptQAPanel } from './ScriptQAPanel'
 import { ContinueReadingPrompt } from './ContinueReadingPrompt'
 import { BookmarkSidebar, BookmarkButton } from './bookmarks'
 import { PomodoroTimer } from './PomodoroTimer'
 import { SectionEditor } from './editing'
 import { MiniMap } from './MiniMap'
+import { PDFSplitView } from './pdf'
 import {
   AuthorModeToggle,
   AddSectionButton,
   AddSectionMenu,
   SectionActionBar,
   DeleteConfirmDialog,
+  ReferenceReport,
 } from './author'
 import { useTextSelection } from '@/hooks/useTextSelection'
 import { useEditSection } from '@/hooks/useEditSection'
@@ -43,7 +50,12 @@ import { useBookmarks } from '@/hooks/useBookmarks'
 import { useAnnotations } from '@/hooks/useAnnotations'
 import { useNotes, type Note } from '@/hooks/useNotes'
 import { useFlashcards } from '@/hooks/useFlashcards'
+import { useExerciseAttempts } from '@/hooks/useExerciseAttempts'
 import { useReadingProgress } from '@/hooks/useReadingProgress'
+import { useGlossaryTerms } from '@/hooks/useGlossary'
+import { usePDFDocument } from '@/hooks/usePDFDocument'
+import type { DocumentPlaybackPosition } from '@/hooks/useDocumentPlayback'
+import type { SpokenWord } from '@/hooks/useElevenLabs'
 import { TabletModeProvider, useTabletMode } from '@/contexts/TabletModeContext'
 import { TabletSidebar } from '@/components/layout/TabletSidebar'
 import { DeviceModeSelector } from './DeviceModeSelector'
@@ -62,23 +74,44 @@ import {
   ChevronUp,
   ChevronDown,
   Menu,
+  PenTool,
+  ClipboardCheck,
+  MessageSquareQuote,
+  BookA,
+  Link2Off,
+  Columns2,
 } from 'lucide-react'
-import type { Document, Section } from '@/lib/supabase/types'
+import { chapterKey, chapterSections, type CardProposal } from '@/lib/flashcards/chapter-cards'
+import { exerciseStatsByChapter } from '@/lib/progress/exercise-stats'
+import { paragraphIndexAt, readerHref } from '@/lib/search/search-results'
+import { createTermMatcher } from '@/lib/glossary/glossary'
+import { createReferenceResolver, findUnresolvedReferences } from '@/lib/references/cross-references'
+import { syncedPage } from '@/lib/pdf/page-sync'
+import type { Annotation, Document, GlossaryTerm, Section } from '@/lib/supabase/types'
 
 interface DocumentReaderProps {
   document: Document
   sections: Section[]
+  /** Section to open at, e.g. when coming from a flashcard */
+  initialSectionId?: string
+  /** Character offset within that section, e.g. of a search match */
+  initialOffset?: number
 }
 
-function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
-  const [activeSection, setActiveSection] = useState<string | null>(
-    sections.length > 0 ? sections[0].id : null
-  )
+function DocumentReaderContent({ document, sections, initialSectionId, initialOffset }: DocumentReaderProps) {
+  const [activeSection, setActiveSection] = useState<string | null>(() => {
+    if (initialSectionId && sections.some((s) => s.id === initialSectionId)) return initialSectionId
+    return sections.length > 0 ? sections[0].id : null
+  })
   const [isSidebarOpen, setIsSidebarOpen] = useState(() => {
     if (typeof window === 'undefined') return true
     return window.innerWidth >= 768 // md breakpoint - closed on mobile
   })
   const [speakingParagraph, setSpeakingParagraph] = useState<number | null>(null)
+  const [spokenWord, setSpokenWord] = useState<SpokenWord | null>(null)
+  const textToSpeechRef = useRef<TextToSpeechHandle>(null)
+  // Section read by document playback; it moves on without the reader scrolling
+  const [playbackSectionId, setPlaybackSectionId] = useState<string | null>(null)
   const [showHighlightSidebar, setShowHighlightSidebar] = useState(false)
   const [showNotesPanel, setShowNotesPanel] = useState(false)
   const [noteEditorVisible, setNoteEditorVisible] = useState(false)
@@ -104,8 +137,20 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
   const [showFlashcardGenerator, setShowFlashcardGenerator] = useState(false)
   const [flashcardSelectedText, setFlashcardSelectedText] = useState('')
   const [flashcardSectionId, setFlashcardSectionId] = useState<string | null>(null)
+  const [chapterCardsTarget, setChapterCardsTarget] = useState<{
+    chapter: string
+    title: string
+    sectionCount: number
+  } | null>(null)
   const [showExportPanel, setShowExportPanel] = useState(false)
   const [showFlashcardDeck, setShowFlashcardDeck] = useState(false)
+  const [practiceMode, setPracticeMode] = useState(false)
+  const [showQuizPanel, setShowQuizPanel] = useState(false)
+  const [showQAPanel, setShowQAPanel] = useState(false)
+  const [showReferenceReport, setShowReferenceReport] = useState(false)
+  // Original PDF next to the text; a page picked there is kept for its section
+  const [showPDFView, setShowPDFView] = useState(false)
+  const [chosenPDFPage, setChosenPDFPage] = useState<{ page: number; sectionId: string | null } | null>(null)
   const [isToolbarCollapsed, setIsToolbarCollapsed] = useState(false)
   const contentRef = useRef<HTMLDivElement>(null)
   const sectionRefs = useRef<Map<string, HTMLElement>>(new Map())
@@ -152,6 +197,21 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
     return { displaySections: nonSolutions, solutionMap }
   }, [localSections])
 
+  // The PDF follows the section being read
+  const { pdf, isLoading: pdfLoading, error: pdfError } = usePDFDocument(document.id, showPDFView)
+  const activeSectionData = useMemo(
+    () => displaySections.find((s) => s.id === activeSection) ?? null,
+    [displaySections, activeSection]
+  )
+  const pdfPage = syncedPage(activeSectionData, chosenPDFPage)
+
+  // Cross references point to displayed sections; solutions are shown with their exercise
+  const resolveReference = useMemo(() => createReferenceResolver(displaySections), [displaySections])
+  const unresolvedReferences = useMemo(
+    () => findUnresolvedReferences(localSections, resolveReference),
+    [localSections, resolveReference]
+  )
+
   // Annotations hook
   const {
     highlights,
@@ -160,6 +220,7 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
     deleteHighlight,
     getHighlightsForSection,
     toggleForReview,
+    reviewHighlights,
   } = useAnnotations(sectionIds)
 
   // Notes hook
@@ -186,9 +247,29 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
     flashcards,
     isLoading: flashcardsLoading,
     createFlashcard,
+    createFlashcards,
+    createClozeCards,
+    importCards: importFlashcards,
     updateReview: updateFlashcardReview,
   } = useFlashcards(document.id)
 
+  // Exercise self-test attempts
+  const {
+    attempts: exerciseAttempts,
+    ratings: exerciseRatings,
+    recordAttempt: recordExerciseAttempt,
+  } = useExerciseAttempts(document.id)
+
+  const exerciseStats = useMemo(
+    () => Object.fromEntries(exerciseStatsByChapter(localSections, exerciseAttempts)),
+    [localSections, exerciseAttempts]
+  )
+
+  const clozeHighlightIds = useMemo(
+    () => new Set(flashcards.flatMap((f) => (f.annotation_id ? [f.annotation_id] : []))),
+    [flashcards]
+  )
+
   // Reading progress hook
   const {
     progress: readProgress,
@@ -199,9 +280,13 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
     lastPosition,
     savePosition,
     clearPosition,
+    lastPlaybackPosition,
+    savePlaybackPosition,
+    clearPlaybackPosition,
   } = useReadingProgress({
     documentId: document.id,
     sectionIds,
+    activeSectionId: activeSection,
   })
 
   // Continue reading prompt state
@@ -229,6 +314,13 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
     },
   })
 
+  // Glossary terms of the document and its modules, marked in the text
+  const glossaryTerms = useGlossaryTerms(document.id)
+  const glossaryMatcher = useMemo(
+    () => (glossaryTerms.length > 0 ? createTermMatcher(glossaryTerms) : undefined),
+    [glossaryTerms]
+  )
+
   // Author Mode hook (TODO: pass actual user role from document ownership)
   const {
     isAuthorMode,
@@ -353,12 +445,13 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
 
   // Auto-scroll to speaking paragraph when TTS is active
   useEffect(() => {
-    if (speakingParagraph === null || !activeSection) return
+    const speakingSection = playbackSectionId ?? activeSection
+    if (speakingParagraph === null || !speakingSection) return
 
     // Find the paragraph element by its data attribute
     // Note: Use window.document since 'document' is a prop name in this component
     const paragraphElement = window.document.querySelector(
-      `[data-paragraph-index="${speakingParagraph}"]`
+      `#section-${speakingSection} [data-paragraph-index="${speakingParagraph}"]`
     ) as HTMLElement
 
     if (paragraphElement) {
@@ -368,7 +461,26 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
         block: 'center',
       })
     }
-  }, [speakingParagraph, activeSection])
+  }, [speakingParagraph, activeSection, playbackSectionId])
+
+  // Keep the spoken word in view while reading along
+  useEffect(() => {
+    if (!spokenWord) return
+
+    const wordElement = window.document.querySelector('[data-spoken-word]') as HTMLElement | null
+    if (!wordElement) return
+
+    // Only scroll when the word leaves the middle of the viewport, not on every word
+    const rect = wordElement.getBoundingClientRect()
+    const margin = window.innerHeight * 0.25
+    if (rect.top < margin || rect.bottom > window.innerHeight - margin) {
+      wordElement.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }, [spokenWord])
+
+  const handleSeekToWord = useCallback((paragraph: number, offset: number) => {
+    textToSpeechRef.current?.seekTo(paragraph, offset)
+  }, [])
 
   // Handle scroll to update active section
   useEffect(() => {
@@ -467,6 +579,59 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
     }
   }, [isTabletMode, tabletSidebarOpen, setTabletSidebarOpen])
 
+  // Definition of a glossary term: in this document or another one of the module
+  const router = useRouter()
+  const handleOpenGlossaryTerm = useCallback((term: GlossaryTerm) => {
+    if (term.document_id === document.id && term.section_id) {
+      scrollToSection(term.section_id)
+    } else {
+      router.push(readerHref(term.document_id, term.section_id))
+    }
+  }, [document.id, scrollToSection, router])
+
+  // Bring the paragraph containing a character offset of the section into view
+  const scrollToOffset = useCallback((sectionId: string, offset: number) => {
+    const section = sections.find((s) => s.id === sectionId)
+    const element = sectionRefs.current.get(sectionId)
+    if (!section || !element) return
+
+    // Grouped paragraphs (lists) carry the index of their first paragraph
+    const index = paragraphIndexAt(section.content, offset)
+    const target = Array.from(element.querySelectorAll<HTMLElement>('[data-paragraph-index]'))
+      .filter((el) => Number(el.dataset.paragraphIndex) <= index)
+      .pop()
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [sections])
+
+  // Open at the linked section (and position) once it has been rendered;
+  // a new link to the same document, e.g. from the search, scrolls again
+  const scrolledToInitialRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!initialSectionId) return
+    const target = `${initialSectionId}:${initialOffset ?? ''}`
+    if (scrolledToInitialRef.current === target) return
+    scrolledToInitialRef.current = target
+    const frame = requestAnimationFrame(() => {
+      scrollToSection(initialSectionId)
+      if (initialOffset !== undefined) scrollToOffset(initialSectionId, initialOffset)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [initialSectionId, initialOffset, scrollToSection, scrollToOffset])
+
+  // Document playback moves the reader along with the section being read
+  const handlePlaybackSectionChange = useCallback((sectionId: string | null) => {
+    setPlaybackSectionId(sectionId)
+    if (sectionId) scrollToSection(sectionId)
+  }, [scrollToSection])
+
+  const handlePlaybackPositionChange = useCallback(
+    (position: DocumentPlaybackPosition | null) => {
+      if (position) savePlaybackPosition(position)
+      else clearPlaybackPosition()
+    },
+    [savePlaybackPosition, clearPlaybackPosition]
+  )
+
   // Handle continue reading actions
   const handleContinueReading = useCallback(() => {
     if (lastPosition) {
@@ -687,6 +852,48 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
     [document.id, flashcardSectionId, flashcardSelectedText, createFlashcard, handleCloseFlashcardGenerator]
   )
 
+  // Cloze cards from highlights (single, or all marked for review)
+  const handleCreateClozeCard = useCallback(
+    async (highlight: Annotation) => {
+      const created = await createClozeCards([highlight], localSections)
+      if (created > 0) toast.success('Lückentext-Karte erstellt')
+    },
+    [createClozeCards, localSections]
+  )
+
+  // Batch cards for a chapter, offered on its heading (or first section)
+  const chapterStarts = useMemo(() => {
+    const starts = new Map<string, { chapter: string; title: string; sectionCount: number }>()
+    const chapters = new Set(localSections.map(chapterKey).filter((c): c is string => c !== null))
+    for (const chapter of chapters) {
+      const inChapter = localSections.filter((s) => chapterKey(s) === chapter)
+      const heading = inChapter.find((s) => s.section_type === 'chapter') ?? inChapter[0]
+      const sectionCount = chapterSections(localSections, chapter).length
+      if (sectionCount > 0) starts.set(heading.id, { chapter, title: heading.title, sectionCount })
+    }
+    return starts
+  }, [localSections])
+
+  const handleSaveChapterCards = useCallback(
+    async (cards: CardProposal[]) => {
+      const created = await createFlashcards(
+        cards.map((c) => ({ sectionId: c.section_id, question: c.question, answer: c.answer }))
+      )
+      if (created > 0) {
+        toast.success(`${created} Lernkarte${created !== 1 ? 'n' : ''} gespeichert`)
+      }
+      return created
+    },
+    [createFlashcards]
+  )
+
+  const handleConvertReviewHighlights = useCallback(async () => {
+    const created = await createClozeCards(reviewHighlights, localSections)
+    if (created > 0) {
+      toast.success(`${created} Lückentext-Karte${created !== 1 ? 'n' : ''} erstellt`)
+    }
+  }, [createClozeCards, reviewHighlights, localSections])
+
   // Handle creating note from selection (used in popup)
   // Uses capturedSelection to avoid race conditions when clicking popup buttons
   const handleAddNoteFromSelection = useCallback(() => {
@@ -759,6 +966,7 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
             onMarkCompleted={handleMarkChapterCompleted}
             highlightCounts={highlightCounts}
             noteCounts={noteCounts}
+            exerciseStats={exerciseStats}
             isTabletMode={isTabletMode}
           />
         </ScrollArea>
@@ -828,9 +1036,16 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
                     </Button>
 
                     <TextToSpeech
+                      ref={textToSpeechRef}
                       text={getCurrentText()}
                       selectedText={capturedSelection?.text}
                       onParagraphChange={setSpeakingParagraph}
+                      onWordChange={setSpokenWord}
+                      sections={sections}
+                      documentTitle={document.title}
+                      resumePosition={lastPlaybackPosition}
+                      onPlaybackSectionChange={handlePlaybackSectionChange}
+                      onPlaybackPositionChange={handlePlaybackPositionChange}
                     />
 
                     {/* Flashcard learning button */}
@@ -850,6 +1065,69 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
                       )}
                     </Button>
 
+                    {/* Exercise practice mode toggle */}
+                    {solutionMap.size > 0 && (
+                      <Button
+                        variant={practiceMode ? 'secondary' : 'ghost'}
+                        size={isTabletMode ? 'touch-sm' : 'sm'}
+                        onClick={() => setPracticeMode((prev) => !prev)}
+                        title={practiceMode ? 'Übungsmodus beenden' : 'Übungsaufgaben selbst lösen, bevor die Lösung erscheint'}
+                        className="gap-2"
+                      >
+                        <PenTool className="w-4 h-4" />
+                        <span className="hidden sm:inline">Üben</span>
+                      </Button>
+                    )}
+
+                    {/* Learning unit quizzes */}
+                    <Button
+                      variant={showQuizPanel ? 'secondary' : 'ghost'}
+                      size={isTabletMode ? 'touch-sm' : 'sm'}
+                      onClick={() => setShowQuizPanel(true)}
+                      title="Quiz zu einer Lerneinheit"
+                      className="gap-2"
+                    >
+                      <ClipboardCheck className="w-4 h-4" />
+                      <span className="hidden sm:inline">Quiz</span>
+                    </Button>
+
+                    {/* Questions about the script */}
+                    <Button
+                      variant={showQAPanel ? 'secondary' : 'ghost'}
+                      size={isTabletMode ? 'touch-sm' : 'sm'}
+                      onClick={() => setShowQAPanel(true)}
+                      title="Frag das Skript"
+                      className="gap-2"
+                    >
+                      <MessageSquareQuote className="w-4 h-4" />
+                      <span className="hidden sm:inline">Fragen</span>
+                    </Button>
+
+                    {/* Glossary of the document */}
+                    <Link href={`/documents/${document.id}/glossary`}>
+                      <Button
+                        variant="ghost"
+                        size={isTabletMode ? 'touch-sm' : 'sm'}
+                        title="Glossar"
+                        className="gap-2"
+                      >
+                        <BookA className="w-4 h-4" />
+                        <span className="hidden sm:inline">Glossar</span>
+                      </Button>
+                    </Link>
+
+                    {/* Original PDF next to the text */}
+                    <Button
+                      variant={showPDFView ? 'secondary' : 'ghost'}
+                      size={isTabletMode ? 'touch-sm' : 'sm'}
+                      onClick={() => setShowPDFView((prev) => !prev)}
+                      title="Original-PDF daneben anzeigen"
+                      className="gap-2"
+                    >
+                      <Columns2 className="w-4 h-4" />
+                      <span className="hidden sm:inline">Original</span>
+                    </Button>
+
                     {/* Export button */}
                     <Button
                       variant="ghost"
@@ -862,6 +1140,25 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
                       <span className="hidden sm:inline">Export</span>
                     </Button>
 
+                    {/* Unresolved cross references (author mode) */}
+                    {isAuthorMode && (
+                      <Button
+                        variant={showReferenceReport ? 'secondary' : 'ghost'}
+                        size={isTabletMode ? 'touch-sm' : 'sm'}
+                        onClick={() => setShowReferenceReport(true)}
+                        title="Verweise ohne Ziel"
+                        className="gap-2"
+                      >
+                        <Link2Off className="w-4 h-4" />
+                        <span className="hidden sm:inline">Verweise</span>
+                        {unresolvedReferences.length > 0 && (
+                          <span className="bg-red-500 text-white text-xs px-1.5 py-0.5 rounded-full">
+                            {unresolvedReferences.reduce((sum, entry) => sum + entry.references.length, 0)}
+                          </span>
+                        )}
+                      </Button>
+                    )}
+
                     {/* Author Mode Toggle */}
                     <AuthorModeToggle
                       isAuthorMode={isAuthorMode}
@@ -978,7 +1275,13 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
                       ref={(el) => registerSectionRef(section.id, el)}
                       isActive={activeSection === section.id}
                       speakingParagraph={
-                        activeSection === section.id ? speakingParagraph : null
+                        (playbackSectionId ?? activeSection) === section.id ? speakingParagraph : null
+                      }
+                      spokenWord={(playbackSectionId ?? activeSection) === section.id ? spokenWord : null}
+                      onSeekToWord={
+                        (playbackSectionId ?? activeSection) === section.id && speakingParagraph !== null
+                          ? handleSeekToWord
+                          : undefined
                       }
                       sectionIndex={index}
                       highlights={getHighlightsForSection(section.id)}
@@ -1010,6 +1313,20 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
                       solutionSection={solutionMap.get(section.id) || null}
                       isBookmarked={hasBookmark(section.id)}
                       onToggleBookmark={() => toggleBookmark(section.id)}
+                      practiceMode={practiceMode}
+                      exerciseRating={exerciseRatings.get(section.id) ?? null}
+                      onSubmitExerciseAttempt={(answer, rating) =>
+                        recordExerciseAttempt(section.id, answer, rating)
+                      }
+                      onGenerateChapterCards={
+                        chapterStarts.has(section.id)
+                          ? () => setChapterCardsTarget(chapterStarts.get(section.id)!)
+                          : undefined
+                      }
+                      glossaryMatcher={glossaryMatcher}
+                      onOpenGlossaryTerm={handleOpenGlossaryTerm}
+                      resolveReference={resolveReference}
+                      onOpenReference={(target) => scrollToSection(target.id)}
                       isEditMode={isAuthorMode}
                       onEdit={isAuthorMode ? () => startEditing(section) : undefined}
                     />
@@ -1052,6 +1369,37 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
             </div>
           </ScrollArea>
 
+          {/* Original PDF page, synced with the section being read */}
+          <AnimatePresence>
+            {showPDFView && (
+              <motion.aside
+                key="pdf-split-view"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.2 }}
+                className="fixed inset-0 z-40 bg-background md:static md:z-auto md:w-[45%] md:shrink-0 md:border-l"
+              >
+                <PDFSplitView
+                  pdf={pdf}
+                  isLoading={pdfLoading}
+                  error={pdfError}
+                  page={pdfPage}
+                  onPageChange={(page) => setChosenPDFPage({ page, sectionId: activeSection })}
+                  sections={displaySections}
+                  activeSection={activeSectionData}
+                  onOpenSection={(sectionId) => {
+                    scrollToSection(sectionId)
+                    // On small screens the PDF covers the text
+                    if (!window.matchMedia('(min-width: 768px)').matches) setShowPDFView(false)
+                  }}
+                  onClose={() => setShowPDFView(false)}
+                  isTabletMode={isTabletMode}
+                />
+              </motion.aside>
+            )}
+          </AnimatePresence>
+
           {/* Sticky right sidebar for Highlights/Notes */}
           <AnimatePresence mode="wait">
             {showHighlightSidebar && (
@@ -1072,6 +1420,9 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
                   onHighlightClick={handleHighlightClick}
                   onDeleteHighlight={deleteHighlight}
                   onToggleForReview={toggleForReview}
+                  onCreateClozeCard={handleCreateClozeCard}
+                  onConvertReviewHighlights={handleConvertReviewHighlights}
+                  clozeHighlightIds={clozeHighlightIds}
                 />
               </motion.aside>
             )}
@@ -1136,6 +1487,9 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
           onHighlightClick={handleHighlightClick}
           onDeleteHighlight={deleteHighlight}
           onToggleForReview={toggleForReview}
+          onCreateClozeCard={handleCreateClozeCard}
+          onConvertReviewHighlights={handleConvertReviewHighlights}
+          clozeHighlightIds={clozeHighlightIds}
         />
         <NotesPanel
           isOpen={showNotesPanel}
@@ -1189,6 +1543,8 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
       <AIAssistant
         visible={showAIAssistant}
         selectedText={aiSelectedText}
+        sectionId={aiSelectionData?.sectionId ?? null}
+        documentId={document.id}
         onClose={handleCloseAI}
         isTabletMode={isTabletMode}
         onSaveAsNote={handleSaveAIAsNote}
@@ -1215,16 +1571,58 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
         onClose={handleCloseFlashcardGenerator}
       />
 
+      {/* Chapter Flashcard Generator */}
+      <ChapterFlashcardGenerator
+        visible={chapterCardsTarget !== null}
+        documentId={document.id}
+        chapterNumber={chapterCardsTarget?.chapter ?? null}
+        chapterTitle={chapterCardsTarget?.title ?? ''}
+        sectionCount={chapterCardsTarget?.sectionCount ?? 0}
+        onSave={handleSaveChapterCards}
+        onClose={() => setChapterCardsTarget(null)}
+        isTabletMode={isTabletMode}
+      />
+
       {/* Export Panel */}
       <ExportPanel
         visible={showExportPanel}
         onClose={() => setShowExportPanel(false)}
+        documentId={document.id}
         documentTitle={document.title}
         sections={sections}
         highlights={highlights}
         notes={notes}
       />
 
+      {/* Learning Unit Quizzes */}
+      <QuizPanel
+        visible={showQuizPanel}
+        onClose={() => setShowQuizPanel(false)}
+        documentId={document.id}
+        isTabletMode={isTabletMode}
+      />
+
+      {/* Questions about the script */}
+      <ScriptQAPanel
+        visible={showQAPanel}
+        onClose={() => setShowQAPanel(false)}
+        documentId={document.id}
+        onShowSource={(sectionId, offset) => {
+          scrollToSection(sectionId)
+          scrollToOffset(sectionId, offset)
+        }}
+        isTabletMode={isTabletMode}
+      />
+
+      {/* Cross references without a target (author mode) */}
+      <ReferenceReport
+        visible={showReferenceReport && isAuthorMode}
+        onClose={() => setShowReferenceReport(false)}
+        unresolved={unresolvedReferences}
+        onSelectSection={scrollToSection}
+        isTabletMode={isTabletMode}
+      />
+
       {/* Continue Reading Prompt */}
       <ContinueReadingPrompt
         position={lastPosition}
@@ -1259,6 +1657,7 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
                 <FlashcardDeck
                   flashcards={flashcards}
                   onUpdateReview={updateFlashcardReview}
+                  onImport={importFlashcards}
                   onClose={() => setShowFlashcardDeck(false)}
                   isLoading={flashcardsLoading}
                 />
@@ -1329,6 +1728,7 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
             onMarkCompleted={handleMarkChapterCompleted}
             highlightCounts={highlightCounts}
             noteCounts={noteCounts}
+            exerciseStats={exerciseStats}
             isTabletMode={true}
           />
         </TabletSidebar>
@@ -1349,13 +1749,18 @@ function DocumentReaderContent({ document, sections }: DocumentReaderProps) {
   )
 }
 
-export function DocumentReader({ document, sections }: DocumentReaderProps) {
+export function DocumentReader({ document, sections, initialSectionId, initialOffset }: DocumentReaderProps) {
   const sectionIds = useMemo(() => sections.map((s) => s.id), [sections])
 
   return (
     <TabletModeProvider>
       <HighlightProvider sectionIds={sectionIds}>
-        <DocumentReaderContent document={document} sections={sections} />
+        <DocumentReaderContent
+          document={document}
+          sections={sections}
+          initialSectionId={initialSectionId}
+          initialOffset={initialOffset}
+        />
       </HighlightProvider>
     </TabletModeProvider>
   )
@@ -0,0 +1,253 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import {
+  CheckCircle2,
+  ChevronDown,
+  CircleDashed,
+  Eye,
+  History,
+  Loader2,
+  RotateCcw,
+  Sparkles,
+  XCircle,
+  type LucideIcon,
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { AnswerFeedbackCard } from './AnswerFeedbackCard'
+import { useExerciseFeedback } from '@/hooks/useExerciseFeedback'
+import type { ExerciseFeedback, ExerciseRating, Section } from '@/lib/supabase/types'
+
+const RATINGS: { rating: ExerciseRating; label: string; icon: LucideIcon; className: string }[] = [
+  {
+    rating: 'failed',
+    label: 'Nicht gelöst',
+    icon: XCircle,
+    className: 'border-red-300 text-red-600 hover:bg-red-50 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-950/30',
+  },
+  {
+    rating: 'partial',
+    label: 'Teilweise',
+    icon: CircleDashed,
+    className: 'border-amber-300 text-amber-600 hover:bg-amber-50 dark:border-amber-800 dark:text-amber-400 dark:hover:bg-amber-950/30',
+  },
+  {
+    rating: 'solved',
+    label: 'Gelöst',
+    icon: CheckCircle2,
+    className: 'border-emerald-300 text-emerald-600 hover:bg-emerald-50 dark:border-emerald-800 dark:text-emerald-400 dark:hover:bg-emerald-950/30',
+  },
+]
+
+const RATING_LABELS: Record<ExerciseRating, string> = {
+  solved: 'Gelöst',
+  partial: 'Teilweise gelöst',
+  failed: 'Nicht gelöst',
+}
+
+type PracticeStep = 'answering' | 'rating' | 'rated'
+
+interface ExercisePracticeProps {
+  exerciseSectionId: string
+  solution: Section
+  /** Rating of the latest earlier attempt */
+  lastRating?: ExerciseRating | null
+  onSubmit: (answer: string, rating: ExerciseRating) => Promise<boolean>
+}
+
+/**
+ * Self-test for an exercise: the solution is shown only after an answer was
+ * typed, then the student rates the attempt. The answer can also be checked
+ * against the solution by the AI.
+ */
+export function ExercisePractice({ exerciseSectionId, solution, lastRating = null, onSubmit }: ExercisePracticeProps) {
+  const [answer, setAnswer] = useState('')
+  const [step, setStep] = useState<PracticeStep>('answering')
+  const [isSaving, setIsSaving] = useState(false)
+  const [savedRating, setSavedRating] = useState<ExerciseRating | null>(null)
+  const [feedback, setFeedback] = useState<ExerciseFeedback | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const {
+    history,
+    isLoading: isCheckingAnswer,
+    error: feedbackError,
+    requestFeedback,
+    loadHistory,
+  } = useExerciseFeedback(exerciseSectionId)
+
+  const handleRequestFeedback = useCallback(async () => {
+    const result = await requestFeedback(answer.trim())
+    if (result) setFeedback(result)
+  }, [answer, requestFeedback])
+
+  const handleToggleHistory = useCallback(() => {
+    if (!showHistory && !history) loadHistory()
+    setShowHistory(!showHistory)
+  }, [showHistory, history, loadHistory])
+
+  const earlierFeedback = (history || []).filter((entry) => entry.id !== feedback?.id)
+
+  const handleRate = useCallback(async (rating: ExerciseRating) => {
+    setIsSaving(true)
+    try {
+      if (await onSubmit(answer.trim(), rating)) {
+        setSavedRating(rating)
+        setStep('rated')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }, [answer, onSubmit])
+
+  const handleRetry = useCallback(() => {
+    setAnswer('')
+    setSavedRating(null)
+    setFeedback(null)
+    setStep('answering')
+  }, [])
+
+  return (
+    <div className="mt-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-xs font-medium text-orange-700 dark:text-orange-300">
+            Deine Lösung
+          </label>
+          {lastRating && step === 'answering' && (
+            <span className="text-xs text-muted-foreground">
+              Letzter Versuch: {RATING_LABELS[lastRating]}
+            </span>
+          )}
+        </div>
+        <Textarea
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          placeholder="Schreibe deine Antwort, bevor du die Lösung ansiehst..."
+          rows={4}
+          disabled={step !== 'answering'}
+          className="bg-white/70 dark:bg-gray-950/50"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {step === 'answering' && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={!answer.trim()}
+            onClick={() => setStep('rating')}
+            title={answer.trim() ? undefined : 'Erst eine Antwort eingeben'}
+          >
+            <Eye className="w-4 h-4" />
+            Lösung anzeigen
+          </Button>
+        )}
+        {!feedback && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={!answer.trim() || isCheckingAnswer}
+            onClick={handleRequestFeedback}
+            title={answer.trim() ? 'Antwort mit der Lösung vergleichen lassen' : 'Erst eine Antwort eingeben'}
+          >
+            {isCheckingAnswer ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            KI-Feedback
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="gap-2 ml-auto" onClick={handleToggleHistory}>
+          <History className="w-4 h-4" />
+          Frühere Rückmeldungen
+          <ChevronDown className={cn('w-4 h-4 transition-transform', showHistory && 'rotate-180')} />
+        </Button>
+      </div>
+
+      {feedbackError && (
+        <p className="text-sm text-destructive">{feedbackError}</p>
+      )}
+
+      {feedback && <AnswerFeedbackCard feedback={feedback.feedback} />}
+
+      {showHistory && (
+        <div className="space-y-3">
+          {history && earlierFeedback.length === 0 && (
+            <p className="text-sm text-muted-foreground">Noch keine früheren Rückmeldungen.</p>
+          )}
+          {earlierFeedback.map((entry) => (
+            <AnswerFeedbackCard
+              key={entry.id}
+              feedback={entry.feedback}
+              answer={entry.answer}
+              createdAt={entry.created_at}
+            />
+          ))}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {step !== 'answering' && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.3 }}
+            className="overflow-hidden space-y-4"
+          >
+            <div className="bg-emerald-50 dark:bg-emerald-900/20 border-l-4 border-emerald-500 rounded-r-lg p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <CheckCircle2 className="w-4 h-4 text-emerald-600 dark:text-emerald-400" />
+                <span className="text-sm font-semibold text-emerald-700 dark:text-emerald-300">
+                  Lösung
+                </span>
+              </div>
+              <div className="prose prose-sm prose-neutral dark:prose-invert max-w-none studienbrief-content">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                  {solution.content}
+                </ReactMarkdown>
+              </div>
+            </div>
+
+            {step === 'rating' ? (
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-2">
+                  Wie gut hast du die Aufgabe gelöst?
+                </p>
+                <div className="grid grid-cols-3 gap-2">
+                  {RATINGS.map(({ rating, label, icon: Icon, className }) => (
+                    <Button
+                      key={rating}
+                      variant="outline"
+                      size="sm"
+                      className={cn('gap-1.5', className)}
+                      disabled={isSaving}
+                      onClick={() => handleRate(rating)}
+                    >
+                      {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Icon className="w-4 h-4" />}
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-muted-foreground">
+                  Versuch gespeichert: {savedRating && RATING_LABELS[savedRating]}
+                </span>
+                <Button variant="ghost" size="sm" className="gap-2" onClick={handleRetry}>
+                  <RotateCcw className="w-4 h-4" />
+                  Noch einmal
+                </Button>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
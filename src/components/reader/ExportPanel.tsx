@@ -15,26 +15,37 @@ import {
   Image,
   SeparatorHorizontal,
   Check,
+  Headphones,
+  BookOpen,
+  GraduationCap,
+  Layers,
+  FolderOpen,
+  Table,
 } from 'lucide-react'
+import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { GlassCard } from '@/components/ui/glass-card'
 import { scaleIn } from '@/lib/animations'
 import { generateMarkdownExport, downloadMarkdown } from '@/lib/export/markdown-export'
 import { generatePdfExport } from '@/lib/export/pdf-export'
-import type { Section, Annotation, SectionMetadata } from '@/lib/supabase/types'
+import type { Section, Annotation, SectionMetadata, AudiobookJob } from '@/lib/supabase/types'
 import type { Note } from '@/hooks/useNotes'
+import { useLearningUnits } from '@/hooks/useLearningUnits'
+import { useDocumentModules } from '@/hooks/useModules'
+import type { DeckFormat } from '@/lib/flashcards/deck-export'
 
 interface ExportPanelProps {
   visible: boolean
   onClose: () => void
+  documentId: string
   documentTitle: string
   sections: Section[]
   highlights: Annotation[]
   notes: Note[]
 }
 
-type ExportFormat = 'markdown' | 'pdf' | 'print'
+type ExportFormat = 'markdown' | 'pdf' | 'print' | 'audio' | 'flashcards'
 type ExportFilter = 'all' | 'highlights' | 'notes' | 'review'
 
 interface PrintOptions {
@@ -44,12 +55,110 @@ interface PrintOptions {
   pageBreaksBetweenSections: boolean
 }
 
+// Whole document, or the id of a learning unit
+type AudioScope = 'document' | string
+
+// This document, or the id of a module containing it
+type DeckScope = 'document' | string
+
+/**
+ * Download a file rendered by the server
+ */
+async function downloadServerFile(url: string, fallbackName: string, errorMessage: string) {
+  const response = await fetch(url)
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || errorMessage)
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || ''
+  const encodedName = disposition.match(/filename\*=UTF-8''([^;]+)/)?.[1]
+  const blob = await response.blob()
+  const objectUrl = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = objectUrl
+  link.download = encodedName ? decodeURIComponent(encodedName) : fallbackName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(objectUrl)
+}
+
+// Audiobooks are rendered in the background; their progress is polled this often
+const AUDIOBOOK_POLL_INTERVAL_MS = 3000
+
+/**
+ * Render an audiobook on the server, follow its progress and download it when finished
+ */
+async function downloadAudiobook(
+  documentId: string,
+  scope: AudioScope,
+  onProgress: (percent: number) => void
+) {
+  const query = scope === 'document' ? '' : `?learning_unit_id=${encodeURIComponent(scope)}`
+  const response = await fetch(`/api/documents/${documentId}/audiobook${query}`, { method: 'POST' })
+  const started = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(started.error || 'Hörbuch konnte nicht erstellt werden')
+  }
+
+  const jobId: string = started.job.id
+
+  while (true) {
+    await new Promise(resolve => setTimeout(resolve, AUDIOBOOK_POLL_INTERVAL_MS))
+
+    const statusResponse = await fetch(`/api/documents/${documentId}/audiobook/${jobId}`)
+    const data: { job?: AudiobookJob; downloadUrl?: string | null; error?: string } =
+      await statusResponse.json().catch(() => ({}))
+
+    if (!statusResponse.ok || !data.job) {
+      throw new Error(data.error || 'Status des Hörbuchs konnte nicht geladen werden')
+    }
+
+    const { job, downloadUrl } = data
+    if (job.status === 'error') {
+      throw new Error(job.error || 'Hörbuch konnte nicht erstellt werden')
+    }
+
+    if (job.status === 'completed') {
+      if (!downloadUrl) throw new Error('Hörbuch konnte nicht heruntergeladen werden')
+      // The signed link downloads the file under its name
+      const link = document.createElement('a')
+      link.href = downloadUrl
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      return
+    }
+
+    onProgress(job.progress.total > 0 ? Math.round((job.progress.done / job.progress.total) * 100) : 0)
+  }
+}
+
+/**
+ * Download the flashcards of the document or a module as CSV or Anki deck
+ */
+async function downloadDeck(documentId: string, scope: DeckScope, deckFormat: DeckFormat, fallbackName: string) {
+  const path = scope === 'document'
+    ? `/api/documents/${documentId}/flashcards`
+    : `/api/modules/${encodeURIComponent(scope)}/flashcards`
+  await downloadServerFile(
+    `${path}?format=${deckFormat}`,
+    `${fallbackName}.${deckFormat}`,
+    'Lernkarten konnten nicht exportiert werden'
+  )
+}
+
 /**
- * Export panel for exporting annotations as Markdown or PDF
+ * Export panel for exporting annotations as Markdown or PDF, the text as
+ * audiobook, or the flashcards as CSV or Anki deck
  */
 export function ExportPanel({
   visible,
   onClose,
+  documentId,
   documentTitle,
   sections,
   highlights,
@@ -58,6 +167,10 @@ export function ExportPanel({
   const [format, setFormat] = useState<ExportFormat>('markdown')
   const [filter, setFilter] = useState<ExportFilter>('all')
   const [isExporting, setIsExporting] = useState(false)
+  const [audioScope, setAudioScope] = useState<AudioScope>('document')
+  const [audioProgress, setAudioProgress] = useState<number | null>(null)
+  const [deckFormat, setDeckFormat] = useState<DeckFormat>('apkg')
+  const [deckScope, setDeckScope] = useState<DeckScope>('document')
   const [printOptions, setPrintOptions] = useState<PrintOptions>({
     showHighlights: true,
     showNotes: true,
@@ -66,6 +179,11 @@ export function ExportPanel({
   })
   const printFrameRef = useRef<HTMLIFrameElement>(null)
 
+  // Learning units are only needed to choose what the audiobook covers
+  const { learningUnits } = useLearningUnits(visible && format === 'audio' ? documentId : null)
+  // Modules are only needed to export their whole deck
+  const documentModules = useDocumentModules(visible && format === 'flashcards' ? documentId : null)
+
   // Get counts for display
   const highlightCount = highlights.length
   const forReviewCount = highlights.filter((h) => h.for_review).length
@@ -218,10 +336,16 @@ export function ExportPanel({
         notes,
       }
 
+      const filename = `${documentTitle.slice(0, 50).replace(/[^a-zA-Z0-9äöüÄÖÜß\s-]/g, '')}_export`
+
       if (format === 'markdown') {
         const content = generateMarkdownExport(data, options)
-        const filename = `${documentTitle.slice(0, 50).replace(/[^a-zA-Z0-9äöüÄÖÜß\s-]/g, '')}_export`
         downloadMarkdown(content, filename)
+      } else if (format === 'audio') {
+        setAudioProgress(0)
+        await downloadAudiobook(documentId, audioScope, setAudioProgress)
+      } else if (format === 'flashcards') {
+        await downloadDeck(documentId, deckScope, deckFormat, filename)
       } else if (format === 'pdf') {
         generatePdfExport(data, options)
       } else if (format === 'print') {
@@ -234,15 +358,21 @@ export function ExportPanel({
       }, 500)
     } catch (error) {
       console.error('Export failed:', error)
+      if (format === 'audio' || format === 'flashcards') {
+        toast.error(error instanceof Error ? error.message : 'Export fehlgeschlagen')
+      }
     } finally {
       setIsExporting(false)
+      setAudioProgress(null)
     }
-  }, [format, filter, documentTitle, sections, highlights, notes, onClose, handlePrint])
+  }, [format, filter, documentId, documentTitle, audioScope, deckScope, deckFormat, sections, highlights, notes, onClose, handlePrint])
 
   // Close and reset
   const handleClose = useCallback(() => {
     setFormat('markdown')
     setFilter('all')
+    setAudioScope('document')
+    setDeckScope('document')
     onClose()
   }, [onClose])
 
@@ -319,7 +449,7 @@ export function ExportPanel({
                 <label className="text-xs font-medium text-muted-foreground mb-2 block">
                   Format
                 </label>
-                <div className="grid grid-cols-3 gap-2">
+                <div className="grid grid-cols-2 gap-2">
                   <button
                     onClick={() => setFormat('markdown')}
                     className={cn(
@@ -368,6 +498,38 @@ export function ExportPanel({
                       <p className="text-xs font-normal text-muted-foreground">Vorschau</p>
                     </div>
                   </button>
+                  <button
+                    onClick={() => setFormat('audio')}
+                    className={cn(
+                      'flex items-center gap-2 p-3 rounded-xl border transition-all',
+                      'text-sm font-medium',
+                      format === 'audio'
+                        ? 'border-brand-500 bg-brand-50 dark:bg-brand-950/30 text-brand-700 dark:text-brand-300'
+                        : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+                    )}
+                  >
+                    <Headphones className="w-5 h-5" />
+                    <div className="text-left">
+                      <p>Hörbuch</p>
+                      <p className="text-xs font-normal text-muted-foreground">.mp3 mit Kapiteln</p>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => setFormat('flashcards')}
+                    className={cn(
+                      'flex items-center gap-2 p-3 rounded-xl border transition-all',
+                      'text-sm font-medium',
+                      format === 'flashcards'
+                        ? 'border-brand-500 bg-brand-50 dark:bg-brand-950/30 text-brand-700 dark:text-brand-300'
+                        : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+                    )}
+                  >
+                    <Layers className="w-5 h-5" />
+                    <div className="text-left">
+                      <p>Lernkarten</p>
+                      <p className="text-xs font-normal text-muted-foreground">Anki / CSV</p>
+                    </div>
+                  </button>
                 </div>
               </div>
 
@@ -398,76 +560,177 @@ export function ExportPanel({
                 </div>
               )}
 
+              {/* Audiobook scope (only shown when audio format is selected) */}
+              {format === 'audio' && (
+                <div>
+                  <label className="text-xs font-medium text-muted-foreground mb-2 block">
+                    Umfang
+                  </label>
+                  <div className="space-y-2">
+                    <FilterOption
+                      value="document"
+                      current={audioScope}
+                      onChange={setAudioScope}
+                      label="Ganzes Dokument"
+                      description={`${sections.length} Abschnitte`}
+                      icon={<BookOpen className="w-4 h-4" />}
+                    />
+                    {learningUnits.map((unit) => (
+                      <FilterOption
+                        key={unit.id}
+                        value={unit.id}
+                        current={audioScope}
+                        onChange={setAudioScope}
+                        label={unit.title}
+                        description={`Lerneinheit · ${unit.sections.length} Abschnitte`}
+                        icon={<GraduationCap className="w-4 h-4" />}
+                      />
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Kapitelmarken aus Kapiteln und Unterkapiteln. Lösungen und Verweise werden übersprungen.
+                  </p>
+                </div>
+              )}
+
+              {/* Flashcard deck options (only shown when flashcards are selected) */}
+              {format === 'flashcards' && (
+                <>
+                  <div>
+                    <label className="text-xs font-medium text-muted-foreground mb-2 block">
+                      Dateityp
+                    </label>
+                    <div className="space-y-2">
+                      <FilterOption
+                        value="apkg"
+                        current={deckFormat}
+                        onChange={setDeckFormat}
+                        label="Anki-Stapel"
+                        description=".apkg mit Lernstand"
+                        icon={<Layers className="w-4 h-4" />}
+                      />
+                      <FilterOption
+                        value="csv"
+                        current={deckFormat}
+                        onChange={setDeckFormat}
+                        label="CSV-Tabelle"
+                        description=".csv für Tabellenkalkulation und andere Apps"
+                        icon={<Table className="w-4 h-4" />}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-xs font-medium text-muted-foreground mb-2 block">
+                      Umfang
+                    </label>
+                    <div className="space-y-2">
+                      <FilterOption
+                        value="document"
+                        current={deckScope}
+                        onChange={setDeckScope}
+                        label="Dieses Dokument"
+                        description="Karten dieses Skripts"
+                        icon={<BookOpen className="w-4 h-4" />}
+                      />
+                      {documentModules.map((m) => (
+                        <FilterOption
+                          key={m.id}
+                          value={m.id}
+                          current={deckScope}
+                          onChange={setDeckScope}
+                          label={m.title}
+                          description="Ganzes Modul · ein Unterstapel pro Dokument"
+                          icon={<FolderOpen className="w-4 h-4" />}
+                        />
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Abschnittstitel werden als Schlagwörter übernommen.
+                    </p>
+                  </div>
+                </>
+              )}
+
               {/* Filter Selection */}
-              <div>
-                <label className="text-xs font-medium text-muted-foreground mb-2 block">
-                  Inhalt
-                </label>
-                <div className="space-y-2">
-                  <FilterOption
-                    value="all"
-                    current={filter}
-                    onChange={setFilter}
-                    label="Alles exportieren"
-                    description="Alle Markierungen und Notizen"
-                    icon={<Download className="w-4 h-4" />}
-                  />
-                  <FilterOption
-                    value="highlights"
-                    current={filter}
-                    onChange={setFilter}
-                    label="Nur Markierungen"
-                    description={`${highlightCount} Markierungen`}
-                    icon={<Highlighter className="w-4 h-4" />}
-                  />
-                  <FilterOption
-                    value="notes"
-                    current={filter}
-                    onChange={setFilter}
-                    label="Nur Notizen"
-                    description={`${noteCount} Notizen`}
-                    icon={<StickyNote className="w-4 h-4" />}
-                  />
-                  {forReviewCount > 0 && (
+              {format !== 'audio' && format !== 'flashcards' && (
+                <div>
+                  <label className="text-xs font-medium text-muted-foreground mb-2 block">
+                    Inhalt
+                  </label>
+                  <div className="space-y-2">
                     <FilterOption
-                      value="review"
+                      value="all"
                       current={filter}
                       onChange={setFilter}
-                      label="Zur Vertiefung"
-                      description={`${forReviewCount} Markierungen zur Wiederholung`}
-                      icon={<BookmarkCheck className="w-4 h-4" />}
+                      label="Alles exportieren"
+                      description="Alle Markierungen und Notizen"
+                      icon={<Download className="w-4 h-4" />}
                     />
-                  )}
+                    <FilterOption
+                      value="highlights"
+                      current={filter}
+                      onChange={setFilter}
+                      label="Nur Markierungen"
+                      description={`${highlightCount} Markierungen`}
+                      icon={<Highlighter className="w-4 h-4" />}
+                    />
+                    <FilterOption
+                      value="notes"
+                      current={filter}
+                      onChange={setFilter}
+                      label="Nur Notizen"
+                      description={`${noteCount} Notizen`}
+                      icon={<StickyNote className="w-4 h-4" />}
+                    />
+                    {forReviewCount > 0 && (
+                      <FilterOption
+                        value="review"
+                        current={filter}
+                        onChange={setFilter}
+                        label="Zur Vertiefung"
+                        description={`${forReviewCount} Markierungen zur Wiederholung`}
+                        icon={<BookmarkCheck className="w-4 h-4" />}
+                      />
+                    )}
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Export Button */}
               <Button
                 variant="premium"
                 className="w-full"
                 onClick={handleExport}
-                disabled={isExporting || (format !== 'print' && highlightCount === 0 && noteCount === 0)}
+                disabled={isExporting || (format !== 'print' && format !== 'audio' && format !== 'flashcards' && highlightCount === 0 && noteCount === 0)}
               >
                 {isExporting ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Exportiere...
+                    {format === 'audio'
+                      ? `Hörbuch wird erstellt... ${audioProgress ?? 0}%`
+                      : 'Exportiere...'}
                   </>
                 ) : (
                   <>
                     {format === 'print' ? (
                       <Printer className="w-4 h-4 mr-2" />
+                    ) : format === 'audio' ? (
+                      <Headphones className="w-4 h-4 mr-2" />
+                    ) : format === 'flashcards' ? (
+                      <Layers className="w-4 h-4 mr-2" />
                     ) : (
                       <Download className="w-4 h-4 mr-2" />
                     )}
                     {format === 'markdown' && 'Als Markdown herunterladen'}
                     {format === 'pdf' && 'PDF generieren'}
                     {format === 'print' && 'Druckvorschau öffnen'}
+                    {format === 'audio' && 'Hörbuch herunterladen'}
+                    {format === 'flashcards' && 'Lernkarten herunterladen'}
                   </>
                 )}
               </Button>
 
-              {highlightCount === 0 && noteCount === 0 && format !== 'print' && (
+              {highlightCount === 0 && noteCount === 0 && format !== 'print' && format !== 'audio' && format !== 'flashcards' && (
                 <p className="text-xs text-center text-muted-foreground">
                   Keine Annotationen zum Exportieren vorhanden.
                 </p>
@@ -480,23 +743,23 @@ export function ExportPanel({
   )
 }
 
-interface FilterOptionProps {
-  value: ExportFilter
-  current: ExportFilter
-  onChange: (value: ExportFilter) => void
+interface FilterOptionProps<T extends string> {
+  value: T
+  current: T
+  onChange: (value: T) => void
   label: string
   description: string
   icon: React.ReactNode
 }
 
-function FilterOption({
+function FilterOption<T extends string>({
   value,
   current,
   onChange,
   label,
   description,
   icon,
-}: FilterOptionProps) {
+}: FilterOptionProps<T>) {
   return (
     <button
       onClick={() => onChange(value)}
@@ -0,0 +1,70 @@
+'use client'
+
+import { BookA, ArrowRight } from 'lucide-react'
+import { TextAnchorPopover } from './TextAnchorPopover'
+import type { GlossaryTerm } from '@/lib/supabase/types'
+
+const MAX_DEFINITION_LENGTH = 320
+
+interface GlossaryTermTooltipProps {
+  term: GlossaryTerm | null
+  /** Bounding box of the marked term in the text */
+  anchor: DOMRect | null
+  onClose: () => void
+  /** Keep the tooltip open while the pointer is over it */
+  onPointerEnter?: () => void
+  onPointerLeave?: () => void
+  /** Jump to the section the term is defined in */
+  onOpenSource?: (term: GlossaryTerm) => void
+}
+
+/**
+ * Definition of a glossary term, shown on hover or tap over its occurrence
+ */
+export function GlossaryTermTooltip({
+  term,
+  anchor,
+  onClose,
+  onPointerEnter,
+  onPointerLeave,
+  onOpenSource,
+}: GlossaryTermTooltipProps) {
+  const definition = term && term.definition.length > MAX_DEFINITION_LENGTH
+    ? `${term.definition.slice(0, MAX_DEFINITION_LENGTH).trimEnd()} …`
+    : term?.definition
+
+  return (
+    <TextAnchorPopover
+      anchor={term ? anchor : null}
+      onClose={onClose}
+      onPointerEnter={onPointerEnter}
+      onPointerLeave={onPointerLeave}
+    >
+      {term && (
+        <>
+          <div className="flex items-center gap-2 mb-2">
+            <BookA className="w-4 h-4 text-blue-800 dark:text-blue-400 flex-shrink-0" />
+            <p className="font-semibold text-sm text-foreground">
+              {term.term}
+              {term.aliases.length > 0 && (
+                <span className="font-normal text-muted-foreground"> ({term.aliases.join(', ')})</span>
+              )}
+            </p>
+          </div>
+          <p className="text-sm text-foreground/80 leading-relaxed whitespace-pre-line">
+            {definition}
+          </p>
+          {term.section_id && onOpenSource && (
+            <button
+              onClick={() => onOpenSource(term)}
+              className="mt-3 flex items-center gap-1 text-xs font-medium text-brand-600 dark:text-brand-400 hover:underline"
+            >
+              Zur Definition
+              <ArrowRight className="w-3 h-3" />
+            </button>
+          )}
+        </>
+      )}
+    </TextAnchorPopover>
+  )
+}
@@ -0,0 +1,295 @@
+'use client'
+
+import { useState, useMemo, useCallback } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ArrowLeft, ChevronRight, ClipboardCheck, Loader2, Play, Sparkles, Users, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { scaleIn } from '@/lib/animations'
+import { QuizPlayer } from './QuizPlayer'
+import { useLearningUnits } from '@/hooks/useLearningUnits'
+import { useQuiz } from '@/hooks/useQuiz'
+import { objectiveAverages, objectiveHistory } from '@/lib/progress/quiz-stats'
+
+// Attempts shown per objective in the history bars
+const HISTORY_LENGTH = 8
+
+interface QuizPanelProps {
+  visible: boolean
+  onClose: () => void
+  documentId: string
+  isTabletMode?: boolean
+}
+
+function ratioClassName(ratio: number): string {
+  if (ratio >= 0.8) return 'bg-emerald-500'
+  if (ratio >= 0.5) return 'bg-amber-500'
+  return 'bg-red-500'
+}
+
+/**
+ * Quizzes for the learning units of a document: pick a unit, see the score
+ * per learning objective over time and play or generate its quiz
+ */
+export function QuizPanel({ visible, onClose, documentId, isTabletMode = false }: QuizPanelProps) {
+  const [selectedUnitId, setSelectedUnitId] = useState<string | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  const { learningUnits, isLoading: unitsLoading } = useLearningUnits(visible ? documentId : null)
+  const {
+    quiz,
+    attempts,
+    userId,
+    isLoading: quizLoading,
+    isGenerating,
+    error,
+    generateQuiz,
+    submitAttempt,
+  } = useQuiz(visible ? selectedUnitId : null)
+
+  const selectedUnit = learningUnits.find((u) => u.id === selectedUnitId) ?? null
+
+  const ownHistory = useMemo(
+    () => objectiveHistory(attempts.filter((a) => a.user_id === userId)),
+    [attempts, userId]
+  )
+
+  // Module owners also receive the attempts of other students
+  const otherAttempts = useMemo(() => attempts.filter((a) => a.user_id !== userId), [attempts, userId])
+  const studentCount = useMemo(() => new Set(otherAttempts.map((a) => a.user_id)).size, [otherAttempts])
+  const studentAverages = useMemo(() => objectiveAverages(otherAttempts), [otherAttempts])
+
+  const handleGenerate = useCallback(async () => {
+    if (await generateQuiz()) setIsPlaying(true)
+  }, [generateQuiz])
+
+  const handleFinish = useCallback(
+    (answers: (number | null)[]) => (quiz ? submitAttempt(quiz.id, answers) : Promise.resolve(null)),
+    [quiz, submitAttempt]
+  )
+
+  const handleBack = useCallback(() => {
+    if (isPlaying) {
+      setIsPlaying(false)
+    } else {
+      setSelectedUnitId(null)
+    }
+  }, [isPlaying])
+
+  const handleClose = useCallback(() => {
+    setIsPlaying(false)
+    setSelectedUnitId(null)
+    onClose()
+  }, [onClose])
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+            onClick={isGenerating ? undefined : handleClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            variants={scaleIn}
+            initial="initial"
+            animate="animate"
+            exit="exit"
+            className={cn(
+              'fixed z-50',
+              'left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2',
+              'w-full max-w-xl max-h-[90vh] flex flex-col',
+              'bg-white dark:bg-gray-900',
+              'rounded-2xl shadow-2xl',
+              'border border-gray-200/50 dark:border-gray-700/50',
+              'overflow-hidden'
+            )}
+          >
+            {/* Header */}
+            <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  {selectedUnit ? (
+                    <Button variant="ghost" size="icon" onClick={handleBack} disabled={isGenerating}>
+                      <ArrowLeft className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <div className="w-8 h-8 shrink-0 rounded-lg bg-brand-500/20 flex items-center justify-center">
+                      <ClipboardCheck className="w-4 h-4 text-brand-600 dark:text-brand-400" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <h2 className="font-semibold">Quiz</h2>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {selectedUnit ? selectedUnit.title : 'Lerneinheit auswählen'}
+                    </p>
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={handleClose} disabled={isGenerating}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="p-4 space-y-4 overflow-y-auto">
+              {/* Unit list */}
+              {!selectedUnit && (
+                <>
+                  {unitsLoading && (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                    </div>
+                  )}
+                  {!unitsLoading && learningUnits.length === 0 && (
+                    <p className="text-sm text-center text-muted-foreground py-6">
+                      Für dieses Dokument gibt es noch keine Lerneinheiten.
+                    </p>
+                  )}
+                  {!unitsLoading && learningUnits.map((unit) => (
+                    <button
+                      key={unit.id}
+                      onClick={() => setSelectedUnitId(unit.id)}
+                      className={cn(
+                        'w-full flex items-center justify-between gap-3 rounded-xl border p-3 text-left',
+                        'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors'
+                      )}
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{unit.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {unit.sections.length} Abschnitte · {(unit.learning_objectives || []).length} Lernziele
+                        </p>
+                      </div>
+                      <ChevronRight className="w-4 h-4 shrink-0 text-muted-foreground" />
+                    </button>
+                  ))}
+                </>
+              )}
+
+              {/* Quiz player */}
+              {selectedUnit && isPlaying && quiz && (
+                <QuizPlayer
+                  key={quiz.id}
+                  quiz={quiz}
+                  onFinish={handleFinish}
+                  onBack={() => setIsPlaying(false)}
+                  isTabletMode={isTabletMode}
+                />
+              )}
+
+              {/* Unit overview */}
+              {selectedUnit && !isPlaying && (
+                <>
+                  {quizLoading ? (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : (
+                    <>
+                      {ownHistory.length > 0 ? (
+                        <div className="space-y-3">
+                          <p className="text-xs font-medium text-muted-foreground">Deine Ergebnisse je Lernziel</p>
+                          {ownHistory.map(({ objective, points }) => {
+                            const recent = points.slice(-HISTORY_LENGTH)
+                            const latest = recent[recent.length - 1].ratio
+                            return (
+                              <div key={objective} className="space-y-1">
+                                <div className="flex items-center justify-between gap-3 text-sm">
+                                  <span className="min-w-0">{objective}</span>
+                                  <span className="shrink-0 tabular-nums font-medium">
+                                    {Math.round(latest * 100)}%
+                                  </span>
+                                </div>
+                                <div className="flex items-end gap-1 h-6">
+                                  {recent.map((point, i) => (
+                                    <div
+                                      key={i}
+                                      title={`${new Date(point.created_at).toLocaleDateString('de-DE')}: ${Math.round(point.ratio * 100)}%`}
+                                      className={cn('w-3 rounded-sm', ratioClassName(point.ratio))}
+                                      style={{ height: `${Math.max(10, point.ratio * 100)}%` }}
+                                    />
+                                  ))}
+                                </div>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          {quiz
+                            ? 'Du hast dieses Quiz noch nicht gemacht.'
+                            : 'Für diese Lerneinheit gibt es noch kein Quiz. Die KI erstellt Multiple-Choice- und Wahr/Falsch-Fragen zu ihren Abschnitten.'}
+                        </p>
+                      )}
+
+                      {studentCount > 0 && (
+                        <div className="space-y-2 rounded-xl bg-gray-50 dark:bg-gray-800/50 p-3">
+                          <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+                            <Users className="w-3.5 h-3.5" />
+                            Teilnehmende ({studentCount}, {otherAttempts.length} Durchläufe)
+                          </p>
+                          {[...studentAverages].map(([objective, ratio]) => (
+                            <div key={objective} className="flex items-center gap-3 text-sm">
+                              <span className="flex-1 min-w-0 truncate">{objective}</span>
+                              <div className="w-24 h-1.5 shrink-0 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                                <div
+                                  className={cn('h-full', ratioClassName(ratio))}
+                                  style={{ width: `${ratio * 100}%` }}
+                                />
+                              </div>
+                              <span className="w-10 shrink-0 text-right tabular-nums">{Math.round(ratio * 100)}%</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="flex flex-col gap-2">
+                        {quiz && (
+                          <Button variant="premium" className="w-full gap-2" onClick={() => setIsPlaying(true)}>
+                            <Play className="w-4 h-4" />
+                            Quiz starten ({quiz.questions.length} Fragen)
+                          </Button>
+                        )}
+                        <Button
+                          variant={quiz ? 'outline' : 'premium'}
+                          className="w-full gap-2"
+                          onClick={handleGenerate}
+                          disabled={isGenerating || selectedUnit.sections.length === 0}
+                          title={selectedUnit.sections.length === 0 ? 'Die Lerneinheit enthält keine Abschnitte' : undefined}
+                        >
+                          {isGenerating ? (
+                            <>
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                              Generiere Fragen...
+                            </>
+                          ) : (
+                            <>
+                              <Sparkles className="w-4 h-4" />
+                              {quiz ? 'Neues Quiz erzeugen' : 'Quiz mit KI erzeugen'}
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </>
+              )}
+
+              {/* Error message */}
+              {error && (
+                <p className="text-sm text-destructive text-center">{error}</p>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,190 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ArrowRight, CheckCircle2, Loader2, RotateCcw, Trophy, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import type { Quiz, QuizAttempt } from '@/lib/supabase/types'
+
+interface QuizPlayerProps {
+  quiz: Quiz
+  onFinish: (answers: (number | null)[]) => Promise<QuizAttempt | null>
+  onBack: () => void
+  isTabletMode?: boolean
+}
+
+/**
+ * Plays a quiz one question at a time. The explanation is shown right after
+ * an option is chosen; the attempt is saved at the end.
+ */
+export function QuizPlayer({ quiz, onFinish, onBack, isTabletMode = false }: QuizPlayerProps) {
+  const [index, setIndex] = useState(0)
+  const [answers, setAnswers] = useState<(number | null)[]>(() => quiz.questions.map(() => null))
+  const [isSaving, setIsSaving] = useState(false)
+  const [result, setResult] = useState<QuizAttempt | null>(null)
+
+  const question = quiz.questions[index]
+  const selected = answers[index]
+  const isAnswered = selected !== null
+  const isLast = index === quiz.questions.length - 1
+
+  const handleSelect = useCallback((option: number) => {
+    setAnswers((prev) => (prev[index] !== null ? prev : prev.map((a, i) => (i === index ? option : a))))
+  }, [index])
+
+  const handleNext = useCallback(async () => {
+    if (!isLast) {
+      setIndex((prev) => prev + 1)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      setResult(await onFinish(answers))
+    } finally {
+      setIsSaving(false)
+    }
+  }, [isLast, answers, onFinish])
+
+  const handleRestart = useCallback(() => {
+    setIndex(0)
+    setAnswers(quiz.questions.map(() => null))
+    setResult(null)
+  }, [quiz])
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <div className="text-center py-4">
+          <Trophy className="w-10 h-10 mx-auto text-amber-500 mb-2" />
+          <p className="text-2xl font-bold tabular-nums">
+            {result.score} / {result.max_score}
+          </p>
+          <p className="text-sm text-muted-foreground">richtig beantwortet</p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Nach Lernziel</p>
+          {Object.entries(result.objective_scores).map(([objective, { correct, total }]) => (
+            <div key={objective} className="flex items-center justify-between gap-3 text-sm">
+              <span className="min-w-0">{objective}</span>
+              <span
+                className={cn(
+                  'shrink-0 tabular-nums font-medium',
+                  correct === total ? 'text-emerald-600 dark:text-emerald-400' : 'text-amber-600 dark:text-amber-400'
+                )}
+              >
+                {correct}/{total}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1 gap-2" onClick={onBack}>
+            Zur Übersicht
+          </Button>
+          <Button variant="premium" className="flex-1 gap-2" onClick={handleRestart}>
+            <RotateCcw className="w-4 h-4" />
+            Noch einmal
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Progress */}
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          Frage {index + 1} von {quiz.questions.length}
+        </span>
+        <span className="truncate ml-4">{question.objective}</span>
+      </div>
+      <div className="h-1.5 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+        <div
+          className="h-full bg-brand-500 transition-all"
+          style={{ width: `${((index + (isAnswered ? 1 : 0)) / quiz.questions.length) * 100}%` }}
+        />
+      </div>
+
+      <p className={cn('font-medium', isTabletMode ? 'text-lg' : 'text-base')}>
+        {question.type === 'true_false' && (
+          <span className="text-xs font-normal text-muted-foreground block mb-1">Wahr oder falsch?</span>
+        )}
+        {question.question}
+      </p>
+
+      {/* Options */}
+      <div className={cn('grid gap-2', question.type === 'true_false' && 'grid-cols-2')}>
+        {question.options.map((option, optionIndex) => {
+          const isCorrect = optionIndex === question.correct_index
+          const isChosen = optionIndex === selected
+          return (
+            <button
+              key={optionIndex}
+              onClick={() => handleSelect(optionIndex)}
+              disabled={isAnswered}
+              className={cn(
+                'flex items-center gap-2 rounded-lg border px-3 text-left text-sm transition-colors',
+                isTabletMode ? 'py-3' : 'py-2',
+                !isAnswered && 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800',
+                isAnswered && isCorrect && 'border-emerald-400 bg-emerald-50 dark:bg-emerald-950/30',
+                isAnswered && isChosen && !isCorrect && 'border-red-400 bg-red-50 dark:bg-red-950/30',
+                isAnswered && !isCorrect && !isChosen && 'border-gray-200 dark:border-gray-700 opacity-60'
+              )}
+            >
+              {isAnswered && isCorrect && <CheckCircle2 className="w-4 h-4 shrink-0 text-emerald-600" />}
+              {isAnswered && isChosen && !isCorrect && <XCircle className="w-4 h-4 shrink-0 text-red-600" />}
+              <span>{option}</span>
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Explanation */}
+      <AnimatePresence>
+        {isAnswered && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <div
+              className={cn(
+                'rounded-lg p-3 text-sm',
+                selected === question.correct_index
+                  ? 'bg-emerald-50 text-emerald-900 dark:bg-emerald-950/30 dark:text-emerald-200'
+                  : 'bg-red-50 text-red-900 dark:bg-red-950/30 dark:text-red-200'
+              )}
+            >
+              <p className="font-medium mb-1">
+                {selected === question.correct_index ? 'Richtig!' : 'Leider falsch.'}
+              </p>
+              {question.explanation && <p>{question.explanation}</p>}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <Button
+        variant="premium"
+        className="w-full gap-2"
+        disabled={!isAnswered || isSaving}
+        onClick={handleNext}
+      >
+        {isSaving ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <>
+            {isLast ? 'Auswerten' : 'Nächste Frage'}
+            <ArrowRight className="w-4 h-4" />
+          </>
+        )}
+      </Button>
+    </div>
+  )
+}
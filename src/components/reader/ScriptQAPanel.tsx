@@ -0,0 +1,273 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Loader2, MessageSquareQuote, SearchX, Send, Trash2, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { slideInRight } from '@/lib/animations'
+import { useScriptQA } from '@/hooks/useScriptQA'
+import { useDocumentModules } from '@/hooks/useModules'
+import { readerHref } from '@/lib/search/search-results'
+import type { ScriptAnswer, ScriptAnswerCitation } from '@/lib/supabase/types'
+
+interface ScriptQAPanelProps {
+  visible: boolean
+  onClose: () => void
+  documentId: string
+  /** Scroll the open document to a cited passage */
+  onShowSource: (sectionId: string, offset: number) => void
+  isTabletMode?: boolean
+}
+
+function pageLabel(citation: ScriptAnswerCitation): string | null {
+  if (!citation.page_start) return null
+  return citation.page_end && citation.page_end !== citation.page_start
+    ? `S. ${citation.page_start}–${citation.page_end}`
+    : `S. ${citation.page_start}`
+}
+
+interface AnswerCardProps {
+  answer: ScriptAnswer
+  documentId: string
+  onOpenCitation: (citation: ScriptAnswerCitation) => void
+}
+
+function AnswerCard({ answer, documentId, onOpenCitation }: AnswerCardProps) {
+  const citations = new Map(answer.citations.map((c) => [c.index, c]))
+  // Answer text with its [n] markers as links to the sources
+  const parts = answer.answer.split(/(\[\d+\])/g).filter(Boolean)
+
+  return (
+    <div className="space-y-2">
+      <p className="ml-8 rounded-xl rounded-tr-sm bg-purple-600 text-white px-3 py-2 text-sm whitespace-pre-wrap">
+        {answer.question}
+      </p>
+
+      <div
+        className={cn(
+          'mr-8 rounded-xl rounded-tl-sm px-3 py-2 text-sm',
+          answer.refused
+            ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200'
+            : 'bg-muted/60'
+        )}
+      >
+        {answer.refused && <SearchX className="w-4 h-4 mb-1" />}
+        <p className="whitespace-pre-wrap leading-relaxed">
+          {parts.map((part, i) => {
+            const citation = citations.get(Number(part.match(/^\[(\d+)\]$/)?.[1]))
+            if (!citation) return <span key={i}>{part}</span>
+            return (
+              <button
+                key={i}
+                onClick={() => onOpenCitation(citation)}
+                title={`${citation.section_title}${pageLabel(citation) ? ` (${pageLabel(citation)})` : ''}`}
+                className="align-super text-[10px] font-semibold text-purple-600 dark:text-purple-400 hover:underline px-0.5"
+              >
+                {part}
+              </button>
+            )
+          })}
+        </p>
+
+        {answer.citations.length > 0 && (
+          <ol className="mt-3 pt-2 border-t border-border/50 space-y-1">
+            {answer.citations.map((citation) => (
+              <li key={citation.index}>
+                <button
+                  onClick={() => onOpenCitation(citation)}
+                  className="w-full text-left text-xs text-muted-foreground hover:text-foreground flex gap-1.5"
+                >
+                  <span className="font-semibold text-purple-600 dark:text-purple-400">[{citation.index}]</span>
+                  <span className="truncate">
+                    {citation.document_id !== documentId && `${citation.document_title} · `}
+                    {citation.section_title}
+                  </span>
+                  {pageLabel(citation) && <span className="shrink-0">{pageLabel(citation)}</span>}
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Questions about the script: answered only from its most relevant sections,
+ * every statement linked to its source. Asks about the open document or all
+ * documents of one of its modules.
+ */
+export function ScriptQAPanel({
+  visible,
+  onClose,
+  documentId,
+  onShowSource,
+  isTabletMode = false,
+}: ScriptQAPanelProps) {
+  const router = useRouter()
+  const [question, setQuestion] = useState('')
+  const [moduleId, setModuleId] = useState<string | null>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  const modules = useDocumentModules(visible ? documentId : null)
+  const { answers, isAsking, error, ask, clear } = useScriptQA()
+
+  // Keep the latest answer in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' })
+  }, [answers.length, isAsking])
+
+  const handleAsk = async () => {
+    const trimmed = question.trim()
+    if (!trimmed || isAsking) return
+    const answer = await ask(trimmed, moduleId ? { moduleId } : { documentId })
+    if (answer) setQuestion('')
+  }
+
+  const openCitation = (citation: ScriptAnswerCitation) => {
+    if (citation.document_id === documentId) {
+      onShowSource(citation.section_id, citation.offset)
+    } else {
+      router.push(readerHref(citation.document_id, citation.section_id, citation.offset))
+    }
+  }
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <>
+          {/* Backdrop for mobile */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/20 backdrop-blur-sm z-40 lg:hidden"
+            onClick={onClose}
+          />
+
+          {/* Panel */}
+          <motion.aside
+            variants={slideInRight}
+            initial="initial"
+            animate="animate"
+            exit="exit"
+            className={cn(
+              'fixed right-0 top-0 bottom-0 z-50',
+              'w-96 max-w-[90vw]',
+              'bg-white/95 dark:bg-gray-900/95 backdrop-blur-xl',
+              'border-l border-gray-200/50 dark:border-gray-700/50',
+              'shadow-2xl',
+              'flex flex-col'
+            )}
+          >
+            {/* Header */}
+            <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <div className="w-8 h-8 rounded-lg bg-purple-500/20 flex items-center justify-center">
+                    <MessageSquareQuote className="w-4 h-4 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div>
+                    <h2 className="font-semibold">Frag das Skript</h2>
+                    <p className="text-xs text-muted-foreground">Antworten nur aus dem Skript, mit Quellen</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  {answers.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size={isTabletMode ? 'icon-touch' : 'icon'}
+                      onClick={clear}
+                      title="Verlauf leeren"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size={isTabletMode ? 'icon-touch' : 'icon'}
+                    onClick={onClose}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {modules.length > 0 && (
+                <select
+                  aria-label="Durchsuchen"
+                  value={moduleId ?? ''}
+                  onChange={(e) => setModuleId(e.target.value || null)}
+                  className="w-full h-9 rounded-md border border-input bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">Nur dieses Skript</option>
+                  {modules.map((m) => (
+                    <option key={m.id} value={m.id}>Ganzes Modul: {m.title}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {/* Conversation */}
+            <ScrollArea className="flex-1">
+              <div className="p-4 space-y-4">
+                {answers.length === 0 && !isAsking && (
+                  <div className="py-8 text-center text-muted-foreground">
+                    <MessageSquareQuote className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                    <p className="text-sm">Stell eine Frage zum Inhalt</p>
+                    <p className="text-xs mt-1">
+                      Die Antwort stützt sich nur auf die passenden Abschnitte. Klick auf [1], um die Stelle zu öffnen.
+                    </p>
+                  </div>
+                )}
+                {answers.map((answer, i) => (
+                  <AnswerCard key={i} answer={answer} documentId={documentId} onOpenCitation={openCitation} />
+                ))}
+                {isAsking && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Suche passende Abschnitte...
+                  </div>
+                )}
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <div ref={bottomRef} />
+              </div>
+            </ScrollArea>
+
+            {/* Question */}
+            <div className="p-4 border-t border-gray-200/50 dark:border-gray-700/50 flex items-end gap-2">
+              <Textarea
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault()
+                    handleAsk()
+                  }
+                }}
+                placeholder="Was ist ...? Wie hängen ... zusammen?"
+                rows={2}
+                className="resize-none"
+                disabled={isAsking}
+              />
+              <Button
+                size={isTabletMode ? 'icon-touch' : 'icon'}
+                onClick={handleAsk}
+                disabled={isAsking || !question.trim()}
+                className="bg-purple-600 hover:bg-purple-700 shrink-0"
+                aria-label="Frage senden"
+              >
+                {isAsking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              </Button>
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
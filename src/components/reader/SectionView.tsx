@@ -1,6 +1,6 @@
 'use client'
 
-import { forwardRef, useMemo, useState, useCallback } from 'react'
+import { forwardRef, useMemo, useState, useCallback, useRef, useEffect } from 'react'
 import Image from 'next/image'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
@@ -22,6 +22,7 @@ import {
   Bookmark,
   Library,
   Pencil,
+  Layers,
   type LucideIcon,
 } from 'lucide-react'
 import ReactMarkdown from 'react-markdown'
@@ -32,8 +33,26 @@ import { Button } from '@/components/ui/button'
 import { fadeInUp } from '@/lib/animations'
 import { HighlightedText } from './highlighting/HighlightedText'
 import { HighlightPopup } from './highlighting/HighlightPopup'
-import type { Section, DocumentImage, Annotation, SectionType, SectionMetadata } from '@/lib/supabase/types'
+import { ExercisePractice } from './ExercisePractice'
+import { GlossaryTermTooltip } from './GlossaryTermTooltip'
+import { CrossReferencePreview } from './CrossReferencePreview'
+import type { TermOccurrence } from '@/lib/glossary/glossary'
+import {
+  resolveReferences,
+  type ReferenceKind,
+  type SectionLink,
+} from '@/lib/references/cross-references'
+import type {
+  Section,
+  DocumentImage,
+  Annotation,
+  SectionType,
+  SectionMetadata,
+  ExerciseRating,
+  GlossaryTerm,
+} from '@/lib/supabase/types'
 import type { Note } from '@/hooks/useNotes'
+import type { SpokenWord } from '@/hooks/useElevenLabs'
 
 // Section type styles for Studienbrief elements
 // Based on FOM Corporate Design Hochschulbereichsfarben
@@ -116,6 +135,9 @@ interface SectionViewProps {
   section: Section
   isActive: boolean
   speakingParagraph: number | null
+  // Read-along: word being spoken, tap a word to continue reading there
+  spokenWord?: SpokenWord | null
+  onSeekToWord?: (paragraph: number, offset: number) => void
   sectionIndex?: number
   highlights?: Annotation[]
   notes?: Note[]
@@ -132,17 +154,34 @@ interface SectionViewProps {
   // Bookmark functionality
   isBookmarked?: boolean
   onToggleBookmark?: () => void
+  // AI flashcards for the whole chapter (offered on its first section)
+  onGenerateChapterCards?: () => void
+  // Self-test: solution hidden until an answer was typed and rated
+  practiceMode?: boolean
+  exerciseRating?: ExerciseRating | null
+  onSubmitExerciseAttempt?: (answer: string, rating: ExerciseRating) => Promise<boolean>
+  // Glossary: terms marked in the text, with their definition on hover or tap
+  glossaryMatcher?: (text: string) => TermOccurrence<GlossaryTerm>[]
+  onOpenGlossaryTerm?: (term: GlossaryTerm) => void
+  // Cross references ("siehe Kapitel 2.3") as links with a preview
+  resolveReference?: (kind: ReferenceKind, number: string) => Section | null
+  onOpenReference?: (target: Section) => void
   // Edit mode functionality
   isEditMode?: boolean
   onEdit?: () => void
 }
 
+// Delay before a glossary or reference popover closes, so the pointer can move onto it
+const POPOVER_HIDE_DELAY = 200
+
 export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
   function SectionView(
     {
       section,
       isActive,
       speakingParagraph,
+      spokenWord = null,
+      onSeekToWord,
       sectionIndex,
       highlights = [],
       notes = [],
@@ -157,6 +196,14 @@ export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
       solutionSection,
       isBookmarked = false,
       onToggleBookmark,
+      onGenerateChapterCards,
+      practiceMode = false,
+      exerciseRating = null,
+      onSubmitExerciseAttempt,
+      glossaryMatcher,
+      onOpenGlossaryTerm,
+      resolveReference,
+      onOpenReference,
       isEditMode = false,
       onEdit,
     },
@@ -172,6 +219,13 @@ export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
     const [solutionExpanded, setSolutionExpanded] = useState(false)
     // State for collapsible AI summary
     const [aiSummaryExpanded, setAiSummaryExpanded] = useState(false)
+    // Glossary definition or reference preview shown next to the text
+    const [textPopover, setTextPopover] = useState<
+      | { type: 'term'; term: GlossaryTerm; anchor: DOMRect }
+      | { type: 'reference'; target: Section; anchor: DOMRect }
+      | null
+    >(null)
+    const popoverHideTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
     // Check if content contains markdown tables
     const hasMarkdownTable = useMemo(() => {
@@ -248,6 +302,72 @@ export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
       return result
     }, [paragraphs, notes])
 
+    // Glossary terms per paragraph: the first occurrence of each term in the
+    // section, except in the definition of the term itself
+    const paragraphTerms = useMemo(() => {
+      const result: Map<number, TermOccurrence<GlossaryTerm>[]> = new Map()
+      if (!glossaryMatcher) return result
+
+      const seen = new Set<string>()
+      paragraphs.forEach((para, index) => {
+        const occurrences = glossaryMatcher(para).filter((occurrence) => {
+          const { id, section_id } = occurrence.entry
+          if (section_id === section.id || seen.has(id)) return false
+          seen.add(id)
+          return true
+        })
+        if (occurrences.length > 0) {
+          result.set(index, occurrences)
+        }
+      })
+
+      return result
+    }, [paragraphs, glossaryMatcher, section.id])
+
+    // Resolved cross references per paragraph
+    const paragraphReferences = useMemo(() => {
+      const result: Map<number, SectionLink<Section>[]> = new Map()
+      if (!resolveReference) return result
+
+      paragraphs.forEach((para, index) => {
+        const links = resolveReferences(para, resolveReference, section.id)
+          .filter((reference): reference is SectionLink<Section> => reference.target !== null)
+        if (links.length > 0) {
+          result.set(index, links)
+        }
+      })
+
+      return result
+    }, [paragraphs, resolveReference, section.id])
+
+    const showTerm = useCallback((term: GlossaryTerm, anchor: DOMRect) => {
+      if (popoverHideTimer.current) clearTimeout(popoverHideTimer.current)
+      setTextPopover({ type: 'term', term, anchor })
+    }, [])
+
+    const showReference = useCallback((reference: SectionLink<Section>, anchor: DOMRect) => {
+      if (popoverHideTimer.current) clearTimeout(popoverHideTimer.current)
+      setTextPopover({ type: 'reference', target: reference.target, anchor })
+    }, [])
+
+    const keepPopover = useCallback(() => {
+      if (popoverHideTimer.current) clearTimeout(popoverHideTimer.current)
+    }, [])
+
+    const hidePopover = useCallback(() => {
+      if (popoverHideTimer.current) clearTimeout(popoverHideTimer.current)
+      popoverHideTimer.current = setTimeout(() => setTextPopover(null), POPOVER_HIDE_DELAY)
+    }, [])
+
+    const closePopover = useCallback(() => {
+      if (popoverHideTimer.current) clearTimeout(popoverHideTimer.current)
+      setTextPopover(null)
+    }, [])
+
+    useEffect(() => () => {
+      if (popoverHideTimer.current) clearTimeout(popoverHideTimer.current)
+    }, [])
+
     // Get images for this section (parse from JSON if needed)
     const sectionImages: DocumentImage[] = Array.isArray(section.images)
       ? (section.images as DocumentImage[])
@@ -324,6 +444,7 @@ export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
       section.title.toLowerCase().includes('bibliograph')
     )
     const hasSpecialLayout = isImportant || isLearningObjectives || isExample || isTip || isExercise || isLiteratureSection
+    const isPracticing = practiceMode && isExercise && !!solutionSection && !!onSubmitExerciseAttempt
 
     return (
       <>
@@ -506,7 +627,7 @@ export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
                   Übungsaufgabe{metadata.task_number && ` ${metadata.task_number}`}
                 </span>
                 {/* "Zur Lösung" link */}
-                {solutionSection && (
+                {solutionSection && !isPracticing && (
                   <button
                     type="button"
                     className={cn(
@@ -586,7 +707,7 @@ export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
               </div>
               {/* Jump links for exercises and solutions */}
               <div className="flex items-center gap-2">
-                {solutionSection && (
+                {solutionSection && !isPracticing && (
                   <button
                     type="button"
                     className={cn(
@@ -677,6 +798,21 @@ export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
                   <Pencil className="w-5 h-5" />
                 </Button>
               )}
+              {/* Chapter Flashcards Button */}
+              {onGenerateChapterCards && !isEditMode && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onGenerateChapterCards()
+                  }}
+                  className="flex-shrink-0 transition-colors text-muted-foreground hover:text-green-600"
+                  title="Karten für dieses Kapitel erzeugen"
+                >
+                  <Layers className="w-5 h-5" />
+                </Button>
+              )}
               {/* Bookmark Button */}
               {onToggleBookmark && (
                 <Button
@@ -1000,6 +1136,18 @@ export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
                         notes={paraNotes}
                         onHighlightClick={handleHighlightClick}
                         onNoteClick={onNoteClick}
+                        spokenRange={spokenWord?.paragraph === pIndex ? spokenWord : null}
+                        onTextClick={onSeekToWord ? (offset) => onSeekToWord(pIndex, offset) : undefined}
+                        terms={paragraphTerms.get(pIndex)}
+                        onTermEnter={showTerm}
+                        onTermLeave={hidePopover}
+                        references={paragraphReferences.get(pIndex)}
+                        onReferenceClick={onOpenReference ? (reference) => {
+                          closePopover()
+                          onOpenReference(reference.target)
+                        } : undefined}
+                        onReferenceEnter={showReference}
+                        onReferenceLeave={hidePopover}
                       />
                     </p>
                   </div>
@@ -1010,7 +1158,15 @@ export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
           </div>
 
           {/* Collapsible Solution Section for Exercises */}
-          {solutionSection && (
+          {isPracticing && (
+            <ExercisePractice
+              exerciseSectionId={section.id}
+              solution={solutionSection!}
+              lastRating={exerciseRating}
+              onSubmit={onSubmitExerciseAttempt!}
+            />
+          )}
+          {solutionSection && !isPracticing && (
             <AnimatePresence>
               {solutionExpanded && (
                 <motion.div
@@ -1121,6 +1277,34 @@ export const SectionView = forwardRef<HTMLElement, SectionViewProps>(
           onDelete={handleDeleteHighlight}
         />
 
+        {/* Glossary term definition */}
+        <GlossaryTermTooltip
+          term={textPopover?.type === 'term' ? textPopover.term : null}
+          anchor={textPopover?.anchor ?? null}
+          onClose={closePopover}
+          onPointerEnter={keepPopover}
+          onPointerLeave={hidePopover}
+          onOpenSource={onOpenGlossaryTerm ? (term) => {
+            closePopover()
+            onOpenGlossaryTerm(term)
+          } : undefined}
+        />
+
+        {/* Preview of a cross reference target */}
+        {onOpenReference && (
+          <CrossReferencePreview
+            target={textPopover?.type === 'reference' ? textPopover.target : null}
+            anchor={textPopover?.anchor ?? null}
+            onClose={closePopover}
+            onPointerEnter={keepPopover}
+            onPointerLeave={hidePopover}
+            onOpen={(target) => {
+              closePopover()
+              onOpenReference(target)
+            }}
+          />
+        )}
+
         {/* Lightbox */}
         <AnimatePresence>
           {lightboxImage && (
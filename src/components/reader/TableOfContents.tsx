@@ -20,6 +20,7 @@ import {
   Info,
   FileText,
   Quote,
+  PenTool,
   type LucideIcon,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
@@ -32,6 +33,7 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { CircularProgress } from '@/components/ui/circular-progress'
 import { staggerContainer, staggerItem } from '@/lib/animations'
+import type { ExerciseStats } from '@/lib/progress/exercise-stats'
 import type { Section, SectionType, SectionMetadata } from '@/lib/supabase/types'
 
 // Icons for special section types
@@ -55,6 +57,8 @@ interface TableOfContentsProps {
   onMarkCompleted?: (sectionId: string, completed: boolean) => void
   highlightCounts?: Record<string, number>
   noteCounts?: Record<string, number>
+  // Self-test results per chapter number
+  exerciseStats?: Record<string, ExerciseStats>
   isTabletMode?: boolean
 }
 
@@ -73,6 +77,7 @@ export function TableOfContents({
   onMarkCompleted,
   highlightCounts = {},
   noteCounts = {},
+  exerciseStats = {},
   isTabletMode = false,
 }: TableOfContentsProps) {
   // Start with all chapters expanded by default
@@ -458,6 +463,7 @@ export function TableOfContents({
 
           const isActive = activeSection === mainSection.id
           const isCompleted = completedSections[mainSection.id] || false
+          const exercises = exerciseStats[group.chapter_number]
           const childrenCompleted = group.children.filter(c => completedSections[c.id]).length
           const totalInGroup = group.children.length + 1
 
@@ -593,6 +599,20 @@ export function TableOfContents({
                               {childrenCompleted}/{group.children.length} Abschnitte
                             </span>
                           )}
+                          {exercises && exercises.total > 0 && (
+                            <span
+                              className={cn(
+                                'text-xs flex items-center gap-1',
+                                exercises.solved === exercises.total
+                                  ? 'text-green-600 dark:text-green-400'
+                                  : 'text-muted-foreground'
+                              )}
+                              title={`${exercises.attempted} von ${exercises.total} Übungsaufgaben versucht, ${exercises.solved} gelöst`}
+                            >
+                              <PenTool className="w-3 h-3" />
+                              {exercises.solved}/{exercises.total} gelöst
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
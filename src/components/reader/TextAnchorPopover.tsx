@@ -0,0 +1,94 @@
+'use client'
+
+import { useEffect, useRef, type ReactNode } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { cn } from '@/lib/utils'
+import { scaleIn } from '@/lib/animations'
+
+const POPOVER_WIDTH = 320
+// Room needed below the anchor before the popover opens above it instead
+const POPOVER_MIN_SPACE = 220
+
+interface TextAnchorPopoverProps {
+  /** Bounding box of the text the popover belongs to; null hides it */
+  anchor: DOMRect | null
+  onClose: () => void
+  /** Keep the popover open while the pointer is over it */
+  onPointerEnter?: () => void
+  onPointerLeave?: () => void
+  children: ReactNode
+}
+
+/**
+ * Small popover next to a word in the text (glossary terms, cross
+ * references), closed on escape, a tap elsewhere or scrolling
+ */
+export function TextAnchorPopover({
+  anchor,
+  onClose,
+  onPointerEnter,
+  onPointerLeave,
+  children,
+}: TextAnchorPopoverProps) {
+  const popoverRef = useRef<HTMLDivElement>(null)
+  const visible = anchor !== null
+
+  useEffect(() => {
+    if (!visible) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    const handlePointerDown = (e: PointerEvent) => {
+      // A tap on another word closes the popover here and opens it there
+      if (!popoverRef.current?.contains(e.target as Node)) onClose()
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    document.addEventListener('pointerdown', handlePointerDown)
+    document.addEventListener('scroll', onClose, true)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.removeEventListener('pointerdown', handlePointerDown)
+      document.removeEventListener('scroll', onClose, true)
+    }
+  }, [visible, onClose])
+
+  // Below the anchor, above it if there is no room; kept inside the viewport
+  const position = anchor && typeof window !== 'undefined'
+    ? {
+        left: Math.min(
+          Math.max(16, anchor.left + anchor.width / 2 - POPOVER_WIDTH / 2),
+          window.innerWidth - POPOVER_WIDTH - 16
+        ),
+        ...(anchor.bottom + POPOVER_MIN_SPACE > window.innerHeight
+          ? { bottom: window.innerHeight - anchor.top + 8 }
+          : { top: anchor.bottom + 8 }),
+      }
+    : null
+
+  return (
+    <AnimatePresence>
+      {position && (
+        <motion.div
+          ref={popoverRef}
+          role="tooltip"
+          variants={scaleIn}
+          initial="initial"
+          animate="animate"
+          exit="exit"
+          onPointerEnter={onPointerEnter}
+          onPointerLeave={onPointerLeave}
+          className={cn(
+            'fixed z-50 p-4',
+            'bg-white/95 dark:bg-gray-900/95 backdrop-blur-xl',
+            'rounded-2xl shadow-xl border border-white/20 dark:border-gray-700/50'
+          )}
+          style={{ ...position, width: POPOVER_WIDTH }}
+        >
+          {children}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useMemo, useState, useRef, useCallback } from 'react'
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useState, useRef, useCallback } from 'react'
 import {
   Play,
   Pause,
@@ -10,26 +10,90 @@ import {
   Volume2,
   Loader2,
   Type,
+  ListMusic,
+  BookOpen,
+  History,
+  ChevronsRight,
+  ChevronsLeft,
+  Moon,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
-import { useElevenLabs } from '@/hooks/useElevenLabs'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import type { SpokenWord } from '@/hooks/useElevenLabs'
+import {
+  useDocumentPlayback,
+  type DocumentPlaybackPosition,
+  type SleepTimer,
+} from '@/hooks/useDocumentPlayback'
+import type { PlaybackPosition } from '@/hooks/useReadingProgress'
+import { splitParagraphs } from '@/lib/tts/speech-text'
+import type { Section, SectionType } from '@/lib/supabase/types'
+
+/** Section types that can be left out of document playback */
+const SKIPPABLE_SECTION_TYPES: { type: SectionType; label: string }[] = [
+  { type: 'solution', label: 'Lösungen' },
+  { type: 'reference', label: 'Verweise' },
+  { type: 'exercise', label: 'Übungsaufgaben' },
+  { type: 'learning_objectives', label: 'Lernziele' },
+]
+
+const SLEEP_TIMER_OPTIONS: { value: string; label: string }[] = [
+  { value: 'off', label: 'Aus' },
+  { value: '15', label: '15 Minuten' },
+  { value: '30', label: '30 Minuten' },
+  { value: '60', label: '60 Minuten' },
+  { value: 'section', label: 'Ende des Abschnitts' },
+]
 
 interface TextToSpeechProps {
   text: string
   /** Optional: selected text to read instead of full section */
   selectedText?: string
   onParagraphChange?: (index: number | null) => void
+  /** Optional: word being spoken, for read-along highlighting of the section */
+  onWordChange?: (word: SpokenWord | null) => void
   /** Optional: use tablet-optimized touch targets */
   isTabletMode?: boolean
+  /** Optional: sections for reading the whole document */
+  sections?: Section[]
+  /** Optional: document title for lock screen controls */
+  documentTitle?: string
+  /** Optional: where document playback stopped last time */
+  resumePosition?: PlaybackPosition | null
+  /** Optional: section being read in document playback (null when it ends) */
+  onPlaybackSectionChange?: (sectionId: string | null) => void
+  /** Optional: resume point of document playback (null once finished) */
+  onPlaybackPositionChange?: (position: DocumentPlaybackPosition | null) => void
 }
 
-export function TextToSpeech({
+export interface TextToSpeechHandle {
+  /** Continue reading the section at a character offset in a paragraph */
+  seekTo: (paragraph: number, offset: number) => void
+}
+
+export const TextToSpeech = forwardRef<TextToSpeechHandle, TextToSpeechProps>(function TextToSpeech({
   text,
   selectedText,
   onParagraphChange,
+  onWordChange,
   isTabletMode = false,
-}: TextToSpeechProps) {
+  sections,
+  documentTitle,
+  resumePosition,
+  onPlaybackSectionChange,
+  onPlaybackPositionChange,
+}, ref) {
   // Track what text was used when playback started
   const [lockedText, setLockedText] = useState<string | null>(null)
   const lastSelectedTextRef = useRef<string | null>(null)
@@ -41,13 +105,6 @@ export function TextToSpeech({
     }
   }, [selectedText])
 
-  // Determine which text to actually read
-  // When playing, use locked text; otherwise show what would be read
-  const textToRead = lockedText ?? text
-
-  // Check if there's currently a selection (for UI indication)
-  const hasSelection = !!selectedText?.trim() || !!lastSelectedTextRef.current
-
   const {
     play,
     pause,
@@ -60,22 +117,44 @@ export function TextToSpeech({
     currentParagraph,
     setText,
     progress,
-  } = useElevenLabs()
+    isFallback,
+    currentWord,
+    seekTo,
+    isDocumentMode,
+    currentSection,
+    playDocument,
+    nextSection,
+    previousSection,
+    hasNextSection,
+    queueLength,
+    skipTypes,
+    setSkipTypes,
+    sleepTimer,
+    sleepMinutesLeft,
+    setSleepTimer,
+  } = useDocumentPlayback({
+    sections,
+    documentTitle,
+    onSectionChange: onPlaybackSectionChange,
+    onPositionChange: onPlaybackPositionChange,
+  })
+
+  // Determine which text to actually read
+  // Document playback reads its own section; when playing, use locked text; otherwise show what would be read
+  const textToRead = isDocumentMode && currentSection ? currentSection.content : lockedText ?? text
+
+  // Check if there's currently a selection (for UI indication)
+  const hasSelection = !isDocumentMode && (!!selectedText?.trim() || !!lastSelectedTextRef.current)
 
   // Split text into paragraphs for counting
-  const paragraphs = useMemo(() => {
-    return textToRead
-      .split(/\n{2,}/)
-      .map((p) => p.trim())
-      .filter((p) => p.length > 0)
-  }, [textToRead])
-
-  // Update text when it changes (only if not currently playing)
+  const paragraphs = useMemo(() => splitParagraphs(textToRead), [textToRead])
+
+  // Update text when it changes (only if not currently playing or reading the document)
   useEffect(() => {
-    if (!isPlaying && !lockedText) {
+    if (!isPlaying && !lockedText && !isDocumentMode) {
       setText(text)
     }
-  }, [text, setText, isPlaying, lockedText])
+  }, [text, setText, isPlaying, lockedText, isDocumentMode])
 
   // Notify parent of paragraph changes and clear locked text when playback ends
   useEffect(() => {
@@ -90,6 +169,20 @@ export function TextToSpeech({
     }
   }, [isPlaying, currentParagraph, onParagraphChange, lockedText, progress])
 
+  // Word positions only match the section when the whole section is read, not a selection
+  const isReadingSection = isDocumentMode || (lockedText ?? text) === text
+
+  useEffect(() => {
+    onWordChange?.(isPlaying && isReadingSection ? currentWord : null)
+  }, [isPlaying, isReadingSection, currentWord, onWordChange])
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (paragraph: number, offset: number) => {
+      // Offsets refer to the section paragraphs, not to a selection being read
+      if (isReadingSection) seekTo(paragraph, offset)
+    },
+  }), [isReadingSection, seekTo])
+
   // Get current browser selection text
   const getBrowserSelection = useCallback(() => {
     if (typeof window === 'undefined') return null
@@ -119,6 +212,9 @@ export function TextToSpeech({
   const handlePlayPause = async () => {
     if (isPlaying) {
       pause()
+    } else if (isDocumentMode) {
+      // Resume document playback where it was paused
+      await play()
     } else {
       // When starting playback, capture the text to read
       // Priority: 1. Selection captured on mousedown, 2. Current selectedText prop, 3. Last known selection, 4. Full section text
@@ -142,6 +238,22 @@ export function TextToSpeech({
     }
   }
 
+  const handlePlayDocument = (fromSectionId?: string, paragraph?: number) => {
+    setLockedText(null)
+    lastSelectedTextRef.current = null
+    pendingSelectionRef.current = null
+    playDocument(fromSectionId, paragraph)
+  }
+
+  const handleSkipTypeChange = (type: SectionType, skip: boolean) => {
+    setSkipTypes((prev) => (skip ? [...prev, type] : prev.filter((t) => t !== type)))
+  }
+
+  const handleSleepTimerChange = (value: string) => {
+    const timer: SleepTimer = value === 'off' ? null : value === 'section' ? 'section' : Number(value)
+    setSleepTimer(timer)
+  }
+
   const handleStop = () => {
     stop()
     setLockedText(null) // Release the locked text
@@ -181,7 +293,13 @@ export function TextToSpeech({
           isPlaying && 'bg-brand-500/20 hover:bg-brand-500/30',
           hasSelection && !isPlaying && 'bg-amber-500 hover:bg-amber-600 text-white'
         )}
-        title={hasSelection && !isPlaying ? 'Markierten Text vorlesen' : 'Abschnitt vorlesen'}
+        title={
+          isDocumentMode
+            ? 'Dokument vorlesen'
+            : hasSelection && !isPlaying
+              ? 'Markierten Text vorlesen'
+              : 'Abschnitt vorlesen'
+        }
       >
         {isLoading ? (
           <>
@@ -207,7 +325,7 @@ export function TextToSpeech({
       </Button>
 
       {/* Stop button */}
-      {(isPlaying || currentParagraph > 0) && (
+      {(isPlaying || currentParagraph > 0 || isDocumentMode) && (
         <Button
           variant="ghost"
           size={buttonSize}
@@ -231,8 +349,85 @@ export function TextToSpeech({
         <SkipForward className="w-4 h-4" />
       </Button>
 
+      {/* Document playback: whole document, resume point, skipped types, sleep timer */}
+      {sections && sections.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant={isDocumentMode ? 'secondary' : 'ghost'}
+              size={buttonSize}
+              title="Dokument vorlesen"
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <ListMusic className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-64">
+            <DropdownMenuItem
+              onClick={() => handlePlayDocument()}
+              disabled={queueLength === 0}
+              className="cursor-pointer gap-2"
+            >
+              <BookOpen className="w-4 h-4" />
+              Ganzes Dokument vorlesen
+            </DropdownMenuItem>
+            {resumePosition && !isDocumentMode && (
+              <DropdownMenuItem
+                onClick={() => handlePlayDocument(resumePosition.sectionId, resumePosition.paragraph)}
+                className="cursor-pointer gap-2"
+              >
+                <History className="w-4 h-4 shrink-0" />
+                <span className="truncate">Fortsetzen: {resumePosition.sectionTitle}</span>
+              </DropdownMenuItem>
+            )}
+            {isDocumentMode && (
+              <>
+                <DropdownMenuItem onClick={previousSection} className="cursor-pointer gap-2">
+                  <ChevronsLeft className="w-4 h-4" />
+                  Vorheriger Abschnitt
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={nextSection}
+                  disabled={!hasNextSection}
+                  className="cursor-pointer gap-2"
+                >
+                  <ChevronsRight className="w-4 h-4" />
+                  Nächster Abschnitt
+                </DropdownMenuItem>
+              </>
+            )}
+
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Überspringen</DropdownMenuLabel>
+            {SKIPPABLE_SECTION_TYPES.map(({ type, label }) => (
+              <DropdownMenuCheckboxItem
+                key={type}
+                checked={skipTypes.includes(type)}
+                onCheckedChange={(checked) => handleSkipTypeChange(type, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {label}
+              </DropdownMenuCheckboxItem>
+            ))}
+
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Schlaf-Timer</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={sleepTimer === null ? 'off' : String(sleepTimer)}
+              onValueChange={handleSleepTimerChange}
+            >
+              {SLEEP_TIMER_OPTIONS.map(({ value, label }) => (
+                <DropdownMenuRadioItem key={value} value={value}>
+                  {label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
       {/* Progress indicator */}
-      {(isPlaying || currentParagraph > 0) && (
+      {(isPlaying || currentParagraph > 0 || isDocumentMode) && (
         <div className="flex items-center gap-2 ml-2">
           <Volume2 className="w-4 h-4 text-brand-500" />
           <div className="flex items-center gap-1.5">
@@ -249,6 +444,17 @@ export function TextToSpeech({
         </div>
       )}
 
+      {/* Sleep timer indicator */}
+      {sleepTimer !== null && (
+        <span
+          className="flex items-center gap-1 text-xs text-muted-foreground"
+          title="Schlaf-Timer aktiv"
+        >
+          <Moon className="w-3.5 h-3.5" />
+          {sleepTimer === 'section' ? 'Abschnitt' : `${sleepMinutesLeft} Min`}
+        </span>
+      )}
+
       {/* Error indicator */}
       {error && (
         <span className="text-xs text-destructive ml-2" title={error}>
@@ -256,11 +462,14 @@ export function TextToSpeech({
         </span>
       )}
 
-      {/* Jennifer Meyer voice badge */}
-      <div className="hidden lg:flex items-center gap-1.5 ml-2 px-2 py-1 bg-muted/50 rounded-full">
-        <div className="w-2 h-2 rounded-full bg-brand-500 animate-pulse" />
-        <span className="text-xs text-muted-foreground">Jennifer Meyer</span>
+      {/* Voice badge: Jennifer Meyer, or the browser voice when the TTS proxy is unavailable */}
+      <div
+        className="hidden lg:flex items-center gap-1.5 ml-2 px-2 py-1 bg-muted/50 rounded-full"
+        title={isFallback ? 'ElevenLabs nicht erreichbar – Browser-Stimme wird verwendet' : undefined}
+      >
+        <div className={cn('w-2 h-2 rounded-full animate-pulse', isFallback ? 'bg-amber-500' : 'bg-brand-500')} />
+        <span className="text-xs text-muted-foreground">{isFallback ? 'Browser-Stimme' : 'Jennifer Meyer'}</span>
       </div>
     </div>
   )
-}
+})
@@ -0,0 +1,124 @@
+'use client'
+
+import { motion, AnimatePresence } from 'framer-motion'
+import { CheckCircle2, Link2Off, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { slideInRight } from '@/lib/animations'
+import { REFERENCE_KIND_LABELS, type SectionReference } from '@/lib/references/cross-references'
+import type { Section } from '@/lib/supabase/types'
+
+interface ReferenceReportProps {
+  visible: boolean
+  onClose: () => void
+  /** Sections with references that point to nothing in the document */
+  unresolved: { section: Section; references: SectionReference[] }[]
+  onSelectSection: (sectionId: string) => void
+  isTabletMode?: boolean
+}
+
+/**
+ * Author mode: cross references that cannot be resolved, e.g. after
+ * renumbering chapters or tasks, with a jump to the section using them
+ */
+export function ReferenceReport({
+  visible,
+  onClose,
+  unresolved,
+  onSelectSection,
+  isTabletMode = false,
+}: ReferenceReportProps) {
+  const count = unresolved.reduce((sum, entry) => sum + entry.references.length, 0)
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <>
+          {/* Backdrop for mobile */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/20 backdrop-blur-sm z-40 lg:hidden"
+            onClick={onClose}
+          />
+
+          {/* Panel */}
+          <motion.aside
+            variants={slideInRight}
+            initial="initial"
+            animate="animate"
+            exit="exit"
+            className={cn(
+              'fixed right-0 top-0 bottom-0 z-50',
+              'w-96 max-w-[90vw]',
+              'bg-white/95 dark:bg-gray-900/95 backdrop-blur-xl',
+              'border-l border-gray-200/50 dark:border-gray-700/50',
+              'shadow-2xl',
+              'flex flex-col'
+            )}
+          >
+            {/* Header */}
+            <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <div className="w-8 h-8 rounded-lg bg-purple-500/20 flex items-center justify-center">
+                    <Link2Off className="w-4 h-4 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div>
+                    <h2 className="font-semibold">Verweise prüfen</h2>
+                    <p className="text-xs text-muted-foreground">
+                      {count === 1 ? '1 Verweis ohne Ziel' : `${count} Verweise ohne Ziel`}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size={isTabletMode ? 'icon-touch' : 'icon'}
+                  onClick={onClose}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <ScrollArea className="flex-1">
+              {unresolved.length === 0 ? (
+                <div className="p-8 text-center">
+                  <CheckCircle2 className="w-10 h-10 mx-auto mb-3 text-emerald-500" />
+                  <p className="text-sm text-muted-foreground">
+                    Alle Verweise auf Kapitel, Aufgaben, Abbildungen und Tabellen haben ein Ziel.
+                  </p>
+                </div>
+              ) : (
+                <div className="p-4 space-y-3">
+                  {unresolved.map(({ section, references }) => (
+                    <button
+                      key={section.id}
+                      onClick={() => onSelectSection(section.id)}
+                      className="w-full text-left p-3 rounded-xl border border-border/50 hover:bg-muted/50 transition-colors"
+                    >
+                      <p className="text-sm font-medium text-foreground line-clamp-1">{section.title}</p>
+                      <div className="mt-2 flex flex-wrap gap-1.5">
+                        {references.map((reference) => (
+                          <span
+                            key={`${reference.kind}-${reference.number}`}
+                            title={`${REFERENCE_KIND_LABELS[reference.kind]} ${reference.number} nicht gefunden`}
+                            className="px-2 py-0.5 rounded-md text-xs bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400"
+                          >
+                            {reference.label}
+                          </span>
+                        ))}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -3,3 +3,4 @@ export { AddSectionButton } from './AddSectionButton'
 export { AddSectionMenu } from './AddSectionMenu'
 export { SectionActionBar } from './SectionActionBar'
 export { DeleteConfirmDialog } from './DeleteConfirmDialog'
+export { ReferenceReport } from './ReferenceReport'
@@ -12,6 +12,7 @@ import {
   Search,
   BookmarkCheck,
   BookmarkPlus,
+  Layers,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
@@ -35,6 +36,12 @@ interface HighlightSidebarProps {
   onDeleteHighlight: (id: string) => void | Promise<boolean | void>
   onEditNote?: (highlight: Annotation) => void
   onToggleForReview?: (id: string) => void | Promise<boolean>
+  /** Make a cloze card from one highlight */
+  onCreateClozeCard?: (highlight: Annotation) => void | Promise<unknown>
+  /** Make cloze cards from all highlights marked for review */
+  onConvertReviewHighlights?: () => void | Promise<unknown>
+  /** Highlights that already have a cloze card */
+  clozeHighlightIds?: Set<string>
 }
 
 interface GroupedHighlights {
@@ -52,6 +59,9 @@ export function HighlightSidebar({
   onDeleteHighlight,
   onEditNote,
   onToggleForReview,
+  onCreateClozeCard,
+  onConvertReviewHighlights,
+  clozeHighlightIds,
 }: HighlightSidebarProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
@@ -62,6 +72,9 @@ export function HighlightSidebar({
 
   // Count highlights marked for review
   const forReviewCount = highlights.filter((h) => h.for_review === true).length
+  const unconvertedReviewCount = highlights.filter(
+    (h) => h.for_review === true && !clozeHighlightIds?.has(h.id)
+  ).length
 
   // Group highlights by section
   const groupedHighlights = useMemo((): GroupedHighlights[] => {
@@ -204,6 +217,22 @@ export function HighlightSidebar({
               </span>
             )}
           </Button>
+
+          {/* Convert highlights marked for review into cloze cards */}
+          {showOnlyForReview && onConvertReviewHighlights && unconvertedReviewCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2 w-full justify-start gap-2"
+              onClick={() => onConvertReviewHighlights()}
+            >
+              <Layers className="w-4 h-4" />
+              Als Lückentext-Karten anlegen
+              <span className="ml-auto text-xs bg-muted px-1.5 py-0.5 rounded">
+                {unconvertedReviewCount}
+              </span>
+            </Button>
+          )}
         </div>
 
         {/* Content */}
@@ -320,6 +349,26 @@ export function HighlightSidebar({
                                     )}
                                   </Button>
                                 )}
+                                {onCreateClozeCard && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className={cn(
+                                      'h-6 w-6',
+                                      clozeHighlightIds?.has(highlight.id)
+                                        ? 'text-teal-600'
+                                        : 'text-muted-foreground'
+                                    )}
+                                    disabled={clozeHighlightIds?.has(highlight.id)}
+                                    onClick={(e) => {
+                                      e.stopPropagation()
+                                      onCreateClozeCard(highlight)
+                                    }}
+                                    title={clozeHighlightIds?.has(highlight.id) ? 'Lückentext-Karte vorhanden' : 'Lückentext-Karte erstellen'}
+                                  >
+                                    <Layers className="w-3 h-3" />
+                                  </Button>
+                                )}
                                 {onEditNote && (
                                   <Button
                                     variant="ghost"
@@ -472,6 +521,22 @@ export function HighlightSidebar({
                   </span>
                 )}
               </Button>
+
+              {/* Convert highlights marked for review into cloze cards */}
+              {showOnlyForReview && onConvertReviewHighlights && unconvertedReviewCount > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-2 w-full justify-start gap-2"
+                  onClick={() => onConvertReviewHighlights()}
+                >
+                  <Layers className="w-4 h-4" />
+                  Als Lückentext-Karten anlegen
+                  <span className="ml-auto text-xs bg-muted px-1.5 py-0.5 rounded">
+                    {unconvertedReviewCount}
+                  </span>
+                </Button>
+              )}
             </div>
 
             {/* Content */}
@@ -588,6 +653,26 @@ export function HighlightSidebar({
                                         )}
                                       </Button>
                                     )}
+                                    {onCreateClozeCard && (
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className={cn(
+                                          'h-6 w-6',
+                                          clozeHighlightIds?.has(highlight.id)
+                                            ? 'text-teal-600'
+                                            : 'text-muted-foreground'
+                                        )}
+                                        disabled={clozeHighlightIds?.has(highlight.id)}
+                                        onClick={(e) => {
+                                          e.stopPropagation()
+                                          onCreateClozeCard(highlight)
+                                        }}
+                                        title={clozeHighlightIds?.has(highlight.id) ? 'Lückentext-Karte vorhanden' : 'Lückentext-Karte erstellen'}
+                                      >
+                                        <Layers className="w-3 h-3" />
+                                      </Button>
+                                    )}
                                     {onEditNote && (
                                       <Button
                                         variant="ghost"
@@ -4,8 +4,12 @@ import { useMemo, useCallback, ReactNode } from 'react'
 import { cn } from '@/lib/utils'
 import { getHighlightClasses } from '@/lib/highlighting/constants'
 import { InlineNoteIndicator } from './InlineNoteIndicator'
-import type { Annotation } from '@/lib/supabase/types'
+import type { Annotation, GlossaryTerm, Section } from '@/lib/supabase/types'
 import type { Note } from '@/hooks/useNotes'
+import type { TermOccurrence } from '@/lib/glossary/glossary'
+import type { SectionLink as ResolvedSectionLink } from '@/lib/references/cross-references'
+
+type SectionLink = ResolvedSectionLink<Section>
 
 /**
  * Format range representing bold or italic text
@@ -146,6 +150,9 @@ interface TextSegment {
   type: 'plain' | 'highlight' | 'note' | 'highlight-with-note'
   highlight?: Annotation
   note?: Note
+  spoken?: boolean     // Part of the word currently read aloud
+  term?: GlossaryTerm  // Glossary term occurring here
+  reference?: SectionLink // Cross reference to another section
   startOffset: number  // Position in clean text
   endOffset: number    // Position in clean text
 }
@@ -157,6 +164,21 @@ interface HighlightedTextProps {
   onHighlightClick?: (highlight: Annotation, event: React.MouseEvent) => void
   onNoteClick?: (note: Note) => void
   className?: string
+  /** Read-along: range of the word being spoken (original text positions) */
+  spokenRange?: { start: number; end: number } | null
+  /** Called with the original text position of a click, e.g. to seek read-along playback */
+  onTextClick?: (offset: number) => void
+  /** Glossary terms to mark (original text positions) */
+  terms?: TermOccurrence<GlossaryTerm>[]
+  /** Pointer over or tap on a marked term, with the box of the marked text */
+  onTermEnter?: (term: GlossaryTerm, anchor: DOMRect) => void
+  onTermLeave?: () => void
+  /** Resolved cross references, rendered as links (original text positions) */
+  references?: SectionLink[]
+  onReferenceClick?: (reference: SectionLink) => void
+  /** Pointer over a link, with the box of the linked text (for a preview) */
+  onReferenceEnter?: (reference: SectionLink, anchor: DOMRect) => void
+  onReferenceLeave?: () => void
 }
 
 /**
@@ -228,6 +250,38 @@ function buildPositionMap(originalText: string): { cleanText: string; originalTo
   return { cleanText, originalToClean, formats }
 }
 
+/**
+ * Text offset of a click within an element, counting only rendered text
+ * (note indicator buttons are skipped)
+ */
+function getClickTextOffset(root: HTMLElement, x: number, y: number): number | null {
+  const doc = root.ownerDocument
+  let node: Node | null = null
+  let offset = 0
+
+  if (typeof doc.caretPositionFromPoint === 'function') {
+    const position = doc.caretPositionFromPoint(x, y)
+    node = position?.offsetNode ?? null
+    offset = position?.offset ?? 0
+  } else if (typeof doc.caretRangeFromPoint === 'function') {
+    const range = doc.caretRangeFromPoint(x, y)
+    node = range?.startContainer ?? null
+    offset = range?.startOffset ?? 0
+  }
+
+  if (!node || !root.contains(node)) return null
+
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  let count = 0
+  while (walker.nextNode()) {
+    const current = walker.currentNode
+    if (current.parentElement?.closest('button')) continue
+    if (current === node) return count + offset
+    count += current.textContent?.length ?? 0
+  }
+  return null
+}
+
 /**
  * Component that renders text with highlight spans and note indicators applied
  * Handles overlapping highlights and notes, preserving markdown formatting
@@ -239,6 +293,15 @@ export function HighlightedText({
   onHighlightClick,
   onNoteClick,
   className,
+  spokenRange,
+  onTextClick,
+  terms,
+  onTermEnter,
+  onTermLeave,
+  references,
+  onReferenceClick,
+  onReferenceEnter,
+  onReferenceLeave,
 }: HighlightedTextProps) {
   /**
    * Parse markdown and build position mapping
@@ -248,6 +311,30 @@ export function HighlightedText({
     [text]
   )
 
+  /**
+   * Glossary term positions in clean text coordinates
+   */
+  const validTerms = useMemo(
+    () => (terms ?? []).filter((t) => t.start < text.length).map((t) => ({
+      entry: t.entry,
+      cleanStart: originalToClean[t.start],
+      cleanEnd: originalToClean[Math.min(t.end, text.length)],
+    })),
+    [terms, text.length, originalToClean]
+  )
+
+  /**
+   * Cross reference positions in clean text coordinates
+   */
+  const validReferences = useMemo(
+    () => (references ?? []).filter((r) => r.start < text.length).map((r) => ({
+      reference: r,
+      cleanStart: originalToClean[r.start],
+      cleanEnd: originalToClean[Math.min(r.end, text.length)],
+    })),
+    [references, text.length, originalToClean]
+  )
+
   /**
    * Segment the text based on highlight and note positions
    */
@@ -301,6 +388,30 @@ export function HighlightedText({
       boundaries.add(Math.min(cleanText.length, n.cleanEnd))
     }
 
+    // Add spoken word boundaries (in clean coordinates)
+    const spoken = spokenRange && spokenRange.start < text.length
+      ? {
+          start: originalToClean[spokenRange.start],
+          end: originalToClean[Math.min(spokenRange.end, text.length)],
+        }
+      : null
+    if (spoken) {
+      boundaries.add(spoken.start)
+      boundaries.add(spoken.end)
+    }
+
+    // Add glossary term boundaries (in clean coordinates)
+    for (const t of validTerms) {
+      boundaries.add(t.cleanStart)
+      boundaries.add(t.cleanEnd)
+    }
+
+    // Add cross reference boundaries (in clean coordinates)
+    for (const r of validReferences) {
+      boundaries.add(r.cleanStart)
+      boundaries.add(r.cleanEnd)
+    }
+
     // Sort boundaries
     const sortedBoundaries = Array.from(boundaries).sort((a, b) => a - b)
 
@@ -341,13 +452,16 @@ export function HighlightedText({
         type: segmentType,
         highlight: highlightAtPos,
         note: noteAtPos,
+        spoken: spoken ? spoken.start <= start && spoken.end >= end : false,
+        term: validTerms.find((t) => t.cleanStart <= start && t.cleanEnd >= end)?.entry,
+        reference: validReferences.find((r) => r.cleanStart <= start && r.cleanEnd >= end)?.reference,
         startOffset: start,
         endOffset: end,
       })
     }
 
     return result
-  }, [cleanText, text.length, originalToClean, formats, highlights, notes])
+  }, [cleanText, text.length, originalToClean, formats, highlights, notes, spokenRange, validTerms, validReferences])
 
   // Find segments where a note ends (to show the icon) - using clean text positions
   const noteEndSegments = useMemo(() => {
@@ -381,20 +495,81 @@ export function HighlightedText({
     [onNoteClick]
   )
 
+  const handleTermClick = useCallback(
+    (term: GlossaryTerm, event: React.MouseEvent<HTMLSpanElement>) => {
+      event.stopPropagation()
+      // Ignore clicks that end a text selection
+      if (!window.getSelection()?.isCollapsed) return
+      onTermEnter?.(term, event.currentTarget.getBoundingClientRect())
+    },
+    [onTermEnter]
+  )
+
+  const handleReferenceClick = useCallback(
+    (reference: SectionLink, event: React.MouseEvent<HTMLAnchorElement>) => {
+      event.preventDefault()
+      event.stopPropagation()
+      onReferenceClick?.(reference)
+    },
+    [onReferenceClick]
+  )
+
+  const handleTextClick = useCallback(
+    (event: React.MouseEvent<HTMLSpanElement>) => {
+      if (!onTextClick) return
+      // Ignore clicks that end a text selection
+      if (!window.getSelection()?.isCollapsed) return
+
+      const cleanOffset = getClickTextOffset(event.currentTarget, event.clientX, event.clientY)
+      if (cleanOffset === null) return
+
+      // Map back to the original text (first position at or after the clean offset)
+      const originalOffset = originalToClean.findIndex((clean) => clean >= cleanOffset)
+      onTextClick(originalOffset === -1 ? text.length : originalOffset)
+    },
+    [onTextClick, originalToClean, text.length]
+  )
+
   return (
-    <span className={className}>
+    <span
+      className={cn(className, onTextClick && 'cursor-pointer')}
+      onClick={onTextClick ? handleTextClick : undefined}
+    >
       {segments.map((segment, index) => {
         // Check if a note ends at this segment's end position
         const noteEndingHere = noteEndSegments.get(segment.endOffset)
         const showNoteIcon = noteEndingHere && onNoteClick
 
-        // Render formatted text for this segment
-        const formattedContent = renderFormattedText(
+        // Render formatted text for this segment, marking the word being read aloud
+        const formattedText = renderFormattedText(
           segment.cleanText,
           segment.startOffset,
           formats,
           index
         )
+        const spokenContent = segment.spoken ? (
+          <span
+            data-spoken-word
+            className="rounded bg-brand-500/25 dark:bg-brand-400/30 ring-1 ring-brand-500/40 transition-colors duration-100"
+          >
+            {formattedText}
+          </span>
+        ) : formattedText
+
+        // Cross references link to their section, also inside highlights
+        const reference = onReferenceClick ? segment.reference : undefined
+        const formattedContent = reference ? (
+          <a
+            href={`#section-${reference.target.id}`}
+            data-cross-reference
+            className="text-brand-600 dark:text-brand-400 underline decoration-brand-500/40 underline-offset-4 hover:decoration-brand-500"
+            onPointerEnter={(e) => e.pointerType === 'mouse' && onReferenceEnter?.(reference, e.currentTarget.getBoundingClientRect())}
+            onPointerLeave={(e) => e.pointerType === 'mouse' && onReferenceLeave?.()}
+            onClick={(e) => handleReferenceClick(reference, e)}
+          >
+            {spokenContent}
+          </a>
+        ) : spokenContent
 
         // Note styling classes
         const noteClasses = cn(
@@ -406,9 +581,21 @@ export function HighlightedText({
         )
 
         if (segment.type === 'plain') {
+          // Glossary terms are only marked outside own highlights and notes
+          const term = reference ? undefined : segment.term
           return (
             <span key={index}>
-              {formattedContent}
+              {term && onTermEnter ? (
+                <span
+                  data-glossary-term
+                  className="underline decoration-dotted decoration-blue-800/60 dark:decoration-blue-400/60 underline-offset-4 cursor-help"
+                  onPointerEnter={(e) => e.pointerType === 'mouse' && onTermEnter(term, e.currentTarget.getBoundingClientRect())}
+                  onPointerLeave={(e) => e.pointerType === 'mouse' && onTermLeave?.()}
+                  onClick={(e) => handleTermClick(term, e)}
+                >
+                  {formattedContent}
+                </span>
+              ) : formattedContent}
               {showNoteIcon && (
                 <InlineNoteIndicator
                   note={noteEndingHere}
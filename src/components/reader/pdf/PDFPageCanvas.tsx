@@ -0,0 +1,58 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { cn } from '@/lib/utils'
+import type { PDFDocumentProxy } from '@/lib/pdf/pdfjs-browser'
+
+interface PDFPageCanvasProps {
+  pdf: PDFDocumentProxy
+  /** 1-based page number */
+  pageNumber: number
+  /** CSS width the page is rendered at; the height follows the page format */
+  width: number
+  className?: string
+}
+
+/**
+ * One page of a PDF drawn on a canvas, sharp on high-density screens
+ */
+export function PDFPageCanvas({ pdf, pageNumber, width, className }: PDFPageCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || width <= 0) return
+
+    let cancelled = false
+    let cancelRender: (() => void) | null = null
+
+    pdf.getPage(pageNumber).then((page) => {
+      if (cancelled) return
+
+      const scale = width / page.getViewport({ scale: 1 }).width
+      const pixelRatio = window.devicePixelRatio || 1
+      const viewport = page.getViewport({ scale: scale * pixelRatio })
+
+      canvas.width = Math.floor(viewport.width)
+      canvas.height = Math.floor(viewport.height)
+      canvas.style.width = `${Math.floor(viewport.width / pixelRatio)}px`
+      canvas.style.height = `${Math.floor(viewport.height / pixelRatio)}px`
+
+      const task = page.render({ canvas, viewport })
+      cancelRender = () => task.cancel()
+      return task.promise
+    }).catch((err) => {
+      // Cancelled when the page or size changes before it is drawn
+      if (err?.name !== 'RenderingCancelledException') {
+        console.error('Failed to render PDF page:', err)
+      }
+    })
+
+    return () => {
+      cancelled = true
+      cancelRender?.()
+    }
+  }, [pdf, pageNumber, width])
+
+  return <canvas ref={canvasRef} className={cn('block bg-white', className)} />
+}
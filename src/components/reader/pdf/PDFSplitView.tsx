@@ -0,0 +1,217 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { ChevronLeft, ChevronRight, FileScan, Loader2, CornerDownLeft, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { PDFPageCanvas } from './PDFPageCanvas'
+import { sectionForPage, sectionPageRange } from '@/lib/pdf/page-sync'
+import type { PDFDocumentProxy } from '@/lib/pdf/pdfjs-browser'
+import type { Section } from '@/lib/supabase/types'
+
+const THUMBNAIL_WIDTH = 88
+
+interface PDFThumbnailProps {
+  pdf: PDFDocumentProxy
+  pageNumber: number
+  isCurrent: boolean
+  inSection: boolean
+  onSelect: () => void
+}
+
+/**
+ * Page thumbnail, drawn once it scrolls into view
+ */
+function PDFThumbnail({ pdf, pageNumber, isCurrent, inSection, onSelect }: PDFThumbnailProps) {
+  const ref = useRef<HTMLButtonElement>(null)
+  const [isVisible, setIsVisible] = useState(false)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || isVisible) return
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) setIsVisible(true)
+    }, { rootMargin: '200px' })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [isVisible])
+
+  // Keep the current page in view in the strip
+  useEffect(() => {
+    if (isCurrent) ref.current?.scrollIntoView({ block: 'nearest' })
+  }, [isCurrent])
+
+  return (
+    <button
+      ref={ref}
+      onClick={onSelect}
+      title={`Seite ${pageNumber}`}
+      className={cn(
+        'w-full flex flex-col items-center gap-1 p-1.5 rounded-lg transition-colors',
+        isCurrent ? 'bg-brand-500/15' : inSection ? 'bg-muted' : 'hover:bg-muted/60'
+      )}
+    >
+      <div
+        className={cn(
+          'rounded-sm overflow-hidden ring-1 min-h-[60px] bg-white',
+          isCurrent ? 'ring-2 ring-brand-500' : 'ring-border'
+        )}
+        style={{ width: THUMBNAIL_WIDTH }}
+      >
+        {isVisible && <PDFPageCanvas pdf={pdf} pageNumber={pageNumber} width={THUMBNAIL_WIDTH} />}
+      </div>
+      <span className={cn('text-xs', isCurrent ? 'font-medium text-foreground' : 'text-muted-foreground')}>
+        {pageNumber}
+      </span>
+    </button>
+  )
+}
+
+interface PDFSplitViewProps {
+  pdf: PDFDocumentProxy | null
+  isLoading: boolean
+  error: string | null
+  /** Page shown, 1-based */
+  page: number
+  onPageChange: (page: number) => void
+  /** Sections of the reader, to find the one for a page */
+  sections: Section[]
+  /** Section active in the reader; its pages are marked in the strip */
+  activeSection: Section | null
+  onOpenSection: (sectionId: string) => void
+  onClose: () => void
+  isTabletMode?: boolean
+}
+
+/**
+ * Original PDF page next to the structured text, with page thumbnails and a
+ * jump from the page back to its section
+ */
+export function PDFSplitView({
+  pdf,
+  isLoading,
+  error,
+  page,
+  onPageChange,
+  sections,
+  activeSection,
+  onOpenSection,
+  onClose,
+  isTabletMode = false,
+}: PDFSplitViewProps) {
+  const pageAreaRef = useRef<HTMLDivElement>(null)
+  const [pageWidth, setPageWidth] = useState(0)
+
+  // Fit the page to the width of the pane
+  useEffect(() => {
+    const element = pageAreaRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setPageWidth(Math.floor(entry.contentRect.width))
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  const pageCount = pdf?.numPages ?? 0
+  const currentPage = pageCount > 0 ? Math.min(Math.max(page, 1), pageCount) : page
+  const pageSection = sectionForPage(sections, currentPage)
+  const activeRange = activeSection ? sectionPageRange(activeSection) : null
+
+  return (
+    <div className="h-full flex flex-col bg-muted/30">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200/50 dark:border-gray-700/50">
+        <FileScan className="w-4 h-4 text-muted-foreground shrink-0" />
+        <span className="text-sm font-medium hidden xl:inline">Original</span>
+
+        <div className="flex items-center gap-1 mx-auto">
+          <Button
+            variant="ghost"
+            size={isTabletMode ? 'icon-touch' : 'icon'}
+            onClick={() => onPageChange(currentPage - 1)}
+            disabled={currentPage <= 1}
+            title="Vorherige Seite"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm tabular-nums text-muted-foreground min-w-[90px] text-center">
+            {pageCount > 0 ? `Seite ${currentPage} / ${pageCount}` : '–'}
+          </span>
+          <Button
+            variant="ghost"
+            size={isTabletMode ? 'icon-touch' : 'icon'}
+            onClick={() => onPageChange(currentPage + 1)}
+            disabled={currentPage >= pageCount}
+            title="Nächste Seite"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {pageSection && pageSection.id !== activeSection?.id && (
+          <Button
+            variant="outline"
+            size={isTabletMode ? 'touch-sm' : 'sm'}
+            onClick={() => onOpenSection(pageSection.id)}
+            title={`Zum Abschnitt „${pageSection.title}“`}
+            className="gap-2"
+          >
+            <CornerDownLeft className="w-4 h-4" />
+            <span className="hidden xl:inline">Zum Abschnitt</span>
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size={isTabletMode ? 'icon-touch' : 'icon'}
+          onClick={onClose}
+          title="Originalansicht schließen"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Thumbnails */}
+        {pdf && (
+          <div className="w-28 shrink-0 overflow-y-auto border-r border-gray-200/50 dark:border-gray-700/50 p-1.5 space-y-1">
+            {Array.from({ length: pageCount }, (_, index) => index + 1).map((pageNumber) => (
+              <PDFThumbnail
+                key={pageNumber}
+                pdf={pdf}
+                pageNumber={pageNumber}
+                isCurrent={pageNumber === currentPage}
+                inSection={!!activeRange && pageNumber >= activeRange.start && pageNumber <= activeRange.end}
+                onSelect={() => onPageChange(pageNumber)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Page */}
+        <div className="flex-1 overflow-auto p-4">
+          <div ref={pageAreaRef} className="w-full">
+            {error ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">
+                Das Original-PDF konnte nicht geladen werden.
+              </p>
+            ) : isLoading || !pdf ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <PDFPageCanvas
+                pdf={pdf}
+                pageNumber={currentPage}
+                width={pageWidth}
+                className="shadow-lg mx-auto"
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { PDFSplitView } from './PDFSplitView'
@@ -0,0 +1,211 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  buildDailyQueue,
+  DEFAULT_DAILY_LIMITS,
+  type DailyCounts,
+  type DailyLimits,
+} from '@/lib/flashcards/daily-queue'
+import { recordReview } from '@/lib/flashcards/reviews'
+import type { Flashcard, FlashcardWithSource, ReviewGrade } from '@/lib/supabase/types'
+
+interface UseDailyReviewReturn {
+  /** Today's session, interleaved by module */
+  queue: FlashcardWithSource[]
+  /** Due and new cards before the daily limits are applied */
+  dueCount: number
+  newCount: number
+  doneToday: DailyCounts
+  limits: DailyLimits
+  updateLimits: (limits: Partial<DailyLimits>) => void
+  isLoading: boolean
+  error: string | null
+  updateReview: (id: string, grade: ReviewGrade) => Promise<FlashcardWithSource | null>
+  refetch: () => Promise<void>
+}
+
+const LIMITS_STORAGE_KEY = 'daily-review-limits'
+
+// Cards with their document (and its modules) and section, in one request
+const CARD_COLUMNS = '*, documents(title, module_documents(module_id, sequence_order, modules(title))), sections(title)'
+
+interface CardRow extends Flashcard {
+  documents: {
+    title: string
+    module_documents: { module_id: string; sequence_order: number; modules: { title: string } | null }[]
+  } | null
+  sections: { title: string } | null
+}
+
+function startOfToday(): Date {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  return today
+}
+
+/**
+ * Hook for the daily review session across all documents and modules
+ */
+export function useDailyReview(): UseDailyReviewReturn {
+  const [cards, setCards] = useState<FlashcardWithSource[]>([])
+  const [totals, setTotals] = useState({ due: 0, new: 0 })
+  const [doneToday, setDoneToday] = useState<DailyCounts>({ newCards: 0, reviews: 0 })
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [limits, setLimits] = useState<DailyLimits>(() => {
+    if (typeof window === 'undefined') return DEFAULT_DAILY_LIMITS
+    try {
+      const stored = localStorage.getItem(LIMITS_STORAGE_KEY)
+      return stored ? { ...DEFAULT_DAILY_LIMITS, ...JSON.parse(stored) } : DEFAULT_DAILY_LIMITS
+    } catch {
+      return DEFAULT_DAILY_LIMITS
+    }
+  })
+
+  const supabase = createClient()
+
+  /**
+   * Fetch due and new cards with their document, section and module.
+   * Only as many cards as the daily limits allow are loaded; the totals are counted.
+   */
+  const fetchCards = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const now = new Date().toISOString()
+      const [dueResult, newResult, dueCountResult, newCountResult, reviewsResult] = await Promise.all([
+        supabase
+          .from('flashcards')
+          .select(CARD_COLUMNS)
+          .neq('state', 'new')
+          .or(`next_review.is.null,next_review.lte.${now}`)
+          .order('next_review', { ascending: true, nullsFirst: true })
+          .limit(limits.reviews),
+        supabase
+          .from('flashcards')
+          .select(CARD_COLUMNS)
+          .eq('state', 'new')
+          .order('created_at', { ascending: true })
+          .limit(limits.newCards),
+        supabase
+          .from('flashcards')
+          .select('id', { count: 'exact', head: true })
+          .neq('state', 'new')
+          .or(`next_review.is.null,next_review.lte.${now}`),
+        supabase
+          .from('flashcards')
+          .select('id', { count: 'exact', head: true })
+          .eq('state', 'new'),
+        supabase
+          .from('flashcard_reviews')
+          .select('state')
+          .gte('reviewed_at', startOfToday().toISOString()),
+      ])
+
+      for (const result of [dueResult, newResult, dueCountResult, newCountResult, reviewsResult]) {
+        if (result.error) throw new Error(result.error.message)
+      }
+
+      const rows = [...(dueResult.data || []), ...(newResult.data || [])] as unknown as CardRow[]
+
+      // Documents the user can no longer open are left out
+      setCards(
+        rows
+          .filter((row) => row.documents !== null)
+          .map(({ documents, sections, ...card }) => {
+            // A document in several modules belongs to the one where it comes first
+            const moduleLink = [...documents!.module_documents]
+              .filter((md) => md.modules !== null)
+              .sort((a, b) => a.sequence_order - b.sequence_order)[0]
+
+            return {
+              ...card,
+              document_title: documents!.title,
+              section_title: sections?.title ?? null,
+              module_id: moduleLink?.module_id ?? null,
+              module_title: moduleLink?.modules?.title ?? null,
+            }
+          })
+      )
+      setTotals({ due: dueCountResult.count ?? 0, new: newCountResult.count ?? 0 })
+
+      const reviewsToday = (reviewsResult.data || []) as { state: string }[]
+      setDoneToday({
+        newCards: reviewsToday.filter((r) => r.state === 'new').length,
+        reviews: reviewsToday.filter((r) => r.state !== 'new').length,
+      })
+    } catch (err) {
+      console.error('Failed to fetch daily review:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch daily review')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [supabase, limits.reviews, limits.newCards])
+
+  const queue = useMemo(
+    () => buildDailyQueue(cards, (card) => card.module_id ?? card.document_id, limits, doneToday),
+    [cards, limits, doneToday]
+  )
+
+  const updateLimits = useCallback((newLimits: Partial<DailyLimits>) => {
+    setLimits((prev) => {
+      const updated = { ...prev, ...newLimits }
+      localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify(updated))
+      return updated
+    })
+  }, [])
+
+  /**
+   * Grade a card and keep its new schedule, so a card seen again later in the
+   * session is graded from there. Returns the updated card, or null if it
+   * could not be saved.
+   */
+  const updateReview = useCallback(
+    async (id: string, grade: ReviewGrade): Promise<FlashcardWithSource | null> => {
+      try {
+        const card = cards.find((c) => c.id === id)
+        if (!card) return null
+
+        const {
+          data: { user },
+        } = await supabase.auth.getUser()
+
+        if (!user) {
+          throw new Error('User not authenticated')
+        }
+
+        const schedule = await recordReview(supabase, user.id, card, grade)
+        const updated = { ...card, ...schedule }
+        setCards((prev) => prev.map((c) => (c.id === id ? updated : c)))
+        setError(null)
+        return updated
+      } catch (err) {
+        console.error('Failed to update flashcard review:', err)
+        setError(err instanceof Error ? err.message : 'Failed to update review')
+        return null
+      }
+    },
+    [cards, supabase]
+  )
+
+  useEffect(() => {
+    fetchCards()
+  }, [fetchCards])
+
+  return {
+    queue,
+    dueCount: totals.due,
+    newCount: totals.new,
+    doneToday,
+    limits,
+    updateLimits,
+    isLoading,
+    error,
+    updateReview,
+    refetch: fetchCards,
+  }
+}
@@ -2,6 +2,10 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { isMastered } from '@/lib/flashcards/scheduler'
+import { flushSyncQueue } from '@/lib/progress/reading-sync'
+import { exerciseStatsByChapter, NO_CHAPTER, type ExerciseStats } from '@/lib/progress/exercise-stats'
+import { chapterKey } from '@/lib/flashcards/chapter-cards'
 
 interface DocumentStats {
   total: number
@@ -21,6 +25,17 @@ interface FlashcardStats {
   dueToday: number
 }
 
+export interface ChapterExerciseStats extends ExerciseStats {
+  documentId: string
+  documentTitle: string
+  chapter: string
+  chapterTitle: string
+}
+
+interface ExerciseOverview extends ExerciseStats {
+  chapters: ChapterExerciseStats[]
+}
+
 interface ProgressStats {
   totalSections: number
   completedSections: number
@@ -31,6 +46,7 @@ export interface DashboardStats {
   documents: DocumentStats
   annotations: AnnotationStats
   flashcards: FlashcardStats
+  exercises: ExerciseOverview
   progress: ProgressStats
   isLoading: boolean
   error: string | null
@@ -48,6 +64,7 @@ export function useDashboardStats(): UseDashboardStatsReturn {
     documents: { total: 0, inProgress: 0, completed: 0 },
     annotations: { highlights: 0, notes: 0, bookmarks: 0 },
     flashcards: { total: 0, mastered: 0, dueToday: 0 },
+    exercises: { total: 0, attempted: 0, solved: 0, chapters: [] },
     progress: { totalSections: 0, completedSections: 0, progressPercent: 0 },
     isLoading: true,
     error: null,
@@ -55,36 +72,24 @@ export function useDashboardStats(): UseDashboardStatsReturn {
 
   const supabase = createClient()
 
-  // Helper to get progress from localStorage for a document
-  const getLocalStorageProgress = (documentId: string): Record<string, boolean> => {
-    if (typeof window === 'undefined') return {}
-    try {
-      const stored = localStorage.getItem(`reading-progress-${documentId}`)
-      if (stored) {
-        const data = JSON.parse(stored)
-        return data.completed || {}
-      }
-    } catch {
-      // ignore
-    }
-    return {}
-  }
-
   const fetchStats = useCallback(async () => {
     setStats(prev => ({ ...prev, isLoading: true, error: null }))
 
     try {
+      // Send progress made offline first, so it is counted
+      await flushSyncQueue(supabase)
+
       // Fetch documents
       const { data: documents, error: docError } = await supabase
         .from('documents')
-        .select('id')
+        .select('id, title')
 
       if (docError) throw docError
 
       // Fetch sections
       const { data: sections, error: secError } = await supabase
         .from('sections')
-        .select('id, document_id')
+        .select('id, document_id, title, section_type, metadata')
 
       if (secError) throw secError
 
@@ -98,26 +103,33 @@ export function useDashboardStats(): UseDashboardStatsReturn {
       // Fetch flashcards
       const { data: flashcards, error: fcError } = await supabase
         .from('flashcards')
-        .select('difficulty, next_review')
+        .select('state, stability, next_review')
 
       if (fcError) throw fcError
 
-      // Get progress from localStorage for each document
+      // Fetch completed sections (synced from all devices)
+      const { data: progressRows, error: progressError } = await supabase
+        .from('progress')
+        .select('document_id, section_id')
+        .eq('completed', true)
+
+      if (progressError) throw progressError
+
+      // Fetch exercise self-test attempts
+      const { data: attempts, error: attemptsError } = await supabase
+        .from('exercise_attempts')
+        .select('exercise_section_id, rating, created_at')
+
+      if (attemptsError) throw attemptsError
+
       const allCompletedSections = new Set<string>()
       const documentProgress = new Map<string, Set<string>>()
 
-      documents?.forEach(doc => {
-        const localProgress = getLocalStorageProgress(doc.id)
-        const completedInDoc = new Set<string>()
-
-        Object.entries(localProgress).forEach(([sectionId, isCompleted]) => {
-          if (isCompleted) {
-            allCompletedSections.add(sectionId)
-            completedInDoc.add(sectionId)
-          }
-        })
-
-        documentProgress.set(doc.id, completedInDoc)
+      progressRows?.forEach(row => {
+        allCompletedSections.add(row.section_id)
+        const completedInDoc = documentProgress.get(row.document_id) || new Set<string>()
+        completedInDoc.add(row.section_id)
+        documentProgress.set(row.document_id, completedInDoc)
       })
 
       // Count documents by completion status
@@ -141,12 +153,28 @@ export function useDashboardStats(): UseDashboardStatsReturn {
       const bookmarks = annotations?.filter(a => a.type === 'bookmark').length || 0
 
       // Calculate flashcard stats
-      const mastered = flashcards?.filter(f => f.difficulty >= 4).length || 0
+      const mastered = flashcards?.filter(isMastered).length || 0
       const dueToday = flashcards?.filter(f => {
         if (!f.next_review) return true
         return new Date(f.next_review) <= new Date()
       }).length || 0
 
+      // Calculate exercise stats per chapter of each document
+      const exerciseChapters: ChapterExerciseStats[] = []
+      documents?.forEach(doc => {
+        const docSections = sections?.filter(s => s.document_id === doc.id) || []
+        exerciseStatsByChapter(docSections, attempts || []).forEach((chapterStats, chapter) => {
+          const heading = docSections.find(s => s.section_type === 'chapter' && chapterKey(s) === chapter)
+          exerciseChapters.push({
+            ...chapterStats,
+            documentId: doc.id,
+            documentTitle: doc.title,
+            chapter,
+            chapterTitle: heading?.title ?? (chapter === NO_CHAPTER ? 'Ohne Kapitel' : `Kapitel ${chapter}`),
+          })
+        })
+      })
+
       // Calculate progress stats
       const totalSections = sections?.length || 0
       const completedSections = allCompletedSections.size
@@ -170,6 +198,12 @@ export function useDashboardStats(): UseDashboardStatsReturn {
           mastered,
           dueToday,
         },
+        exercises: {
+          total: exerciseChapters.reduce((sum, c) => sum + c.total, 0),
+          attempted: exerciseChapters.reduce((sum, c) => sum + c.attempted, 0),
+          solved: exerciseChapters.reduce((sum, c) => sum + c.solved, 0),
+          chapters: exerciseChapters,
+        },
         progress: {
           totalSections,
           completedSections,
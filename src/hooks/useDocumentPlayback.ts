@@ -0,0 +1,312 @@
+'use client'
+
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import { useElevenLabs } from '@/hooks/useElevenLabs'
+import { DEFAULT_SKIPPED_SECTION_TYPES } from '@/lib/tts/speech-text'
+import type { Section, SectionType } from '@/lib/supabase/types'
+
+/** Sleep timer: minutes until playback pauses, or the end of the current section */
+export type SleepTimer = number | 'section' | null
+
+/** Section and paragraph reached by document playback */
+export interface DocumentPlaybackPosition {
+  sectionId: string
+  sectionTitle: string
+  paragraph: number
+}
+
+interface UseDocumentPlaybackOptions {
+  /** Sections in reading order */
+  sections?: Section[]
+  /** Shown on the lock screen / media notification */
+  documentTitle?: string
+  /** Section types left out of document playback (default: solutions and references) */
+  skipTypes?: SectionType[]
+  /** Called when playback moves to another section (null when document playback ends) */
+  onSectionChange?: (sectionId: string | null) => void
+  /** Called with the resume point as playback advances (null once the document is finished) */
+  onPositionChange?: (position: DocumentPlaybackPosition | null) => void
+}
+
+function hasMediaSession(): boolean {
+  return typeof navigator !== 'undefined' && 'mediaSession' in navigator
+}
+
+/**
+ * Register a media session action; browsers throw for actions they do not support
+ */
+function setMediaAction(action: MediaSessionAction, handler: MediaSessionActionHandler | null) {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler)
+  } catch {
+    // Unsupported action
+  }
+}
+
+/**
+ * Document-level read-aloud on top of useElevenLabs
+ * Walks the sections in order, announces their titles, exposes
+ * lock screen / headset controls and a sleep timer
+ */
+export function useDocumentPlayback(options: UseDocumentPlaybackOptions = {}) {
+  const {
+    sections = [],
+    documentTitle,
+    onSectionChange,
+    onPositionChange,
+  } = options
+
+  const [skipTypes, setSkipTypes] = useState<SectionType[]>(
+    options.skipTypes ?? DEFAULT_SKIPPED_SECTION_TYPES
+  )
+  const [isDocumentMode, setIsDocumentMode] = useState(false)
+  const [currentSectionId, setCurrentSectionId] = useState<string | null>(null)
+  const [sleepTimer, setSleepTimerState] = useState<SleepTimer>(null)
+  const [sleepMinutesLeft, setSleepMinutesLeft] = useState<number | null>(null)
+
+  // Called from audio events, so state is mirrored in refs
+  const queueIndexRef = useRef(-1)
+  const isDocumentModeRef = useRef(false)
+  const sleepTimerRef = useRef<SleepTimer>(null)
+  const sleepDeadlineRef = useRef<number | null>(null)
+  const finishedHandlerRef = useRef<() => void>(() => {})
+  const onSectionChangeRef = useRef(onSectionChange)
+  const onPositionChangeRef = useRef(onPositionChange)
+
+  useEffect(() => {
+    onSectionChangeRef.current = onSectionChange
+    onPositionChangeRef.current = onPositionChange
+  }, [onSectionChange, onPositionChange])
+
+  const handleFinished = useCallback(() => finishedHandlerRef.current(), [])
+
+  const tts = useElevenLabs({ onFinished: handleFinished })
+  const { play, pause, stop, currentParagraph, isPlaying } = tts
+
+  // Sections that are read, in order
+  const queue = useMemo(
+    () => sections.filter((s) => !skipTypes.includes(s.section_type) && s.content?.trim()),
+    [sections, skipTypes]
+  )
+  const queueRef = useRef(queue)
+  useEffect(() => {
+    queueRef.current = queue
+  }, [queue])
+
+  const currentSection = useMemo(
+    () => sections.find((s) => s.id === currentSectionId) ?? null,
+    [sections, currentSectionId]
+  )
+
+  /**
+   * First queued section at or after a section (skipped sections resume at the next one)
+   */
+  const queueIndexFrom = useCallback(
+    (sectionId: string) => {
+      const start = sections.findIndex((s) => s.id === sectionId)
+      if (start < 0) return -1
+      return queue.findIndex((s) => sections.indexOf(s) >= start)
+    },
+    [sections, queue]
+  )
+
+  const endDocumentMode = useCallback(() => {
+    isDocumentModeRef.current = false
+    queueIndexRef.current = -1
+    setIsDocumentMode(false)
+    setCurrentSectionId(null)
+    onSectionChangeRef.current?.(null)
+  }, [])
+
+  /**
+   * Start reading a queued section; the title is announced unless resuming mid-section
+   */
+  const playQueued = useCallback(
+    (index: number, paragraph: number = 0) => {
+      const section = queueRef.current[index]
+      if (!section) return
+
+      queueIndexRef.current = index
+      isDocumentModeRef.current = true
+      setIsDocumentMode(true)
+      setCurrentSectionId(section.id)
+      onSectionChangeRef.current?.(section.id)
+
+      play(section.content, paragraph > 0 ? { startParagraph: paragraph } : { announce: section.title })
+    },
+    [play]
+  )
+
+  /**
+   * Read the document from a section (default: first section)
+   */
+  const playDocument = useCallback(
+    (fromSectionId?: string, paragraph: number = 0) => {
+      const index = fromSectionId ? queueIndexFrom(fromSectionId) : 0
+      if (index < 0 || index >= queue.length) return
+      const resumesSection = fromSectionId === queue[index].id
+      playQueued(index, resumesSection ? paragraph : 0)
+    },
+    [queue, queueIndexFrom, playQueued]
+  )
+
+  const nextSection = useCallback(() => {
+    if (!isDocumentModeRef.current) return
+    playQueued(queueIndexRef.current + 1)
+  }, [playQueued])
+
+  const previousSection = useCallback(() => {
+    if (!isDocumentModeRef.current) return
+    // Like a music player: restart the section unless it has just begun
+    const index = currentParagraph > 0 ? queueIndexRef.current : queueIndexRef.current - 1
+    playQueued(Math.max(0, index))
+  }, [currentParagraph, playQueued])
+
+  const stopDocument = useCallback(() => {
+    stop()
+    if (isDocumentModeRef.current) endDocumentMode()
+  }, [stop, endDocumentMode])
+
+  const setSleepTimer = useCallback((timer: SleepTimer) => {
+    sleepTimerRef.current = timer
+    sleepDeadlineRef.current = typeof timer === 'number' ? Date.now() + timer * 60_000 : null
+    setSleepTimerState(timer)
+    setSleepMinutesLeft(typeof timer === 'number' ? timer : null)
+  }, [])
+
+  // Advance to the next section when one has been read
+  useEffect(() => {
+    finishedHandlerRef.current = () => {
+      if (!isDocumentModeRef.current) return
+
+      const next = queueIndexRef.current + 1
+      const nextQueued = queueRef.current[next]
+
+      if (!nextQueued) {
+        // Whole document read: nothing left to resume
+        onPositionChangeRef.current?.(null)
+        endDocumentMode()
+        return
+      }
+
+      if (sleepTimerRef.current === 'section') {
+        // Sleep timer: stop here, resume with the next section
+        onPositionChangeRef.current?.({
+          sectionId: nextQueued.id,
+          sectionTitle: nextQueued.title,
+          paragraph: 0,
+        })
+        setSleepTimer(null)
+        endDocumentMode()
+        return
+      }
+
+      playQueued(next)
+    }
+  }, [playQueued, endDocumentMode, setSleepTimer])
+
+  // Save the resume point per paragraph
+  useEffect(() => {
+    if (!isDocumentMode || !isPlaying || !currentSection) return
+    onPositionChangeRef.current?.({
+      sectionId: currentSection.id,
+      sectionTitle: currentSection.title,
+      paragraph: currentParagraph,
+    })
+  }, [isDocumentMode, isPlaying, currentSection, currentParagraph])
+
+  // Sleep timer countdown
+  useEffect(() => {
+    if (typeof sleepTimer !== 'number') return
+
+    const interval = setInterval(() => {
+      const deadline = sleepDeadlineRef.current
+      if (deadline === null) return
+      const remaining = deadline - Date.now()
+      if (remaining <= 0) {
+        pause()
+        setSleepTimer(null)
+      } else {
+        setSleepMinutesLeft(Math.ceil(remaining / 60_000))
+      }
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [sleepTimer, pause, setSleepTimer])
+
+  // Lock screen / headset controls
+  const mediaActionsRef = useRef({
+    play: () => {},
+    pause: () => {},
+    stop: () => {},
+    next: () => {},
+    previous: () => {},
+    forward: () => {},
+    backward: () => {},
+  })
+
+  useEffect(() => {
+    mediaActionsRef.current = {
+      play: () => { play() },
+      pause,
+      stop: stopDocument,
+      next: nextSection,
+      previous: previousSection,
+      forward: tts.skipForward,
+      backward: tts.skipBackward,
+    }
+  }, [play, pause, stopDocument, nextSection, previousSection, tts.skipForward, tts.skipBackward])
+
+  useEffect(() => {
+    if (!hasMediaSession()) return
+
+    setMediaAction('play', () => mediaActionsRef.current.play())
+    setMediaAction('pause', () => mediaActionsRef.current.pause())
+    setMediaAction('stop', () => mediaActionsRef.current.stop())
+    // Headset skip buttons move by section in document mode, by paragraph otherwise
+    setMediaAction('nexttrack', () =>
+      (isDocumentModeRef.current ? mediaActionsRef.current.next : mediaActionsRef.current.forward)()
+    )
+    setMediaAction('previoustrack', () =>
+      (isDocumentModeRef.current ? mediaActionsRef.current.previous : mediaActionsRef.current.backward)()
+    )
+    setMediaAction('seekforward', () => mediaActionsRef.current.forward())
+    setMediaAction('seekbackward', () => mediaActionsRef.current.backward())
+
+    return () => {
+      for (const action of ['play', 'pause', 'stop', 'nexttrack', 'previoustrack', 'seekforward', 'seekbackward'] as const) {
+        setMediaAction(action, null)
+      }
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!hasMediaSession() || typeof MediaMetadata === 'undefined') return
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: currentSection?.title ?? documentTitle ?? 'Vorlesen',
+      artist: documentTitle,
+    })
+  }, [currentSection, documentTitle])
+
+  useEffect(() => {
+    if (!hasMediaSession()) return
+    navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused'
+  }, [isPlaying])
+
+  return {
+    ...tts,
+    stop: stopDocument,
+    isDocumentMode,
+    currentSection,
+    playDocument,
+    nextSection,
+    previousSection,
+    hasNextSection: isDocumentMode && queue.findIndex((s) => s.id === currentSectionId) + 1 < queue.length,
+    queueLength: queue.length,
+    skipTypes,
+    setSkipTypes,
+    sleepTimer,
+    sleepMinutesLeft,
+    setSleepTimer,
+  }
+}
@@ -1,6 +1,16 @@
 'use client'
 
 import { useState, useRef, useCallback, useEffect } from 'react'
+import {
+  appendAlignment,
+  buildWordTimings,
+  emptyAlignment,
+  findWordAtTime,
+  wordRangeAt,
+  type CharacterAlignment,
+  type WordTiming,
+} from '@/lib/tts/alignment'
+import { splitParagraphs } from '@/lib/tts/speech-text'
 
 interface UseElevenLabsOptions {
   /** Voice ID or name (default: Jennifer Meyer) */
@@ -13,11 +23,27 @@ interface UseElevenLabsOptions {
   similarityBoost?: number
   /** Auto-play when text changes */
   autoPlay?: boolean
+  /** Called when the last paragraph has been spoken */
+  onFinished?: () => void
+}
+
+interface PlayOptions {
+  /** Spoken before the first paragraph, e.g. the section title */
+  announce?: string
+  /** Paragraph to start at (skips the announcement) */
+  startParagraph?: number
+}
+
+/** Word being spoken, as character range within its paragraph */
+export interface SpokenWord {
+  paragraph: number
+  start: number
+  end: number
 }
 
 interface UseElevenLabsReturn {
   /** Play/resume audio */
-  play: (text?: string) => Promise<void>
+  play: (text?: string, options?: PlayOptions) => Promise<void>
   /** Pause audio */
   pause: () => void
   /** Stop and reset */
@@ -35,17 +61,71 @@ interface UseElevenLabsReturn {
   /** Current paragraph index being spoken */
   currentParagraph: number
   /** Set the text to be spoken (paragraphs separated by \n\n) */
-  setText: (text: string) => void
+  setText: (text: string, announce?: string) => void
   /** Progress (0-1) */
   progress: number
+  /** True when the TTS proxy is unavailable and the browser voice is used */
+  isFallback: boolean
+  /** Word currently being spoken (read-along) */
+  currentWord: SpokenWord | null
+  /** Continue playback from a character offset in a paragraph */
+  seekTo: (paragraph: number, offset: number) => void
 }
 
 // Jennifer Meyer voice ID on ElevenLabs
 const JENNIFER_MEYER_VOICE_ID = 'XrExE9yKIg1WjnnlVkGX'
 
+/**
+ * Whether MP3 can be appended to a MediaSource (playback starts before the download finishes)
+ */
+function canStreamAudio(): boolean {
+  return typeof window !== 'undefined'
+    && 'MediaSource' in window
+    && MediaSource.isTypeSupported('audio/mpeg')
+}
+
+function hasBrowserVoice(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window
+}
+
+function decodeBase64(data: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+}
+
+/**
+ * Read the newline-delimited JSON returned by /api/tts with timestamps
+ */
+async function* readSpeechLines(
+  response: Response
+): AsyncGenerator<{ audio: Uint8Array<ArrayBuffer>; alignment: CharacterAlignment | null }> {
+  if (!response.body) return
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) buffer += decoder.decode()
+    else buffer += decoder.decode(value, { stream: true })
+
+    const lines = buffer.split('\n')
+    buffer = done ? '' : lines.pop() || ''
+
+    for (const line of lines) {
+      if (!line.trim()) continue
+      const data = JSON.parse(line)
+      yield { audio: decodeBase64(data.audio || ''), alignment: data.alignment ?? null }
+    }
+
+    if (done) break
+  }
+}
+
 /**
  * Hook for ElevenLabs text-to-speech integration
- * Provides streaming audio playback with paragraph tracking
+ * Streams audio from /api/tts (which holds the API key and caches audio)
+ * with paragraph and word tracking; falls back to the browser's
+ * speechSynthesis when the proxy is unavailable
  */
 export function useElevenLabs(
   options: UseElevenLabsOptions = {}
@@ -55,6 +135,7 @@ export function useElevenLabs(
     modelId = 'eleven_multilingual_v2',
     stability = 0.5,
     similarityBoost = 0.75,
+    onFinished,
   } = options
 
   const [isPlaying, setIsPlaying] = useState(false)
@@ -63,53 +144,94 @@ export function useElevenLabs(
   const [currentParagraph, setCurrentParagraph] = useState(0)
   const [progress, setProgress] = useState(0)
   const [paragraphs, setParagraphs] = useState<string[]>([])
+  const [isFallback, setIsFallback] = useState(false)
+  const [currentWord, setCurrentWord] = useState<SpokenWord | null>(null)
 
   const audioRef = useRef<HTMLAudioElement | null>(null)
-  const audioContextRef = useRef<AudioContext | null>(null)
   const currentTextRef = useRef<string>('')
   const abortControllerRef = useRef<AbortController | null>(null)
+  const objectUrlRef = useRef<string | null>(null)
+  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null)
+  const useBrowserVoiceRef = useRef(false)
+  // Paragraphs and announcement as refs, so play(text) can start before state updates
+  const paragraphsRef = useRef<string[]>([])
+  const announcementRef = useRef<string | null>(null)
+  const onFinishedRef = useRef(onFinished)
+  // Paragraph the audio element / utterance is currently speaking (-1 = announcement)
+  const playingParagraphRef = useRef(0)
+  // Read-along: timestamps of the current paragraph and a seek waiting for them
+  const alignmentRef = useRef<CharacterAlignment>(emptyAlignment())
+  const wordTimingsRef = useRef<WordTiming[]>([])
+  const pendingSeekRef = useRef<number | null>(null)
+
+  // Audio listeners are attached once; they call the latest handlers through refs
+  const endedHandlerRef = useRef<() => void>(() => {})
+  const timeUpdateHandlerRef = useRef<() => void>(() => {})
+
+  /**
+   * Release the object URL of the previous paragraph
+   */
+  const releaseObjectUrl = useCallback(() => {
+    if (objectUrlRef.current) {
+      URL.revokeObjectURL(objectUrlRef.current)
+      objectUrlRef.current = null
+    }
+  }, [])
+
+  /**
+   * Cancel browser speech without triggering its end handler
+   */
+  const cancelBrowserSpeech = useCallback(() => {
+    if (utteranceRef.current) {
+      utteranceRef.current.onend = null
+      utteranceRef.current.onerror = null
+      utteranceRef.current.onboundary = null
+      utteranceRef.current = null
+    }
+    if (hasBrowserVoice()) {
+      window.speechSynthesis.cancel()
+    }
+  }, [])
+
+  const handleAudioError = useCallback((e: Event) => {
+    // Clearing src on stop also fires an error event
+    if (!audioRef.current?.getAttribute('src')) return
+    console.error('Audio error:', e)
+    setError('Audio playback error')
+    setIsPlaying(false)
+    setIsLoading(false)
+  }, [])
 
   // Initialize audio element
   useEffect(() => {
     if (typeof window !== 'undefined') {
+      const handleEnded = () => endedHandlerRef.current()
+      const handleTimeUpdate = () => timeUpdateHandlerRef.current()
+
       audioRef.current = new Audio()
       audioRef.current.volume = 1.0 // Maximum volume
-      audioRef.current.addEventListener('ended', handleAudioEnded)
+      audioRef.current.addEventListener('ended', handleEnded)
       audioRef.current.addEventListener('timeupdate', handleTimeUpdate)
       audioRef.current.addEventListener('error', handleAudioError)
 
       return () => {
         if (audioRef.current) {
-          audioRef.current.removeEventListener('ended', handleAudioEnded)
+          audioRef.current.removeEventListener('ended', handleEnded)
           audioRef.current.removeEventListener('timeupdate', handleTimeUpdate)
           audioRef.current.removeEventListener('error', handleAudioError)
           audioRef.current.pause()
           audioRef.current = null
         }
         abortControllerRef.current?.abort()
+        cancelBrowserSpeech()
+        releaseObjectUrl()
       }
     }
-  }, [])
-
-  const handleAudioEnded = useCallback(() => {
-    // Move to next paragraph
-    setCurrentParagraph((prev) => {
-      const next = prev + 1
-      if (next < paragraphs.length) {
-        // Auto-play next paragraph
-        playParagraph(next)
-        return next
-      } else {
-        // Finished all paragraphs
-        setIsPlaying(false)
-        setProgress(1)
-        return prev
-      }
-    })
-  }, [paragraphs.length])
+  }, [handleAudioError, cancelBrowserSpeech, releaseObjectUrl])
 
   const handleTimeUpdate = useCallback(() => {
-    if (audioRef.current && audioRef.current.duration) {
+    // Duration is infinite while a streamed paragraph is still loading
+    if (audioRef.current && Number.isFinite(audioRef.current.duration) && audioRef.current.duration > 0) {
       const paragraphProgress =
         audioRef.current.currentTime / audioRef.current.duration
       const overallProgress =
@@ -118,51 +240,37 @@ export function useElevenLabs(
     }
   }, [currentParagraph, paragraphs.length])
 
-  const handleAudioError = useCallback((e: Event) => {
-    console.error('Audio error:', e)
-    setError('Audio playback error')
-    setIsPlaying(false)
-    setIsLoading(false)
-  }, [])
-
   /**
-   * Generate speech for a single paragraph using ElevenLabs API
+   * Request speech for a single paragraph from the TTS proxy
    */
-  const generateSpeech = useCallback(
-    async (text: string): Promise<Blob | null> => {
+  const requestSpeech = useCallback(
+    async (text: string): Promise<Response | null> => {
       try {
         abortControllerRef.current?.abort()
         abortControllerRef.current = new AbortController()
 
-        const response = await fetch(
-          `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'xi-api-key': process.env.NEXT_PUBLIC_ELEVENLABS_API_KEY || 'sk_effe7457eb8146f4b003ccc6bf4b581ad540538e19bf587b',
-            },
-            body: JSON.stringify({
-              text,
-              model_id: modelId,
-              voice_settings: {
-                stability,
-                similarity_boost: similarityBoost,
-              },
-            }),
-            signal: abortControllerRef.current.signal,
-          }
-        )
+        const response = await fetch('/api/tts', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            text,
+            voiceId,
+            modelId,
+            stability,
+            similarityBoost,
+            timestamps: true,
+          }),
+          signal: abortControllerRef.current.signal,
+        })
 
-        if (!response.ok) {
+        if (!response.ok || !response.body) {
           const errorData = await response.json().catch(() => ({}))
-          throw new Error(
-            errorData.detail?.message || `API error: ${response.status}`
-          )
+          throw new Error(errorData.error || `API error: ${response.status}`)
         }
 
-        const blob = await response.blob()
-        return blob
+        return response
       } catch (err) {
         if (err instanceof Error && err.name === 'AbortError') {
           return null
@@ -173,34 +281,160 @@ export function useElevenLabs(
     [voiceId, modelId, stability, similarityBoost]
   )
 
+  /**
+   * Jump to a pending seek position once its timestamps have arrived
+   */
+  const applyPendingSeek = useCallback(() => {
+    const offset = pendingSeekRef.current
+    if (offset === null || !audioRef.current) return
+    const word = wordTimingsRef.current.find((w) => w.end > offset)
+    if (!word) return
+    audioRef.current.currentTime = word.startTime
+    pendingSeekRef.current = null
+  }, [])
+
+  /**
+   * Play a /api/tts response, appending MP3 chunks to a MediaSource as they
+   * arrive and collecting the character timestamps for read-along
+   */
+  const playResponse = useCallback(
+    async (response: Response) => {
+      const audio = audioRef.current
+      if (!audio) return
+
+      releaseObjectUrl()
+      alignmentRef.current = emptyAlignment()
+      wordTimingsRef.current = []
+
+      const handleAlignment = (alignment: CharacterAlignment | null) => {
+        if (!alignment) return
+        appendAlignment(alignmentRef.current, alignment)
+        wordTimingsRef.current = buildWordTimings(alignmentRef.current)
+        applyPendingSeek()
+      }
+
+      if (!canStreamAudio()) {
+        const parts: Uint8Array<ArrayBuffer>[] = []
+        for await (const line of readSpeechLines(response)) {
+          parts.push(line.audio)
+          handleAlignment(line.alignment)
+        }
+        objectUrlRef.current = URL.createObjectURL(new Blob(parts, { type: 'audio/mpeg' }))
+        audio.src = objectUrlRef.current
+        applyPendingSeek()
+        await audio.play()
+        return
+      }
+
+      const mediaSource = new MediaSource()
+      objectUrlRef.current = URL.createObjectURL(mediaSource)
+      audio.src = objectUrlRef.current
+
+      mediaSource.addEventListener('sourceopen', async () => {
+        const sourceBuffer = mediaSource.addSourceBuffer('audio/mpeg')
+        try {
+          for await (const line of readSpeechLines(response)) {
+            if (line.audio.length > 0) {
+              sourceBuffer.appendBuffer(line.audio)
+              await new Promise((resolve) =>
+                sourceBuffer.addEventListener('updateend', resolve, { once: true })
+              )
+            }
+            handleAlignment(line.alignment)
+          }
+          if (mediaSource.readyState === 'open') mediaSource.endOfStream()
+        } catch (err) {
+          // Aborted by skip/stop, or the source was detached
+          if (mediaSource.readyState === 'open') mediaSource.endOfStream('network')
+          if (!(err instanceof Error && err.name === 'AbortError')) {
+            console.error('TTS stream error:', err)
+          }
+        }
+      }, { once: true })
+
+      await audio.play()
+    },
+    [releaseObjectUrl, applyPendingSeek]
+  )
+
+  /**
+   * Speak a paragraph with the browser's built-in voice
+   */
+  const speakWithBrowser = useCallback(
+    (text: string, index: number, startOffset: number = 0) => {
+      if (!hasBrowserVoice()) {
+        throw new Error('Sprachausgabe wird von diesem Browser nicht unterstützt')
+      }
+
+      cancelBrowserSpeech()
+      // Seeking speaks the rest of the paragraph; boundary offsets are relative to it
+      const utterance = new SpeechSynthesisUtterance(text.slice(startOffset))
+      utterance.lang = 'de-DE'
+      utterance.onend = () => endedHandlerRef.current()
+      utterance.onerror = (e) => {
+        if (e.error === 'interrupted' || e.error === 'canceled') return
+        setError(`Sprachausgabe fehlgeschlagen: ${e.error}`)
+        setIsPlaying(false)
+      }
+      utterance.onboundary = (e) => {
+        const start = startOffset + e.charIndex
+        setProgress(Math.max(0, (index + start / text.length) / Math.max(paragraphsRef.current.length, 1)))
+        if (e.name !== 'word') return
+        // charLength is missing in some browsers
+        const end = e.charLength ? start + e.charLength : wordRangeAt(text, start)?.end ?? start
+        setCurrentWord({ paragraph: index, start, end })
+      }
+
+      utteranceRef.current = utterance
+      window.speechSynthesis.speak(utterance)
+      setIsPlaying(true)
+    },
+    [cancelBrowserSpeech]
+  )
+
   /**
    * Play a specific paragraph
    */
   const playParagraph = useCallback(
-    async (index: number) => {
-      if (index < 0 || index >= paragraphs.length) return
+    async (index: number, startOffset: number = 0) => {
+      const firstIndex = announcementRef.current ? -1 : 0
+      if (index < firstIndex || index >= paragraphsRef.current.length) return
 
       setIsLoading(true)
       setError(null)
+      setCurrentWord(null)
+      playingParagraphRef.current = index
+      pendingSeekRef.current = startOffset > 0 ? startOffset : null
 
       try {
-        const text = paragraphs[index]
+        const text = index === -1 ? announcementRef.current ?? '' : paragraphsRef.current[index]
         if (!text.trim()) {
           // Skip empty paragraphs
-          handleAudioEnded()
+          endedHandlerRef.current()
           return
         }
 
-        const audioBlob = await generateSpeech(text)
-        if (!audioBlob) return // Aborted
+        if (useBrowserVoiceRef.current) {
+          speakWithBrowser(text, index, startOffset)
+          return
+        }
 
-        if (audioRef.current) {
-          const url = URL.createObjectURL(audioBlob)
-          audioRef.current.src = url
-          audioRef.current.volume = 1.0 // Ensure maximum volume
-          await audioRef.current.play()
-          setIsPlaying(true)
+        let response: Response | null
+        try {
+          response = await requestSpeech(text)
+        } catch (err) {
+          if (!hasBrowserVoice()) throw err
+          // Proxy unavailable - continue with the browser voice
+          console.warn('TTS proxy unavailable, using browser voice:', err)
+          useBrowserVoiceRef.current = true
+          setIsFallback(true)
+          speakWithBrowser(text, index, startOffset)
+          return
         }
+        if (!response) return // Aborted
+
+        await playResponse(response)
+        setIsPlaying(true)
       } catch (err) {
         console.error('TTS error:', err)
         setError(err instanceof Error ? err.message : 'TTS failed')
@@ -209,18 +443,38 @@ export function useElevenLabs(
         setIsLoading(false)
       }
     },
-    [paragraphs, generateSpeech, handleAudioEnded]
+    [requestSpeech, playResponse, speakWithBrowser]
   )
 
+  const handleAudioEnded = useCallback(() => {
+    // Move to next paragraph
+    const next = playingParagraphRef.current + 1
+    if (next < paragraphsRef.current.length) {
+      // Auto-play next paragraph
+      setCurrentParagraph(next)
+      playParagraph(next)
+    } else {
+      // Finished all paragraphs
+      setIsPlaying(false)
+      setProgress(1)
+      onFinishedRef.current?.()
+    }
+  }, [playParagraph])
+
+  useEffect(() => {
+    endedHandlerRef.current = handleAudioEnded
+    timeUpdateHandlerRef.current = handleTimeUpdate
+    onFinishedRef.current = onFinished
+  }, [handleAudioEnded, handleTimeUpdate, onFinished])
+
   /**
    * Set the text to be spoken
    */
-  const setText = useCallback((text: string) => {
+  const setText = useCallback((text: string, announce?: string) => {
     currentTextRef.current = text
-    const paras = text
-      .split(/\n{2,}/)
-      .map((p) => p.trim())
-      .filter((p) => p.length > 0)
+    const paras = splitParagraphs(text)
+    paragraphsRef.current = paras
+    announcementRef.current = announce?.trim() || null
     setParagraphs(paras)
     setCurrentParagraph(0)
     setProgress(0)
@@ -230,11 +484,16 @@ export function useElevenLabs(
    * Start or resume playback
    */
   const play = useCallback(
-    async (text?: string) => {
-      if (text) {
-        setText(text)
-        setCurrentParagraph(0)
-        await playParagraph(0)
+    async (text?: string, playOptions?: PlayOptions) => {
+      if (text !== undefined) {
+        setText(text, playOptions?.announce)
+        const start = playOptions?.startParagraph ?? 0
+        setCurrentParagraph(start)
+        await playParagraph(start === 0 && announcementRef.current ? -1 : start)
+      } else if (useBrowserVoiceRef.current && utteranceRef.current && window.speechSynthesis.paused) {
+        // Resume browser voice
+        window.speechSynthesis.resume()
+        setIsPlaying(true)
       } else if (audioRef.current?.paused && audioRef.current.src) {
         // Resume
         await audioRef.current.play()
@@ -251,10 +510,11 @@ export function useElevenLabs(
    * Pause playback
    */
   const pause = useCallback(() => {
-    if (audioRef.current) {
-      audioRef.current.pause()
-      setIsPlaying(false)
+    if (useBrowserVoiceRef.current && hasBrowserVoice()) {
+      window.speechSynthesis.pause()
     }
+    audioRef.current?.pause()
+    setIsPlaying(false)
   }, [])
 
   /**
@@ -262,16 +522,26 @@ export function useElevenLabs(
    */
   const stop = useCallback(() => {
     abortControllerRef.current?.abort()
+    cancelBrowserSpeech()
     if (audioRef.current) {
       audioRef.current.pause()
       audioRef.current.currentTime = 0
-      audioRef.current.src = ''
+      audioRef.current.removeAttribute('src')
+      audioRef.current.load()
     }
+    releaseObjectUrl()
+    // Try the proxy again on the next playback
+    useBrowserVoiceRef.current = false
+    playingParagraphRef.current = 0
+    pendingSeekRef.current = null
+    wordTimingsRef.current = []
+    setIsFallback(false)
+    setCurrentWord(null)
     setIsPlaying(false)
     setIsLoading(false)
     setCurrentParagraph(0)
     setProgress(0)
-  }, [])
+  }, [cancelBrowserSpeech, releaseObjectUrl])
 
   /**
    * Skip to next paragraph
@@ -299,6 +569,59 @@ export function useElevenLabs(
     }
   }, [currentParagraph, isPlaying, playParagraph])
 
+  /**
+   * Continue playback at the word containing a character offset
+   */
+  const seekTo = useCallback(
+    (paragraph: number, offset: number) => {
+      const text = paragraphs[paragraph]
+      if (!text) return
+      const start = wordRangeAt(text, offset)?.start ?? 0
+
+      // Same paragraph with ElevenLabs audio: jump within the loaded audio
+      if (
+        paragraph === playingParagraphRef.current &&
+        !useBrowserVoiceRef.current &&
+        audioRef.current?.src
+      ) {
+        pendingSeekRef.current = start
+        applyPendingSeek()
+        if (audioRef.current.paused) {
+          audioRef.current.play().then(() => setIsPlaying(true)).catch(() => {})
+        }
+        return
+      }
+
+      setCurrentParagraph(paragraph)
+      playParagraph(paragraph, start)
+    },
+    [paragraphs, applyPendingSeek, playParagraph]
+  )
+
+  // Follow the ElevenLabs audio with the spoken word (browser voice uses boundary events)
+  useEffect(() => {
+    if (!isPlaying || isFallback) return
+
+    let frame = 0
+    const tick = () => {
+      const audio = audioRef.current
+      const words = wordTimingsRef.current
+      if (audio && words.length > 0) {
+        const word = words[findWordAtTime(words, audio.currentTime)]
+        const paragraph = playingParagraphRef.current
+        setCurrentWord((prev) => {
+          if (!word) return null
+          if (prev && prev.paragraph === paragraph && prev.start === word.start) return prev
+          return { paragraph, start: word.start, end: word.end }
+        })
+      }
+      frame = requestAnimationFrame(tick)
+    }
+
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, isFallback])
+
   return {
     play,
     pause,
@@ -311,5 +634,8 @@ export function useElevenLabs(
     currentParagraph,
     setText,
     progress,
+    isFallback,
+    currentWord,
+    seekTo,
   }
 }
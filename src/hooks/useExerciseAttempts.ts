@@ -0,0 +1,109 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { latestRatings } from '@/lib/progress/exercise-stats'
+import type { ExerciseAttempt, ExerciseRating } from '@/lib/supabase/types'
+
+interface UseExerciseAttemptsReturn {
+  attempts: ExerciseAttempt[]
+  /** Rating of the latest attempt per exercise section */
+  ratings: Map<string, ExerciseRating>
+  isLoading: boolean
+  error: string | null
+  recordAttempt: (exerciseSectionId: string, answer: string, rating: ExerciseRating) => Promise<boolean>
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook for the user's self-test attempts on a document's exercises
+ */
+export function useExerciseAttempts(documentId: string): UseExerciseAttemptsReturn {
+  const [attempts, setAttempts] = useState<ExerciseAttempt[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+
+  const fetchAttempts = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase
+        .from('exercise_attempts')
+        .select('*')
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: true })
+
+      if (fetchError) {
+        throw new Error(fetchError.message)
+      }
+
+      setAttempts(data || [])
+    } catch (err) {
+      console.error('Failed to fetch exercise attempts:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch exercise attempts')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [documentId, supabase])
+
+  /**
+   * Store an attempt with the student's own rating
+   */
+  const recordAttempt = useCallback(
+    async (exerciseSectionId: string, answer: string, rating: ExerciseRating): Promise<boolean> => {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser()
+
+        if (!user) {
+          throw new Error('User not authenticated')
+        }
+
+        const { data: inserted, error: insertError } = await supabase
+          .from('exercise_attempts')
+          .insert({
+            user_id: user.id,
+            document_id: documentId,
+            exercise_section_id: exerciseSectionId,
+            answer,
+            rating,
+          })
+          .select()
+          .single()
+
+        if (insertError) {
+          throw new Error(insertError.message)
+        }
+
+        // Optimistic update
+        setAttempts((prev) => [...prev, inserted])
+
+        return true
+      } catch (err) {
+        console.error('Failed to record exercise attempt:', err)
+        setError(err instanceof Error ? err.message : 'Failed to record exercise attempt')
+        return false
+      }
+    },
+    [documentId, supabase]
+  )
+
+  const ratings = useMemo(() => latestRatings(attempts), [attempts])
+
+  useEffect(() => {
+    fetchAttempts()
+  }, [fetchAttempts])
+
+  return {
+    attempts,
+    ratings,
+    isLoading,
+    error,
+    recordAttempt,
+    refetch: fetchAttempts,
+  }
+}
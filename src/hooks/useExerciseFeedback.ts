@@ -0,0 +1,84 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import type { ExerciseFeedback } from '@/lib/supabase/types'
+
+interface UseExerciseFeedbackReturn {
+  /** Saved feedback for the exercise, latest first (after loadHistory) */
+  history: ExerciseFeedback[] | null
+  isLoading: boolean
+  error: string | null
+  requestFeedback: (answer: string) => Promise<ExerciseFeedback | null>
+  loadHistory: () => Promise<void>
+}
+
+/**
+ * Hook for AI feedback on written answers to an exercise. Earlier feedback is
+ * only loaded on request, since every exercise of a document uses this hook.
+ */
+export function useExerciseFeedback(exerciseSectionId: string): UseExerciseFeedbackReturn {
+  const [history, setHistory] = useState<ExerciseFeedback[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/exercise-feedback?exercise_section_id=${exerciseSectionId}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch exercise feedback')
+      }
+
+      setHistory(data.feedback)
+    } catch (err) {
+      console.error('Failed to fetch exercise feedback:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch exercise feedback')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [exerciseSectionId])
+
+  /**
+   * Have the answer compared with the solution; the result is saved server-side
+   */
+  const requestFeedback = useCallback(
+    async (answer: string): Promise<ExerciseFeedback | null> => {
+      try {
+        setIsLoading(true)
+        setError(null)
+
+        const response = await fetch('/api/exercise-feedback', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ exercise_section_id: exerciseSectionId, answer }),
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to request exercise feedback')
+        }
+
+        const saved: ExerciseFeedback = data.feedback
+        setHistory((prev) => prev && [saved, ...prev])
+        return saved
+      } catch (err) {
+        console.error('Failed to request exercise feedback:', err)
+        setError(err instanceof Error ? err.message : 'Failed to request exercise feedback')
+        return null
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [exerciseSectionId]
+  )
+
+  return {
+    history,
+    isLoading,
+    error,
+    requestFeedback,
+    loadHistory,
+  }
+}
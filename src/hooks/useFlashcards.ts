@@ -2,7 +2,10 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { createClient } from '@/lib/supabase/client'
-import type { Flashcard } from '@/lib/supabase/types'
+import { recordReview } from '@/lib/flashcards/reviews'
+import { buildClozeFromHighlight, clozeAnswers } from '@/lib/flashcards/cloze'
+import type { ImportResult } from '@/lib/flashcards/exchange'
+import type { Annotation, Flashcard, ReviewGrade, Section } from '@/lib/supabase/types'
 
 interface CreateFlashcardData {
   documentId: string
@@ -17,15 +20,18 @@ interface UseFlashcardsReturn {
   isLoading: boolean
   error: string | null
   createFlashcard: (data: CreateFlashcardData) => Promise<Flashcard | null>
+  createFlashcards: (cards: Omit<CreateFlashcardData, 'documentId' | 'sourceText'>[]) => Promise<number>
+  createClozeCards: (highlights: Annotation[], sections: Section[]) => Promise<number>
+  importCards: (file: File) => Promise<ImportResult>
   deleteFlashcard: (id: string) => Promise<boolean>
-  updateReview: (id: string, correct: boolean) => Promise<boolean>
+  updateReview: (id: string, grade: ReviewGrade) => Promise<boolean>
   getFlashcardsForReview: () => Flashcard[]
   refetch: () => Promise<void>
 }
 
 /**
  * Hook for CRUD operations on flashcards via Supabase
- * Includes spaced repetition logic for review scheduling
+ * Reviews are scheduled by the spaced repetition scheduler in lib/flashcards
  */
 export function useFlashcards(documentId: string): UseFlashcardsReturn {
   const [flashcards, setFlashcards] = useState<Flashcard[]>([])
@@ -88,9 +94,9 @@ export function useFlashcards(documentId: string): UseFlashcardsReturn {
           section_id: data.sectionId || null,
           question: data.question,
           answer: data.answer,
-          difficulty: 3, // Initial difficulty (1-5)
           next_review: new Date().toISOString(), // Review immediately available
           review_count: 0,
+          state: 'new' as const,
         }
 
         const { data: inserted, error: insertError } = await supabase
@@ -116,6 +122,149 @@ export function useFlashcards(documentId: string): UseFlashcardsReturn {
     [supabase]
   )
 
+  /**
+   * Create several cards for this document at once, e.g. reviewed AI proposals.
+   * Returns the number of cards created.
+   */
+  const createFlashcards = useCallback(
+    async (cards: Omit<CreateFlashcardData, 'documentId' | 'sourceText'>[]): Promise<number> => {
+      if (cards.length === 0) return 0
+
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser()
+
+        if (!user) {
+          throw new Error('User not authenticated')
+        }
+
+        const now = new Date().toISOString()
+        const { data: inserted, error: insertError } = await supabase
+          .from('flashcards')
+          .insert(
+            cards.map((card) => ({
+              user_id: user.id,
+              document_id: documentId,
+              section_id: card.sectionId || null,
+              question: card.question,
+              answer: card.answer,
+              next_review: now,
+              review_count: 0,
+              state: 'new' as const,
+            }))
+          )
+          .select()
+
+        if (insertError) {
+          throw new Error(insertError.message)
+        }
+
+        // Optimistic update
+        setFlashcards((prev) => [...(inserted || []), ...prev])
+
+        return inserted?.length || 0
+      } catch (err) {
+        console.error('Failed to create flashcards:', err)
+        setError(err instanceof Error ? err.message : 'Failed to create flashcards')
+        return 0
+      }
+    },
+    [documentId, supabase]
+  )
+
+  /**
+   * Create cloze cards from highlights, one per highlight that has none yet.
+   * Returns the number of cards created.
+   */
+  const createClozeCards = useCallback(
+    async (highlights: Annotation[], sections: Section[]): Promise<number> => {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser()
+
+        if (!user) {
+          throw new Error('User not authenticated')
+        }
+
+        const converted = new Set(flashcards.map((f) => f.annotation_id).filter(Boolean))
+        const sectionMap = new Map(sections.map((s) => [s.id, s]))
+
+        const newFlashcards = highlights
+          .filter((h) => h.text_selection?.trim() && !converted.has(h.id))
+          .flatMap((h) => {
+            const question = buildClozeFromHighlight(
+              sectionMap.get(h.section_id)?.content || '',
+              h.text_selection!,
+              h.position_start
+            )
+            // Highlights containing gap syntax would make broken cards
+            if (!question) return []
+
+            return [{
+              user_id: user.id,
+              document_id: documentId,
+              section_id: h.section_id,
+              annotation_id: h.id,
+              card_type: 'cloze' as const,
+              question,
+              answer: clozeAnswers(question),
+              next_review: new Date().toISOString(),
+              review_count: 0,
+              state: 'new' as const,
+            }]
+          })
+
+        if (newFlashcards.length === 0) return 0
+
+        const { data: inserted, error: insertError } = await supabase
+          .from('flashcards')
+          .insert(newFlashcards)
+          .select()
+
+        if (insertError) {
+          throw new Error(insertError.message)
+        }
+
+        // Optimistic update
+        setFlashcards((prev) => [...(inserted || []), ...prev])
+
+        return inserted?.length || 0
+      } catch (err) {
+        console.error('Failed to create cloze cards:', err)
+        setError(err instanceof Error ? err.message : 'Failed to create cloze cards')
+        return 0
+      }
+    },
+    [documentId, flashcards, supabase]
+  )
+
+  /**
+   * Import a CSV file or Anki package into the document.
+   * Throws with the server's message, so the caller can show it.
+   */
+  const importCards = useCallback(
+    async (file: File): Promise<ImportResult> => {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch(`/api/documents/${documentId}/flashcards`, {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Import fehlgeschlagen')
+      }
+
+      if (data.imported > 0) await fetchFlashcards()
+      return data as ImportResult
+    },
+    [documentId, fetchFlashcards]
+  )
+
   /**
    * Delete a flashcard
    */
@@ -145,52 +294,27 @@ export function useFlashcards(documentId: string): UseFlashcardsReturn {
   )
 
   /**
-   * Update review status using simple spaced repetition
-   * Correct: increase interval, decrease difficulty
-   * Incorrect: reset interval, increase difficulty
+   * Grade a review, reschedule the card and log the review
    */
   const updateReview = useCallback(
-    async (id: string, correct: boolean): Promise<boolean> => {
+    async (id: string, grade: ReviewGrade): Promise<boolean> => {
       try {
         const flashcard = flashcards.find((f) => f.id === id)
         if (!flashcard) return false
 
-        // Simple spaced repetition algorithm
-        let newDifficulty = flashcard.difficulty
-        let nextReviewDays = 1
-
-        if (correct) {
-          // Decrease difficulty (easier), increase interval
-          newDifficulty = Math.max(1, flashcard.difficulty - 1)
-          const baseInterval = Math.pow(2, flashcard.review_count + 1)
-          nextReviewDays = Math.min(30, baseInterval) // Cap at 30 days
-        } else {
-          // Increase difficulty (harder), short interval
-          newDifficulty = Math.min(5, flashcard.difficulty + 1)
-          nextReviewDays = 1
-        }
-
-        const nextReview = new Date()
-        nextReview.setDate(nextReview.getDate() + nextReviewDays)
+        const {
+          data: { user },
+        } = await supabase.auth.getUser()
 
-        const updateData = {
-          difficulty: newDifficulty,
-          next_review: nextReview.toISOString(),
-          review_count: flashcard.review_count + 1,
+        if (!user) {
+          throw new Error('User not authenticated')
         }
 
-        const { error: updateError } = await supabase
-          .from('flashcards')
-          .update(updateData)
-          .eq('id', id)
-
-        if (updateError) {
-          throw new Error(updateError.message)
-        }
+        const schedule = await recordReview(supabase, user.id, flashcard, grade)
 
         // Optimistic update
         setFlashcards((prev) =>
-          prev.map((f) => (f.id === id ? { ...f, ...updateData } : f))
+          prev.map((f) => (f.id === id ? { ...f, ...schedule } : f))
         )
 
         return true
@@ -224,6 +348,9 @@ export function useFlashcards(documentId: string): UseFlashcardsReturn {
     isLoading,
     error,
     createFlashcard,
+    createFlashcards,
+    createClozeCards,
+    importCards,
     deleteFlashcard,
     updateReview,
     getFlashcardsForReview,
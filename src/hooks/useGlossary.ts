@@ -0,0 +1,318 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { compareTerms, glossaryFlashcard } from '@/lib/glossary/glossary'
+import { normalizeQuestion } from '@/lib/flashcards/exchange'
+import type { Document, GlossaryTerm, ModuleRole } from '@/lib/supabase/types'
+
+/** Glossary of one document or of all documents in a module */
+export type GlossaryScope = { documentId: string } | { moduleId: string }
+
+export interface GlossaryTermWithSource extends GlossaryTerm {
+  section_title: string | null
+}
+
+export interface GlossaryTermData {
+  term: string
+  definition: string
+  aliases: string[]
+  sectionId?: string | null
+}
+
+interface UseGlossaryReturn {
+  /** Terms sorted alphabetically */
+  terms: GlossaryTermWithSource[]
+  documents: Pick<Document, 'id' | 'title'>[]
+  /** Owner or editor of the documents: may edit the glossary in author mode */
+  role: ModuleRole | null
+  isLoading: boolean
+  error: string | null
+  createTerm: (documentId: string, data: GlossaryTermData) => Promise<boolean>
+  updateTerm: (id: string, data: GlossaryTermData) => Promise<boolean>
+  deleteTerm: (id: string) => Promise<boolean>
+  /** Take the terms again from the definition sections of the documents */
+  rebuild: () => Promise<boolean>
+  /** Add the terms as flashcards; returns the number of new cards */
+  exportFlashcards: (terms: GlossaryTerm[]) => Promise<number>
+  refetch: () => Promise<void>
+}
+
+function cleanAliases(aliases: string[]): string[] {
+  return [...new Set(aliases.map((a) => a.trim()).filter(Boolean))]
+}
+
+/**
+ * Hook for the glossary of a document or module via Supabase
+ */
+export function useGlossary(scope: GlossaryScope): UseGlossaryReturn {
+  const [terms, setTerms] = useState<GlossaryTermWithSource[]>([])
+  const [documents, setDocuments] = useState<Pick<Document, 'id' | 'title'>[]>([])
+  const [role, setRole] = useState<ModuleRole | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+  const documentId = 'documentId' in scope ? scope.documentId : null
+  const moduleId = 'moduleId' in scope ? scope.moduleId : null
+
+  const fetchGlossary = useCallback(async () => {
+    try {
+      setError(null)
+
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('User not authenticated')
+
+      // Documents in scope and the modules that grant edit rights
+      let moduleIds: string[] = []
+      let documentIds: string[] = []
+      if (moduleId) {
+        moduleIds = [moduleId]
+        const { data, error: mdError } = await supabase
+          .from('module_documents')
+          .select('document_id')
+          .eq('module_id', moduleId)
+        if (mdError) throw new Error(mdError.message)
+        documentIds = (data || []).map((md) => md.document_id)
+      } else if (documentId) {
+        documentIds = [documentId]
+        const { data } = await supabase
+          .from('module_documents')
+          .select('module_id')
+          .eq('document_id', documentId)
+        moduleIds = (data || []).map((md) => md.module_id)
+      }
+
+      const [
+        { data: docs, error: docsError },
+        { data: termRows, error: termsError },
+        { data: modules },
+        { data: memberships },
+      ] = await Promise.all([
+        supabase.from('documents').select('id, title, user_id').in('id', documentIds),
+        supabase.from('glossary_terms').select('*, sections(title)').in('document_id', documentIds),
+        supabase.from('modules').select('id, owner_id').in('id', moduleIds),
+        supabase.from('module_members').select('role').in('module_id', moduleIds).eq('user_id', user.id),
+      ])
+
+      if (docsError) throw new Error(docsError.message)
+      if (termsError) throw new Error(termsError.message)
+
+      const isOwner = (docs || []).some((d) => d.user_id === user.id)
+        || (modules || []).some((m) => m.owner_id === user.id)
+      const isEditor = (memberships || []).some((m) => m.role === 'owner' || m.role === 'editor')
+      setRole(isOwner ? 'owner' : isEditor ? 'editor' : 'viewer')
+
+      setDocuments((docs || []).map(({ id, title }) => ({ id, title })))
+      setTerms(
+        (termRows || [])
+          .map(({ sections, ...term }) => ({
+            ...term,
+            section_title: (sections as { title: string } | null)?.title ?? null,
+          }) as GlossaryTermWithSource)
+          .sort(compareTerms)
+      )
+    } catch (err) {
+      console.error('Failed to fetch glossary:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch glossary')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [documentId, moduleId, supabase])
+
+  // Fetch the glossary on mount and when the scope changes
+  useEffect(() => {
+    fetchGlossary()
+  }, [fetchGlossary])
+
+  const createTerm = useCallback(async (forDocumentId: string, data: GlossaryTermData): Promise<boolean> => {
+    try {
+      setError(null)
+      const { error: insertError } = await supabase
+        .from('glossary_terms')
+        .insert({
+          document_id: forDocumentId,
+          section_id: data.sectionId ?? null,
+          term: data.term.trim(),
+          definition: data.definition.trim(),
+          aliases: cleanAliases(data.aliases),
+          is_manual: true,
+        })
+
+      if (insertError) throw new Error(insertError.message)
+      await fetchGlossary()
+      return true
+    } catch (err) {
+      console.error('Failed to create glossary term:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create term')
+      return false
+    }
+  }, [supabase, fetchGlossary])
+
+  const updateTerm = useCallback(async (id: string, data: GlossaryTermData): Promise<boolean> => {
+    try {
+      setError(null)
+      const changes = {
+        term: data.term.trim(),
+        definition: data.definition.trim(),
+        aliases: cleanAliases(data.aliases),
+        // Edited terms are no longer replaced from the definitions
+        is_manual: true,
+        updated_at: new Date().toISOString(),
+      }
+      const { error: updateError } = await supabase
+        .from('glossary_terms')
+        .update(changes)
+        .eq('id', id)
+
+      if (updateError) throw new Error(updateError.message)
+
+      setTerms((prev) => prev.map((t) => (t.id === id ? { ...t, ...changes } : t)).sort(compareTerms))
+      return true
+    } catch (err) {
+      console.error('Failed to update glossary term:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update term')
+      return false
+    }
+  }, [supabase])
+
+  const deleteTerm = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      setError(null)
+      const { error: deleteError } = await supabase
+        .from('glossary_terms')
+        .delete()
+        .eq('id', id)
+
+      if (deleteError) throw new Error(deleteError.message)
+
+      setTerms((prev) => prev.filter((t) => t.id !== id))
+      return true
+    } catch (err) {
+      console.error('Failed to delete glossary term:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete term')
+      return false
+    }
+  }, [supabase])
+
+  const rebuild = useCallback(async (): Promise<boolean> => {
+    try {
+      setError(null)
+      for (const doc of documents) {
+        const response = await fetch(`/api/documents/${doc.id}/glossary`, { method: 'POST' })
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error || 'Failed to rebuild glossary')
+        }
+      }
+      await fetchGlossary()
+      return true
+    } catch (err) {
+      console.error('Failed to rebuild glossary:', err)
+      setError(err instanceof Error ? err.message : 'Failed to rebuild glossary')
+      return false
+    }
+  }, [documents, fetchGlossary])
+
+  const exportFlashcards = useCallback(async (selected: GlossaryTerm[]): Promise<number> => {
+    if (selected.length === 0) return 0
+
+    try {
+      setError(null)
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('User not authenticated')
+
+      // Skip terms that already have a card with the same question
+      const { data: existing, error: fetchError } = await supabase
+        .from('flashcards')
+        .select('question')
+        .eq('user_id', user.id)
+        .in('document_id', [...new Set(selected.map((t) => t.document_id))])
+
+      if (fetchError) throw new Error(fetchError.message)
+
+      const known = new Set((existing || []).map((f) => normalizeQuestion(f.question)))
+      const now = new Date().toISOString()
+      const cards = selected
+        .map((term) => ({ term, card: glossaryFlashcard(term) }))
+        .filter(({ card }) => !known.has(normalizeQuestion(card.question)))
+        .map(({ term, card }) => ({
+          user_id: user.id,
+          document_id: term.document_id,
+          section_id: term.section_id,
+          question: card.question,
+          answer: card.answer,
+          next_review: now,
+          review_count: 0,
+          state: 'new' as const,
+        }))
+
+      if (cards.length === 0) return 0
+
+      const { error: insertError } = await supabase.from('flashcards').insert(cards)
+      if (insertError) throw new Error(insertError.message)
+      return cards.length
+    } catch (err) {
+      console.error('Failed to export glossary flashcards:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create flashcards')
+      return 0
+    }
+  }, [supabase])
+
+  return {
+    terms,
+    documents,
+    role,
+    isLoading,
+    error,
+    createTerm,
+    updateTerm,
+    deleteTerm,
+    rebuild,
+    exportFlashcards,
+    refetch: fetchGlossary,
+  }
+}
+
+/**
+ * Terms to mark in the reader: those of the document and of the other
+ * documents in its modules
+ */
+export function useGlossaryTerms(documentId: string): GlossaryTerm[] {
+  const [terms, setTerms] = useState<GlossaryTerm[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    const supabase = createClient()
+    supabase
+      .from('module_documents')
+      .select('module_id')
+      .eq('document_id', documentId)
+      .then(async ({ data: memberships }) => {
+        const moduleIds = (memberships || []).map((md) => md.module_id as string)
+        const { data: moduleDocuments } = moduleIds.length > 0
+          ? await supabase.from('module_documents').select('document_id').in('module_id', moduleIds)
+          : { data: [] }
+        const documentIds = [...new Set([documentId, ...(moduleDocuments || []).map((md) => md.document_id as string)])]
+
+        const { data, error } = await supabase
+          .from('glossary_terms')
+          .select('*')
+          .in('document_id', documentIds)
+        if (error) throw error
+        return (data || []) as GlossaryTerm[]
+      })
+      .then(
+        (data) => {
+          if (!cancelled) setTerms(data)
+        },
+        (err) => console.error('Failed to fetch glossary terms:', err)
+      )
+
+    return () => {
+      cancelled = true
+    }
+  }, [documentId])
+
+  return terms
+}
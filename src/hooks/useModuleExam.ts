@@ -0,0 +1,200 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { ExamConfig, ExamView } from '@/lib/exam/exam-builder'
+import type { ExamAnswers } from '@/lib/exam/exam-grading'
+import type { ModuleExam } from '@/lib/supabase/types'
+
+// Submitted exams are graded in the background; their results are polled this often
+const GRADING_POLL_INTERVAL_MS = 3000
+
+export type ExamSummary = Pick<ModuleExam, 'id' | 'started_at' | 'submitted_at' | 'duration_minutes' | 'score' | 'max_score'>
+
+interface UseModuleExamReturn {
+  /** Recent exams in the module, latest first */
+  history: ExamSummary[]
+  /** The exam being taken or reviewed */
+  exam: ExamView | null
+  /** Submitted, results not there yet */
+  isGrading: boolean
+  isLoading: boolean
+  isStarting: boolean
+  isSubmitting: boolean
+  error: string | null
+  startExam: (config: ExamConfig) => Promise<boolean>
+  openExam: (examId: string) => Promise<boolean>
+  submitExam: (answers: ExamAnswers) => Promise<boolean>
+  closeExam: () => void
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook for mock exams across a module
+ */
+export function useModuleExam(moduleId: string): UseModuleExamReturn {
+  const [history, setHistory] = useState<ExamSummary[]>([])
+  const [exam, setExam] = useState<ExamView | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isStarting, setIsStarting] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/modules/${moduleId}/exam`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Fehler beim Laden der Probeklausuren')
+      }
+
+      setHistory(data.exams || [])
+    } catch (err) {
+      console.error('Failed to fetch exams:', err)
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [moduleId])
+
+  const startExam = useCallback(
+    async (config: ExamConfig): Promise<boolean> => {
+      setIsStarting(true)
+      setError(null)
+
+      try {
+        const response = await fetch(`/api/modules/${moduleId}/exam`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(config),
+        })
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Fehler beim Starten')
+        }
+
+        setExam(result.exam)
+        return true
+      } catch (err) {
+        console.error('Failed to start exam:', err)
+        setError(err instanceof Error ? err.message : 'Fehler beim Starten')
+        return false
+      } finally {
+        setIsStarting(false)
+      }
+    },
+    [moduleId]
+  )
+
+  const openExam = useCallback(
+    async (examId: string): Promise<boolean> => {
+      setError(null)
+
+      try {
+        const response = await fetch(`/api/modules/${moduleId}/exam/${examId}`)
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Fehler beim Laden')
+        }
+
+        setExam(result.exam)
+        return true
+      } catch (err) {
+        console.error('Failed to open exam:', err)
+        setError(err instanceof Error ? err.message : 'Fehler beim Laden')
+        return false
+      }
+    },
+    [moduleId]
+  )
+
+  const submitExam = useCallback(
+    async (answers: ExamAnswers): Promise<boolean> => {
+      if (!exam) return false
+
+      setIsSubmitting(true)
+      setError(null)
+
+      try {
+        const response = await fetch(`/api/modules/${moduleId}/exam/${exam.id}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ answers }),
+        })
+        const result = await response.json()
+
+        // Already handed in (e.g. in another tab): show that result
+        if (!response.ok && !result.exam) {
+          throw new Error(result.error || 'Fehler beim Abgeben')
+        }
+
+        setExam(result.exam)
+        return true
+      } catch (err) {
+        console.error('Failed to submit exam:', err)
+        setError(err instanceof Error ? err.message : 'Fehler beim Abgeben')
+        return false
+      } finally {
+        setIsSubmitting(false)
+      }
+    },
+    [moduleId, exam]
+  )
+
+  const closeExam = useCallback(() => {
+    setExam(null)
+    fetchHistory()
+  }, [fetchHistory])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  // Wait for the results of a submitted exam, asking again after every response
+  const [pollRound, setPollRound] = useState(0)
+  const isGrading = Boolean(exam?.submitted_at && !exam.results)
+  const examId = exam?.id
+  useEffect(() => {
+    if (!isGrading || !examId) return
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/modules/${moduleId}/exam/${examId}`)
+        const result = await response.json()
+        if (!cancelled && response.ok && result.exam) {
+          setExam(result.exam)
+        }
+      } catch (err) {
+        console.error('Failed to fetch exam results:', err)
+      } finally {
+        if (!cancelled) setPollRound((round) => round + 1)
+      }
+    }, GRADING_POLL_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [moduleId, examId, isGrading, pollRound])
+
+  return {
+    history,
+    exam,
+    isGrading,
+    isLoading,
+    isStarting,
+    isSubmitting,
+    error,
+    startExam,
+    openExam,
+    submitExam,
+    closeExam,
+    refetch: fetchHistory,
+  }
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
 import type {
   Module,
   ModuleRole,
@@ -471,3 +472,39 @@ export function useModule(moduleId: string | null): UseModuleReturn {
     refetch: fetchModule,
   }
 }
+
+/**
+ * Modules a document belongs to (that the user can see)
+ */
+export function useDocumentModules(documentId: string | null): Pick<Module, 'id' | 'title'>[] {
+  const [modules, setModules] = useState<Pick<Module, 'id' | 'title'>[]>([])
+
+  useEffect(() => {
+    // Keep the last result while the caller does not need it
+    if (!documentId) return
+
+    let cancelled = false
+    createClient()
+      .from('module_documents')
+      .select('modules(id, title)')
+      .eq('document_id', documentId)
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.error('Failed to fetch document modules:', error)
+          return
+        }
+        setModules(
+          (data || [])
+            .map((md) => md.modules as unknown as Pick<Module, 'id' | 'title'> | null)
+            .filter((m): m is Pick<Module, 'id' | 'title'> => m !== null)
+        )
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [documentId])
+
+  return modules
+}
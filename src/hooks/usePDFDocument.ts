@@ -0,0 +1,57 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { loadPDFDocument, type PDFDocumentProxy } from '@/lib/pdf/pdfjs-browser'
+
+interface UsePDFDocumentReturn {
+  pdf: PDFDocumentProxy | null
+  isLoading: boolean
+  error: string | null
+}
+
+/**
+ * Original PDF of a document, loaded the first time it is needed and kept
+ * while the reader is open
+ */
+export function usePDFDocument(documentId: string, enabled: boolean): UsePDFDocumentReturn {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const shouldLoad = enabled && !pdf && !error
+
+  useEffect(() => {
+    if (!shouldLoad) return
+
+    let cancelled = false
+    fetch(`/api/documents/${documentId}/pdf`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load PDF')
+        return loadPDFDocument(data.url)
+      })
+      .then(
+        (document) => {
+          if (cancelled) {
+            document.destroy()
+          } else {
+            setPdf(document)
+          }
+        },
+        (err) => {
+          console.error('Failed to load original PDF:', err)
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load PDF')
+        }
+      )
+
+    return () => {
+      cancelled = true
+    }
+  }, [documentId, shouldLoad])
+
+  // Free the worker resources with the document
+  useEffect(() => () => {
+    pdf?.destroy()
+  }, [pdf])
+
+  return { pdf, isLoading: shouldLoad, error }
+}
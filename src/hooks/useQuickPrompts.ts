@@ -0,0 +1,138 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { ModuleQuickPrompt } from '@/lib/supabase/types'
+
+interface UseModuleQuickPromptsReturn {
+  prompts: ModuleQuickPrompt[]
+  isLoading: boolean
+  error: string | null
+  addPrompt: (label: string, prompt: string) => Promise<ModuleQuickPrompt | null>
+  deletePrompt: (id: string) => Promise<boolean>
+}
+
+/**
+ * Hook for the quick prompts a module owner adds to the AI assistant
+ */
+export function useModuleQuickPrompts(moduleId: string): UseModuleQuickPromptsReturn {
+  const [prompts, setPrompts] = useState<ModuleQuickPrompt[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+
+  useEffect(() => {
+    let cancelled = false
+    supabase
+      .from('module_quick_prompts')
+      .select('*')
+      .eq('module_id', moduleId)
+      .order('sequence_order', { ascending: true })
+      .then(({ data, error: fetchError }) => {
+        if (cancelled) return
+        if (fetchError) {
+          console.error('Failed to fetch quick prompts:', fetchError)
+          setError(fetchError.message)
+        } else {
+          setPrompts((data || []) as ModuleQuickPrompt[])
+        }
+        setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [moduleId, supabase])
+
+  const addPrompt = useCallback(async (label: string, prompt: string): Promise<ModuleQuickPrompt | null> => {
+    try {
+      setError(null)
+      const nextOrder = prompts.reduce((max, p) => Math.max(max, p.sequence_order + 1), 0)
+
+      const { data, error: insertError } = await supabase
+        .from('module_quick_prompts')
+        .insert({
+          module_id: moduleId,
+          label: label.trim(),
+          prompt: prompt.trim(),
+          sequence_order: nextOrder,
+        })
+        .select()
+        .single()
+
+      if (insertError) throw new Error(insertError.message)
+
+      setPrompts((prev) => [...prev, data as ModuleQuickPrompt])
+      return data as ModuleQuickPrompt
+    } catch (err) {
+      console.error('Failed to add quick prompt:', err)
+      setError(err instanceof Error ? err.message : 'Failed to add quick prompt')
+      return null
+    }
+  }, [moduleId, prompts, supabase])
+
+  const deletePrompt = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      setError(null)
+      const { error: deleteError } = await supabase
+        .from('module_quick_prompts')
+        .delete()
+        .eq('id', id)
+
+      if (deleteError) throw new Error(deleteError.message)
+
+      setPrompts((prev) => prev.filter((p) => p.id !== id))
+      return true
+    } catch (err) {
+      console.error('Failed to delete quick prompt:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete quick prompt')
+      return false
+    }
+  }, [supabase])
+
+  return { prompts, isLoading, error, addPrompt, deletePrompt }
+}
+
+/**
+ * Quick prompts of all modules a document belongs to
+ */
+export function useDocumentQuickPrompts(documentId: string | null): ModuleQuickPrompt[] {
+  const [prompts, setPrompts] = useState<ModuleQuickPrompt[]>([])
+
+  useEffect(() => {
+    if (!documentId) return
+
+    let cancelled = false
+    const supabase = createClient()
+    supabase
+      .from('module_documents')
+      .select('module_id')
+      .eq('document_id', documentId)
+      .then(async ({ data: moduleDocuments, error: modulesError }) => {
+        if (modulesError) throw modulesError
+        const moduleIds = (moduleDocuments || []).map((md) => md.module_id as string)
+        if (moduleIds.length === 0) return []
+
+        const { data, error } = await supabase
+          .from('module_quick_prompts')
+          .select('*')
+          .in('module_id', moduleIds)
+          .order('sequence_order', { ascending: true })
+        if (error) throw error
+        return (data || []) as ModuleQuickPrompt[]
+      })
+      .then(
+        (data) => {
+          if (!cancelled) setPrompts(data)
+        },
+        (err) => console.error('Failed to fetch quick prompts:', err)
+      )
+
+    return () => {
+      cancelled = true
+    }
+  }, [documentId])
+
+  return prompts
+}
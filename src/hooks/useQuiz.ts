@@ -0,0 +1,130 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { Quiz, QuizAttempt } from '@/lib/supabase/types'
+
+interface UseQuizReturn {
+  /** Latest quiz of the learning unit */
+  quiz: Quiz | null
+  /** Attempts visible to the user, oldest first (module owners see all students) */
+  attempts: QuizAttempt[]
+  userId: string | null
+  isLoading: boolean
+  isGenerating: boolean
+  error: string | null
+  generateQuiz: () => Promise<Quiz | null>
+  submitAttempt: (quizId: string, answers: (number | null)[]) => Promise<QuizAttempt | null>
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook for the quiz of a learning unit and its scoring history
+ */
+export function useQuiz(learningUnitId: string | null): UseQuizReturn {
+  const [quiz, setQuiz] = useState<Quiz | null>(null)
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([])
+  const [userId, setUserId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchQuiz = useCallback(async () => {
+    if (!learningUnitId) {
+      setQuiz(null)
+      setAttempts([])
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/learning-units/${learningUnitId}/quiz`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Fehler beim Laden des Quiz')
+      }
+
+      setQuiz(data.quiz)
+      setAttempts(data.attempts || [])
+      setUserId(data.user_id)
+    } catch (err) {
+      console.error('Failed to fetch quiz:', err)
+      setError(err instanceof Error ? err.message : 'Fehler beim Laden')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [learningUnitId])
+
+  const generateQuiz = useCallback(async (): Promise<Quiz | null> => {
+    if (!learningUnitId) return null
+
+    setIsGenerating(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/learning-units/${learningUnitId}/quiz`, {
+        method: 'POST',
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Fehler beim Generieren')
+      }
+
+      setQuiz(result.quiz)
+      return result.quiz as Quiz
+    } catch (err) {
+      console.error('Failed to generate quiz:', err)
+      setError(err instanceof Error ? err.message : 'Fehler beim Generieren')
+      return null
+    } finally {
+      setIsGenerating(false)
+    }
+  }, [learningUnitId])
+
+  const submitAttempt = useCallback(
+    async (quizId: string, answers: (number | null)[]): Promise<QuizAttempt | null> => {
+      if (!learningUnitId) return null
+
+      try {
+        const response = await fetch(`/api/learning-units/${learningUnitId}/quiz/attempts`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ quiz_id: quizId, answers }),
+        })
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Fehler beim Speichern')
+        }
+
+        const attempt = result.attempt as QuizAttempt
+        setAttempts((prev) => [...prev, attempt])
+        return attempt
+      } catch (err) {
+        console.error('Failed to save quiz attempt:', err)
+        setError(err instanceof Error ? err.message : 'Fehler beim Speichern')
+        return null
+      }
+    },
+    [learningUnitId]
+  )
+
+  useEffect(() => {
+    fetchQuiz()
+  }, [fetchQuiz])
+
+  return {
+    quiz,
+    attempts,
+    userId,
+    isLoading,
+    isGenerating,
+    error,
+    generateQuiz,
+    submitAttempt,
+    refetch: fetchQuiz,
+  }
+}
@@ -2,6 +2,13 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import {
+  flushSyncQueue,
+  isNewer,
+  queuePositionChange,
+  queueProgressChange,
+  type SyncedPosition,
+} from '@/lib/progress/reading-sync'
 
 interface SectionProgress {
   sectionId: string
@@ -20,9 +27,19 @@ export interface ReadingPosition {
   chapterNumber?: string
 }
 
+/** Where document playback (read-aloud) stopped, for resuming it */
+export interface PlaybackPosition {
+  sectionId: string
+  sectionTitle: string
+  paragraph: number
+  timestamp: string
+}
+
 interface UseReadingProgressOptions {
   documentId: string
   sectionIds: string[]
+  /** Section on screen; its reading time is tracked while the page is visible */
+  activeSectionId?: string | null
 }
 
 interface UseReadingProgressReturn {
@@ -46,30 +63,84 @@ interface UseReadingProgressReturn {
   savePosition: (position: Omit<ReadingPosition, 'timestamp'>) => void
   /** Clear saved position */
   clearPosition: () => void
+  /** Last document playback position */
+  lastPlaybackPosition: PlaybackPosition | null
+  /** Save current document playback position */
+  savePlaybackPosition: (position: Omit<PlaybackPosition, 'timestamp'>) => void
+  /** Clear saved playback position */
+  clearPlaybackPosition: () => void
 }
 
 const STORAGE_KEY_PREFIX = 'reading-progress-'
 const POSITION_KEY_PREFIX = 'reading-position-'
+const PLAYBACK_KEY_PREFIX = 'playback-position-'
+
+// Progress stored before syncing existed has no timestamp: any synced change wins over it
+const LEGACY_TIMESTAMP = new Date(1000).toISOString()
+
+// Reading time is committed at least this often while a section stays open
+const TIME_COMMIT_INTERVAL = 60_000
+
+/**
+ * Read a stored position; a cleared one is kept as tombstone so an older
+ * position from another device does not bring it back
+ */
+function readStoredPosition<T extends SyncedPosition>(key: string): T | SyncedPosition | null {
+  const stored = localStorage.getItem(key)
+  return stored ? (JSON.parse(stored) as T | SyncedPosition) : null
+}
+
+function tombstone(): SyncedPosition {
+  return { timestamp: new Date().toISOString(), cleared: true }
+}
 
 /**
  * Hook for tracking reading progress across sections
- * Persists to localStorage with optional Supabase sync
+ * Persists to localStorage and syncs with Supabase (last write wins),
+ * queueing changes while offline
  */
 export function useReadingProgress({
   documentId,
   sectionIds,
+  activeSectionId = null,
 }: UseReadingProgressOptions): UseReadingProgressReturn {
   const [progress, setProgress] = useState<Record<string, number>>({})
   const [completed, setCompleted] = useState<Record<string, boolean>>({})
+  const [updatedAt, setUpdatedAt] = useState<Record<string, string>>({})
   const [lastPosition, setLastPosition] = useState<ReadingPosition | null>(null)
+  const [lastPlaybackPosition, setLastPlaybackPosition] = useState<PlaybackPosition | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
   // Debounce timer ref for position saving
   const savePositionTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const flushTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+
+  // Latest state for merging and queueing outside of render
+  const stateRef = useRef({ progress, completed, updatedAt })
+  useEffect(() => {
+    stateRef.current = { progress, completed, updatedAt }
+  }, [progress, completed, updatedAt])
+
+  // Timestamps of the stored positions, including cleared ones
+  const positionTimestampRef = useRef<string | null>(null)
+  const playbackTimestampRef = useRef<string | null>(null)
 
   const supabase = createClient()
   const storageKey = `${STORAGE_KEY_PREFIX}${documentId}`
   const positionKey = `${POSITION_KEY_PREFIX}${documentId}`
+  const playbackKey = `${PLAYBACK_KEY_PREFIX}${documentId}`
+
+  /**
+   * Send queued changes soon (debounced, so scrolling does not cause a request each time)
+   */
+  const scheduleFlush = useCallback(() => {
+    if (flushTimeoutRef.current) {
+      clearTimeout(flushTimeoutRef.current)
+    }
+    flushTimeoutRef.current = setTimeout(() => {
+      flushSyncQueue(supabase)
+    }, 2000)
+  }, [supabase])
 
   // Load progress and position from localStorage on mount
   useEffect(() => {
@@ -82,23 +153,50 @@ export function useReadingProgress({
         const data = JSON.parse(stored) as {
           progress: Record<string, number>
           completed: Record<string, boolean>
+          updatedAt?: Record<string, string>
         }
+        const storedUpdatedAt = data.updatedAt || {}
+
+        // Hand progress from before syncing to the server once
+        const legacyIds = new Set([
+          ...Object.keys(data.progress || {}),
+          ...Object.keys(data.completed || {}),
+        ].filter((id) => !storedUpdatedAt[id]))
+        for (const sectionId of legacyIds) {
+          storedUpdatedAt[sectionId] = LEGACY_TIMESTAMP
+          queueProgressChange({
+            document_id: documentId,
+            section_id: sectionId,
+            progress_percent: Math.round(data.progress?.[sectionId] || 0),
+            completed: !!data.completed?.[sectionId],
+            updated_at: LEGACY_TIMESTAMP,
+          })
+        }
+
         setProgress(data.progress || {})
         setCompleted(data.completed || {})
+        setUpdatedAt(storedUpdatedAt)
       }
 
       // Load last position
-      const storedPosition = localStorage.getItem(positionKey)
-      if (storedPosition) {
-        const position = JSON.parse(storedPosition) as ReadingPosition
-        setLastPosition(position)
+      const position = readStoredPosition<ReadingPosition>(positionKey)
+      positionTimestampRef.current = position?.timestamp ?? null
+      if (position && !('cleared' in position && position.cleared)) {
+        setLastPosition(position as ReadingPosition)
+      }
+
+      // Load last playback position
+      const playback = readStoredPosition<PlaybackPosition>(playbackKey)
+      playbackTimestampRef.current = playback?.timestamp ?? null
+      if (playback && !('cleared' in playback && playback.cleared)) {
+        setLastPlaybackPosition(playback as PlaybackPosition)
       }
     } catch (err) {
       console.warn('Failed to load reading progress:', err)
     }
 
     setIsLoading(false)
-  }, [storageKey, positionKey])
+  }, [documentId, storageKey, positionKey, playbackKey])
 
   // Save progress to localStorage whenever it changes
   useEffect(() => {
@@ -107,26 +205,154 @@ export function useReadingProgress({
     try {
       localStorage.setItem(
         storageKey,
-        JSON.stringify({ progress, completed })
+        JSON.stringify({ progress, completed, updatedAt })
       )
     } catch (err) {
       console.warn('Failed to save reading progress:', err)
     }
-  }, [progress, completed, storageKey, isLoading])
+  }, [progress, completed, updatedAt, storageKey, isLoading])
 
-  // Optional: Sync to Supabase for logged-in users
-  const syncToSupabase = useCallback(async () => {
-    try {
+  // Sync with Supabase once loaded: push queued changes, then take newer ones from other devices
+  useEffect(() => {
+    if (isLoading) return
+    let cancelled = false
+
+    const pull = async () => {
       const { data: { user } } = await supabase.auth.getUser()
-      if (!user) return
+      if (!user || cancelled) return
 
-      // Could implement a reading_progress table in Supabase
-      // For now, we just use localStorage
-    } catch (err) {
-      console.warn('Failed to sync reading progress:', err)
+      await flushSyncQueue(supabase)
+
+      const [{ data: rows, error }, { data: positions }] = await Promise.all([
+        supabase
+          .from('progress')
+          .select('section_id, completed, progress_percent, updated_at')
+          .eq('document_id', documentId),
+        supabase
+          .from('reading_positions')
+          .select('position, playback')
+          .eq('document_id', documentId)
+          .maybeSingle(),
+      ])
+      if (error) throw error
+      if (cancelled) return
+
+      const next = {
+        progress: { ...stateRef.current.progress },
+        completed: { ...stateRef.current.completed },
+        updatedAt: { ...stateRef.current.updatedAt },
+      }
+      let changed = false
+      for (const row of rows || []) {
+        // Rows that only carry reading time have no progress to merge
+        if (new Date(row.updated_at).getTime() === 0) continue
+        if (!isNewer(row.updated_at, next.updatedAt[row.section_id])) continue
+        next.progress[row.section_id] = row.progress_percent
+        next.completed[row.section_id] = row.completed
+        next.updatedAt[row.section_id] = row.updated_at
+        changed = true
+      }
+      if (changed) {
+        setProgress(next.progress)
+        setCompleted(next.completed)
+        setUpdatedAt(next.updatedAt)
+      }
+
+      const remotePosition = positions?.position as (ReadingPosition & SyncedPosition) | null
+      if (remotePosition && isNewer(remotePosition.timestamp, positionTimestampRef.current)) {
+        positionTimestampRef.current = remotePosition.timestamp
+        localStorage.setItem(positionKey, JSON.stringify(remotePosition))
+        setLastPosition(remotePosition.cleared ? null : remotePosition)
+      }
+
+      const remotePlayback = positions?.playback as (PlaybackPosition & SyncedPosition) | null
+      if (remotePlayback && isNewer(remotePlayback.timestamp, playbackTimestampRef.current)) {
+        playbackTimestampRef.current = remotePlayback.timestamp
+        localStorage.setItem(playbackKey, JSON.stringify(remotePlayback))
+        setLastPlaybackPosition(remotePlayback.cleared ? null : remotePlayback)
+      }
+    }
+
+    pull().catch((err) => console.warn('Failed to sync reading progress:', err))
+    return () => {
+      cancelled = true
     }
+  }, [isLoading, documentId, positionKey, playbackKey, supabase])
+
+  // Flush changes made offline once the connection is back
+  useEffect(() => {
+    const handleOnline = () => {
+      flushSyncQueue(supabase)
+    }
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
   }, [supabase])
 
+  // Track time on the active section while the page is visible
+  useEffect(() => {
+    if (!activeSectionId) return
+
+    let visibleSince: number | null = window.document.visibilityState === 'visible' ? Date.now() : null
+
+    const commit = () => {
+      if (visibleSince === null) return
+      const seconds = Math.floor((Date.now() - visibleSince) / 1000)
+      if (seconds <= 0) return
+      visibleSince += seconds * 1000
+      queueProgressChange({
+        document_id: documentId,
+        section_id: activeSectionId,
+        time_spent_delta: seconds,
+      })
+    }
+
+    const handleVisibilityChange = () => {
+      if (window.document.visibilityState === 'visible') {
+        visibleSince = Date.now()
+      } else {
+        commit()
+        visibleSince = null
+        // The tab may not come back: send now instead of debounced
+        flushSyncQueue(supabase)
+      }
+    }
+
+    const interval = setInterval(() => {
+      commit()
+      scheduleFlush()
+    }, TIME_COMMIT_INTERVAL)
+    window.document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      clearInterval(interval)
+      window.document.removeEventListener('visibilitychange', handleVisibilityChange)
+      commit()
+      scheduleFlush()
+    }
+  }, [activeSectionId, documentId, supabase, scheduleFlush])
+
+  /**
+   * Record a progress change locally and queue it for syncing
+   */
+  const recordChange = useCallback(
+    (sectionId: string, newProgress: number, isCompleted: boolean) => {
+      const now = new Date().toISOString()
+
+      setProgress((prev) => ({ ...prev, [sectionId]: newProgress }))
+      setCompleted((prev) => ({ ...prev, [sectionId]: isCompleted }))
+      setUpdatedAt((prev) => ({ ...prev, [sectionId]: now }))
+
+      queueProgressChange({
+        document_id: documentId,
+        section_id: sectionId,
+        progress_percent: Math.round(newProgress),
+        completed: isCompleted,
+        updated_at: now,
+      })
+    },
+    [documentId]
+  )
+
   /**
    * Update progress for a section
    */
@@ -134,20 +360,12 @@ export function useReadingProgress({
     (sectionId: string, newProgress: number) => {
       const clampedProgress = Math.min(100, Math.max(0, newProgress))
 
-      setProgress((prev) => ({
-        ...prev,
-        [sectionId]: clampedProgress,
-      }))
-
       // Auto-mark as completed if 100%
-      if (clampedProgress >= 100) {
-        setCompleted((prev) => ({
-          ...prev,
-          [sectionId]: true,
-        }))
-      }
+      const isCompleted = clampedProgress >= 100 || !!stateRef.current.completed[sectionId]
+      recordChange(sectionId, clampedProgress, isCompleted)
+      scheduleFlush()
     },
-    []
+    [recordChange, scheduleFlush]
   )
 
   /**
@@ -155,21 +373,13 @@ export function useReadingProgress({
    */
   const markCompleted = useCallback(
     async (sectionId: string, isCompleted: boolean = true) => {
-      setCompleted((prev) => ({
-        ...prev,
-        [sectionId]: isCompleted,
-      }))
-
       // Set progress to 100% when marking complete, or 0% when marking incomplete
-      setProgress((prev) => ({
-        ...prev,
-        [sectionId]: isCompleted ? 100 : 0,
-      }))
+      recordChange(sectionId, isCompleted ? 100 : 0, isCompleted)
 
       // Sync to Supabase
-      await syncToSupabase()
+      await flushSyncQueue(supabase)
     },
-    [syncToSupabase]
+    [recordChange, supabase]
   )
 
   /**
@@ -191,13 +401,16 @@ export function useReadingProgress({
 
         try {
           localStorage.setItem(positionKey, JSON.stringify(fullPosition))
+          positionTimestampRef.current = fullPosition.timestamp
           setLastPosition(fullPosition)
+          queuePositionChange(documentId, { position: fullPosition })
+          scheduleFlush()
         } catch (err) {
           console.warn('Failed to save reading position:', err)
         }
       }, 2000)
     },
-    [positionKey]
+    [documentId, positionKey, scheduleFlush]
   )
 
   /**
@@ -205,21 +418,68 @@ export function useReadingProgress({
    */
   const clearPosition = useCallback(() => {
     try {
-      localStorage.removeItem(positionKey)
+      const cleared = tombstone()
+      localStorage.setItem(positionKey, JSON.stringify(cleared))
+      positionTimestampRef.current = cleared.timestamp
       setLastPosition(null)
+      queuePositionChange(documentId, { position: cleared })
+      scheduleFlush()
     } catch (err) {
       console.warn('Failed to clear reading position:', err)
     }
-  }, [positionKey])
+  }, [documentId, positionKey, scheduleFlush])
+
+  /**
+   * Save document playback position (not debounced: it changes once per paragraph)
+   */
+  const savePlaybackPosition = useCallback(
+    (position: Omit<PlaybackPosition, 'timestamp'>) => {
+      const fullPosition: PlaybackPosition = {
+        ...position,
+        timestamp: new Date().toISOString(),
+      }
+
+      try {
+        localStorage.setItem(playbackKey, JSON.stringify(fullPosition))
+        playbackTimestampRef.current = fullPosition.timestamp
+        setLastPlaybackPosition(fullPosition)
+        queuePositionChange(documentId, { playback: fullPosition })
+        scheduleFlush()
+      } catch (err) {
+        console.warn('Failed to save playback position:', err)
+      }
+    },
+    [documentId, playbackKey, scheduleFlush]
+  )
+
+  /**
+   * Clear saved playback position
+   */
+  const clearPlaybackPosition = useCallback(() => {
+    try {
+      const cleared = tombstone()
+      localStorage.setItem(playbackKey, JSON.stringify(cleared))
+      playbackTimestampRef.current = cleared.timestamp
+      setLastPlaybackPosition(null)
+      queuePositionChange(documentId, { playback: cleared })
+      scheduleFlush()
+    } catch (err) {
+      console.warn('Failed to clear playback position:', err)
+    }
+  }, [documentId, playbackKey, scheduleFlush])
 
-  // Cleanup debounce timer on unmount
+  // Cleanup debounce timers on unmount; queued changes are sent right away
   useEffect(() => {
     return () => {
       if (savePositionTimeoutRef.current) {
         clearTimeout(savePositionTimeoutRef.current)
       }
+      if (flushTimeoutRef.current) {
+        clearTimeout(flushTimeoutRef.current)
+        flushSyncQueue(supabase)
+      }
     }
-  }, [])
+  }, [supabase])
 
   // Calculate overall progress
   const overallProgress =
@@ -244,5 +504,8 @@ export function useReadingProgress({
     lastPosition,
     savePosition,
     clearPosition,
+    lastPlaybackPosition,
+    savePlaybackPosition,
+    clearPlaybackPosition,
   }
 }
@@ -0,0 +1,60 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import type { ScriptAnswer } from '@/lib/supabase/types'
+
+/** What a question is asked about: one document or all documents of a module */
+export type ScriptQAScope = { documentId: string } | { moduleId: string }
+
+interface UseScriptQAReturn {
+  /** Answers of this session, oldest first */
+  answers: ScriptAnswer[]
+  isAsking: boolean
+  error: string | null
+  ask: (question: string, scope: ScriptQAScope) => Promise<ScriptAnswer | null>
+  clear: () => void
+}
+
+/**
+ * Hook for questions about a script, answered only from its sections with
+ * citations. Answers are not saved.
+ */
+export function useScriptQA(): UseScriptQAReturn {
+  const [answers, setAnswers] = useState<ScriptAnswer[]>([])
+  const [isAsking, setIsAsking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const ask = useCallback(async (question: string, scope: ScriptQAScope): Promise<ScriptAnswer | null> => {
+    try {
+      setIsAsking(true)
+      setError(null)
+
+      const response = await fetch('/api/ai/ask', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question, ...scope }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to ask question')
+      }
+
+      const answer: ScriptAnswer = data
+      setAnswers((prev) => [...prev, answer])
+      return answer
+    } catch (err) {
+      console.error('Failed to ask question:', err)
+      setError(err instanceof Error ? err.message : 'Failed to ask question')
+      return null
+    } finally {
+      setIsAsking(false)
+    }
+  }, [])
+
+  const clear = useCallback(() => {
+    setAnswers([])
+    setError(null)
+  }, [])
+
+  return { answers, isAsking, error, ask, clear }
+}
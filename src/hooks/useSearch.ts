@@ -0,0 +1,75 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { SEARCH_MIN_QUERY_LENGTH } from '@/lib/search/search-results'
+import type { SearchResult, SectionType } from '@/lib/supabase/types'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+export interface SearchFilters {
+  moduleId: string | null
+  documentId: string | null
+  sectionType: SectionType | null
+}
+
+interface UseSearchReturn {
+  results: SearchResult[]
+  isSearching: boolean
+  error: string | null
+}
+
+/**
+ * Hook for the full-text search across all documents. Searches while typing,
+ * once the query is long enough.
+ */
+export function useSearch(query: string, filters: SearchFilters): UseSearchReturn {
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const trimmed = query.trim()
+  const enabled = trimmed.length >= SEARCH_MIN_QUERY_LENGTH
+  const { moduleId, documentId, sectionType } = filters
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        setIsSearching(true)
+        setError(null)
+
+        const params = new URLSearchParams({ q: trimmed })
+        if (moduleId) params.set('module_id', moduleId)
+        if (documentId) params.set('document_id', documentId)
+        if (sectionType) params.set('section_type', sectionType)
+
+        const response = await fetch(`/api/search?${params}`, { signal: controller.signal })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to search')
+        }
+
+        setResults(data.results)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error('Failed to search:', err)
+        setError(err instanceof Error ? err.message : 'Failed to search')
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [enabled, trimmed, moduleId, documentId, sectionType])
+
+  return {
+    results: enabled ? results : [],
+    isSearching: enabled && isSearching,
+    error: enabled ? error : null,
+  }
+}
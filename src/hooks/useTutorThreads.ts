@@ -0,0 +1,205 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { TutorMessage, TutorMode, TutorThread } from '@/lib/supabase/types'
+
+export type TutorChatMessage = Pick<TutorMessage, 'role' | 'content'>
+
+interface SendOptions {
+  /** Passage a new thread starts from */
+  selectedText: string
+  /** Mode of a new thread; existing threads keep theirs */
+  mode: TutorMode
+  /** Title of a new thread instead of the message, e.g. a quick prompt label */
+  title?: string
+}
+
+interface UseTutorThreadsReturn {
+  /** Threads of the section, most recent first */
+  threads: TutorThread[]
+  activeThread: TutorThread | null
+  /** Turns of the active thread, including the reply being streamed */
+  messages: TutorChatMessage[]
+  isLoading: boolean
+  isStreaming: boolean
+  error: string | null
+  openThread: (threadId: string) => Promise<void>
+  /** Leave the active thread; the next message starts a new one */
+  newThread: () => void
+  send: (message: string, options: SendOptions) => Promise<boolean>
+  deleteThread: (threadId: string) => Promise<boolean>
+}
+
+/**
+ * Hook for conversations with the AI assistant about a section. Threads and
+ * their messages are saved by /api/ai/tutor and read via Supabase.
+ */
+export function useTutorThreads(sectionId: string | null): UseTutorThreadsReturn {
+  const [threads, setThreads] = useState<TutorThread[]>([])
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
+  const [messages, setMessages] = useState<TutorChatMessage[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+
+  const fetchThreads = useCallback(async (forSectionId: string) => {
+    const { data, error: fetchError } = await supabase
+      .from('tutor_threads')
+      .select('*')
+      .eq('section_id', forSectionId)
+      .order('updated_at', { ascending: false })
+
+    if (fetchError) throw new Error(fetchError.message)
+    return (data || []) as TutorThread[]
+  }, [supabase])
+
+  // Threads of the current section; a new section starts without an open thread
+  useEffect(() => {
+    if (!sectionId) return
+
+    let cancelled = false
+    fetchThreads(sectionId)
+      .then((data) => {
+        if (cancelled) return
+        setThreads(data)
+        setActiveThreadId(null)
+        setMessages([])
+      })
+      .catch((err) => {
+        console.error('Failed to fetch tutor threads:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch threads')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [sectionId, fetchThreads])
+
+  const openThread = useCallback(async (threadId: string) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase
+        .from('tutor_messages')
+        .select('role, content')
+        .eq('thread_id', threadId)
+        .order('created_at', { ascending: true })
+
+      if (fetchError) throw new Error(fetchError.message)
+
+      setActiveThreadId(threadId)
+      setMessages((data || []) as TutorChatMessage[])
+    } catch (err) {
+      console.error('Failed to open tutor thread:', err)
+      setError(err instanceof Error ? err.message : 'Failed to open thread')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [supabase])
+
+  const newThread = useCallback(() => {
+    setActiveThreadId(null)
+    setMessages([])
+    setError(null)
+  }, [])
+
+  const send = useCallback(async (message: string, options: SendOptions): Promise<boolean> => {
+    if (!sectionId || !message.trim()) return false
+
+    const previous = messages
+    setMessages([...previous, { role: 'user', content: message.trim() }, { role: 'assistant', content: '' }])
+    setIsStreaming(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/ai/tutor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          threadId: activeThreadId,
+          sectionId,
+          selectedText: options.selectedText,
+          message,
+          mode: options.mode,
+          title: options.title,
+        }),
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}))
+        throw new Error(errorData.error || `API error: ${res.status}`)
+      }
+
+      const threadId = res.headers.get('X-Thread-Id')
+      if (threadId) setActiveThreadId(threadId)
+
+      // Handle streaming response
+      const reader = res.body?.getReader()
+      const decoder = new TextDecoder()
+      if (!reader) throw new Error('No response stream')
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        const text = decoder.decode(value, { stream: true })
+        setMessages((prev) => {
+          const last = prev[prev.length - 1]
+          return [...prev.slice(0, -1), { ...last, content: last.content + text }]
+        })
+      }
+
+      // The thread moved to the top (or is new)
+      setThreads(await fetchThreads(sectionId))
+      return true
+    } catch (err) {
+      console.error('Failed to send tutor message:', err)
+      setError(err instanceof Error ? err.message : 'KI-Anfrage fehlgeschlagen')
+      setMessages(previous)
+      return false
+    } finally {
+      setIsStreaming(false)
+    }
+  }, [sectionId, messages, activeThreadId, fetchThreads])
+
+  const deleteThread = useCallback(async (threadId: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('tutor_threads')
+        .delete()
+        .eq('id', threadId)
+
+      if (deleteError) throw new Error(deleteError.message)
+
+      setThreads((prev) => prev.filter((t) => t.id !== threadId))
+      if (threadId === activeThreadId) {
+        setActiveThreadId(null)
+        setMessages([])
+      }
+      return true
+    } catch (err) {
+      console.error('Failed to delete tutor thread:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete thread')
+      return false
+    }
+  }, [supabase, activeThreadId])
+
+  const activeThread = threads.find((t) => t.id === activeThreadId) ?? null
+
+  return {
+    threads,
+    activeThread,
+    messages,
+    isLoading,
+    isStreaming,
+    error,
+    openThread,
+    newThread,
+    send,
+    deleteThread,
+  }
+}
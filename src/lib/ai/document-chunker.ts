@@ -0,0 +1,228 @@
+/**
+ * Page-aware chunking for long Studienbriefe
+ * Splits per-page text into windows that fit the model context and stitches
+ * the structured chunk results back into one consistent section list
+ */
+
+import { joinPagesWithMarkers } from '@/lib/pdf/page-text'
+import type { StructuredSection } from './pdf-processor'
+
+export interface PageRange {
+  pageStart: number
+  pageEnd: number
+}
+
+export interface DocumentChunk extends PageRange {
+  index: number
+  text: string
+}
+
+export interface ChunkingOptions {
+  /** Maximum characters per chunk (default: 60000) */
+  maxChars?: number
+  /** Maximum pages per chunk (default: 40) */
+  maxPages?: number
+}
+
+/** Context handed to the model so a chunk can continue where the previous one ended */
+export interface ChunkContext {
+  chunkIndex: number
+  totalChunks: number
+  previousChapterNumber: string | null
+  previousSectionTitle: string | null
+}
+
+/** Structured result of a single chunk, before stitching */
+export interface ChunkResult {
+  chunk: DocumentChunk
+  sections: (StructuredSection & { continues_previous?: boolean })[]
+  /** False if the AI call failed and the chunk was filled with a fallback section */
+  structured: boolean
+}
+
+const DEFAULT_CHUNKING: Required<ChunkingOptions> = {
+  maxChars: 60000,
+  maxPages: 40,
+}
+
+// chapter_number values the model uses for "not inside a numbered chapter"
+const UNASSIGNED_CHAPTERS = ['0', 'intro', '']
+
+/**
+ * Group pages into consecutive windows that stay below the size limits.
+ * A single oversized page becomes its own chunk instead of being cut.
+ */
+export function chunkPages(pages: string[], options?: ChunkingOptions): DocumentChunk[] {
+  const opts = { ...DEFAULT_CHUNKING, ...options }
+  const chunks: DocumentChunk[] = []
+
+  let current: { pageStart: number; texts: string[]; chars: number } | null = null
+
+  const flush = () => {
+    if (!current) return
+    chunks.push({
+      index: chunks.length,
+      pageStart: current.pageStart,
+      pageEnd: current.pageStart + current.texts.length - 1,
+      text: joinPagesWithMarkers(current.texts, current.pageStart),
+    })
+    current = null
+  }
+
+  pages.forEach((pageText, i) => {
+    const pageNumber = i + 1
+    const exceedsLimit = current && (
+      current.chars + pageText.length > opts.maxChars ||
+      current.texts.length >= opts.maxPages
+    )
+    if (exceedsLimit) flush()
+
+    if (!current) {
+      current = { pageStart: pageNumber, texts: [], chars: 0 }
+    }
+    current.texts.push(pageText)
+    current.chars += pageText.length
+  })
+  flush()
+
+  return chunks
+}
+
+/**
+ * Extract the chapter prefix from a numbering like "2.3.1" → "2"
+ */
+function chapterFromNumber(value: string | undefined): string | null {
+  const match = value?.trim().match(/^(\d+)(?:\.\d+)*\.?$/)
+  return match ? match[1] : null
+}
+
+/**
+ * Stitch chunk results into one section list.
+ * - Merges sections the model marked as continuation of the previous chunk
+ * - Carries chapter_number across chunk boundaries
+ * - Normalizes level by section_type
+ * - Rewrites exercise/solution links to global section indices
+ */
+export function mergeChunkResults(results: ChunkResult[]): StructuredSection[] {
+  const merged: StructuredSection[] = []
+  let currentChapter: string | null = null
+
+  for (const result of results) {
+    const isFirstChunk = merged.length === 0
+    // Maps chunk-local section index → global index, for link remapping
+    const localToGlobal = new Map<number, number>()
+
+    result.sections.forEach((section, localIndex) => {
+      const { continues_previous, ...rest } = section
+      const previous = merged[merged.length - 1]
+
+      if (continues_previous && previous && localIndex === 0) {
+        previous.content = `${previous.content}\n\n${rest.content}`.trim()
+        previous.pageEnd = rest.pageEnd ?? previous.pageEnd
+        localToGlobal.set(localIndex, merged.length - 1)
+        return
+      }
+
+      let chapterNumber = rest.chapter_number || '0'
+      const fromTask = chapterFromNumber(rest.task_number)
+      if (rest.section_type === 'chapter' && chapterFromNumber(chapterNumber)) {
+        currentChapter = chapterNumber
+      } else if (UNASSIGNED_CHAPTERS.includes(chapterNumber) && !isFirstChunk && currentChapter) {
+        // Later chunks start mid-chapter; the model has no heading to anchor to
+        chapterNumber = fromTask || currentChapter
+      } else if (chapterFromNumber(chapterNumber)) {
+        currentChapter = chapterNumber
+      }
+
+      localToGlobal.set(localIndex, merged.length)
+      merged.push({
+        ...rest,
+        chapter_number: chapterNumber,
+        level: normalizeLevel(rest),
+      })
+    })
+
+    remapLinks(merged, result.sections, localToGlobal)
+  }
+
+  linkExercisesAndSolutions(merged)
+  return merged
+}
+
+/**
+ * Keep level consistent with section_type regardless of what a chunk returned
+ */
+function normalizeLevel(section: StructuredSection): number {
+  const level = Math.min(Math.max(section.level ?? 0, 0), 2)
+  if (section.section_type === 'chapter') return 0
+  if (section.section_type === 'subchapter') return Math.max(level, 1)
+  return level
+}
+
+/**
+ * Convert chunk-local solution_id/exercise_id indices into global indices
+ */
+function remapLinks(
+  merged: StructuredSection[],
+  chunkSections: ChunkResult['sections'],
+  localToGlobal: Map<number, number>
+) {
+  chunkSections.forEach((section, localIndex) => {
+    const globalIndex = localToGlobal.get(localIndex)
+    // Continuations were folded into an earlier section that keeps its own links
+    if (globalIndex === undefined || section.continues_previous) return
+    const target = merged[globalIndex]
+
+    for (const key of ['solution_id', 'exercise_id'] as const) {
+      const value = section[key]
+      if (!value) continue
+      const local = Number.parseInt(value, 10)
+      const mapped = Number.isNaN(local) ? undefined : localToGlobal.get(local)
+      // Unresolvable references are re-linked by task_number afterwards
+      target[key] = mapped !== undefined ? String(mapped) : undefined
+    }
+  })
+}
+
+/**
+ * Pair exercises and solutions by task_number across the whole document,
+ * so a solution appendix at the end still links back to its exercise
+ */
+function linkExercisesAndSolutions(sections: StructuredSection[]) {
+  const exercisesByTask = new Map<string, number>()
+
+  sections.forEach((section, index) => {
+    if ((section.section_type === 'exercise' || section.section_type === 'task') && section.task_number) {
+      exercisesByTask.set(section.task_number, index)
+    }
+  })
+
+  sections.forEach((section, index) => {
+    if (section.section_type !== 'solution' || section.exercise_id) return
+    const taskNumber = section.task_number || section.title.match(/Aufgabe\s+(\d+(?:\.\d+)*)/i)?.[1]
+    const exerciseIndex = taskNumber ? exercisesByTask.get(taskNumber) : undefined
+    if (exerciseIndex === undefined) return
+
+    section.exercise_id = String(exerciseIndex)
+    sections[exerciseIndex].solution_id = String(index)
+  })
+}
+
+/**
+ * Collapse consecutive chunk ranges into contiguous page ranges
+ */
+export function collapseRanges(ranges: PageRange[]): PageRange[] {
+  const sorted = [...ranges].sort((a, b) => a.pageStart - b.pageStart)
+  const collapsed: PageRange[] = []
+
+  for (const range of sorted) {
+    const last = collapsed[collapsed.length - 1]
+    if (last && range.pageStart <= last.pageEnd + 1) {
+      last.pageEnd = Math.max(last.pageEnd, range.pageEnd)
+    } else {
+      collapsed.push({ pageStart: range.pageStart, pageEnd: range.pageEnd })
+    }
+  }
+
+  return collapsed
+}
@@ -0,0 +1,184 @@
+/**
+ * Embedding Backend
+ * Turns text into vectors for retrieval over the sections of a script.
+ * Configured via environment:
+ *   EMBEDDING_PROVIDER    'local' (default) | 'openai' | 'openai-compatible'
+ *   EMBEDDING_MODEL       Model for 'openai' (default: text-embedding-3-small)
+ *                         and 'openai-compatible' (required)
+ *   EMBEDDING_DIMENSIONS  Vector size for text-embedding-3 models (default: 512)
+ *   EMBEDDING_MIN_SCORE   Override of the backend's relevance threshold
+ * 'openai-compatible' uses AI_BASE_URL and AI_API_KEY like the LLM provider.
+ * The local backend hashes word stems into a fixed-size vector: no model and
+ * no network, so every document can be indexed at parse time.
+ */
+
+import OpenAI from 'openai'
+import { AIProviderError } from './provider'
+
+export type EmbeddingBackendName = 'local' | 'openai' | 'openai-compatible'
+
+export interface EmbeddingBackend {
+  name: EmbeddingBackendName
+  /** Identifies the vector space; vectors of different models are never compared */
+  model: string
+  /** Minimum cosine similarity for a passage to count as relevant */
+  minScore: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+const LOCAL_DIMENSIONS = 512
+
+// Frequent words that say nothing about the topic
+const STOPWORDS = new Set([
+  'aber', 'alle', 'als', 'also', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'bist', 'dann', 'das',
+  'dass', 'dem', 'den', 'der', 'des', 'die', 'dies', 'diese', 'dieser', 'dieses', 'doch', 'dort',
+  'durch', 'ein', 'eine', 'einem', 'einen', 'einer', 'eines', 'für', 'gibt', 'hat', 'hatte',
+  'ich', 'ihr', 'im', 'in', 'ist', 'jede', 'kann', 'mit', 'nach', 'nicht', 'noch', 'nur', 'oder',
+  'sein', 'sich', 'sie', 'sind', 'so', 'über', 'um', 'und', 'uns', 'unter', 'vom', 'von', 'vor',
+  'was', 'welche', 'wenn', 'werden', 'wie', 'wird', 'wir', 'zu', 'zum', 'zur', 'the', 'and', 'of',
+])
+
+const SUFFIXES = ['ungen', 'ern', 'em', 'en', 'er', 'es', 'e', 'n', 's']
+
+/**
+ * Lowercased word stems: umlauts folded, common German endings removed
+ */
+export function stemWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u').replace(/ß/g, 'ss')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map((word) => {
+      const suffix = SUFFIXES.find((s) => word.length - s.length >= 4 && word.endsWith(s))
+      return suffix ? word.slice(0, -suffix.length) : word
+    })
+}
+
+// FNV-1a, stable across runs so stored vectors stay comparable
+function hashWord(word: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Scale a vector to unit length, so the dot product is the cosine similarity
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return length > 0 ? vector.map((v) => v / length) : vector
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let lengthA = 0
+  let lengthB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    lengthA += a[i] * a[i]
+    lengthB += b[i] * b[i]
+  }
+  return lengthA > 0 && lengthB > 0 ? dot / Math.sqrt(lengthA * lengthB) : 0
+}
+
+/**
+ * Hashed bag of word stems, dampened term frequency
+ */
+export function createLocalBackend(): EmbeddingBackend {
+  const embedOne = (text: string): number[] => {
+    const counts = new Map<number, number>()
+    for (const stem of stemWords(text)) {
+      const slot = hashWord(stem) % LOCAL_DIMENSIONS
+      counts.set(slot, (counts.get(slot) ?? 0) + 1)
+    }
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0)
+    for (const [slot, count] of counts) vector[slot] = 1 + Math.log(count)
+    return normalizeVector(vector)
+  }
+
+  return {
+    name: 'local',
+    model: `local-hash-${LOCAL_DIMENSIONS}`,
+    minScore: 0.12,
+    async embed(texts) {
+      return texts.map(embedOne)
+    },
+  }
+}
+
+// Inputs per request, well below the API limits
+const EMBEDDING_BATCH_SIZE = 64
+
+function createOpenAICompatibleBackend(name: 'openai' | 'openai-compatible'): EmbeddingBackend {
+  const model = process.env.EMBEDDING_MODEL || (name === 'openai' ? 'text-embedding-3-small' : '')
+  if (!model) {
+    throw new AIProviderError('Kein Embedding-Modell konfiguriert (EMBEDDING_MODEL)')
+  }
+
+  const client = new OpenAI({
+    apiKey: process.env.AI_API_KEY || process.env.OPENAI_API_KEY || 'not-needed',
+    baseURL: name === 'openai-compatible' ? process.env.AI_BASE_URL : undefined,
+  })
+  // Only text-embedding-3 models can shorten their vectors
+  const dimensions = model.startsWith('text-embedding-3')
+    ? Number(process.env.EMBEDDING_DIMENSIONS) || 512
+    : undefined
+
+  return {
+    name,
+    model: dimensions ? `${model}@${dimensions}` : model,
+    minScore: 0.3,
+    async embed(texts) {
+      const vectors: number[][] = []
+      try {
+        for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+          const response = await client.embeddings.create({
+            model,
+            input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+            dimensions,
+          })
+          vectors.push(...response.data.map((d) => d.embedding))
+        }
+      } catch (error) {
+        if (error instanceof OpenAI.APIError) {
+          throw new AIProviderError(error.message, error.status ?? 500)
+        }
+        throw new AIProviderError(error instanceof Error ? error.message : 'Embedding fehlgeschlagen')
+      }
+      return vectors
+    },
+  }
+}
+
+function getBackendName(): EmbeddingBackendName {
+  const name = process.env.EMBEDDING_PROVIDER
+  if (name === 'openai' || name === 'openai-compatible') return name
+  return 'local'
+}
+
+let cachedBackend: EmbeddingBackend | null = null
+
+/**
+ * Get the configured embedding backend
+ */
+export function getEmbeddingBackend(): EmbeddingBackend {
+  if (cachedBackend) return cachedBackend
+
+  const name = getBackendName()
+  const backend = name === 'local' ? createLocalBackend() : createOpenAICompatibleBackend(name)
+  const minScore = Number(process.env.EMBEDDING_MIN_SCORE)
+  cachedBackend = Number.isFinite(minScore) && minScore > 0 ? { ...backend, minScore } : backend
+
+  return cachedBackend
+}
+
+/**
+ * Replace the backend, e.g. with a fixed one in tests
+ */
+export function setEmbeddingBackend(backend: EmbeddingBackend | null) {
+  cachedBackend = backend
+}
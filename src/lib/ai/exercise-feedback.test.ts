@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { generateAnswerFeedback, MAX_FEEDBACK_SCORE, parseAnswerFeedback } from './exercise-feedback'
+import { createMockProvider } from './mock-provider'
+import { setAIProvider } from './provider'
+
+const EXERCISE = 'Nennen Sie zwei Merkmale eines Projekts.'
+const SOLUTION = 'Ein Projekt ist einmalig und zeitlich befristet. Es hat ein festgelegtes Budget.'
+
+afterEach(() => {
+  setAIProvider(null)
+})
+
+describe('generateAnswerFeedback', () => {
+  it('scores the answer against the solution with the mock provider', async () => {
+    setAIProvider(createMockProvider())
+
+    const feedback = await generateAnswerFeedback(
+      'Aufgabe 1.1',
+      EXERCISE,
+      SOLUTION,
+      'Projekte sind einmalig und zeitlich befristet.'
+    )
+
+    expect(feedback).toEqual({
+      covered: ['Ein Projekt ist einmalig und zeitlich befristet.'],
+      missing: ['Es hat ein festgelegtes Budget.'],
+      misconceptions: [],
+      score: 5,
+      max_score: MAX_FEEDBACK_SCORE,
+      summary: '1 von 2 Punkten der Musterlösung abgedeckt.',
+    })
+  })
+
+  it('gives full points for an answer covering every point', async () => {
+    setAIProvider(createMockProvider())
+
+    const feedback = await generateAnswerFeedback(
+      'Aufgabe 1.1',
+      EXERCISE,
+      SOLUTION,
+      'Einmalig, zeitlich befristet und mit festgelegtem Budget.'
+    )
+
+    expect(feedback.score).toBe(MAX_FEEDBACK_SCORE)
+    expect(feedback.missing).toEqual([])
+  })
+
+  it('sends the request as a JSON feedback task', async () => {
+    const tasks: string[] = []
+    setAIProvider(createMockProvider({
+      feedback: (request) => {
+        tasks.push(`${request.task}:${request.json}`)
+        return '{"score": 7}'
+      },
+    }))
+
+    const feedback = await generateAnswerFeedback('Aufgabe 1.1', EXERCISE, SOLUTION, 'Antwort')
+
+    expect(tasks).toEqual(['feedback:true'])
+    expect(feedback.score).toBe(7)
+  })
+
+  it('clamps scores outside the rubric', async () => {
+    setAIProvider(createMockProvider({ feedback: () => '{"score": 14}' }))
+    expect((await generateAnswerFeedback('A', EXERCISE, SOLUTION, 'Antwort')).score).toBe(MAX_FEEDBACK_SCORE)
+
+    setAIProvider(createMockProvider({ feedback: () => '{"score": -3}' }))
+    expect((await generateAnswerFeedback('A', EXERCISE, SOLUTION, 'Antwort')).score).toBe(0)
+  })
+
+  it('passes on bad JSON from the provider as a SyntaxError', async () => {
+    setAIProvider(createMockProvider({ feedback: () => 'Die Antwort ist gut.' }))
+
+    await expect(generateAnswerFeedback('A', EXERCISE, SOLUTION, 'Antwort')).rejects.toThrow(SyntaxError)
+  })
+})
+
+describe('parseAnswerFeedback', () => {
+  it('rounds scores and clamps them to the rubric', () => {
+    expect(parseAnswerFeedback('{"score": 6.6}').score).toBe(7)
+    expect(parseAnswerFeedback('{"score": "8"}').score).toBe(8)
+    expect(parseAnswerFeedback('{"score": 11}').score).toBe(MAX_FEEDBACK_SCORE)
+    expect(parseAnswerFeedback('{"score": -1}').score).toBe(0)
+  })
+
+  it('scores missing or non-numeric values as zero', () => {
+    expect(parseAnswerFeedback('{"score": "viele"}').score).toBe(0)
+    expect(parseAnswerFeedback('{}').score).toBe(0)
+    expect(parseAnswerFeedback('').score).toBe(0)
+  })
+
+  it('keeps only non-empty strings in the point lists', () => {
+    const feedback = parseAnswerFeedback(JSON.stringify({
+      covered: [' Einmaligkeit ', '', 3, null],
+      missing: 'Budget',
+      summary: '  Gut gemacht.  ',
+    }))
+
+    expect(feedback).toEqual({
+      covered: ['Einmaligkeit'],
+      missing: [],
+      misconceptions: [],
+      score: 0,
+      max_score: MAX_FEEDBACK_SCORE,
+      summary: 'Gut gemacht.',
+    })
+  })
+
+  it('throws on malformed JSON', () => {
+    expect(() => parseAnswerFeedback('{"score": 5')).toThrow(SyntaxError)
+    expect(() => parseAnswerFeedback('Punkte: 5')).toThrow(SyntaxError)
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Exercise Feedback
+ * Compares a student's written answer with the exercise's solution and
+ * returns structured feedback with a rubric score
+ */
+
+import { getAIProvider } from './provider'
+import type { AnswerFeedback } from '@/lib/supabase/types'
+
+export const MAX_FEEDBACK_SCORE = 10
+
+// Headings in the prompt (the mock provider splits the prompt at them)
+const SOLUTION_MARKER = 'Musterlösung:'
+const ANSWER_MARKER = 'Antwort des Studierenden:'
+
+const SYSTEM_PROMPT = `Du bist Tutor an einer Hochschule und gibst Rückmeldung zu Lösungen von Übungsaufgaben.
+Vergleiche die Antwort des Studierenden mit der Musterlösung:
+- covered: Kernpunkte der Musterlösung, die die Antwort inhaltlich abdeckt (auch wenn anders formuliert)
+- missing: Kernpunkte der Musterlösung, die fehlen oder nur angedeutet sind
+- misconceptions: Aussagen der Antwort, die fachlich falsch sind oder der Musterlösung widersprechen
+- score: Punkte von 0 bis ${MAX_FEEDBACK_SCORE} nach Anteil und Gewicht der abgedeckten Punkte, Abzug für Fehlvorstellungen
+- summary: 1-2 Sätze Rückmeldung direkt an den Studierenden (du-Form)
+Jeder Punkt ist ein kurzer Satz auf Deutsch. Antworte nur mit validem JSON.`
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.substring(0, maxLength) + '...' : text
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Read the model's JSON into feedback, clamping the score to the rubric
+ */
+export function parseAnswerFeedback(response: string): AnswerFeedback {
+  const parsed = JSON.parse(response || '{}')
+  const score = Number(parsed.score)
+
+  return {
+    covered: stringList(parsed.covered),
+    missing: stringList(parsed.missing),
+    misconceptions: stringList(parsed.misconceptions),
+    score: Number.isFinite(score) ? Math.min(MAX_FEEDBACK_SCORE, Math.max(0, Math.round(score))) : 0,
+    max_score: MAX_FEEDBACK_SCORE,
+    summary: typeof parsed.summary === 'string' ? parsed.summary.trim() : '',
+  }
+}
+
+/**
+ * Generate feedback on an answer. Errors from the provider are passed on so
+ * the caller can report them.
+ */
+export async function generateAnswerFeedback(
+  exerciseTitle: string,
+  exerciseContent: string,
+  solutionContent: string,
+  answer: string
+): Promise<AnswerFeedback> {
+  const response = await getAIProvider().complete({
+    task: 'feedback',
+    messages: [
+      {
+        role: 'system',
+        content: SYSTEM_PROMPT,
+      },
+      {
+        role: 'user',
+        content: `Aufgabe: "${exerciseTitle}"
+${truncate(exerciseContent, 3000)}
+
+${SOLUTION_MARKER}
+${truncate(solutionContent, 5000)}
+
+${ANSWER_MARKER}
+${truncate(answer, 5000)}
+
+Antworte im Format:
+{
+  "covered": ["Punkt"],
+  "missing": ["Punkt"],
+  "misconceptions": ["Fehlvorstellung"],
+  "score": 0,
+  "summary": "Rückmeldung"
+}`,
+      },
+    ],
+    temperature: 0.2,
+    json: true,
+  })
+
+  return parseAnswerFeedback(response)
+}
@@ -0,0 +1,175 @@
+/**
+ * Mock LLM Provider
+ * Deterministic responses derived from the request text, so AI features can
+ * be exercised in tests and local development without any model.
+ * Enable with AI_PROVIDER=mock or pass it to setAIProvider().
+ */
+
+import type { AITask, ChatRequest, LLMProvider } from './provider'
+
+export type MockResponder = (request: ChatRequest) => string
+
+/**
+ * Text of the last user message (text parts only)
+ */
+function lastUserText(request: ChatRequest): string {
+  const message = [...request.messages].reverse().find(m => m.role === 'user')
+  if (!message) return ''
+  if (typeof message.content === 'string') return message.content
+  return message.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('\n')
+}
+
+function firstSentence(text: string, maxLength: number = 200): string {
+  const compact = text.replace(/\s+/g, ' ').trim()
+  const sentence = compact.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? compact
+  return sentence.length > maxLength ? sentence.substring(0, maxLength) + '...' : sentence
+}
+
+// One chapter per page window, built from the [[Seite N]] markers in the prompt
+const mockStructuring: MockResponder = (request) => {
+  const text = lastUserText(request)
+  const pages = [...text.matchAll(/\[\[Seite (\d+)\]\]\n?([\s\S]*?)(?=\[\[Seite \d+\]\]|$)/g)]
+  const pageStart = pages.length > 0 ? Number(pages[0][1]) : 1
+  const pageEnd = pages.length > 0 ? Number(pages[pages.length - 1][1]) : 1
+  const content = pages.map(p => p[2].trim()).join('\n\n') || text
+
+  return JSON.stringify({
+    title: '',
+    summary: firstSentence(content),
+    tableOfContents: [],
+    sections: [{
+      title: `Seiten ${pageStart}–${pageEnd}`,
+      content,
+      pageStart,
+      pageEnd,
+      section_type: 'chapter',
+      level: 0,
+      chapter_number: String(pageStart),
+      continues_previous: false,
+    }],
+  })
+}
+
+const mockFlashcards: MockResponder = (request) => {
+  // Only the text the card is about, without the context passed along
+  const text = lastUserText(request).split('Text für Lernkarte:').pop()?.trim() ?? ''
+  const card = { question: `Was besagt: "${firstSentence(text, 80)}"?`, answer: firstSentence(text) }
+  // Covers both the single-card and the list format
+  return JSON.stringify({ ...card, flashcards: [card] })
+}
+
+// Solution sentences are the rubric points; a point counts as covered when
+// the answer contains at least half of its longer words
+const mockFeedback: MockResponder = (request) => {
+  const text = lastUserText(request)
+  const solution = text.split('Musterlösung:')[1]?.split('Antwort des Studierenden:')[0] ?? ''
+  const answer = (text.split('Antwort des Studierenden:')[1]?.split('Antworte im Format:')[0] ?? '').toLowerCase()
+  const points = solution.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]?/g)?.map(p => p.trim()).filter(p => p.length > 10) ?? []
+
+  const isCovered = (point: string) => {
+    const words = point.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 3)
+    return words.length > 0 && words.filter(word => answer.includes(word)).length * 2 >= words.length
+  }
+  const covered = points.filter(isCovered)
+  const missing = points.filter(point => !isCovered(point))
+  const score = points.length > 0 ? Math.round((10 * covered.length) / points.length) : 0
+
+  return JSON.stringify({
+    covered,
+    missing,
+    misconceptions: [],
+    score,
+    summary: `${covered.length} von ${points.length} Punkten der Musterlösung abgedeckt.`,
+  })
+}
+
+// Per [[Abschnitt id]] block one true statement taken from the section and,
+// with several sections, a question asking which section it came from
+const mockQuiz: MockResponder = (request) => {
+  const text = lastUserText(request)
+  const objectives = [...(text.split('Lernziele:')[1]?.split('\n\n')[0] ?? '').matchAll(/^- (.+)$/gm)].map(m => m[1])
+  const sections = [...text.matchAll(/\[\[Abschnitt ([^\]]+)\]\] (.*)\n([\s\S]*?)(?=\[\[Abschnitt |\nErstelle \d+ Fragen|$)/g)]
+    .map(m => ({ id: m[1], title: m[2].trim(), content: m[3].trim() }))
+  const titles = sections.slice(0, 4).map(s => s.title)
+
+  const questions = sections.flatMap((section, index) => {
+    const statement = firstSentence(section.content, 160)
+    const objective = objectives[index % Math.max(1, objectives.length)] ?? ''
+    const trueFalse = {
+      type: 'true_false',
+      question: statement,
+      correct_index: 0,
+      explanation: `So steht es im Abschnitt "${section.title}".`,
+      objective,
+      section_id: section.id,
+    }
+    if (index >= titles.length || titles.length < 2) return [trueFalse]
+    return [trueFalse, {
+      type: 'multiple_choice',
+      question: `Aus welchem Abschnitt stammt: "${statement}"?`,
+      options: titles,
+      correct_index: index,
+      explanation: `Die Aussage stammt aus "${section.title}".`,
+      objective,
+      section_id: section.id,
+    }]
+  })
+
+  return JSON.stringify({ questions })
+}
+
+// Answers with the first sentence of the [[Quelle n]] block sharing the most
+// longer words with the question; without any overlap it declines
+const mockQA: MockResponder = (request) => {
+  const text = lastUserText(request)
+  const question = text.split('Frage:').pop()?.split('Antworte im Format:')[0] ?? ''
+  const sources = [...text.matchAll(/\[\[Quelle (\d+)\]\] .*\n([\s\S]*?)(?=\n\n\[\[Quelle |\n\nFrage:|$)/g)]
+    .map(m => ({ index: Number(m[1]), content: m[2].toLowerCase(), text: m[2] }))
+  const words = question.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 3)
+
+  const best = sources
+    .map(source => ({ ...source, overlap: words.filter(word => source.content.includes(word)).length }))
+    .sort((a, b) => b.overlap - a.overlap)[0]
+
+  if (!best || best.overlap === 0) return JSON.stringify({ answerable: false, answer: '' })
+  return JSON.stringify({ answerable: true, answer: `${firstSentence(best.text)} [${best.index}]` })
+}
+
+const DEFAULT_RESPONDERS: Record<AITask, MockResponder> = {
+  structuring: mockStructuring,
+  flashcards: mockFlashcards,
+  explain: (request) => `Kurz erklärt: ${firstSentence(lastUserText(request))}`,
+  altText: () => 'Abbildung im Dokument',
+  summaries: (request) => (request.json ? '{}' : firstSentence(lastUserText(request))),
+  feedback: mockFeedback,
+  quiz: mockQuiz,
+  qa: mockQA,
+}
+
+/**
+ * Create a mock provider; individual tasks can be overridden with fixed responders
+ */
+export function createMockProvider(
+  responders: Partial<Record<AITask, MockResponder>> = {}
+): LLMProvider {
+  const respond = (request: ChatRequest) =>
+    (responders[request.task] ?? DEFAULT_RESPONDERS[request.task])(request)
+
+  return {
+    name: 'mock',
+    model: (task) => `mock-${task}`,
+
+    async complete(request) {
+      return respond(request)
+    },
+
+    async *stream(request) {
+      // Stream word by word like a real model would
+      for (const token of respond(request).split(/(\s+)/)) {
+        if (token) yield token
+      }
+    },
+  }
+}
@@ -1,12 +1,19 @@
-import OpenAI from 'openai'
-import { STUDIENBRIEF_SYSTEM_PROMPT, STUDIENBRIEF_USER_PROMPT } from './studienbrief-prompt'
+import { getAIProvider, isAIConfigured } from './provider'
+import { STUDIENBRIEF_SYSTEM_PROMPT, STUDIENBRIEF_USER_PROMPT, STUDIENBRIEF_CHUNK_CONTEXT } from './studienbrief-prompt'
+import {
+  chunkPages,
+  collapseRanges,
+  mergeChunkResults,
+  type ChunkContext,
+  type ChunkingOptions,
+  type ChunkResult,
+  type DocumentChunk,
+  type PageRange,
+} from './document-chunker'
+import { resolveSectionPages, stripPageMarkers } from '@/lib/pdf/page-text'
+import { structureDocumentWithRules, structurePagesWithRules } from '@/lib/pdf/studienbrief-structurer'
 import type { SectionType } from '@/lib/supabase/types'
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
 export interface StructuredSection {
   title: string
   content: string
@@ -22,6 +29,9 @@ export interface StructuredSection {
   exercise_id?: string     // For solutions: reference back to exercise
 }
 
+// How a document is split into sections: AI model or offline rule-based structurer
+export type StructurerMode = 'ai' | 'rules'
+
 export interface ProcessedDocument {
   title: string
   summary: string
@@ -37,127 +47,233 @@ export interface ProcessedDocument {
     author?: string
     institution?: string
   }
+  coverage?: {
+    structured: PageRange[] // Page ranges structured by the selected structurer
+    fallback: PageRange[]   // Page ranges structured by rules after an AI failure
+  }
+}
+
+/**
+ * Structure extracted pages with the requested structurer.
+ * Uses the rule-based structurer when no AI provider is configured.
+ */
+export async function structureDocument(
+  pages: string[],
+  filename: string,
+  totalPages: number,
+  imagesByPage?: Map<number, { pageNumber: number; imageIndex: number }[]>,
+  mode: StructurerMode = 'ai'
+): Promise<ProcessedDocument> {
+  if (mode === 'rules' || !isAIConfigured()) {
+    return structureDocumentWithRules(pages, filename)
+  }
+  return structureDocumentWithAI(pages, filename, totalPages, imagesByPage)
 }
 
 /**
  * Use AI to intelligently structure PDF text into chapters/sections
  * Optimized for German Studienbriefe (distance learning materials)
  * Recognizes special elements: learning objectives, tasks, tips, summaries, etc.
+ *
+ * Long documents are split into page windows that are structured one after
+ * another and stitched back together, so no part of the text is dropped.
  */
 export async function structureDocumentWithAI(
-  rawText: string,
+  pages: string[],
   filename: string,
   totalPages: number,
-  imagesByPage?: Map<number, { pageNumber: number; imageIndex: number }[]>
+  imagesByPage?: Map<number, { pageNumber: number; imageIndex: number }[]>,
+  chunkingOptions?: ChunkingOptions
 ): Promise<ProcessedDocument> {
-  try {
-    // Truncate text if too long (GPT-4o-mini has 128k context)
-    const maxChars = 100000
-    const text = rawText.length > maxChars
-      ? rawText.substring(0, maxChars) + '\n\n[Text gekürzt...]'
-      : rawText
-
-    // Include image page information if available
-    let imageContext = ''
-    if (imagesByPage && imagesByPage.size > 0) {
-      const imagePages = Array.from(imagesByPage.keys()).sort((a, b) => a - b)
-      imageContext = `\n\nBilder im Dokument auf folgenden Seiten: ${imagePages.join(', ')}`
-    }
+  const chunks = chunkPages(pages, chunkingOptions)
+  const results: ChunkResult[] = []
+  let head: ParsedChunkHead | null = null
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: STUDIENBRIEF_SYSTEM_PROMPT
-        },
-        {
-          role: 'user',
-          content: STUDIENBRIEF_USER_PROMPT(filename, totalPages, text, imageContext)
-        }
-      ],
-      temperature: 0.3,
-      response_format: { type: 'json_object' },
-    })
+  for (const chunk of chunks) {
+    const previous = results[results.length - 1]?.sections
+    const lastSection = previous?.[previous.length - 1]
 
-    const content = response.choices[0]?.message?.content
-    if (!content) {
-      throw new Error('No response from AI')
-    }
+    try {
+      const { head: chunkHead, sections } = await structureChunk(chunk, {
+        chunkIndex: chunk.index,
+        totalChunks: chunks.length,
+        previousChapterNumber: lastSection?.chapter_number ?? null,
+        previousSectionTitle: lastSection?.title ?? null,
+      }, filename, totalPages, imagesByPage)
 
-    const parsed = JSON.parse(content)
-
-    // Transform the response to match ProcessedDocument interface
-    const result: ProcessedDocument = {
-      title: parsed.metadata?.title || parsed.title || filename.replace('.pdf', ''),
-      summary: parsed.summary || '',
-      sections: (parsed.sections || []).map((section: {
-        title: string
-        content: string
-        pageStart?: number
-        pageEnd?: number
-        summary?: string
-        section_type?: SectionType
-        task_number?: string
-        keywords?: string[]
-        level?: number
-        chapter_number?: string
-        solution_id?: string
-        exercise_id?: string
-      }) => ({
-        title: section.title,
-        content: section.content,
-        pageStart: section.pageStart || null,
-        pageEnd: section.pageEnd || null,
-        summary: section.summary,
-        section_type: section.section_type || 'chapter',
-        task_number: section.task_number,
-        keywords: section.keywords,
-        level: section.level ?? 0,
-        chapter_number: section.chapter_number || '0',
-        solution_id: section.solution_id,
-        exercise_id: section.exercise_id,
-      })),
-      tableOfContents: (parsed.tableOfContents || []).map((item: {
-        title: string
-        page?: number
-        section_type?: SectionType
-        level?: number
-        chapter_number?: string
-      }) => ({
-        title: item.title,
-        page: item.page || null,
-        section_type: item.section_type,
-        level: item.level ?? 0,
-        chapter_number: item.chapter_number || '0',
-      })),
-      metadata: parsed.metadata ? {
-        author: parsed.metadata.author,
-        institution: parsed.metadata.institution,
-      } : undefined,
+      head = head ?? chunkHead
+      results.push({ chunk, sections, structured: true })
+    } catch (error) {
+      console.error(`AI structuring failed for pages ${chunk.pageStart}-${chunk.pageEnd}:`, error)
+      // Fallback: Structure the chunk with the rule-based structurer
+      const previousChapter = Number.parseInt(lastSection?.chapter_number ?? '', 10)
+      results.push({
+        chunk,
+        structured: false,
+        sections: structurePagesWithRules(pages.slice(chunk.pageStart - 1, chunk.pageEnd), {
+          firstPage: chunk.pageStart,
+          continuesPrevious: chunk.index > 0,
+          chapter: Number.isNaN(previousChapter) ? null : previousChapter,
+        }),
+      })
     }
+  }
 
-    return result
-  } catch (error) {
-    console.error('AI structuring failed:', error)
-    // Fallback: Return simple structure
-    return {
-      title: filename.replace('.pdf', ''),
-      summary: '',
-      sections: [{
-        title: 'Inhalt',
-        content: rawText,
-        pageStart: 1,
-        pageEnd: totalPages,
-        section_type: 'chapter',
-      }],
-      tableOfContents: [{ title: 'Inhalt', page: 1 }],
+  // Page ranges come from where the text actually appears, not from the model's guess
+  const { sections, corrected, unresolved } = resolveSectionPages(mergeChunkResults(results), pages)
+  if (corrected > 0 || unresolved > 0) {
+    console.info(`Section pages: ${corrected} corrected from AI output, ${unresolved} not located in PDF text`)
+  }
+
+  return {
+    title: head?.title || filename.replace('.pdf', ''),
+    summary: head?.summary || '',
+    sections,
+    tableOfContents: head && head.tableOfContents.length > 0
+      ? mergeTableOfContents(results.length, head.tableOfContents, sections)
+      : sections
+          .filter(s => (s.level ?? 0) === 0)
+          .map(s => ({ title: s.title, page: s.pageStart, section_type: s.section_type, level: 0, chapter_number: s.chapter_number })),
+    metadata: head?.metadata,
+    coverage: {
+      structured: collapseRanges(results.filter(r => r.structured).map(r => r.chunk)),
+      fallback: collapseRanges(results.filter(r => !r.structured).map(r => r.chunk)),
+    },
+  }
+}
+
+// Document-level fields taken from the first successful chunk
+type ParsedChunkHead = Omit<ProcessedDocument, 'sections' | 'coverage'>
+
+/**
+ * Structure a single page window with the model
+ */
+async function structureChunk(
+  chunk: DocumentChunk,
+  context: ChunkContext,
+  filename: string,
+  totalPages: number,
+  imagesByPage?: Map<number, { pageNumber: number; imageIndex: number }[]>
+): Promise<{ head: ParsedChunkHead; sections: ChunkResult['sections'] }> {
+  // Include image page information for this chunk if available
+  let imageContext = ''
+  if (imagesByPage && imagesByPage.size > 0) {
+    const imagePages = Array.from(imagesByPage.keys())
+      .filter(page => page >= chunk.pageStart && page <= chunk.pageEnd)
+      .sort((a, b) => a - b)
+    if (imagePages.length > 0) {
+      imageContext = `\n\nBilder im Dokument auf folgenden Seiten: ${imagePages.join(', ')}`
     }
   }
+
+  const chunkContext = STUDIENBRIEF_CHUNK_CONTEXT(
+    context.chunkIndex,
+    context.totalChunks,
+    chunk.pageStart,
+    chunk.pageEnd,
+    context.previousChapterNumber,
+    context.previousSectionTitle
+  )
+
+  const content = await getAIProvider().complete({
+    task: 'structuring',
+    messages: [
+      {
+        role: 'system',
+        content: STUDIENBRIEF_SYSTEM_PROMPT
+      },
+      {
+        role: 'user',
+        content: STUDIENBRIEF_USER_PROMPT(filename, totalPages, chunk.text, imageContext, chunkContext)
+      }
+    ],
+    temperature: 0.3,
+    json: true,
+  })
+
+  if (!content) {
+    throw new Error('No response from AI')
+  }
+
+  const parsed = JSON.parse(content)
+
+  // Transform the response to match ProcessedDocument interface
+  const sections = (parsed.sections || []).map((section: {
+    title: string
+    content: string
+    pageStart?: number
+    pageEnd?: number
+    summary?: string
+    section_type?: SectionType
+    task_number?: string
+    keywords?: string[]
+    level?: number
+    chapter_number?: string
+    solution_id?: string | number
+    exercise_id?: string | number
+    continues_previous?: boolean
+  }) => ({
+    title: section.title,
+    content: stripPageMarkers(section.content || ''),
+    pageStart: section.pageStart || null,
+    pageEnd: section.pageEnd || null,
+    summary: section.summary,
+    section_type: section.section_type || 'chapter',
+    task_number: section.task_number,
+    keywords: section.keywords,
+    level: section.level ?? 0,
+    chapter_number: section.chapter_number || '0',
+    solution_id: section.solution_id != null ? String(section.solution_id) : undefined,
+    exercise_id: section.exercise_id != null ? String(section.exercise_id) : undefined,
+    continues_previous: section.continues_previous === true,
+  }))
+
+  const head: ParsedChunkHead = {
+    title: parsed.metadata?.title || parsed.title || '',
+    summary: parsed.summary || '',
+    tableOfContents: (parsed.tableOfContents || []).map((item: {
+      title: string
+      page?: number
+      section_type?: SectionType
+      level?: number
+      chapter_number?: string
+    }) => ({
+      title: item.title,
+      page: item.page || null,
+      section_type: item.section_type,
+      level: item.level ?? 0,
+      chapter_number: item.chapter_number || '0',
+    })),
+    metadata: parsed.metadata ? {
+      author: parsed.metadata.author,
+      institution: parsed.metadata.institution,
+    } : undefined,
+  }
+
+  return { head, sections }
+}
+
+/**
+ * The first chunk's table of contents usually lists the whole document.
+ * For multi-chunk documents, add top-level sections it does not mention.
+ */
+function mergeTableOfContents(
+  chunkCount: number,
+  toc: ProcessedDocument['tableOfContents'],
+  sections: StructuredSection[]
+): ProcessedDocument['tableOfContents'] {
+  if (chunkCount <= 1) return toc
+
+  const known = new Set(toc.map(item => item.title.trim().toLowerCase()))
+  const missing = sections
+    .filter(s => (s.level ?? 0) === 0 && !known.has(s.title.trim().toLowerCase()))
+    .map(s => ({ title: s.title, page: s.pageStart, section_type: s.section_type, level: 0, chapter_number: s.chapter_number }))
+
+  return [...toc, ...missing].sort((a, b) => (a.page ?? Infinity) - (b.page ?? Infinity))
 }
 
 /**
- * Generate alt text for an image using GPT-4 Vision
+ * Generate alt text for an image using a vision-capable model
  * Can accept either a URL or base64 encoded image data
  */
 export async function generateImageAltText(
@@ -178,8 +294,8 @@ export async function generateImageAltText(
       imageUrl = imageSource
     }
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const altText = await getAIProvider().complete({
+      task: 'altText',
       messages: [
         {
           role: 'user',
@@ -206,10 +322,10 @@ Regeln:
           ]
         }
       ],
-      max_tokens: 100,
+      maxTokens: 100,
     })
 
-    return response.choices[0]?.message?.content || 'Abbildung im Dokument'
+    return altText || 'Abbildung im Dokument'
   } catch (error) {
     console.error('Alt text generation failed:', error)
     return 'Abbildung im Dokument'
@@ -242,8 +358,8 @@ export async function generateSectionSummary(
       ? sectionContent.substring(0, 5000) + '...'
       : sectionContent
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const summary = await getAIProvider().complete({
+      task: 'summaries',
       messages: [
         {
           role: 'system',
@@ -260,10 +376,10 @@ Zusammenfassung (2-3 Sätze):`
         }
       ],
       temperature: 0.5,
-      max_tokens: 200,
+      maxTokens: 200,
     })
 
-    return response.choices[0]?.message?.content || ''
+    return summary
   } catch (error) {
     console.error('Summary generation failed:', error)
     return ''
@@ -283,8 +399,8 @@ export async function generateFlashcards(
       ? sectionContent.substring(0, 5000) + '...'
       : sectionContent
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const response = await getAIProvider().complete({
+      task: 'flashcards',
       messages: [
         {
           role: 'system',
@@ -309,10 +425,10 @@ Erstelle ${count} Lernkarten im Format:
         }
       ],
       temperature: 0.7,
-      response_format: { type: 'json_object' },
+      json: true,
     })
 
-    const parsed = JSON.parse(response.choices[0]?.message?.content || '{"flashcards":[]}')
+    const parsed = JSON.parse(response || '{"flashcards":[]}')
     return parsed.flashcards || []
   } catch (error) {
     console.error('Flashcard generation failed:', error)
@@ -337,8 +453,8 @@ export async function analyzeDocumentForLearning(
       .map(s => `- ${s.title}: ${s.content.substring(0, 200)}...`)
       .join('\n')
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const response = await getAIProvider().complete({
+      task: 'summaries',
       messages: [
         {
           role: 'system',
@@ -361,10 +477,10 @@ Analysiere und erstelle:
         }
       ],
       temperature: 0.5,
-      response_format: { type: 'json_object' },
+      json: true,
     })
 
-    const parsed = JSON.parse(response.choices[0]?.message?.content || '{}')
+    const parsed = JSON.parse(response || '{}')
     return {
       keyTopics: parsed.keyTopics || [],
       prerequisites: parsed.prerequisites || [],
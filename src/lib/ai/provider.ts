@@ -0,0 +1,190 @@
+/**
+ * LLM Provider Layer
+ * Single entry point for all AI features. Supports OpenAI, any
+ * OpenAI-compatible endpoint (Ollama, llama.cpp, vLLM) and a deterministic
+ * mock provider for tests. Models are configured per task via environment.
+ *
+ * Environment:
+ * - AI_PROVIDER: 'openai' | 'openai-compatible' | 'mock' (default: 'openai')
+ * - AI_BASE_URL: Endpoint for 'openai-compatible', e.g. http://localhost:11434/v1
+ * - AI_API_KEY: API key (falls back to OPENAI_API_KEY)
+ * - AI_MODEL: Default model for all tasks
+ * - AI_MODEL_STRUCTURING, AI_MODEL_EXPLAIN, AI_MODEL_FLASHCARDS,
+ *   AI_MODEL_ALT_TEXT, AI_MODEL_SUMMARIES, AI_MODEL_FEEDBACK,
+ *   AI_MODEL_QUIZ, AI_MODEL_QA: Model per task
+ */
+
+import OpenAI from 'openai'
+import { createMockProvider } from './mock-provider'
+
+export type AITask = 'structuring' | 'explain' | 'flashcards' | 'altText' | 'summaries' | 'feedback' | 'quiz' | 'qa'
+
+export type AIProviderName = 'openai' | 'openai-compatible' | 'mock'
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } }
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string | ChatContentPart[]
+}
+
+export interface ChatRequest {
+  task: AITask
+  messages: ChatMessage[]
+  temperature?: number
+  maxTokens?: number
+  /** Ask the model for a JSON object response */
+  json?: boolean
+}
+
+export interface LLMProvider {
+  name: AIProviderName
+  /** Resolved model name for a task */
+  model(task: AITask): string
+  complete(request: ChatRequest): Promise<string>
+  stream(request: ChatRequest): AsyncIterable<string>
+}
+
+/**
+ * Error from the provider, carrying the upstream HTTP status if known
+ */
+export class AIProviderError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 500) {
+    super(message)
+    this.name = 'AIProviderError'
+    this.status = status
+  }
+}
+
+// Defaults for the hosted OpenAI API
+const OPENAI_DEFAULT_MODELS: Record<AITask, string> = {
+  structuring: 'gpt-4o-mini',
+  explain: 'gpt-4o',
+  flashcards: 'gpt-4o',
+  altText: 'gpt-4o',
+  summaries: 'gpt-4o-mini',
+  feedback: 'gpt-4o',
+  quiz: 'gpt-4o-mini',
+  qa: 'gpt-4o',
+}
+
+const MODEL_ENV_KEYS: Record<AITask, string> = {
+  structuring: 'AI_MODEL_STRUCTURING',
+  explain: 'AI_MODEL_EXPLAIN',
+  flashcards: 'AI_MODEL_FLASHCARDS',
+  altText: 'AI_MODEL_ALT_TEXT',
+  summaries: 'AI_MODEL_SUMMARIES',
+  feedback: 'AI_MODEL_FEEDBACK',
+  quiz: 'AI_MODEL_QUIZ',
+  qa: 'AI_MODEL_QA',
+}
+
+function getProviderName(): AIProviderName {
+  const name = process.env.AI_PROVIDER
+  if (name === 'openai-compatible' || name === 'mock') return name
+  return 'openai'
+}
+
+function resolveModel(task: AITask, providerName: AIProviderName): string {
+  const model = process.env[MODEL_ENV_KEYS[task]] || process.env.AI_MODEL
+  if (model) return model
+  if (providerName === 'openai') return OPENAI_DEFAULT_MODELS[task]
+  // Local servers have no sensible default - fail loudly instead of guessing
+  throw new AIProviderError(`Kein Modell für "${task}" konfiguriert (AI_MODEL oder ${MODEL_ENV_KEYS[task]})`)
+}
+
+/**
+ * Provider for the OpenAI API and OpenAI-compatible servers
+ */
+function createOpenAICompatibleProvider(name: 'openai' | 'openai-compatible'): LLMProvider {
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: process.env.AI_API_KEY || process.env.OPENAI_API_KEY || 'not-needed',
+    baseURL: name === 'openai-compatible' ? process.env.AI_BASE_URL : undefined,
+  })
+
+  const toParams = (request: ChatRequest) => ({
+    model: resolveModel(request.task, name),
+    messages: request.messages as OpenAI.Chat.ChatCompletionMessageParam[],
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    response_format: request.json ? { type: 'json_object' as const } : undefined,
+  })
+
+  const wrapError = (error: unknown): AIProviderError => {
+    if (error instanceof AIProviderError) return error
+    if (error instanceof OpenAI.APIError) {
+      return new AIProviderError(error.message, error.status ?? 500)
+    }
+    return new AIProviderError(error instanceof Error ? error.message : 'KI-Anfrage fehlgeschlagen')
+  }
+
+  return {
+    name,
+    model: (task) => resolveModel(task, name),
+
+    async complete(request) {
+      try {
+        const response = await client.chat.completions.create(toParams(request))
+        return response.choices[0]?.message?.content || ''
+      } catch (error) {
+        throw wrapError(error)
+      }
+    },
+
+    async *stream(request) {
+      try {
+        const stream = await client.chat.completions.create({ ...toParams(request), stream: true })
+        for await (const chunk of stream) {
+          const content = chunk.choices[0]?.delta?.content
+          if (content) yield content
+        }
+      } catch (error) {
+        throw wrapError(error)
+      }
+    },
+  }
+}
+
+let cachedProvider: LLMProvider | null = null
+
+/**
+ * Get the configured provider (created once per server instance)
+ */
+export function getAIProvider(): LLMProvider {
+  if (cachedProvider) return cachedProvider
+
+  const name = getProviderName()
+  cachedProvider = name === 'mock'
+    ? createMockProvider()
+    : createOpenAICompatibleProvider(name)
+
+  return cachedProvider
+}
+
+/**
+ * Replace the provider, e.g. with a mock provider in tests
+ */
+export function setAIProvider(provider: LLMProvider | null) {
+  cachedProvider = provider
+}
+
+/**
+ * Whether AI features can be used with the current configuration
+ */
+export function isAIConfigured(): boolean {
+  if (cachedProvider?.name === 'mock') return true
+
+  switch (getProviderName()) {
+    case 'mock':
+      return true
+    case 'openai-compatible':
+      return Boolean(process.env.AI_BASE_URL)
+    default:
+      return Boolean(process.env.AI_API_KEY || process.env.OPENAI_API_KEY)
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Quiz Generator
+ * Multiple-choice and true/false questions from the sections of a learning
+ * unit, each tagged with one of the unit's learning objectives
+ */
+
+import { getAIProvider } from './provider'
+import type { QuizQuestion, Section } from '@/lib/supabase/types'
+
+export const TRUE_FALSE_OPTIONS = ['Wahr', 'Falsch']
+
+// Total prompt budget for section content, split evenly between sections
+const CONTENT_BUDGET = 12000
+
+const SYSTEM_PROMPT = `Du erstellst Quizfragen für Studierende zu einer Lerneinheit.
+Regeln:
+- Fragetypen: "multiple_choice" (4 Antwortoptionen, genau eine richtig) und "true_false" (Aussage; correct_index 0 = wahr, 1 = falsch)
+- Jede Frage prüft genau eines der angegebenen Lernziele; übernimm den Wortlaut des Lernziels in "objective"
+- Verteile die Fragen gleichmäßig über die Lernziele und Abschnitte
+- Falsche Optionen sollen plausibel sein, aber eindeutig falsch
+- "explanation" erklärt in 1-2 Sätzen, warum die richtige Antwort stimmt
+- "section_id" ist die ID des Abschnitts, aus dem die Frage stammt
+- Deutsch
+Antworte nur mit validem JSON.`
+
+/**
+ * Questions to ask for a unit: two per section, between 5 and 12
+ */
+export function quizQuestionCount(sectionCount: number): number {
+  return Math.min(12, Math.max(5, sectionCount * 2))
+}
+
+/**
+ * Objectives questions are tagged with; a unit without objectives is
+ * treated as one objective named after the unit
+ */
+export function quizObjectives(unitTitle: string, objectives: string[] | null): string[] {
+  const cleaned = (objectives || []).map((o) => o.trim()).filter(Boolean)
+  return cleaned.length > 0 ? cleaned : [unitTitle]
+}
+
+/**
+ * Validate the model's questions: drop malformed ones and map objectives and
+ * sections the model made up back to the unit's own
+ */
+export function parseQuizQuestions(
+  response: string,
+  objectives: string[],
+  sectionIds: string[]
+): QuizQuestion[] {
+  const parsed = JSON.parse(response || '{"questions":[]}')
+  const raw: unknown[] = Array.isArray(parsed.questions) ? parsed.questions : []
+  const questions: QuizQuestion[] = []
+
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue
+    const q = item as Record<string, unknown>
+    if (typeof q.question !== 'string' || !q.question.trim()) continue
+
+    const type = q.type === 'true_false' ? 'true_false' : 'multiple_choice'
+    const options = type === 'true_false'
+      ? TRUE_FALSE_OPTIONS
+      : (Array.isArray(q.options) ? q.options : []).filter(
+          (o): o is string => typeof o === 'string' && o.trim().length > 0
+        )
+    const correctIndex = Number(q.correct_index)
+    if (options.length < 2 || !Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= options.length) {
+      continue
+    }
+
+    const objective = objectives.find(
+      (o) => o.toLowerCase() === String(q.objective ?? '').trim().toLowerCase()
+    ) ?? objectives[questions.length % objectives.length]
+
+    questions.push({
+      id: `q${questions.length + 1}`,
+      type,
+      question: q.question.trim(),
+      options,
+      correct_index: correctIndex,
+      explanation: typeof q.explanation === 'string' ? q.explanation.trim() : '',
+      objective,
+      section_id: typeof q.section_id === 'string' && sectionIds.includes(q.section_id) ? q.section_id : null,
+    })
+  }
+
+  return questions
+}
+
+/**
+ * Generate a quiz for a learning unit. Errors from the provider are passed
+ * on so the caller can report them.
+ */
+export async function generateQuiz(
+  unitTitle: string,
+  objectives: string[],
+  sections: Pick<Section, 'id' | 'title' | 'content'>[],
+  count: number = quizQuestionCount(sections.length)
+): Promise<QuizQuestion[]> {
+  const perSection = Math.floor(CONTENT_BUDGET / Math.max(1, sections.length))
+  const sectionText = sections
+    .map((s) => {
+      const content = s.content.length > perSection ? s.content.substring(0, perSection) + '...' : s.content
+      return `[[Abschnitt ${s.id}]] ${s.title}\n${content}`
+    })
+    .join('\n\n')
+
+  const response = await getAIProvider().complete({
+    task: 'quiz',
+    messages: [
+      {
+        role: 'system',
+        content: SYSTEM_PROMPT,
+      },
+      {
+        role: 'user',
+        content: `Lerneinheit: "${unitTitle}"
+
+Lernziele:
+${objectives.map((o) => `- ${o}`).join('\n')}
+
+${sectionText}
+
+Erstelle ${count} Fragen im Format:
+{
+  "questions": [
+    {"type": "multiple_choice", "question": "Frage", "options": ["A", "B", "C", "D"], "correct_index": 0, "explanation": "Erklärung", "objective": "Lernziel", "section_id": "ID"},
+    {"type": "true_false", "question": "Aussage", "correct_index": 1, "explanation": "Erklärung", "objective": "Lernziel", "section_id": "ID"}
+  ]
+}`,
+      },
+    ],
+    temperature: 0.5,
+    json: true,
+  })
+
+  return parseQuizQuestions(response, objectives, sections.map((s) => s.id))
+}
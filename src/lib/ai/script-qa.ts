@@ -0,0 +1,102 @@
+/**
+ * Script Q&A
+ * Answers a question only from passages retrieved from the script and cites
+ * every statement with the number of its source
+ */
+
+import { getAIProvider } from './provider'
+
+export const NO_ANSWER_MESSAGE =
+  'Dazu habe ich in den Skripten nichts gefunden. Versuche eine andere Formulierung oder schau im Inhaltsverzeichnis nach.'
+
+export interface QASource {
+  /** e.g. "Dokument · Abschnitt (S. 3–4)" */
+  label: string
+  text: string
+}
+
+// Headings in the prompt (the mock provider splits the prompt at them)
+const SOURCE_MARKER = '[[Quelle'
+const QUESTION_MARKER = 'Frage:'
+
+const SYSTEM_PROMPT = `Du beantwortest Fragen von Studierenden ausschließlich anhand der nummerierten Quellen aus ihrem Skript.
+Regeln:
+- Verwende nur Informationen aus den Quellen, kein Allgemeinwissen und keine Vermutungen
+- Belege jede Aussage direkt dahinter mit der Nummer ihrer Quelle, z. B. [2] oder [1][3]
+- Beantworten die Quellen die Frage nicht, setze "answerable" auf false und lass "answer" leer
+- Antworte knapp auf Deutsch, höchstens 8 Sätze, ohne Einleitung
+Antworte nur mit validem JSON.`
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.substring(0, maxLength) + '...' : text
+}
+
+/**
+ * Read the model's JSON answer. Citations of unknown sources are dropped;
+ * an answer without any valid citation counts as no answer, so nothing
+ * unsupported reaches the student.
+ */
+export function parseScriptAnswer(
+  response: string,
+  sourceCount: number
+): { answer: string; cited: number[] } | null {
+  const parsed = JSON.parse(response || '{}')
+  if (parsed.answerable === false || typeof parsed.answer !== 'string') return null
+
+  const isValid = (n: number) => Number.isInteger(n) && n >= 1 && n <= sourceCount
+  const answer = parsed.answer
+    // [1, 3] → [1][3]
+    .replace(/\[(\d+(?:\s*,\s*\d+)+)\]/g, (_: string, list: string) =>
+      list.split(',').map((n) => `[${n.trim()}]`).join('')
+    )
+    .replace(/\s*\[(\d+)\]/g, (match: string, n: string) => (isValid(Number(n)) ? match : ''))
+    .trim()
+
+  const cited = [...new Set([...answer.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1])))]
+  if (!answer || cited.length === 0) return null
+
+  return { answer, cited }
+}
+
+/**
+ * Answer a question from the given sources, or null if they do not answer
+ * it. Errors from the provider are passed on so the caller can report them.
+ */
+export async function answerFromSources(
+  question: string,
+  sources: QASource[]
+): Promise<{ answer: string; cited: number[] } | null> {
+  if (sources.length === 0) return null
+
+  const sourceText = sources
+    .map((source, i) => `${SOURCE_MARKER} ${i + 1}]] ${source.label}\n${truncate(source.text, 2500)}`)
+    .join('\n\n')
+
+  const response = await getAIProvider().complete({
+    task: 'qa',
+    messages: [
+      {
+        role: 'system',
+        content: SYSTEM_PROMPT,
+      },
+      {
+        role: 'user',
+        content: `Quellen:
+
+${sourceText}
+
+${QUESTION_MARKER} ${truncate(question, 1000)}
+
+Antworte im Format:
+{
+  "answerable": true,
+  "answer": "Antwort mit Belegen [1]"
+}`,
+      },
+    ],
+    temperature: 0.1,
+    json: true,
+  })
+
+  return parseScriptAnswer(response, sources.length)
+}
@@ -0,0 +1,283 @@
+/**
+ * Section Index
+ * Splits sections into chunks, keeps their embeddings in section_embeddings
+ * and finds the chunks most similar to a question
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { cosineSimilarity, getEmbeddingBackend, type EmbeddingBackend } from './embeddings'
+import { fetchAllRows } from '@/lib/supabase/paging'
+import type { Section, SectionEmbedding } from '@/lib/supabase/types'
+
+export const SECTION_CHUNK_LENGTH = 1500
+
+// Sections/rows per request when storing the index
+const STORE_BATCH_SIZE = 100
+
+export type IndexableSection = Pick<Section, 'id' | 'document_id' | 'title' | 'content'>
+
+export interface TextChunk {
+  start: number
+  end: number
+}
+
+export interface IndexedChunk {
+  section_id: string
+  document_id: string
+  start_offset: number
+  end_offset: number
+  embedding: number[]
+}
+
+export interface RetrievedChunk extends IndexedChunk {
+  score: number
+}
+
+/**
+ * Split section content into chunks of whole paragraphs; paragraphs longer
+ * than a chunk are cut at sentence ends where possible
+ */
+export function chunkSection(content: string, maxLength: number = SECTION_CHUNK_LENGTH): TextChunk[] {
+  const paragraphs: TextChunk[] = []
+  let paragraphStart = 0
+  for (const match of content.matchAll(/\n{2,}/g)) {
+    paragraphs.push({ start: paragraphStart, end: match.index })
+    paragraphStart = match.index + match[0].length
+  }
+  paragraphs.push({ start: paragraphStart, end: content.length })
+
+  const pieces = paragraphs
+    .filter((p) => content.slice(p.start, p.end).trim())
+    .flatMap((p) => {
+      const parts: TextChunk[] = []
+      let start = p.start
+      while (p.end - start > maxLength) {
+        const window = content.slice(start, start + maxLength)
+        const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '))
+        const end = sentenceEnd > maxLength / 2 ? start + sentenceEnd + 1 : start + maxLength
+        parts.push({ start, end })
+        start = end
+      }
+      parts.push({ start, end: p.end })
+      return parts
+    })
+
+  const chunks: TextChunk[] = []
+  for (const piece of pieces) {
+    const last = chunks[chunks.length - 1]
+    if (last && piece.end - last.start <= maxLength) {
+      last.end = piece.end
+    } else {
+      chunks.push({ ...piece })
+    }
+  }
+  return chunks
+}
+
+/**
+ * Fingerprint of the indexed text; changes when the section is edited
+ */
+export function sectionHash(section: Pick<Section, 'title' | 'content'>): string {
+  return createHash('sha256').update(section.title).update('\n').update(section.content).digest('hex').slice(0, 32)
+}
+
+function toIndexedChunk({ section_id, document_id, start_offset, end_offset, embedding }: IndexedChunk): IndexedChunk {
+  return { section_id, document_id, start_offset, end_offset, embedding }
+}
+
+async function loadStoredChunks(
+  supabase: SupabaseClient,
+  documentIds: string[],
+  model: string
+): Promise<(IndexedChunk & { content_hash: string })[]> {
+  return fetchAllRows((from, to) =>
+    supabase
+      .from('section_embeddings')
+      .select('section_id, document_id, start_offset, end_offset, content_hash, embedding')
+      .in('document_id', documentIds)
+      .eq('model', model)
+      .order('id')
+      .range(from, to)
+  )
+}
+
+/**
+ * Replace the stored chunks of sections one document at a time, in batches
+ * to keep requests small. Owners only may write a document's chunks, so a
+ * denied document is skipped without touching the others; the first error
+ * is returned.
+ */
+async function storeChunks(
+  supabase: SupabaseClient,
+  sections: IndexableSection[],
+  model: string,
+  rows: Omit<SectionEmbedding, 'id' | 'created_at'>[]
+): Promise<Error | null> {
+  let firstError: Error | null = null
+
+  for (const documentId of new Set(sections.map((s) => s.document_id))) {
+    const error = await storeDocumentChunks(
+      supabase,
+      sections.filter((s) => s.document_id === documentId).map((s) => s.id),
+      model,
+      rows.filter((row) => row.document_id === documentId)
+    )
+    firstError ??= error
+  }
+
+  return firstError
+}
+
+async function storeDocumentChunks(
+  supabase: SupabaseClient,
+  sectionIds: string[],
+  model: string,
+  rows: Omit<SectionEmbedding, 'id' | 'created_at'>[]
+): Promise<Error | null> {
+  for (let i = 0; i < sectionIds.length; i += STORE_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('section_embeddings')
+      .delete()
+      .in('section_id', sectionIds.slice(i, i + STORE_BATCH_SIZE))
+      .eq('model', model)
+    if (error) return new Error(error.message)
+  }
+
+  for (let i = 0; i < rows.length; i += STORE_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('section_embeddings')
+      .insert(rows.slice(i, i + STORE_BATCH_SIZE))
+    if (error) return new Error(error.message)
+  }
+
+  return null
+}
+
+/**
+ * Embed sections and try to store their chunks. Storing fails for sections
+ * of other users' documents; their vectors are still returned.
+ */
+async function embedSections(
+  supabase: SupabaseClient,
+  sections: IndexableSection[],
+  backend: EmbeddingBackend
+): Promise<{ chunks: IndexedChunk[]; storeError: Error | null }> {
+  const pending = sections.flatMap((section) =>
+    chunkSection(section.content).map((chunk, chunkIndex) => ({ section, chunk, chunkIndex }))
+  )
+  if (pending.length === 0) return { chunks: [], storeError: null }
+
+  const vectors = await backend.embed(
+    pending.map(({ section, chunk }) => `${section.title}\n${section.content.slice(chunk.start, chunk.end)}`)
+  )
+
+  const rows = pending.map(({ section, chunk, chunkIndex }, i) => ({
+    section_id: section.id,
+    document_id: section.document_id,
+    chunk_index: chunkIndex,
+    start_offset: chunk.start,
+    end_offset: chunk.end,
+    model: backend.model,
+    content_hash: sectionHash(section),
+    embedding: vectors[i],
+  }))
+
+  const storeError = await storeChunks(supabase, sections, backend.model, rows)
+
+  return {
+    chunks: rows.map(toIndexedChunk),
+    storeError,
+  }
+}
+
+/**
+ * Index of the given sections for the configured backend. Sections without
+ * current vectors (new, edited or indexed with another model) are embedded
+ * on the fly.
+ */
+export async function loadSectionIndex(
+  supabase: SupabaseClient,
+  sections: IndexableSection[],
+  backend: EmbeddingBackend = getEmbeddingBackend()
+): Promise<IndexedChunk[]> {
+  if (sections.length === 0) return []
+
+  const documentIds = [...new Set(sections.map((s) => s.document_id))]
+  const stored = await loadStoredChunks(supabase, documentIds, backend.model)
+
+  const storedBySection = new Map<string, typeof stored>()
+  for (const row of stored) {
+    const rows = storedBySection.get(row.section_id) ?? []
+    rows.push(row)
+    storedBySection.set(row.section_id, rows)
+  }
+
+  const current: IndexedChunk[] = []
+  const stale: IndexableSection[] = []
+  for (const section of sections) {
+    const rows = storedBySection.get(section.id)
+    const hash = sectionHash(section)
+    if (rows && rows.length > 0 && rows.every((row) => row.content_hash === hash)) {
+      current.push(...rows.map(toIndexedChunk))
+    } else {
+      stale.push(section)
+    }
+  }
+
+  if (stale.length === 0) return current
+
+  const { chunks, storeError } = await embedSections(supabase, stale, backend)
+  if (storeError) {
+    console.error('Failed to store section embeddings:', storeError)
+  }
+  return [...current, ...chunks]
+}
+
+/**
+ * Build the index for all sections of a document, e.g. after parsing
+ */
+export async function indexDocument(
+  supabase: SupabaseClient,
+  documentId: string,
+  backend: EmbeddingBackend = getEmbeddingBackend()
+): Promise<number> {
+  const { data: sections, error } = await supabase
+    .from('sections')
+    .select('id, document_id, title, content')
+    .eq('document_id', documentId)
+
+  if (error) throw error
+
+  const { chunks, storeError } = await embedSections(supabase, sections || [], backend)
+  if (storeError) throw storeError
+  return chunks.length
+}
+
+/**
+ * The chunks most similar to a query vector above the relevance threshold,
+ * at most perSection chunks of the same section
+ */
+export function retrieveChunks(
+  query: number[],
+  chunks: IndexedChunk[],
+  minScore: number,
+  limit: number = 6,
+  perSection: number = 2
+): RetrievedChunk[] {
+  const ranked = chunks
+    .map((chunk) => ({ ...chunk, score: cosineSimilarity(query, chunk.embedding) }))
+    .filter((chunk) => chunk.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+
+  const perSectionCount = new Map<string, number>()
+  const result: RetrievedChunk[] = []
+  for (const chunk of ranked) {
+    const count = perSectionCount.get(chunk.section_id) ?? 0
+    if (count >= perSection) continue
+    perSectionCount.set(chunk.section_id, count + 1)
+    result.push(chunk)
+    if (result.length >= limit) break
+  }
+  return result
+}
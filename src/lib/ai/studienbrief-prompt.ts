@@ -125,7 +125,7 @@ METADATEN:
 WICHTIGE REGELN:
 1. Bewahre den vollständigen Originaltext
 2. Formatiere Tabellen als Markdown
-3. Schätze Seitenzahlen basierend auf Textposition
+3. Seitenzahlen: Jede Seite beginnt mit einer Markierung [[Seite N]] - leite pageStart/pageEnd daraus ab und übernimm die Markierungen NICHT in content
 4. Die REIHENFOLGE muss dem Originaldokument entsprechen
 5. Antworte ausschließlich mit validem JSON`
 
@@ -133,8 +133,9 @@ export const STUDIENBRIEF_USER_PROMPT = (
   filename: string,
   totalPages: number,
   text: string,
-  imageContext: string
-) => `Strukturiere folgendes Studienbrief-Dokument "${filename}" (${totalPages} Seiten) HIERARCHISCH:${imageContext}
+  imageContext: string,
+  chunkContext: string = ''
+) => `Strukturiere folgendes Studienbrief-Dokument "${filename}" (${totalPages} Seiten) HIERARCHISCH:${imageContext}${chunkContext}
 
 ${text}
 
@@ -174,3 +175,32 @@ KRITISCH:
 - Unterkapitel (1.1, 1.2) und spezielle Elemente (Lernziele, Aufgaben innerhalb eines Kapitels) haben level: 1
 - Die chapter_number gruppiert zusammengehörige Abschnitte
 - Einführung: chapter_number "intro", Abschluss-Zusammenfassung: chapter_number "outro"`
+
+/**
+ * Extra instructions for one chunk of a long Studienbrief
+ * Tells the model where the chunk sits and how the previous chunk ended
+ */
+export const STUDIENBRIEF_CHUNK_CONTEXT = (
+  chunkIndex: number,
+  totalChunks: number,
+  pageStart: number,
+  pageEnd: number,
+  previousChapterNumber: string | null,
+  previousSectionTitle: string | null
+) => {
+  if (totalChunks <= 1) return ''
+
+  const continuation = previousSectionTitle
+    ? `
+- Der vorherige Teil endete in Kapitel "${previousChapterNumber ?? '0'}" mit dem Abschnitt "${previousSectionTitle}"
+- Beginnt dieser Teil mitten in diesem Abschnitt, setze beim ERSTEN Abschnitt "continues_previous": true
+- Abschnitte vor der nächsten Kapitelüberschrift gehören weiter zu chapter_number "${previousChapterNumber ?? '0'}"`
+    : ''
+
+  return `
+
+TEILDOKUMENT:
+- Dies ist Teil ${chunkIndex + 1} von ${totalChunks} (Seiten ${pageStart}–${pageEnd})
+- Seitenzahlen (pageStart/pageEnd) beziehen sich auf das GESAMTE Dokument
+- solution_id/exercise_id sind Indizes der Abschnitte INNERHALB dieses Teils (0-basiert)${continuation}`
+}
@@ -0,0 +1,73 @@
+/**
+ * Tutor Conversations
+ * Builds the chat for a thread with the AI assistant: the marked passage and
+ * its section as context, the previous turns and the new message
+ */
+
+import type { ChatMessage } from './provider'
+import type { TutorMessage, TutorMode } from '@/lib/supabase/types'
+
+// Earlier turns beyond this are left out to keep the prompt small
+const MAX_HISTORY_MESSAGES = 12
+
+const MAX_TITLE_LENGTH = 60
+
+const SYSTEM_PROMPTS: Record<TutorMode, string> = {
+  explain: `Du bist ein Lernassistent. Antworte kurz und knackig.
+
+Regeln:
+- MAX 2-3 Sätze ODER 3-4 Stichpunkte
+- Keine Einleitungen wie "Gerne erkläre ich..."
+- Direkt zur Sache, ein kurzes Beispiel nur wenn nötig
+- Bei Rückfragen knüpfe an deine vorherigen Antworten an
+- Deutsch`,
+
+  socratic: `Du bist ein sokratischer Tutor. Du gibst keine fertigen Antworten, sondern führst Studierende mit Fragen selbst zur Lösung.
+
+Regeln:
+- Stelle immer nur EINE gezielte Frage, die einen Schritt weiterführt
+- Bestätige richtige Überlegungen kurz und baue darauf auf
+- Korrigiere Fehlvorstellungen mit einer Rückfrage oder einem kleinen Hinweis, nicht mit der Lösung
+- Erst wenn ausdrücklich nach der Lösung gefragt wird oder mehrere Versuche gescheitert sind, erkläre kurz und prüfe dann mit einer Frage das Verständnis
+- MAX 3 Sätze, Deutsch`,
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.substring(0, maxLength) + '...' : text
+}
+
+/**
+ * Title of a new thread, from the first message
+ */
+export function threadTitle(message: string): string {
+  const singleLine = message.replace(/\s+/g, ' ').trim()
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? singleLine.substring(0, MAX_TITLE_LENGTH - 1) + '…'
+    : singleLine
+}
+
+/**
+ * Messages for the provider: system prompt of the mode, the passage the
+ * thread started from, the most recent turns and the new message
+ */
+export function buildTutorMessages(
+  mode: TutorMode,
+  context: { sectionTitle: string; sectionContent: string; textSelection: string },
+  history: Pick<TutorMessage, 'role' | 'content'>[],
+  message: string
+): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `${SYSTEM_PROMPTS[mode]}
+
+Abschnitt "${context.sectionTitle}":
+${truncate(context.sectionContent, 4000)}
+
+Markierter Text, um den es geht:
+"${truncate(context.textSelection, 2000)}"`,
+    },
+    ...history.slice(-MAX_HISTORY_MESSAGES).map((m) => ({ role: m.role, content: m.content })),
+    { role: 'user', content: message },
+  ]
+}
@@ -0,0 +1,306 @@
+/**
+ * Exam Builder
+ * Draws a mock exam from the flashcards, exercises and quiz questions of all
+ * documents in a module. Each kind gets its share of the questions; within
+ * a kind, chapters are drawn in proportion to their length in the scripts.
+ */
+
+import { chapterKey } from '@/lib/flashcards/chapter-cards'
+import { parseCloze } from '@/lib/flashcards/cloze'
+import type {
+  ExamItem,
+  ExamItemKey,
+  ExamItemKind,
+  Flashcard,
+  ModuleExam,
+  QuizQuestion,
+  Section,
+  SectionMetadata,
+} from '@/lib/supabase/types'
+
+export const EXAM_ITEM_KINDS: ExamItemKind[] = ['quiz', 'flashcard', 'exercise']
+
+/** Points per question: open answers count more than choosing an option */
+export const EXAM_POINTS: Record<ExamItemKind, number> = {
+  quiz: 1,
+  flashcard: 2,
+  exercise: 4,
+}
+
+export interface ExamConfig {
+  questionCount: number
+  durationMinutes: number
+  /** Relative share of each kind, e.g. { quiz: 50, flashcard: 30, exercise: 20 } */
+  mix: Record<ExamItemKind, number>
+}
+
+export const DEFAULT_EXAM_CONFIG: ExamConfig = {
+  questionCount: 20,
+  durationMinutes: 45,
+  mix: { quiz: 40, flashcard: 40, exercise: 20 },
+}
+
+export const EXAM_LIMITS = {
+  questionCount: { min: 5, max: 60 },
+  durationMinutes: { min: 5, max: 240 },
+}
+
+/** A question that could be drawn, with the chapter it belongs to */
+export interface ExamCandidate {
+  item: Omit<ExamItemKey, 'id'>
+  chapter: string
+}
+
+type ExamSection = Pick<Section, 'id' | 'document_id' | 'title' | 'section_type' | 'metadata' | 'content'>
+
+export interface ExamSources {
+  documents: { id: string; title: string }[]
+  sections: ExamSection[]
+  flashcards: Pick<Flashcard, 'document_id' | 'section_id' | 'question' | 'answer' | 'card_type'>[]
+  /** Exercise section id → solution section id (links and metadata) */
+  solutionIds: Map<string, string>
+  /** Questions of the latest quiz per learning unit, with the unit's first section */
+  quizzes: { questions: QuizQuestion[]; fallbackSectionId: string | null }[]
+}
+
+function clamp(value: number, { min, max }: { min: number; max: number }): number {
+  return Math.min(max, Math.max(min, Math.round(value)))
+}
+
+/**
+ * Bring a requested configuration into the allowed range
+ */
+export function normalizeExamConfig(config: Partial<ExamConfig>): ExamConfig {
+  const mix = { ...DEFAULT_EXAM_CONFIG.mix, ...config.mix }
+  for (const kind of EXAM_ITEM_KINDS) {
+    mix[kind] = Math.max(0, Number(mix[kind]) || 0)
+  }
+  return {
+    questionCount: clamp(config.questionCount ?? DEFAULT_EXAM_CONFIG.questionCount, EXAM_LIMITS.questionCount),
+    durationMinutes: clamp(config.durationMinutes ?? DEFAULT_EXAM_CONFIG.durationMinutes, EXAM_LIMITS.durationMinutes),
+    mix: EXAM_ITEM_KINDS.some((kind) => mix[kind] > 0) ? mix : DEFAULT_EXAM_CONFIG.mix,
+  }
+}
+
+// Chapters are counted per document: chapter 2 of two scripts are different
+function examChapter(documentId: string, section: Pick<Section, 'section_type' | 'metadata'> | undefined): string {
+  return `${documentId}:${(section && chapterKey(section)) ?? '0'}`
+}
+
+// Gaps are shown as blanks (with their hint, if any)
+function clozePrompt(text: string): string {
+  return parseCloze(text)
+    .map((s) => (s.type === 'gap' ? (s.hint ? `[… (${s.hint})]` : '[…]') : s.text))
+    .join('')
+}
+
+/**
+ * Every question the module's documents offer
+ */
+export function collectExamCandidates(sources: ExamSources): ExamCandidate[] {
+  const sectionsById = new Map(sources.sections.map((s) => [s.id, s]))
+  const documentTitles = new Map(sources.documents.map((d) => [d.id, d.title]))
+
+  const sourceTitle = (documentId: string, section: ExamSection | undefined) =>
+    [documentTitles.get(documentId), section?.title].filter(Boolean).join(' · ')
+
+  const candidates: ExamCandidate[] = []
+
+  for (const card of sources.flashcards) {
+    if (!card.question.trim() || !card.answer.trim()) continue
+    const section = card.section_id ? sectionsById.get(card.section_id) : undefined
+    candidates.push({
+      chapter: examChapter(card.document_id, section),
+      item: {
+        kind: 'flashcard',
+        prompt: card.card_type === 'cloze' ? clozePrompt(card.question) : card.question,
+        points: EXAM_POINTS.flashcard,
+        document_id: card.document_id,
+        section_id: card.section_id,
+        source_title: sourceTitle(card.document_id, section),
+        reference: card.answer,
+      },
+    })
+  }
+
+  for (const section of sources.sections) {
+    if (section.section_type !== 'exercise' || !section.content.trim()) continue
+    const solutionId = sources.solutionIds.get(section.id)
+    const solution = solutionId ? sectionsById.get(solutionId) : undefined
+    if (!solution?.content.trim()) continue
+
+    candidates.push({
+      chapter: examChapter(section.document_id, section),
+      item: {
+        kind: 'exercise',
+        prompt: `${section.title}\n\n${section.content}`,
+        points: EXAM_POINTS.exercise,
+        document_id: section.document_id,
+        section_id: section.id,
+        source_title: sourceTitle(section.document_id, section),
+        reference: solution.content,
+      },
+    })
+  }
+
+  for (const quiz of sources.quizzes) {
+    for (const question of quiz.questions) {
+      const section = sectionsById.get(question.section_id ?? quiz.fallbackSectionId ?? '')
+      if (!section) continue
+      candidates.push({
+        chapter: examChapter(section.document_id, section),
+        item: {
+          kind: 'quiz',
+          prompt: question.type === 'true_false' ? `Wahr oder falsch? ${question.question}` : question.question,
+          options: question.options,
+          points: EXAM_POINTS.quiz,
+          document_id: section.document_id,
+          section_id: section.id,
+          source_title: sourceTitle(section.document_id, section),
+          reference: question.explanation,
+          correct_index: question.correct_index,
+        },
+      })
+    }
+  }
+
+  return candidates
+}
+
+/**
+ * Solution section per exercise: explicit links first, then solutions
+ * pointing back to their exercise via metadata
+ */
+export function exerciseSolutionIds(
+  sections: Pick<Section, 'id' | 'section_type' | 'metadata'>[],
+  links: { exercise_section_id: string; solution_section_id: string }[]
+): Map<string, string> {
+  const solutionIds = new Map<string, string>()
+  for (const section of sections) {
+    const exerciseId = (section.metadata as SectionMetadata)?.exercise_id
+    if (section.section_type === 'solution' && exerciseId) solutionIds.set(exerciseId, section.id)
+  }
+  for (const link of links) solutionIds.set(link.exercise_section_id, link.solution_section_id)
+  return solutionIds
+}
+
+/**
+ * Chapter weights: length of the chapter's text in the module
+ */
+export function chapterWeights(sections: ExamSection[]): Map<string, number> {
+  const weights = new Map<string, number>()
+  for (const section of sections) {
+    const chapter = examChapter(section.document_id, section)
+    weights.set(chapter, (weights.get(chapter) ?? 0) + section.content.length)
+  }
+  return weights
+}
+
+/**
+ * Questions per kind: split by the mix (largest remainder), then hand the
+ * places a kind cannot fill to kinds with questions left
+ */
+export function allocateQuestions(
+  questionCount: number,
+  mix: Record<ExamItemKind, number>,
+  available: Record<ExamItemKind, number>
+): Record<ExamItemKind, number> {
+  const kinds = EXAM_ITEM_KINDS.filter((kind) => mix[kind] > 0)
+  const total = kinds.reduce((sum, kind) => sum + mix[kind], 0)
+  const counts: Record<ExamItemKind, number> = { quiz: 0, flashcard: 0, exercise: 0 }
+  if (total === 0) return counts
+
+  const exact = kinds.map((kind) => ({ kind, share: (questionCount * mix[kind]) / total }))
+  for (const { kind, share } of exact) counts[kind] = Math.floor(share)
+  let remaining = questionCount - kinds.reduce((sum, kind) => sum + counts[kind], 0)
+  for (const { kind } of [...exact].sort((a, b) => (b.share % 1) - (a.share % 1))) {
+    if (remaining-- <= 0) break
+    counts[kind]++
+  }
+
+  // Move places a kind cannot fill to the others, in order of their share
+  let shortfall = 0
+  for (const kind of EXAM_ITEM_KINDS) {
+    if (counts[kind] > available[kind]) {
+      shortfall += counts[kind] - available[kind]
+      counts[kind] = available[kind]
+    }
+  }
+  for (const { kind } of [...exact].sort((a, b) => b.share - a.share)) {
+    const extra = Math.min(shortfall, available[kind] - counts[kind])
+    counts[kind] += extra
+    shortfall -= extra
+  }
+  return counts
+}
+
+/**
+ * Draw the exam. Within a kind every chapter's chance is proportional to its
+ * weight, however many questions it happens to have.
+ */
+export function drawExamItems(
+  candidates: ExamCandidate[],
+  config: ExamConfig,
+  weights: Map<string, number>,
+  random: () => number = Math.random
+): ExamItemKey[] {
+  const byKind = new Map<ExamItemKind, ExamCandidate[]>(EXAM_ITEM_KINDS.map((kind) => [kind, []]))
+  for (const candidate of candidates) byKind.get(candidate.item.kind)!.push(candidate)
+
+  const available = Object.fromEntries(
+    EXAM_ITEM_KINDS.map((kind) => [kind, byKind.get(kind)!.length])
+  ) as Record<ExamItemKind, number>
+  const counts = allocateQuestions(config.questionCount, config.mix, available)
+
+  const positiveWeights = [...weights.values()].filter((w) => w > 0)
+  const fallbackWeight = positiveWeights.length > 0
+    ? positiveWeights.reduce((a, b) => a + b, 0) / positiveWeights.length
+    : 1
+
+  const drawn: Omit<ExamItemKey, 'id'>[] = []
+  for (const kind of EXAM_ITEM_KINDS) {
+    const pool = byKind.get(kind)!
+    const perChapter = new Map<string, number>()
+    for (const c of pool) perChapter.set(c.chapter, (perChapter.get(c.chapter) ?? 0) + 1)
+
+    // Weighted sampling without replacement: highest random^(1/weight) wins
+    // (compared as logarithms, so large weights keep their precision)
+    const keyed = pool.map((candidate) => {
+      const chapterWeight = weights.get(candidate.chapter) || fallbackWeight
+      const weight = chapterWeight / perChapter.get(candidate.chapter)!
+      return { candidate, key: Math.log(random()) / weight }
+    })
+    keyed.sort((a, b) => b.key - a.key)
+    drawn.push(...keyed.slice(0, counts[kind]).map(({ candidate }) => candidate.item))
+  }
+
+  // Mix the kinds, then number the questions
+  const shuffled = drawn
+    .map((item) => ({ item, order: random() }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ item }) => item)
+  return shuffled.map((item, index) => ({ ...item, id: `e${index + 1}` }))
+}
+
+/**
+ * The question without its answer key, as sent while the exam runs
+ */
+export function toExamItem(item: ExamItemKey): ExamItem {
+  return {
+    id: item.id,
+    kind: item.kind,
+    prompt: item.prompt,
+    ...(item.options ? { options: item.options } : {}),
+    points: item.points,
+  }
+}
+
+/** An exam as sent to the client; the items carry their key once it is submitted */
+export type ExamView = Omit<ModuleExam, 'items'> & { items: ExamItem[] }
+
+/**
+ * Hide the answer key while the exam is running
+ */
+export function examView(exam: ModuleExam): ExamView {
+  return exam.submitted_at ? exam : { ...exam, items: exam.items.map(toExamItem) }
+}
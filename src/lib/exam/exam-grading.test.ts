@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest'
+import { gradeExam, isGradingStale, GRADING_STALE_MS, type OpenAnswerGrader } from './exam-grading'
+import type { AnswerFeedback, ExamItemKey } from '@/lib/supabase/types'
+
+function item(id: string, kind: ExamItemKey['kind'], extra: Partial<ExamItemKey> = {}): ExamItemKey {
+  return {
+    id,
+    kind,
+    prompt: `Frage ${id}`,
+    points: 2,
+    document_id: 'document-1',
+    section_id: null,
+    source_title: 'Skript',
+    reference: 'Musterlösung',
+    ...extra,
+  }
+}
+
+function feedback(score: number): AnswerFeedback {
+  return { covered: [], missing: [], misconceptions: [], score, max_score: 10, summary: 'Bewertet.' }
+}
+
+describe('gradeExam', () => {
+  const items = [
+    item('q1', 'quiz', { options: ['a', 'b'], correct_index: 1 }),
+    item('f1', 'flashcard'),
+    item('e1', 'exercise'),
+    item('f2', 'flashcard'),
+  ]
+
+  it('grades quiz answers against the key and open answers with the grader, in item order', async () => {
+    const results = await gradeExam(items, { q1: 1, f1: 'Antwort', e1: 'Lösung', f2: '  ' }, async () => feedback(5))
+
+    expect(results.map((r) => [r.item_id, r.points])).toEqual([['q1', 2], ['f1', 1], ['e1', 1], ['f2', 0]])
+    expect(results[3]).toMatchObject({ answer: null, feedback: null })
+  })
+
+  it('marks an answer the grader fails on instead of failing the exam', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const grader: OpenAnswerGrader = async (gradedItem) => {
+      if (gradedItem.id === 'e1') throw new Error('Zeitüberschreitung')
+      return feedback(10)
+    }
+
+    const results = await gradeExam(items, { q1: 0, f1: 'Antwort', e1: 'Lösung' }, grader)
+
+    expect(results.find((r) => r.item_id === 'e1')).toEqual({
+      item_id: 'e1',
+      answer: 'Lösung',
+      points: 0,
+      feedback: null,
+      grading_failed: true,
+    })
+    expect(results.find((r) => r.item_id === 'f1')).toMatchObject({ points: 2 })
+    expect(logged).toHaveBeenCalledOnce()
+    logged.mockRestore()
+  })
+
+  it('grades at most `concurrency` open answers at the same time', async () => {
+    const open = Array.from({ length: 10 }, (_, i) => item(`f${i}`, 'flashcard'))
+    const answers = Object.fromEntries(open.map((o) => [o.id, 'Antwort']))
+    let running = 0
+    let maxRunning = 0
+
+    await gradeExam(open, answers, async () => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      running--
+      return feedback(10)
+    }, 3)
+
+    expect(maxRunning).toBe(3)
+  })
+})
+
+describe('isGradingStale', () => {
+  const submittedAt = '2026-01-05T08:00:00Z'
+  const later = (ms: number) => new Date(new Date(submittedAt).getTime() + ms)
+
+  it('restarts grading only when it has been running too long without results', () => {
+    const exam = { submitted_at: submittedAt, grading_started_at: submittedAt, results: null }
+
+    expect(isGradingStale(exam, later(GRADING_STALE_MS - 1))).toBe(false)
+    expect(isGradingStale(exam, later(GRADING_STALE_MS + 1))).toBe(true)
+    expect(isGradingStale({ ...exam, results: [] }, later(GRADING_STALE_MS + 1))).toBe(false)
+    expect(isGradingStale({ ...exam, submitted_at: null }, later(GRADING_STALE_MS + 1))).toBe(false)
+  })
+})
@@ -0,0 +1,182 @@
+/**
+ * Exam Grading
+ * Quiz questions are graded against their key; open answers (flashcards and
+ * exercises) by comparing them with the reference answer
+ */
+
+import type {
+  AnswerFeedback,
+  ExamAnswerMap,
+  ExamItemKey,
+  ExamItemResult,
+  ExamItemKind,
+  ModuleExam,
+} from '@/lib/supabase/types'
+
+export type ExamAnswers = ExamAnswerMap
+
+// Answers arriving this long after the time is up still count (auto-submit on a slow connection)
+export const SUBMIT_GRACE_MS = 60 * 1000
+
+// Open answers graded at the same time
+export const GRADING_CONCURRENCY = 4
+
+// Grading still without results this long after it started was most likely
+// cut off by a timeout
+export const GRADING_STALE_MS = 10 * 60 * 1000
+
+/** Grades an open answer, e.g. with the AI feedback on exercises */
+export type OpenAnswerGrader = (item: ExamItemKey, answer: string) => Promise<AnswerFeedback>
+
+export interface ExamKindScore {
+  kind: ExamItemKind
+  points: number
+  max_points: number
+}
+
+/**
+ * When the time for an exam is up
+ */
+export function examDeadline(exam: Pick<ModuleExam, 'started_at' | 'duration_minutes'>): Date {
+  return new Date(new Date(exam.started_at).getTime() + exam.duration_minutes * 60 * 1000)
+}
+
+/**
+ * Whether a submitted exam waits for grading that is no longer running
+ */
+export function isGradingStale(
+  exam: Pick<ModuleExam, 'submitted_at' | 'grading_started_at' | 'results'>,
+  now: Date = new Date()
+): boolean {
+  if (!exam.submitted_at || exam.results) return false
+  const started = exam.grading_started_at ?? exam.submitted_at
+  return now.getTime() - new Date(started).getTime() > GRADING_STALE_MS
+}
+
+/**
+ * Whether answers handed in at `now` came in after the time was up
+ */
+export function isLateSubmission(
+  exam: Pick<ModuleExam, 'started_at' | 'duration_minutes'>,
+  now: Date = new Date()
+): boolean {
+  return now.getTime() > examDeadline(exam).getTime() + SUBMIT_GRACE_MS
+}
+
+/**
+ * Points for an open answer: the feedback score scaled to the item,
+ * rounded to half points
+ */
+export function pointsFromFeedback(feedback: AnswerFeedback, maxPoints: number): number {
+  if (feedback.max_score <= 0) return 0
+  return Math.round((feedback.score / feedback.max_score) * maxPoints * 2) / 2
+}
+
+function feedbackText(feedback: AnswerFeedback): string {
+  const missing = feedback.missing.length > 0 ? ` Es fehlt: ${feedback.missing.join('; ')}` : ''
+  return `${feedback.summary}${missing}`.trim()
+}
+
+async function gradeItem(
+  item: ExamItemKey,
+  answer: string | number | null,
+  gradeOpenAnswer: OpenAnswerGrader
+): Promise<ExamItemResult> {
+  if (item.kind === 'quiz') {
+    const chosen = typeof answer === 'number' ? answer : null
+    return {
+      item_id: item.id,
+      answer: chosen,
+      points: chosen !== null && chosen === item.correct_index ? item.points : 0,
+      feedback: null,
+    }
+  }
+
+  const text = typeof answer === 'string' ? answer.trim() : ''
+  if (!text) {
+    return { item_id: item.id, answer: null, points: 0, feedback: null }
+  }
+
+  try {
+    const feedback = await gradeOpenAnswer(item, text)
+    return {
+      item_id: item.id,
+      answer: text,
+      points: pointsFromFeedback(feedback, item.points),
+      feedback: feedbackText(feedback) || null,
+    }
+  } catch (error) {
+    // One failed request must not cost the whole exam
+    console.error(`Failed to grade exam item ${item.id}:`, error)
+    return { item_id: item.id, answer: text, points: 0, feedback: null, grading_failed: true }
+  }
+}
+
+/**
+ * Grade all items, in item order. Open answers are graded a few at a time;
+ * empty answers get no points without asking the grader, and an answer the
+ * grader fails on gets no points and is marked grading_failed.
+ */
+export async function gradeExam(
+  items: ExamItemKey[],
+  answers: ExamAnswers,
+  gradeOpenAnswer: OpenAnswerGrader,
+  concurrency: number = GRADING_CONCURRENCY
+): Promise<ExamItemResult[]> {
+  const results: ExamItemResult[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await gradeItem(items[index], answers[items[index].id] ?? null, gradeOpenAnswer)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  return results
+}
+
+/**
+ * Points per kind of question, for the report
+ */
+export function scoresByKind(items: ExamItemKey[], results: ExamItemResult[]): ExamKindScore[] {
+  const points = new Map(results.map((r) => [r.item_id, r.points]))
+  const byKind = new Map<ExamItemKind, ExamKindScore>()
+  for (const item of items) {
+    const entry = byKind.get(item.kind) ?? { kind: item.kind, points: 0, max_points: 0 }
+    entry.points += points.get(item.id) ?? 0
+    entry.max_points += item.points
+    byKind.set(item.kind, entry)
+  }
+  return [...byKind.values()]
+}
+
+/**
+ * Whether an item counts as missed in the report (less than full points)
+ */
+export function isMissed(item: ExamItemKey, result: ExamItemResult | undefined): boolean {
+  return !result || result.points < item.points
+}
+
+// Minimum share of points per grade (German scale, 50% to pass)
+const GRADE_THRESHOLDS: [number, string][] = [
+  [0.95, '1,0'],
+  [0.9, '1,3'],
+  [0.85, '1,7'],
+  [0.8, '2,0'],
+  [0.75, '2,3'],
+  [0.7, '2,7'],
+  [0.65, '3,0'],
+  [0.6, '3,3'],
+  [0.55, '3,7'],
+  [0.5, '4,0'],
+]
+
+/**
+ * Grade for a score, "5,0" below half the points
+ */
+export function examGrade(score: number, maxScore: number): string {
+  const ratio = maxScore > 0 ? score / maxScore : 0
+  return GRADE_THRESHOLDS.find(([threshold]) => ratio >= threshold)?.[1] ?? '5,0'
+}
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { runAudiobookJob } from './audiobook-job'
+import { buildAudiobookTag, clipDurationMs, type AudiobookChapterPlan } from './audiobook'
+import { createMockBackend, setTTSBackend } from '@/lib/tts/backend'
+import { concatChunks } from '@/lib/tts/audio-cache'
+import { mp3Duration, stripId3 } from '@/lib/tts/mp3'
+import { DEFAULT_VOICE_SETTINGS } from '@/lib/tts/elevenlabs'
+
+type Row = Record<string, unknown>
+
+/**
+ * In-memory stand-in for the audiobook_jobs table and the storage bucket,
+ * supporting the queries the job runner makes
+ */
+function createFakeSupabase(job: Row) {
+  const rows: Row[] = [structuredClone(job)]
+  const files = new Map<string, Uint8Array>()
+  let failUploads = false
+
+  function query() {
+    const filters: ((row: Row) => boolean)[] = []
+    let patch: Row | null = null
+
+    const run = () => {
+      const matches = rows.filter((row) => filters.every((filter) => filter(row)))
+      if (patch) matches.forEach((row) => Object.assign(row, structuredClone(patch)))
+      return matches.map((row) => structuredClone(row))
+    }
+
+    const builder = {
+      select: () => builder,
+      update: (values: Row) => {
+        patch = values
+        return builder
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value)
+        return builder
+      },
+      single: async () => {
+        const [row] = run()
+        return row ? { data: row, error: null } : { data: null, error: { message: 'not found' } }
+      },
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) => resolve({ data: run(), error: null }),
+    }
+    return builder
+  }
+
+  const bucket = {
+    upload: async (path: string, data: Uint8Array) => {
+      if (failUploads) return { error: new Error('Speicher voll') }
+      files.set(path, data)
+      return { error: null }
+    },
+    download: async (path: string) => {
+      const data = files.get(path)
+      return data ? { data: new Blob([data as Uint8Array<ArrayBuffer>]), error: null } : { data: null, error: new Error('not found') }
+    },
+    remove: async (paths: string[]) => {
+      paths.forEach((path) => files.delete(path))
+      return { error: null }
+    },
+  }
+
+  const client = { from: () => query(), storage: { from: () => bucket } }
+
+  return {
+    supabase: client as unknown as SupabaseClient,
+    job: () => rows[0],
+    files,
+    failUploads: () => {
+      failUploads = true
+    },
+  }
+}
+
+const chapters: AudiobookChapterPlan[] = [
+  { title: '1 Grundlagen', texts: Array.from({ length: 12 }, (_, i) => `Absatz ${i + 1} über Grundlagen.`) },
+  { title: '2 Planung', texts: Array.from({ length: 13 }, (_, i) => `Absatz ${i + 1} zur Planung von Projekten.`) },
+]
+const info = { title: 'Projektmanagement', author: 'Dr. Muster', institution: 'Hochschule' }
+
+function queuedJob(): Row {
+  return {
+    id: 'job-1',
+    document_id: 'document-1',
+    learning_unit_id: null,
+    user_id: 'user-1',
+    status: 'queued',
+    title: info.title,
+    progress: { done: 0, total: 25 },
+    artifacts: { info, chapters, parts: [] },
+    storage_path: null,
+    error: null,
+    created_at: '2026-01-05T08:00:00.000Z',
+    updated_at: '2026-01-05T08:00:00.000Z',
+  }
+}
+
+async function mockClip(text: string): Promise<Uint8Array> {
+  return stripId3((await createMockBackend().synthesize(text, DEFAULT_VOICE_SETTINGS)).audio)
+}
+
+// Every synthesized text takes ten seconds on the worker's clock, so a part
+// of 20 texts uses up the three-minute run budget
+let clock = 0
+
+beforeEach(() => {
+  clock = 0
+  vi.spyOn(Date, 'now').mockImplementation(() => clock)
+  const backend = createMockBackend()
+  setTTSBackend({
+    ...backend,
+    synthesize: async (text, settings) => {
+      clock += 10_000
+      return backend.synthesize(text, settings)
+    },
+  })
+})
+
+afterEach(() => {
+  setTTSBackend(null)
+  vi.restoreAllMocks()
+})
+
+describe('runAudiobookJob', () => {
+  it('renders one part, pauses at the run budget and resumes with the next part', async () => {
+    const fake = createFakeSupabase(queuedJob())
+
+    await runAudiobookJob(fake.supabase, 'job-1')
+
+    expect(fake.job()).toMatchObject({ status: 'paused', progress: { done: 20, total: 25 } })
+    expect([...fake.files.keys()]).toEqual(['audiobooks/job-1/part-0.mp3'])
+
+    clock = 0
+    await runAudiobookJob(fake.supabase, 'job-1')
+
+    expect(fake.job()).toMatchObject({
+      status: 'completed',
+      storage_path: 'audiobooks/job-1/audiobook.mp3',
+      progress: { done: 25, total: 25 },
+      artifacts: { parts: [] },
+    })
+    expect([...fake.files.keys()]).toEqual(['audiobooks/job-1/audiobook.mp3'])
+  })
+
+  it('joins the parts under one tag with chapter markers from the clip durations', async () => {
+    const fake = createFakeSupabase(queuedJob())
+    await runAudiobookJob(fake.supabase, 'job-1')
+    clock = 0
+    await runAudiobookJob(fake.supabase, 'job-1')
+
+    const clips = await Promise.all(chapters.flatMap((chapter) => chapter.texts).map(mockClip))
+    const tag = buildAudiobookTag(chapters, info, clips.map(clipDurationMs))
+    const audiobook = fake.files.get('audiobooks/job-1/audiobook.mp3')!
+
+    expect(audiobook).toEqual(concatChunks([tag, ...clips]))
+    expect(mp3Duration(audiobook)).toBeCloseTo(clips.reduce((sum, clip) => sum + mp3Duration(clip), 0), 6)
+  })
+
+  it('leaves a job alone that another worker is running', async () => {
+    const fake = createFakeSupabase({ ...queuedJob(), status: 'running', updated_at: new Date(0).toISOString() })
+
+    await runAudiobookJob(fake.supabase, 'job-1')
+
+    expect(fake.job().status).toBe('running')
+    expect(fake.files.size).toBe(0)
+  })
+
+  it('marks the job as failed when a part cannot be stored', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const fake = createFakeSupabase(queuedJob())
+    fake.failUploads()
+
+    await runAudiobookJob(fake.supabase, 'job-1')
+
+    expect(fake.job()).toMatchObject({ status: 'error', error: 'Speicher voll' })
+  })
+})
@@ -0,0 +1,327 @@
+/**
+ * Audiobook Job Runner
+ * Renders an audiobook in the background, a few dozen paragraphs per stored
+ * part, so a long document is not bound to the time limit of one request.
+ * A worker stops before that limit (status paused); the next status poll
+ * continues with the next part, and the finished parts are joined at the end.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  audiobookTexts,
+  buildAudiobookTag,
+  clipDurationMs,
+  synthesizeClips,
+  type AudiobookChapterPlan,
+  type AudiobookInfo,
+} from '@/lib/export/audiobook'
+import { getTTSBackend } from '@/lib/tts/backend'
+import { cacheSpeech, concatChunks, getCachedAudio, ttsCachePath } from '@/lib/tts/audio-cache'
+import { DEFAULT_VOICE_SETTINGS } from '@/lib/tts/elevenlabs'
+import type { AudiobookJob } from '@/lib/supabase/types'
+
+// Same private bucket as the TTS cache, only accessed with the service role
+const STORAGE_BUCKET = 'tts-audio'
+
+// Spoken texts per stored part
+const PART_SIZE = 20
+
+// A worker starts no new part after this long, well within the route's maxDuration
+const RUN_BUDGET_MS = 3 * 60 * 1000
+
+// A running job that has not been updated for this long was most likely killed by a timeout
+export const STALE_JOB_MS = 3 * 60 * 1000
+
+// Download links for finished audiobooks expire after this many seconds
+const DOWNLOAD_URL_TTL = 60 * 60
+
+// Artifacts hold the full text of the audiobook and are never sent to the client
+export const AUDIOBOOK_JOB_COLUMNS = 'id, document_id, learning_unit_id, user_id, status, title, progress, storage_path, error, created_at, updated_at'
+
+interface AudiobookPart {
+  path: string
+  durations_ms: number[]
+}
+
+interface AudiobookArtifacts {
+  info: AudiobookInfo
+  chapters: AudiobookChapterPlan[]
+  parts?: AudiobookPart[]
+}
+
+interface JobRow extends AudiobookJob {
+  artifacts: AudiobookArtifacts
+}
+
+function jobFolder(jobId: string): string {
+  return `audiobooks/${jobId}`
+}
+
+async function updateJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  patch: Partial<Omit<JobRow, 'id'>>
+) {
+  const { error } = await supabase
+    .from('audiobook_jobs')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+
+  if (error) {
+    console.error('Failed to update audiobook job:', error)
+  }
+}
+
+/**
+ * Whether a job is currently being worked on by another request
+ */
+export function isAudiobookJobActive(job: Pick<AudiobookJob, 'status' | 'updated_at'>): boolean {
+  if (job.status !== 'running' && job.status !== 'queued') return false
+  return Date.now() - new Date(job.updated_at).getTime() < STALE_JOB_MS
+}
+
+/**
+ * Whether a job is unfinished and nobody is working on it (paused or abandoned)
+ */
+export function isAudiobookJobIdle(job: Pick<AudiobookJob, 'status' | 'updated_at'>): boolean {
+  if (job.status === 'paused') return true
+  return (job.status === 'running' || job.status === 'queued') && !isAudiobookJobActive(job)
+}
+
+/**
+ * Delete a job together with its parts and finished file
+ */
+async function removeAudiobookJob(supabase: SupabaseClient, jobId: string): Promise<void> {
+  const bucket = supabase.storage.from(STORAGE_BUCKET)
+  const { data: files } = await bucket.list(jobFolder(jobId))
+
+  if (files && files.length > 0) {
+    await bucket.remove(files.map((file) => `${jobFolder(jobId)}/${file.name}`))
+  }
+
+  await supabase.from('audiobook_jobs').delete().eq('id', jobId)
+}
+
+/**
+ * Create the audiobook job for a document or learning unit.
+ * - An active job for the same content is returned untouched (queued: false)
+ * - A failed or abandoned job with the same chapter plan resumes after its last part
+ * - Otherwise earlier exports of the same scope are replaced
+ */
+export async function enqueueAudiobookJob(
+  supabase: SupabaseClient,
+  params: {
+    documentId: string
+    learningUnitId: string | null
+    userId: string
+    info: AudiobookInfo
+    chapters: AudiobookChapterPlan[]
+  }
+): Promise<{ job: AudiobookJob; queued: boolean }> {
+  let query = supabase
+    .from('audiobook_jobs')
+    .select('*')
+    .eq('document_id', params.documentId)
+    .eq('user_id', params.userId)
+    .order('created_at', { ascending: false })
+
+  query = params.learningUnitId
+    ? query.eq('learning_unit_id', params.learningUnitId)
+    : query.is('learning_unit_id', null)
+
+  const { data: existing } = await query
+  const jobs = (existing || []) as JobRow[]
+  const samePlan = (job: JobRow) =>
+    JSON.stringify(job.artifacts?.chapters) === JSON.stringify(params.chapters)
+
+  const latest = jobs[0]
+  if (latest && latest.status !== 'completed' && samePlan(latest)) {
+    if (isAudiobookJobActive(latest)) {
+      return { job: latest, queued: false }
+    }
+
+    const { data: job, error } = await supabase
+      .from('audiobook_jobs')
+      .update({ status: 'queued', error: null, updated_at: new Date().toISOString() })
+      .eq('id', latest.id)
+      .select(AUDIOBOOK_JOB_COLUMNS)
+      .single()
+
+    if (error || !job) {
+      throw new Error(error?.message || 'Hörbuch-Export konnte nicht fortgesetzt werden')
+    }
+
+    return { job: job as unknown as AudiobookJob, queued: true }
+  }
+
+  for (const job of jobs) {
+    await removeAudiobookJob(supabase, job.id)
+  }
+
+  const total = audiobookTexts(params.chapters).length
+  const { data: job, error } = await supabase
+    .from('audiobook_jobs')
+    .insert({
+      document_id: params.documentId,
+      learning_unit_id: params.learningUnitId,
+      user_id: params.userId,
+      status: 'queued',
+      title: params.info.title,
+      progress: { done: 0, total },
+      artifacts: { info: params.info, chapters: params.chapters, parts: [] },
+    })
+    .select(AUDIOBOOK_JOB_COLUMNS)
+    .single()
+
+  if (error || !job) {
+    throw new Error(error?.message || 'Hörbuch-Export konnte nicht gestartet werden')
+  }
+
+  return { job: job as unknown as AudiobookJob, queued: true }
+}
+
+/**
+ * Synthesize with the TTS backend; paragraphs already generated for the
+ * reader come from the same cache and cost nothing
+ */
+function createSynthesizer(supabase: SupabaseClient): (text: string) => Promise<Uint8Array> {
+  const backend = getTTSBackend()
+
+  return async (text) => {
+    if (!backend.cacheable) {
+      return (await backend.synthesize(text, DEFAULT_VOICE_SETTINGS)).audio
+    }
+
+    const cachePath = ttsCachePath(text, DEFAULT_VOICE_SETTINGS)
+    const cached = await getCachedAudio(supabase, cachePath)
+    if (cached) return new Uint8Array(await cached.arrayBuffer())
+
+    const speech = await backend.synthesize(text, DEFAULT_VOICE_SETTINGS)
+    if (speech.alignment) {
+      await cacheSpeech(supabase, cachePath, speech.audio, speech.alignment)
+    }
+    return speech.audio
+  }
+}
+
+/**
+ * Render the next parts of a job until it is finished or the run budget is used up.
+ * Only one worker runs a job at a time: the run claims it with a conditional update.
+ */
+export async function runAudiobookJob(supabase: SupabaseClient, jobId: string): Promise<void> {
+  const startedAt = Date.now()
+
+  const { data } = await supabase
+    .from('audiobook_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  const job = data as JobRow | null
+  if (!job) {
+    console.error(`Audiobook job ${jobId} not found`)
+    return
+  }
+
+  if (job.status === 'completed' || job.status === 'error') return
+  if (job.status === 'running' && isAudiobookJobActive(job)) return
+
+  const { data: claimed } = await supabase
+    .from('audiobook_jobs')
+    .update({ status: 'running', updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('updated_at', job.updated_at)
+    .select('id')
+    .maybeSingle()
+
+  if (!claimed) return
+
+  const bucket = supabase.storage.from(STORAGE_BUCKET)
+  const artifacts = job.artifacts
+  const parts = [...(artifacts.parts ?? [])]
+  const texts = audiobookTexts(artifacts.chapters)
+  const synthesize = createSynthesizer(supabase)
+  const outOfTime = () => Date.now() - startedAt > RUN_BUDGET_MS
+
+  try {
+    for (let start = parts.length * PART_SIZE; start < texts.length; start += PART_SIZE) {
+      if (outOfTime()) {
+        await updateJob(supabase, jobId, { status: 'paused' })
+        return
+      }
+
+      const clips = await synthesizeClips(
+        texts.slice(start, start + PART_SIZE).map(({ text }) => text),
+        synthesize
+      )
+
+      const path = `${jobFolder(jobId)}/part-${parts.length}.mp3`
+      const { error: uploadError } = await bucket.upload(path, concatChunks(clips), {
+        contentType: 'audio/mpeg',
+        upsert: true,
+      })
+      if (uploadError) throw uploadError
+
+      parts.push({ path, durations_ms: clips.map(clipDurationMs) })
+      await updateJob(supabase, jobId, {
+        artifacts: { ...artifacts, parts },
+        progress: { done: Math.min(start + PART_SIZE, texts.length), total: texts.length },
+      })
+    }
+
+    if (outOfTime()) {
+      await updateJob(supabase, jobId, { status: 'paused' })
+      return
+    }
+
+    // Join the parts under one ID3 tag with chapter frames
+    const chunks = [
+      buildAudiobookTag(artifacts.chapters, artifacts.info, parts.flatMap((part) => part.durations_ms)),
+    ]
+    for (const part of parts) {
+      const { data: file, error } = await bucket.download(part.path)
+      if (error || !file) throw new Error('Teil des Hörbuchs konnte nicht geladen werden')
+      chunks.push(new Uint8Array(await file.arrayBuffer()))
+    }
+
+    const storagePath = `${jobFolder(jobId)}/audiobook.mp3`
+    const { error: uploadError } = await bucket.upload(storagePath, concatChunks(chunks), {
+      contentType: 'audio/mpeg',
+      upsert: true,
+    })
+    if (uploadError) throw uploadError
+
+    await bucket.remove(parts.map((part) => part.path))
+    await updateJob(supabase, jobId, {
+      status: 'completed',
+      storage_path: storagePath,
+      artifacts: { ...artifacts, parts: [] },
+    })
+  } catch (error) {
+    console.error(`Audiobook job ${jobId} failed:`, error)
+    await updateJob(supabase, jobId, {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Hörbuch konnte nicht erstellt werden',
+    })
+  }
+}
+
+/**
+ * Short-lived link that downloads a finished audiobook under its file name
+ */
+export async function getAudiobookDownloadUrl(
+  supabase: SupabaseClient,
+  storagePath: string,
+  filename: string
+): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .createSignedUrl(storagePath, DOWNLOAD_URL_TTL, { download: filename })
+
+  if (error || !data) {
+    console.error('Failed to sign audiobook download:', error)
+    return null
+  }
+
+  return data.signedUrl
+}
@@ -0,0 +1,167 @@
+/**
+ * Audiobook Export
+ * Renders sections to a single MP3 with chapter markers from the
+ * chapter/subchapter structure and title/author metadata
+ */
+
+import { MAX_TTS_TEXT_LENGTH } from '@/lib/tts/elevenlabs'
+import { buildId3Tag, MAX_ID3_CHAPTERS, type AudioChapter } from '@/lib/tts/id3'
+import { mp3Duration, stripId3 } from '@/lib/tts/mp3'
+import {
+  DEFAULT_SKIPPED_SECTION_TYPES,
+  splitForSpeech,
+  splitParagraphs,
+} from '@/lib/tts/speech-text'
+import type { Section, SectionMetadata, SectionType } from '@/lib/supabase/types'
+
+/** A chapter of the audiobook and the texts spoken in it, in order */
+export interface AudiobookChapterPlan {
+  title: string
+  texts: string[]
+}
+
+export interface AudiobookInfo {
+  title: string
+  author?: string | null
+  institution?: string | null
+}
+
+interface PlanOptions {
+  /** Section types left out (default: solutions and references) */
+  skipTypes?: SectionType[]
+  /** Title of content before the first chapter heading */
+  introTitle?: string
+}
+
+const CHAPTER_TYPES: SectionType[] = ['chapter', 'subchapter']
+
+function chapterTitle(section: Section): string {
+  const metadata = (section.metadata as SectionMetadata) || {}
+  return metadata.chapter_number ? `${metadata.chapter_number} ${section.title}` : section.title
+}
+
+/**
+ * Group sections into chapters; each section is announced by its title and
+ * read paragraph by paragraph, like the reader's document playback
+ */
+export function planAudiobook(sections: Section[], options: PlanOptions = {}): AudiobookChapterPlan[] {
+  const skipTypes = options.skipTypes ?? DEFAULT_SKIPPED_SECTION_TYPES
+  const readable = sections.filter((s) => !skipTypes.includes(s.section_type))
+
+  // Too many markers for one table of contents: only top-level chapters start one
+  const markerTypes: SectionType[] = readable.filter((s) => CHAPTER_TYPES.includes(s.section_type)).length > MAX_ID3_CHAPTERS
+    ? ['chapter']
+    : CHAPTER_TYPES
+
+  const chapters: AudiobookChapterPlan[] = []
+  for (const section of readable) {
+    const paragraphs = splitParagraphs(section.content || '')
+      .flatMap((p) => splitForSpeech(p, MAX_TTS_TEXT_LENGTH))
+    const texts = [section.title.trim(), ...paragraphs].filter(Boolean)
+
+    if (markerTypes.includes(section.section_type) || chapters.length === 0) {
+      if (texts.length === 0) continue
+      chapters.push({
+        title: markerTypes.includes(section.section_type)
+          ? chapterTitle(section)
+          : options.introTitle ?? 'Einleitung',
+        texts,
+      })
+    } else {
+      chapters[chapters.length - 1].texts.push(...texts)
+    }
+  }
+
+  return chapters
+}
+
+/**
+ * Run tasks with a fixed number in flight, keeping results in order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await task(items[index])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+/** One spoken text and the chapter it belongs to */
+export interface AudiobookText {
+  chapter: number
+  text: string
+}
+
+/**
+ * All texts of the audiobook in playing order
+ */
+export function audiobookTexts(chapters: AudiobookChapterPlan[]): AudiobookText[] {
+  return chapters.flatMap((chapter, index) =>
+    chapter.texts.map((text) => ({ chapter: index, text }))
+  )
+}
+
+/**
+ * Synthesize texts into clips without their own ID3 tags, in order
+ */
+export async function synthesizeClips(
+  texts: string[],
+  synthesize: (text: string) => Promise<Uint8Array>,
+  concurrency: number = 3
+): Promise<Uint8Array[]> {
+  return mapWithConcurrency(texts, concurrency, async (text) => stripId3(await synthesize(text)))
+}
+
+/**
+ * Playing time of a clip in whole milliseconds
+ */
+export function clipDurationMs(clip: Uint8Array): number {
+  return Math.round(mp3Duration(clip) * 1000)
+}
+
+/**
+ * ID3 tag with chapter frames, from the playing time of every text
+ */
+export function buildAudiobookTag(
+  chapters: AudiobookChapterPlan[],
+  info: AudiobookInfo,
+  durationsMs: number[]
+): Uint8Array {
+  const texts = audiobookTexts(chapters)
+
+  // Chapter boundaries from the playing time of each clip
+  const markers: AudioChapter[] = chapters.map((chapter) => ({ title: chapter.title, startMs: 0, endMs: 0 }))
+  let elapsedMs = 0
+  durationsMs.forEach((duration, index) => {
+    const marker = markers[texts[index].chapter]
+    if (index === 0 || texts[index - 1].chapter !== texts[index].chapter) marker.startMs = elapsedMs
+    elapsedMs += duration
+    marker.endMs = elapsedMs
+  })
+
+  return buildId3Tag({
+    title: info.title,
+    author: info.author,
+    publisher: info.institution,
+    chapters: markers,
+  })
+}
+
+/**
+ * File name for a downloaded audiobook
+ */
+export function audiobookFilename(title: string): string {
+  const base = title.slice(0, 50).replace(/[^a-zA-Z0-9äöüÄÖÜß\s-]/g, '').trim() || 'hoerbuch'
+  return `${base}.mp3`
+}
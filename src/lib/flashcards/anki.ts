@@ -0,0 +1,418 @@
+/**
+ * Anki Packages (.apkg)
+ * Writes and reads the classic collection.anki2 format that every Anki
+ * version imports. Server only: the collection is an SQLite database.
+ */
+
+import { createHash } from 'crypto'
+import { strToU8, unzipSync, zipSync } from 'fflate'
+import initSqlJs, { type Database, type SqlValue } from 'sql.js'
+import { clozeAnswers, parseCloze } from './cloze'
+import { htmlToText, NEW_SCHEDULE, textToHtml, type ExchangeCard } from './exchange'
+import { intervalDays, type CardSchedule } from './scheduler'
+
+/** A package that cannot be read, with a message for the user */
+export class AnkiFormatError extends Error {}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Fixed note type ids, so repeated exports use the same note types in Anki
+const BASIC_MODEL_ID = 1718000000001
+const CLOZE_MODEL_ID = 1718000000002
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`
+
+let sqlJs: ReturnType<typeof initSqlJs> | null = null
+
+function openDatabase(data?: Uint8Array): Promise<Database> {
+  sqlJs ??= initSqlJs()
+  return sqlJs.then((SQL) => new SQL.Database(data))
+}
+
+// ============================================
+// Scheduling state <-> Anki card fields
+// ============================================
+
+/** Anki's ease factor (permille) from our difficulty: 1 → 300%, 10 → 130% */
+function factorFromDifficulty(difficulty: number | null): number {
+  if (difficulty === null) return 2500
+  return Math.round(1300 + ((10 - difficulty) / 9) * 1700)
+}
+
+function difficultyFromFactor(factor: number): number {
+  if (!factor) return 5
+  return Math.min(10, Math.max(1, 10 - ((factor - 1300) / 1700) * 9))
+}
+
+function dayStart(time: number): number {
+  const date = new Date(time)
+  date.setHours(0, 0, 0, 0)
+  return date.getTime()
+}
+
+interface AnkiCardFields {
+  type: number
+  queue: number
+  due: number
+  ivl: number
+  factor: number
+  reps: number
+  lapses: number
+  left: number
+  data: string
+}
+
+function cardFields(schedule: CardSchedule, crt: number, newPosition: number): AnkiCardFields {
+  const base = {
+    reps: schedule.review_count,
+    lapses: schedule.lapses,
+    factor: factorFromDifficulty(schedule.srs_difficulty),
+    // Memory state for Anki's FSRS scheduler; ignored when it is off
+    data: schedule.stability !== null && schedule.srs_difficulty !== null
+      ? JSON.stringify({ s: Number(schedule.stability.toFixed(4)), d: Number(schedule.srs_difficulty.toFixed(4)) })
+      : '',
+  }
+
+  const next = schedule.next_review ? new Date(schedule.next_review).getTime() : Date.now()
+  const ivl = schedule.last_review
+    ? Math.max(1, Math.round((next - new Date(schedule.last_review).getTime()) / DAY_MS))
+    : intervalDays(schedule.stability ?? 1)
+
+  switch (schedule.state) {
+    case 'learning':
+    case 'relearning':
+      // Learning cards are due at a time (seconds), with one step left
+      return {
+        ...base,
+        type: schedule.state === 'learning' ? 1 : 3,
+        queue: 1,
+        due: Math.floor(next / 1000),
+        ivl: schedule.state === 'learning' ? 0 : ivl,
+        left: 1001,
+      }
+    case 'review':
+      return {
+        ...base,
+        type: 2,
+        queue: 2,
+        due: Math.round((dayStart(next) - crt * 1000) / DAY_MS),
+        ivl,
+        left: 0,
+      }
+    default:
+      return { ...base, type: 0, queue: 0, due: newPosition, ivl: 0, factor: 0, left: 0, data: '' }
+  }
+}
+
+function scheduleFromCard(card: AnkiCardFields, crt: number): CardSchedule {
+  let memory: { s?: number; d?: number } = {}
+  try {
+    memory = card.data ? JSON.parse(card.data) : {}
+  } catch {
+    // No FSRS state
+  }
+
+  // Learning cards count due in seconds, except day-learning ones (queue 3)
+  const dueTime = card.due > 1_000_000_000 && card.queue !== 3
+    ? card.due * 1000
+    : crt * 1000 + card.due * DAY_MS
+
+  const shared = {
+    srs_difficulty: memory.d ?? difficultyFromFactor(card.factor),
+    lapses: card.lapses,
+    review_count: Math.max(1, card.reps),
+    next_review: new Date(dueTime).toISOString(),
+  }
+
+  switch (card.type) {
+    case 1:
+    case 3:
+      return {
+        ...shared,
+        state: card.type === 1 ? 'learning' : 'relearning',
+        stability: memory.s ?? Math.max(card.ivl, 0.5),
+        last_review: null,
+      }
+    case 2:
+      return {
+        ...shared,
+        state: 'review',
+        stability: memory.s ?? Math.max(card.ivl, 1),
+        last_review: new Date(dueTime - card.ivl * DAY_MS).toISOString(),
+      }
+    default:
+      return NEW_SCHEDULE
+  }
+}
+
+// ============================================
+// Export
+// ============================================
+
+function noteTypes(now: number, deckId: number) {
+  const field = (name: string, ord: number) => ({
+    name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [],
+  })
+  const shared = {
+    mod: Math.floor(now / 1000),
+    usn: 0,
+    sortf: 0,
+    did: deckId,
+    tags: [],
+    vers: [],
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+  }
+  const css = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }'
+
+  return {
+    [BASIC_MODEL_ID]: {
+      ...shared,
+      id: BASIC_MODEL_ID,
+      name: 'Digital Script Basis',
+      type: 0,
+      flds: [field('Front', 0), field('Back', 1)],
+      tmpls: [{
+        name: 'Karte 1', ord: 0, did: null, bqfmt: '', bafmt: '',
+        qfmt: '{{Front}}',
+        afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+      }],
+      req: [[0, 'any', [0]]],
+      css,
+    },
+    [CLOZE_MODEL_ID]: {
+      ...shared,
+      id: CLOZE_MODEL_ID,
+      name: 'Digital Script Lückentext',
+      type: 1,
+      flds: [field('Text', 0), field('Back Extra', 1)],
+      tmpls: [{
+        name: 'Lückentext', ord: 0, did: null, bqfmt: '', bafmt: '',
+        qfmt: '{{cloze:Text}}',
+        afmt: '{{cloze:Text}}<br>\n{{Back Extra}}',
+      }],
+      css: `${css}\n.cloze { font-weight: bold; color: blue; }`,
+    },
+  }
+}
+
+function deckConfig() {
+  return {
+    id: 1, mod: 0, name: 'Default', usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+    new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+    rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 },
+    lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 },
+  }
+}
+
+function deck(id: number, name: string, now: number) {
+  return {
+    id, name, mod: Math.floor(now / 1000), usn: 0, desc: '', dyn: 0, conf: 1,
+    collapsed: false, browserCollapsed: false, extendNew: 0, extendRev: 0,
+    lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0],
+  }
+}
+
+/** Anki's duplicate check sum: the first 8 hex digits of SHA-1 of the sort field */
+function checksum(text: string): number {
+  return parseInt(createHash('sha1').update(text).digest('hex').slice(0, 8), 16)
+}
+
+/**
+ * Build an .apkg with one deck per distinct card deck name
+ */
+export async function buildApkg(cards: ExchangeCard[]): Promise<Uint8Array> {
+  const now = Date.now()
+  const db = await openDatabase()
+
+  try {
+    db.exec(SCHEMA)
+
+    // Review days count from the collection's creation day
+    const reviewDues = cards
+      .filter((c) => c.schedule.state === 'review' && c.schedule.next_review)
+      .map((c) => new Date(c.schedule.next_review!).getTime())
+    const crt = Math.floor(dayStart(Math.min(now, ...reviewDues)) / 1000)
+
+    const deckIds = new Map<string, number>()
+    for (const name of cards.map((c) => c.deck || 'Lernkarten')) {
+      if (!deckIds.has(name)) deckIds.set(name, now + deckIds.size + 1)
+    }
+
+    const decks: Record<number, ReturnType<typeof deck>> = { 1: deck(1, 'Default', now) }
+    for (const [name, id] of deckIds) decks[id] = deck(id, name, now)
+
+    const firstDeck = deckIds.values().next().value ?? 1
+    const conf = {
+      activeDecks: [firstDeck], curDeck: firstDeck, newSpread: 0, collapseTime: 1200, timeLim: 0,
+      estTimes: true, dueCounts: true, curModel: BASIC_MODEL_ID, nextPos: cards.length + 1,
+      sortType: 'noteFld', sortBackwards: false, addToCur: true,
+    }
+
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      crt, now, now,
+      JSON.stringify(conf),
+      JSON.stringify(noteTypes(now, firstDeck)),
+      JSON.stringify(decks),
+      JSON.stringify({ 1: deckConfig() }),
+      '{}',
+    ])
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, 0, ?, ?, ?, ?, 0, \'\')')
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, ?)')
+    let nextCardId = now
+    let newPosition = 0
+
+    cards.forEach((card, index) => {
+      const noteId = now + index
+      const isCloze = card.cardType === 'cloze'
+      const fields = isCloze ? [textToHtml(card.question), ''] : [textToHtml(card.question), textToHtml(card.answer)]
+      const tags = card.tags.length > 0 ? ` ${card.tags.join(' ')} ` : ''
+
+      insertNote.run([
+        noteId,
+        card.sourceId ?? `ds-${noteId}`,
+        isCloze ? CLOZE_MODEL_ID : BASIC_MODEL_ID,
+        Math.floor(now / 1000),
+        tags,
+        fields.join('\x1f'),
+        card.question,
+        checksum(card.question),
+      ])
+
+      // A cloze note has one Anki card per gap number; all share our card's state
+      const ords = isCloze
+        ? [...new Set(parseCloze(card.question).flatMap((s) => (s.type === 'gap' ? [s.index - 1] : [])))]
+        : [0]
+      const fieldsForCard = cardFields(card.schedule, crt, card.schedule.state === 'new' ? ++newPosition : 0)
+
+      for (const ord of ords.length > 0 ? ords : [0]) {
+        insertCard.run([
+          nextCardId++,
+          noteId,
+          deckIds.get(card.deck || 'Lernkarten')!,
+          ord,
+          Math.floor(now / 1000),
+          fieldsForCard.type,
+          fieldsForCard.queue,
+          fieldsForCard.due,
+          fieldsForCard.ivl,
+          fieldsForCard.factor,
+          fieldsForCard.reps,
+          fieldsForCard.lapses,
+          fieldsForCard.left,
+          fieldsForCard.data,
+        ])
+      }
+    })
+
+    insertNote.free()
+    insertCard.free()
+
+    return zipSync({
+      'collection.anki2': db.export(),
+      media: strToU8('{}'),
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// ============================================
+// Import
+// ============================================
+
+function rows(db: Database, sql: string): Record<string, SqlValue>[] {
+  const [result] = db.exec(sql)
+  if (!result) return []
+  return result.values.map((values) =>
+    Object.fromEntries(result.columns.map((column, i) => [column, values[i]]))
+  )
+}
+
+/**
+ * Read the notes of an .apkg as cards, with the scheduling state of each
+ * note's first card
+ */
+export async function readApkg(data: Uint8Array): Promise<ExchangeCard[]> {
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(data)
+  } catch {
+    throw new AnkiFormatError('Die Datei ist kein gültiges Anki-Paket')
+  }
+
+  const collection = files['collection.anki21'] ?? (files['collection.anki21b'] ? undefined : files['collection.anki2'])
+  if (!collection) {
+    throw new AnkiFormatError(
+      files['collection.anki21b']
+        ? 'Dieses Anki-Paket nutzt das neue Format. Bitte in Anki beim Export „Mit älteren Anki-Versionen kompatibel" aktivieren.'
+        : 'Die Datei ist kein gültiges Anki-Paket'
+    )
+  }
+
+  const db = await openDatabase(collection)
+  try {
+    const [col] = rows(db, 'SELECT crt, models, decks FROM col')
+    if (!col) throw new AnkiFormatError('Die Datei ist kein gültiges Anki-Paket')
+
+    const crt = Number(col.crt)
+    const models = JSON.parse(String(col.models)) as Record<string, { type: number }>
+    const decks = JSON.parse(String(col.decks)) as Record<string, { name: string }>
+
+    // First card of each note (lowest ord)
+    const cards = new Map<number, AnkiCardFields & { did: number }>()
+    for (const row of rows(db, 'SELECT nid, did, type, queue, due, ivl, factor, reps, lapses, left, data FROM cards ORDER BY nid, ord')) {
+      const nid = Number(row.nid)
+      if (cards.has(nid)) continue
+      cards.set(nid, {
+        did: Number(row.did),
+        type: Number(row.type),
+        queue: Number(row.queue),
+        due: Number(row.due),
+        ivl: Number(row.ivl),
+        factor: Number(row.factor),
+        reps: Number(row.reps),
+        lapses: Number(row.lapses),
+        left: Number(row.left),
+        data: String(row.data ?? ''),
+      })
+    }
+
+    const result: ExchangeCard[] = []
+    for (const note of rows(db, 'SELECT id, mid, tags, flds FROM notes ORDER BY id')) {
+      const fields = String(note.flds).split('\x1f')
+      const isCloze = models[String(note.mid)]?.type === 1
+      const question = htmlToText(fields[0] ?? '')
+      const answer = isCloze ? clozeAnswers(question) : htmlToText(fields[1] ?? '')
+      if (!question || !answer) continue
+
+      const card = cards.get(Number(note.id))
+      result.push({
+        question,
+        answer,
+        cardType: isCloze ? 'cloze' : 'basic',
+        deck: card ? decks[String(card.did)]?.name ?? '' : '',
+        tags: String(note.tags).split(/\s+/).filter(Boolean),
+        schedule: card ? scheduleFromCard(card, crt) : NEW_SCHEDULE,
+      })
+    }
+    return result
+  } finally {
+    db.close()
+  }
+}
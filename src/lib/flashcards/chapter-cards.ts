@@ -0,0 +1,98 @@
+/**
+ * Chapter Cards
+ * Sections covered when generating cards for a whole chapter, and the
+ * similarity check that drops proposals repeating an existing card
+ */
+
+import { normalizeQuestion } from './exchange'
+import type { Section, SectionMetadata, SectionType } from '@/lib/supabase/types'
+
+/** A generated card shown for review before it is saved */
+export interface CardProposal {
+  section_id: string
+  section_title: string
+  question: string
+  answer: string
+}
+
+// Nothing to ask about in these sections
+const SKIPPED_TYPES: SectionType[] = ['solution', 'reference']
+
+// Word overlap from which two questions count as the same card
+const DUPLICATE_SIMILARITY = 0.7
+
+/**
+ * Main chapter a section belongs to, grouped like the table of contents:
+ * subchapter "2.3" belongs to chapter "2"
+ */
+export function chapterKey(section: Pick<Section, 'section_type' | 'metadata'>): string | null {
+  const chapterNumber = (section.metadata as SectionMetadata)?.chapter_number
+  if (!chapterNumber || chapterNumber === 'solutions') return null
+
+  const mainChapter = chapterNumber.match(/^(\d+)\./)
+  return mainChapter && section.section_type !== 'chapter' ? mainChapter[1] : chapterNumber
+}
+
+/**
+ * Sections of a chapter worth generating cards from, in reading order
+ */
+export function chapterSections<T extends Pick<Section, 'section_type' | 'metadata' | 'content'>>(
+  sections: T[],
+  chapter: string
+): T[] {
+  return sections.filter(
+    (s) => chapterKey(s) === chapter && !SKIPPED_TYPES.includes(s.section_type) && s.content.trim().length > 0
+  )
+}
+
+/**
+ * Cards to ask for per section: more for longer sections
+ */
+export function cardCountForSection(content: string): number {
+  return Math.min(6, Math.max(2, Math.round(content.length / 800)))
+}
+
+function questionWords(question: string): Set<string> {
+  return new Set(
+    normalizeQuestion(question)
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 2)
+  )
+}
+
+/**
+ * Whether two questions ask for the same thing (same words, ignoring order,
+ * case and short filler words)
+ */
+export function isNearDuplicate(a: string, b: string): boolean {
+  if (normalizeQuestion(a) === normalizeQuestion(b)) return true
+
+  const wordsA = questionWords(a)
+  const wordsB = questionWords(b)
+  if (wordsA.size === 0 || wordsB.size === 0) return false
+
+  let shared = 0
+  for (const word of wordsA) if (wordsB.has(word)) shared++
+  return shared / (wordsA.size + wordsB.size - shared) >= DUPLICATE_SIMILARITY
+}
+
+/**
+ * Drop proposals that repeat an existing question or an earlier proposal.
+ * Returns the kept proposals and how many were dropped.
+ */
+export function dropNearDuplicates(
+  proposals: CardProposal[],
+  existingQuestions: string[]
+): { proposals: CardProposal[]; dropped: number } {
+  const kept: CardProposal[] = []
+  const seen = [...existingQuestions]
+
+  for (const proposal of proposals) {
+    if (!proposal.question?.trim() || !proposal.answer?.trim()) continue
+    if (seen.some((question) => isNearDuplicate(question, proposal.question))) continue
+    seen.push(proposal.question)
+    kept.push(proposal)
+  }
+
+  return { proposals: kept, dropped: proposals.length - kept.length }
+}
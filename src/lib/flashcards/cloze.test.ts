@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { buildClozeFromHighlight, clozeAnswers, parseCloze } from './cloze'
+
+const CONTENT = 'Ein Projekt ist ein zeitlich befristetes Vorhaben. Es ist durch Einmaligkeit gekennzeichnet.'
+
+describe('buildClozeFromHighlight', () => {
+  it('puts the highlight as the gap into its sentence', () => {
+    const cloze = buildClozeFromHighlight(CONTENT, 'Einmaligkeit', 55)
+
+    expect(cloze).toBe('Es ist durch {{c1::Einmaligkeit}} gekennzeichnet.')
+    expect(clozeAnswers(cloze!)).toBe('Einmaligkeit')
+  })
+
+  it('rejects highlights containing gap syntax', () => {
+    const content = 'Lückentexte schreibt man als {{c1::Antwort::Hinweis}} in die Karte.'
+
+    expect(buildClozeFromHighlight(content, '{{c1::Antwort', null)).toBeNull()
+    expect(buildClozeFromHighlight(content, 'Antwort::Hinweis', null)).toBeNull()
+    expect(buildClozeFromHighlight(content, 'Hinweis}}', null)).toBeNull()
+    expect(buildClozeFromHighlight('Die Menge {a, b}', 'a, b}', null)).toBeNull()
+  })
+
+  it('leaves out context with braces of its own', () => {
+    const content = 'Die Syntax {{c1::x}} markiert eine Lücke im Text.'
+    const cloze = buildClozeFromHighlight(content, 'Lücke', null)
+
+    expect(cloze).toBe('{{c1::Lücke}} im Text.')
+    expect(parseCloze(cloze!).filter((s) => s.type === 'gap')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Cloze Cards
+ * Gaps are written as {{c1::answer}} or {{c1::answer::hint}}; a cloze card
+ * stores the text with its gaps as the question and the gap texts as the answer
+ */
+
+/** A run of plain text or a gap within a cloze text */
+export type ClozeSegment =
+  | { type: 'text'; text: string }
+  | { type: 'gap'; index: number; answer: string; hint?: string }
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g
+
+// Gap syntax within a highlight: braces, the hint separator, or a "}" that would close the gap early
+const GAP_MARKUP_PATTERN = /\{\{|\}\}|::|\}$/
+
+// Braces in the context around a gap, which could open or close another gap
+const CONTEXT_MARKUP_PATTERN = /\{\{|\}\}/
+
+/** Context kept on either side of a highlight, cut at sentence ends */
+const MAX_CONTEXT_LENGTH = 240
+
+/**
+ * Whether a text contains at least one gap
+ */
+export function isClozeText(text: string): boolean {
+  return new RegExp(CLOZE_PATTERN.source).test(text)
+}
+
+/**
+ * Split a cloze text into plain text and gaps
+ */
+export function parseCloze(text: string): ClozeSegment[] {
+  const segments: ClozeSegment[] = []
+  let last = 0
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    if (match.index > last) segments.push({ type: 'text', text: text.slice(last, match.index) })
+    segments.push({
+      type: 'gap',
+      index: Number(match[1]),
+      answer: match[2],
+      hint: match[3] || undefined,
+    })
+    last = match.index + match[0].length
+  }
+  if (last < text.length) segments.push({ type: 'text', text: text.slice(last) })
+  return segments
+}
+
+/**
+ * The gap texts of a cloze text, used as the card's answer
+ */
+export function clozeAnswers(text: string): string {
+  return parseCloze(text)
+    .flatMap((s) => (s.type === 'gap' ? [s.answer] : []))
+    .join(' · ')
+}
+
+/**
+ * Text with every gap filled in, e.g. for search or export
+ */
+export function clozeToPlainText(text: string): string {
+  return parseCloze(text)
+    .map((s) => (s.type === 'gap' ? s.answer : s.text))
+    .join('')
+}
+
+/**
+ * Find the highlighted text in the section: at its stored offset if that
+ * still matches, otherwise the occurrence closest to it
+ */
+function locateHighlight(content: string, text: string, positionStart: number | null): number {
+  if (positionStart !== null && content.slice(positionStart, positionStart + text.length) === text) {
+    return positionStart
+  }
+
+  let best = -1
+  for (let index = content.indexOf(text); index !== -1; index = content.indexOf(text, index + 1)) {
+    if (best === -1 || Math.abs(index - (positionStart ?? 0)) < Math.abs(best - (positionStart ?? 0))) {
+      best = index
+    }
+  }
+  return best
+}
+
+function contextBefore(content: string, start: number): string {
+  const paragraphStart = content.lastIndexOf('\n\n', start - 1)
+  const from = Math.max(paragraphStart === -1 ? 0 : paragraphStart + 2, start - MAX_CONTEXT_LENGTH)
+  const before = content.slice(from, start)
+  // Start at the beginning of the sentence containing the highlight
+  return before.slice(before.search(/[^.!?]*$/)).trimStart()
+}
+
+function contextAfter(content: string, end: number): string {
+  const paragraphEnd = content.indexOf('\n\n', end)
+  const to = Math.min(paragraphEnd === -1 ? content.length : paragraphEnd, end + MAX_CONTEXT_LENGTH)
+  const after = content.slice(end, to)
+  // End with the sentence containing the highlight
+  const sentenceEnd = after.search(/[.!?](\s|$)/)
+  return sentenceEnd === -1 ? after.trimEnd() : after.slice(0, sentenceEnd + 1)
+}
+
+/**
+ * Turn a highlight into a cloze text: the sentence around it with the
+ * highlighted words as the gap. Returns null if the highlight contains gap
+ * syntax ("{{", "}}", "::" or a closing "}"), which cannot be escaped.
+ */
+export function buildClozeFromHighlight(
+  sectionContent: string,
+  highlightText: string,
+  positionStart: number | null
+): string | null {
+  const text = highlightText.trim()
+  if (GAP_MARKUP_PATTERN.test(text)) return null
+
+  const start = locateHighlight(sectionContent, text, positionStart)
+  if (start === -1) return `{{c1::${text}}}`
+
+  const end = start + text.length
+  // Context with braces of its own is left out
+  const before = contextBefore(sectionContent, start)
+  const after = contextAfter(sectionContent, end)
+  return [
+    CONTEXT_MARKUP_PATTERN.test(before) ? '' : before,
+    `{{c1::${text}}}`,
+    CONTEXT_MARKUP_PATTERN.test(after) ? '' : after,
+  ].join('').replace(/\s+/g, ' ').trim()
+}
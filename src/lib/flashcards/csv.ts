@@ -0,0 +1,218 @@
+/**
+ * Flashcard CSV
+ * One card per row with its scheduling state. Import also reads files without
+ * a header (question, answer, tags) and Anki's plain-text note export.
+ */
+
+import { clozeAnswers, isClozeText } from './cloze'
+import { htmlToText, NEW_SCHEDULE, type ExchangeCard } from './exchange'
+import type { FlashcardState } from '@/lib/supabase/types'
+
+const COLUMNS = [
+  'question',
+  'answer',
+  'type',
+  'deck',
+  'tags',
+  'state',
+  'due',
+  'stability',
+  'difficulty',
+  'reviews',
+  'lapses',
+  'last_review',
+] as const
+
+type Column = (typeof COLUMNS)[number]
+
+/** Header names accepted on import, including common German and Anki ones */
+const COLUMN_ALIASES: Record<string, Column> = {
+  question: 'question',
+  frage: 'question',
+  front: 'question',
+  vorderseite: 'question',
+  text: 'question',
+  answer: 'answer',
+  antwort: 'answer',
+  back: 'answer',
+  'rückseite': 'answer',
+  type: 'type',
+  typ: 'type',
+  deck: 'deck',
+  stapel: 'deck',
+  tags: 'tags',
+  state: 'state',
+  due: 'due',
+  stability: 'stability',
+  difficulty: 'difficulty',
+  reviews: 'reviews',
+  lapses: 'lapses',
+  last_review: 'last_review',
+}
+
+const STATES: FlashcardState[] = ['new', 'learning', 'review', 'relearning']
+
+function escapeField(value: string, separator: string): string {
+  return /["\r\n]/.test(value) || value.includes(separator)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value
+}
+
+/**
+ * Cards as CSV (with a BOM so spreadsheet programs pick UTF-8)
+ */
+export function cardsToCsv(cards: ExchangeCard[]): string {
+  const rows = cards.map((card) => {
+    const values: Record<Column, string> = {
+      question: card.question,
+      answer: card.answer,
+      type: card.cardType,
+      deck: card.deck,
+      tags: card.tags.join(' '),
+      state: card.schedule.state,
+      due: card.schedule.next_review ?? '',
+      stability: card.schedule.stability?.toFixed(2) ?? '',
+      difficulty: card.schedule.srs_difficulty?.toFixed(2) ?? '',
+      reviews: String(card.schedule.review_count),
+      lapses: String(card.schedule.lapses),
+      last_review: card.schedule.last_review ?? '',
+    }
+    return COLUMNS.map((column) => escapeField(values[column], ',')).join(',')
+  })
+  return '﻿' + [COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+/**
+ * Split CSV text into rows of fields (quoted fields may span lines)
+ */
+function parseRows(text: string, separator: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === separator) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ''))
+}
+
+function detectSeparator(line: string): string {
+  if (line.includes('\t')) return '\t'
+  return (line.match(/;/g)?.length ?? 0) > (line.match(/,/g)?.length ?? 0) ? ';' : ','
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (!value?.trim()) return null
+  const number = Number(value.replace(',', '.'))
+  return Number.isFinite(number) ? number : null
+}
+
+function parseDate(value: string | undefined): string | null {
+  if (!value?.trim()) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+/**
+ * Read cards from CSV or tab-separated text
+ */
+export function parseCardsCsv(input: string): ExchangeCard[] {
+  let text = input.replace(/^﻿/, '')
+
+  // Anki's plain-text export starts with "#key:value" lines
+  const directives = new Map<string, string>()
+  while (text.startsWith('#')) {
+    const end = text.indexOf('\n')
+    const line = text.slice(1, end === -1 ? undefined : end).trim()
+    const [key, ...value] = line.split(':')
+    directives.set(key.toLowerCase(), value.join(':'))
+    text = end === -1 ? '' : text.slice(end + 1)
+  }
+
+  const separatorName = directives.get('separator')?.toLowerCase()
+  const separator = separatorName === 'tab' ? '\t'
+    : separatorName === 'semicolon' ? ';'
+    : separatorName === 'comma' ? ','
+    : detectSeparator(text.split('\n')[0] ?? '')
+  const isHtml = directives.get('html') === 'true'
+
+  const rows = parseRows(text, separator)
+  if (rows.length === 0) return []
+
+  // Map columns by header names, or assume question, answer, tags
+  const header = rows[0].map((name) => COLUMN_ALIASES[name.trim().toLowerCase()])
+  const hasHeader = header.includes('question')
+  const columns: (Column | undefined)[] = hasHeader ? header : ['question', 'answer', 'tags']
+  const tagsColumn = directives.get('tags column')
+  if (!hasHeader && tagsColumn) {
+    columns[2] = undefined
+    columns[Number(tagsColumn) - 1] = 'tags'
+  }
+
+  const cards: ExchangeCard[] = []
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const value = (column: Column) => {
+      const index = columns.indexOf(column)
+      const raw = index === -1 ? undefined : row[index]
+      return raw !== undefined && isHtml ? htmlToText(raw) : raw?.trim()
+    }
+
+    const question = value('question')
+    if (!question) continue
+
+    const cardType = value('type') === 'cloze' || isClozeText(question) ? 'cloze' : 'basic'
+    const answer = value('answer') || (cardType === 'cloze' ? clozeAnswers(question) : '')
+    if (!answer) continue
+
+    const state = value('state') as FlashcardState | undefined
+    const schedule = state && STATES.includes(state) && state !== 'new'
+      ? {
+          state,
+          stability: parseNumber(value('stability')),
+          srs_difficulty: parseNumber(value('difficulty')),
+          lapses: parseNumber(value('lapses')) ?? 0,
+          review_count: parseNumber(value('reviews')) ?? 1,
+          last_review: parseDate(value('last_review')),
+          next_review: parseDate(value('due')),
+        }
+      : NEW_SCHEDULE
+
+    cards.push({
+      question,
+      answer,
+      cardType,
+      deck: value('deck') || '',
+      tags: (value('tags') || '').split(/\s+/).filter(Boolean),
+      schedule,
+    })
+  }
+  return cards
+}
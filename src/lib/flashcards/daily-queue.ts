@@ -0,0 +1,85 @@
+/**
+ * Daily Review Queue
+ * Picks today's cards across all documents: the most overdue reviews and the
+ * oldest new cards up to the daily limits, interleaved so that one module
+ * does not take up the whole session
+ */
+
+import type { Flashcard } from '@/lib/supabase/types'
+
+export interface DailyLimits {
+  /** New cards introduced per day */
+  newCards: number
+  /** Reviews of already learned cards per day */
+  reviews: number
+}
+
+/** Cards already studied today, counted against the limits */
+export interface DailyCounts {
+  newCards: number
+  reviews: number
+}
+
+export const DEFAULT_DAILY_LIMITS: DailyLimits = {
+  newCards: 20,
+  reviews: 200,
+}
+
+type QueueCard = Pick<Flashcard, 'state' | 'next_review' | 'created_at'>
+
+function time(value: string | null): number {
+  return value ? new Date(value).getTime() : 0
+}
+
+/**
+ * Whether a card that has been studied before is due
+ */
+export function isDue(card: QueueCard, now: Date = new Date()): boolean {
+  return card.state !== 'new' && time(card.next_review) <= now.getTime()
+}
+
+/**
+ * Take one card from each group in turn
+ */
+export function interleave<T>(cards: T[], groupOf: (card: T) => string): T[] {
+  const groups = new Map<string, T[]>()
+  for (const card of cards) {
+    const key = groupOf(card)
+    const group = groups.get(key)
+    if (group) group.push(card)
+    else groups.set(key, [card])
+  }
+
+  const queues = [...groups.values()]
+  const result: T[] = []
+  for (let round = 0; result.length < cards.length; round++) {
+    for (const queue of queues) {
+      if (round < queue.length) result.push(queue[round])
+    }
+  }
+  return result
+}
+
+/**
+ * Build today's session from all of the user's cards
+ */
+export function buildDailyQueue<T extends QueueCard>(
+  cards: T[],
+  groupOf: (card: T) => string,
+  limits: DailyLimits,
+  done: DailyCounts = { newCards: 0, reviews: 0 },
+  now: Date = new Date()
+): T[] {
+  const reviews = cards
+    .filter((card) => isDue(card, now))
+    .sort((a, b) => time(a.next_review) - time(b.next_review))
+    .slice(0, Math.max(0, limits.reviews - done.reviews))
+
+  const newCards = cards
+    .filter((card) => card.state === 'new')
+    .sort((a, b) => time(a.created_at) - time(b.created_at))
+    .slice(0, Math.max(0, limits.newCards - done.newCards))
+
+  // Within a module, reviews come before new cards
+  return interleave([...reviews, ...newCards], groupOf)
+}
@@ -0,0 +1,32 @@
+/**
+ * Deck Export
+ * Download responses for a set of cards as CSV or Anki package
+ */
+
+import { buildApkg } from './anki'
+import { cardsToCsv } from './csv'
+import { deckFilename, type ExchangeCard } from './exchange'
+
+export type DeckFormat = 'csv' | 'apkg'
+
+export function isDeckFormat(value: string | null): value is DeckFormat {
+  return value === 'csv' || value === 'apkg'
+}
+
+/**
+ * Render the cards and return them as a file download
+ */
+export async function deckResponse(cards: ExchangeCard[], format: DeckFormat, title: string): Promise<Response> {
+  const body = format === 'apkg'
+    ? new Blob([await buildApkg(cards) as Uint8Array<ArrayBuffer>], { type: 'application/octet-stream' })
+    : new Blob([cardsToCsv(cards)], { type: 'text/csv;charset=utf-8' })
+
+  const filename = deckFilename(title, format)
+  return new Response(body, {
+    headers: {
+      'Content-Type': format === 'apkg' ? 'application/octet-stream' : 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      'Cache-Control': 'private, no-store',
+    },
+  })
+}
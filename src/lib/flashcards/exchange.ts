@@ -0,0 +1,148 @@
+/**
+ * Flashcard Exchange
+ * Common form of cards read from or written to CSV and Anki files
+ */
+
+import { clozeToPlainText } from './cloze'
+import type { CardSchedule } from './scheduler'
+import type { Flashcard, FlashcardType, Section } from '@/lib/supabase/types'
+
+export interface ExchangeCard {
+  question: string
+  answer: string
+  cardType: FlashcardType
+  /** Deck the card belongs to, "Module::Document" style */
+  deck: string
+  /** Section titles (as tags) and any tags from the source */
+  tags: string[]
+  schedule: CardSchedule
+  /** Id of the exported flashcard, so a re-import is recognised */
+  sourceId?: string
+}
+
+export interface ImportResult {
+  imported: number
+  duplicates: number
+}
+
+export const NEW_SCHEDULE: CardSchedule = {
+  state: 'new',
+  stability: null,
+  srs_difficulty: null,
+  lapses: 0,
+  review_count: 0,
+  last_review: null,
+  next_review: null,
+}
+
+/**
+ * Fill in memory state an imported card does not carry, e.g. a CSV row
+ * with a due date but no stability
+ */
+export function completeSchedule(schedule: CardSchedule, now: Date = new Date()): CardSchedule {
+  if (schedule.state === 'new') return NEW_SCHEDULE
+
+  const next = schedule.next_review ? new Date(schedule.next_review).getTime() : now.getTime()
+  const last = schedule.last_review ? new Date(schedule.last_review).getTime() : null
+  const intervalDays = last !== null ? (next - last) / (24 * 60 * 60 * 1000) : 1
+
+  return {
+    ...schedule,
+    stability: schedule.stability ?? Math.max(intervalDays, 0.5),
+    srs_difficulty: schedule.srs_difficulty ?? 5,
+    review_count: Math.max(1, schedule.review_count),
+    next_review: new Date(next).toISOString(),
+  }
+}
+
+/**
+ * Section title as a tag; Anki tags cannot contain spaces
+ */
+export function sectionTag(title: string): string {
+  return title.trim().replace(/\s+/g, '_')
+}
+
+/**
+ * Question text compared when looking for duplicates
+ */
+export function normalizeQuestion(question: string, cardType: FlashcardType = 'basic'): string {
+  const text = cardType === 'cloze' ? clozeToPlainText(question) : question
+  return text.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Convert stored flashcards, tagged with their section titles
+ */
+export function toExchangeCards(cards: Flashcard[], sections: Pick<Section, 'id' | 'title'>[], deck: string): ExchangeCard[] {
+  const sectionTitles = new Map(sections.map((s) => [s.id, s.title]))
+  return cards.map((card) => {
+    const sectionTitle = card.section_id ? sectionTitles.get(card.section_id) : undefined
+    return {
+      question: card.question,
+      answer: card.answer,
+      cardType: card.card_type,
+      deck,
+      tags: sectionTitle ? [sectionTag(sectionTitle)] : [],
+      schedule: {
+        state: card.state,
+        stability: card.stability,
+        srs_difficulty: card.srs_difficulty,
+        lapses: card.lapses,
+        review_count: card.review_count,
+        last_review: card.last_review,
+        next_review: card.next_review,
+      },
+      sourceId: card.id,
+    }
+  })
+}
+
+/**
+ * The section a card's tags point to, if any
+ */
+export function sectionForTags(tags: string[], sections: Pick<Section, 'id' | 'title'>[]): string | null {
+  const byTag = new Map(sections.map((s) => [sectionTag(s.title).toLowerCase(), s.id]))
+  for (const tag of tags) {
+    const id = byTag.get(tag.toLowerCase())
+    if (id) return id
+  }
+  return null
+}
+
+/**
+ * Plain text from a field that may contain HTML (as Anki stores it)
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Escape text for an HTML field
+ */
+export function textToHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>')
+}
+
+/**
+ * File name for a downloaded deck
+ */
+export function deckFilename(title: string, extension: string): string {
+  const base = title.slice(0, 50).replace(/[^a-zA-Z0-9äöüÄÖÜß\s-]/g, '').trim() || 'lernkarten'
+  return `${base}.${extension}`
+}
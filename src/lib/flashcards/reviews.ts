@@ -0,0 +1,49 @@
+/**
+ * Flashcard Reviews
+ * Saves a graded review: reschedules the card and appends to its history
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSchedule, reviewCard, type CardSchedule } from './scheduler'
+import type { Flashcard, ReviewGrade } from '@/lib/supabase/types'
+
+/**
+ * Grade a card for the given user. Returns the card's new scheduling state.
+ */
+export async function recordReview(
+  supabase: SupabaseClient,
+  userId: string,
+  card: Flashcard,
+  grade: ReviewGrade
+): Promise<CardSchedule> {
+  const previous = getSchedule(card)
+  const { schedule, elapsedDays, scheduledDays } = reviewCard(previous, grade)
+
+  const { error: updateError } = await supabase
+    .from('flashcards')
+    .update(schedule)
+    .eq('id', card.id)
+
+  if (updateError) {
+    throw new Error(updateError.message)
+  }
+
+  const { error: logError } = await supabase.from('flashcard_reviews').insert({
+    user_id: userId,
+    flashcard_id: card.id,
+    grade,
+    state: previous.state,
+    stability: schedule.stability,
+    srs_difficulty: schedule.srs_difficulty,
+    elapsed_days: elapsedDays,
+    scheduled_days: scheduledDays,
+    reviewed_at: schedule.last_review,
+  })
+
+  // The card is already rescheduled; a missing history entry is not fatal
+  if (logError) {
+    console.warn('Failed to log flashcard review:', logError)
+  }
+
+  return schedule
+}
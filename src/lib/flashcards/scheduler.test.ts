@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatInterval,
+  getSchedule,
+  intervalDays,
+  migrateLegacySchedule,
+  previewIntervals,
+  reviewCard,
+  type CardSchedule,
+} from './scheduler'
+import type { Flashcard, ReviewGrade } from '@/lib/supabase/types'
+
+const NEW_CARD: CardSchedule = {
+  state: 'new',
+  stability: null,
+  srs_difficulty: null,
+  lapses: 0,
+  review_count: 0,
+  last_review: null,
+  next_review: null,
+}
+
+const START = new Date('2026-01-05T08:00:00Z')
+const MINUTE_MS = 60 * 1000
+
+/**
+ * Grade a card repeatedly, each time exactly when it is due
+ */
+function simulate(grades: ReviewGrade[], card: CardSchedule = NEW_CARD, start: Date = START) {
+  let now = start
+  return grades.map((grade) => {
+    const result = reviewCard(card, grade, now)
+    card = result.schedule
+    now = new Date(result.schedule.next_review!)
+    return result
+  })
+}
+
+describe('reviewCard', () => {
+  it('schedules a new card by its first grade', () => {
+    expect(simulate(['again']).map((r) => r.scheduledDays)).toEqual([0])
+    expect(simulate(['hard']).map((r) => r.scheduledDays)).toEqual([1])
+    expect(simulate(['good']).map((r) => r.scheduledDays)).toEqual([3])
+    expect(simulate(['easy']).map((r) => r.scheduledDays)).toEqual([16])
+  })
+
+  it('grows the interval with every "good"', () => {
+    const results = simulate(['good', 'good', 'good', 'good', 'good'])
+
+    expect(results.map((r) => r.scheduledDays)).toEqual([3, 11, 35, 101, 269])
+    expect(results.map((r) => r.elapsedDays)).toEqual([0, 3, 11, 35, 101])
+    expect(results.every((r) => r.schedule.state === 'review')).toBe(true)
+    expect(results[4].schedule.review_count).toBe(5)
+  })
+
+  it('grows the interval slowly and raises the difficulty with every "hard"', () => {
+    const results = simulate(['hard', 'hard', 'hard', 'hard'])
+
+    expect(results.map((r) => r.scheduledDays)).toEqual([1, 2, 3, 4])
+    const difficulties = results.map((r) => r.schedule.srs_difficulty!)
+    expect(difficulties).toEqual([...difficulties].sort((a, b) => a - b))
+    expect(difficulties[3]).toBeCloseTo(7.885, 3)
+  })
+
+  it('keeps a new card graded "again" in learning, due in 10 minutes', () => {
+    const [first, second, third] = simulate(['again', 'again', 'good'])
+
+    expect(first.schedule.state).toBe('learning')
+    expect(new Date(first.schedule.next_review!).getTime() - START.getTime()).toBe(10 * MINUTE_MS)
+    expect(second.schedule.state).toBe('learning')
+    expect(second.schedule.stability!).toBeLessThan(first.schedule.stability!)
+    // Never learned, so no lapse
+    expect(second.schedule.lapses).toBe(0)
+    expect(third.schedule.state).toBe('review')
+    expect(third.scheduledDays).toBe(1)
+  })
+
+  it('sends a forgotten card to relearning for 10 minutes and counts the lapse', () => {
+    const results = simulate(['good', 'good', 'again', 'good', 'good'])
+    const lapse = results[2]
+
+    expect(lapse.schedule.state).toBe('relearning')
+    expect(lapse.scheduledDays).toBe(0)
+    expect(lapse.elapsedDays).toBe(11)
+    expect(lapse.schedule.lapses).toBe(1)
+    expect(lapse.schedule.stability!).toBeCloseTo(2.186, 3)
+
+    // Relearned the same day, then back to growing intervals from the lower stability
+    expect(results[3].elapsedDays * 24 * 60).toBeCloseTo(10)
+    expect(results.slice(3).map((r) => r.scheduledDays)).toEqual([3, 9])
+    expect(results[4].schedule.lapses).toBe(1)
+  })
+
+  it('gives "easy" the longest intervals', () => {
+    expect(simulate(['easy', 'easy']).map((r) => r.scheduledDays)).toEqual([16, 150])
+  })
+})
+
+describe('migrateLegacySchedule', () => {
+  it('keeps never reviewed cards new', () => {
+    expect(migrateLegacySchedule({ difficulty: 3, review_count: 0, next_review: null })).toEqual(NEW_CARD)
+  })
+
+  it('derives stability from the old doubling interval and maps difficulty 1-5 to 1-10', () => {
+    expect(migrateLegacySchedule({ difficulty: 2, review_count: 3, next_review: '2026-01-05T00:00:00Z' })).toEqual({
+      state: 'review',
+      stability: 8,
+      srs_difficulty: 3.25,
+      lapses: 0,
+      review_count: 3,
+      last_review: null,
+      next_review: '2026-01-05T00:00:00Z',
+    })
+    expect(migrateLegacySchedule({ difficulty: 1, review_count: 8, next_review: null }).stability).toBe(30)
+  })
+
+  it('starts cards that were often wrong with a stability of one day', () => {
+    expect(migrateLegacySchedule({ difficulty: 5, review_count: 3, next_review: null })).toMatchObject({
+      stability: 1,
+      srs_difficulty: 10,
+    })
+  })
+
+  it('is used for legacy rows that the backfill has not reached', () => {
+    // Reviewed three times by the old scheduler, which kept no stability
+    const legacy: Flashcard = {
+      id: 'card-1',
+      user_id: 'user-1',
+      document_id: 'document-1',
+      section_id: null,
+      card_type: 'basic',
+      annotation_id: null,
+      question: 'Was ist ein Projekt?',
+      answer: 'Ein einmaliges Vorhaben',
+      difficulty: 2,
+      next_review: '2026-01-05T00:00:00Z',
+      review_count: 3,
+      state: 'new',
+      stability: null,
+      srs_difficulty: null,
+      lapses: 0,
+      last_review: null,
+      created_at: '2025-10-01T00:00:00Z',
+    }
+
+    expect(getSchedule(legacy)).toMatchObject({ state: 'review', stability: 8, review_count: 3 })
+  })
+
+  it('reviews a migrated card as if it were exactly due', () => {
+    const migrated = migrateLegacySchedule({ difficulty: 2, review_count: 3, next_review: '2026-01-05T00:00:00Z' })
+    const [result] = simulate(['good'], migrated)
+
+    expect(result.elapsedDays).toBe(0)
+    expect(result.scheduledDays).toBe(32)
+    expect(result.schedule.review_count).toBe(4)
+  })
+})
+
+describe('intervals', () => {
+  it('schedules a card when recall drops to 90%, which is its stability in days', () => {
+    expect(intervalDays(3.173)).toBe(3)
+    expect(intervalDays(0.2)).toBe(1)
+    expect(intervalDays(5000)).toBe(365)
+  })
+
+  it('previews each grade for the buttons', () => {
+    const preview = previewIntervals(NEW_CARD, START)
+
+    expect(formatInterval(preview.again)).toBe('10 Min.')
+    expect(formatInterval(preview.hard)).toBe('1 Tag')
+    expect(formatInterval(preview.good)).toBe('3 Tage')
+    expect(formatInterval(preview.easy)).toBe('16 Tage')
+  })
+})
@@ -0,0 +1,254 @@
+/**
+ * Flashcard Scheduler
+ * FSRS-style spaced repetition: each card keeps a stability (days until recall
+ * drops to 90%) and a difficulty (1-10) that are updated from four grades.
+ * Pure functions only, so review sequences can be simulated without a database.
+ */
+
+import type { Flashcard, FlashcardState, ReviewGrade } from '@/lib/supabase/types'
+
+/** Scheduling state of a card, as stored on the flashcards row */
+export interface CardSchedule {
+  state: FlashcardState
+  stability: number | null
+  srs_difficulty: number | null
+  lapses: number
+  review_count: number
+  last_review: string | null
+  next_review: string | null
+}
+
+/** Result of grading a card: its new state plus what goes into the review log */
+export interface ReviewResult {
+  schedule: CardSchedule
+  elapsedDays: number
+  scheduledDays: number
+}
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy']
+
+/** Probability of recall at which a card becomes due */
+export const DESIRED_RETENTION = 0.9
+
+/** Cards that will still be remembered three weeks from now count as mastered */
+export const MASTERED_STABILITY_DAYS = 21
+
+const MAX_INTERVAL_DAYS = 365
+
+/** Cards graded "again" come back within the same session */
+const RELEARN_MINUTES = 10
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Default FSRS-5 parameters
+const W = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192,
+  1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621,
+]
+const DECAY = -0.5
+const FACTOR = 19 / 81
+
+function gradeValue(grade: ReviewGrade): number {
+  return REVIEW_GRADES.indexOf(grade) + 1
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+/**
+ * Probability of recalling a card `elapsedDays` after its last review
+ */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY)
+}
+
+/**
+ * Days until recall drops to the desired retention
+ */
+export function intervalDays(stability: number): number {
+  const days = (stability / FACTOR) * (Math.pow(DESIRED_RETENTION, 1 / DECAY) - 1)
+  return clamp(Math.round(days), 1, MAX_INTERVAL_DAYS)
+}
+
+function initialStability(grade: number): number {
+  return Math.max(W[grade - 1], 0.1)
+}
+
+function initialDifficulty(grade: number): number {
+  return clamp(W[4] - Math.exp(W[5] * (grade - 1)) + 1, 1, 10)
+}
+
+function nextDifficulty(difficulty: number, grade: number): number {
+  const delta = -W[6] * (grade - 3)
+  const damped = difficulty + (delta * (10 - difficulty)) / 9
+  // Mean reversion towards the difficulty of a card first graded "easy"
+  return clamp(W[7] * initialDifficulty(4) + (1 - W[7]) * damped, 1, 10)
+}
+
+function recallStability(difficulty: number, stability: number, recall: number, grade: number): number {
+  const hardPenalty = grade === 2 ? W[15] : 1
+  const easyBonus = grade === 4 ? W[16] : 1
+  return stability * (
+    1 +
+    Math.exp(W[8]) *
+    (11 - difficulty) *
+    Math.pow(stability, -W[9]) *
+    (Math.exp(W[10] * (1 - recall)) - 1) *
+    hardPenalty *
+    easyBonus
+  )
+}
+
+function forgetStability(difficulty: number, stability: number, recall: number): number {
+  const next = W[11] *
+    Math.pow(difficulty, -W[12]) *
+    (Math.pow(stability + 1, W[13]) - 1) *
+    Math.exp(W[14] * (1 - recall))
+  return Math.min(next, stability)
+}
+
+/** Reviewed again on the same day: only a small adjustment */
+function shortTermStability(stability: number, grade: number): number {
+  return stability * Math.exp(W[17] * (grade - 3 + W[18]))
+}
+
+/**
+ * Scheduling state for cards reviewed with the old right/wrong scheduler,
+ * which only kept a difficulty of 1-5 and the number of reviews
+ */
+export function migrateLegacySchedule(card: Pick<Flashcard, 'difficulty' | 'review_count' | 'next_review'>): CardSchedule {
+  if (card.review_count === 0) {
+    return {
+      state: 'new',
+      stability: null,
+      srs_difficulty: null,
+      lapses: 0,
+      review_count: 0,
+      last_review: null,
+      next_review: card.next_review,
+    }
+  }
+
+  const legacyDifficulty = clamp(card.difficulty || 3, 1, 5)
+  // The old interval doubled per review up to 30 days, and a lapse raised the difficulty
+  const interval = Math.min(30, Math.pow(2, card.review_count))
+  return {
+    state: 'review',
+    stability: legacyDifficulty >= 4 ? 1 : interval,
+    srs_difficulty: 1 + ((legacyDifficulty - 1) * 9) / 4,
+    lapses: 0,
+    review_count: card.review_count,
+    last_review: null,
+    next_review: card.next_review,
+  }
+}
+
+/**
+ * Current scheduling state of a card, migrating cards the backfill has not reached
+ */
+export function getSchedule(card: Flashcard): CardSchedule {
+  if (card.stability === null && card.review_count > 0) {
+    return migrateLegacySchedule(card)
+  }
+  return {
+    state: card.state,
+    stability: card.stability,
+    srs_difficulty: card.srs_difficulty,
+    lapses: card.lapses,
+    review_count: card.review_count,
+    last_review: card.last_review,
+    next_review: card.next_review,
+  }
+}
+
+/**
+ * Grade a card and work out when it is due next
+ */
+export function reviewCard(card: CardSchedule, grade: ReviewGrade, now: Date = new Date()): ReviewResult {
+  const g = gradeValue(grade)
+  const lastReview = card.last_review ? new Date(card.last_review) : null
+  const elapsedDays = lastReview ? Math.max(0, (now.getTime() - lastReview.getTime()) / DAY_MS) : 0
+
+  let stability: number
+  let difficulty: number
+
+  if (card.state === 'new' || card.stability === null || card.srs_difficulty === null) {
+    stability = initialStability(g)
+    difficulty = initialDifficulty(g)
+  } else {
+    difficulty = nextDifficulty(card.srs_difficulty, g)
+    if (lastReview && elapsedDays < 1) {
+      stability = shortTermStability(card.stability, g)
+    } else {
+      // Legacy cards without a last review are treated as exactly due
+      const recall = lastReview ? retrievability(elapsedDays, card.stability) : DESIRED_RETENTION
+      stability = g === 1
+        ? forgetStability(card.srs_difficulty, card.stability, recall)
+        : recallStability(card.srs_difficulty, card.stability, recall, g)
+    }
+  }
+  stability = Math.max(stability, 0.1)
+
+  const lapse = g === 1 && (card.state === 'review' || card.state === 'relearning')
+  let state: FlashcardState
+  let nextReview: Date
+  let scheduledDays: number
+
+  if (g === 1) {
+    state = card.state === 'new' || card.state === 'learning' ? 'learning' : 'relearning'
+    nextReview = new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000)
+    scheduledDays = 0
+  } else {
+    state = 'review'
+    scheduledDays = intervalDays(stability)
+    nextReview = new Date(now.getTime() + scheduledDays * DAY_MS)
+  }
+
+  return {
+    schedule: {
+      state,
+      stability,
+      srs_difficulty: difficulty,
+      lapses: card.lapses + (lapse ? 1 : 0),
+      review_count: card.review_count + 1,
+      last_review: now.toISOString(),
+      next_review: nextReview.toISOString(),
+    },
+    elapsedDays,
+    scheduledDays,
+  }
+}
+
+/**
+ * Time until the card would be due again for each grade, for the grade buttons
+ */
+export function previewIntervals(card: CardSchedule, now: Date = new Date()): Record<ReviewGrade, number> {
+  const preview = {} as Record<ReviewGrade, number>
+  for (const grade of REVIEW_GRADES) {
+    const { schedule } = reviewCard(card, grade, now)
+    preview[grade] = new Date(schedule.next_review!).getTime() - now.getTime()
+  }
+  return preview
+}
+
+/**
+ * Short German label for an interval, e.g. "10 Min.", "3 Tage", "2 Mon."
+ */
+export function formatInterval(ms: number): string {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 60) return `${Math.max(1, minutes)} Min.`
+  const hours = Math.round(minutes / 60)
+  if (hours < 24) return `${hours} Std.`
+  const days = Math.round(ms / DAY_MS)
+  if (days < 30) return days === 1 ? '1 Tag' : `${days} Tage`
+  if (days < 365) return `${Math.round(days / 30)} Mon.`
+  return `${(days / 365).toFixed(1).replace('.', ',')} J.`
+}
+
+/**
+ * Whether a card is remembered well enough to count as mastered
+ */
+export function isMastered(card: Pick<Flashcard, 'state' | 'stability'>): boolean {
+  return card.state === 'review' && (card.stability ?? 0) >= MASTERED_STABILITY_DAYS
+}
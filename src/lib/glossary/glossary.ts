@@ -0,0 +1,187 @@
+/**
+ * Glossary
+ * Takes terms from definition sections and finds their occurrences in text
+ */
+
+import type { GlossaryTerm, Section, SectionMetadata } from '@/lib/supabase/types'
+
+export type GlossarySource = Pick<Section, 'id' | 'title' | 'content' | 'section_type'> & {
+  metadata: SectionMetadata | null
+}
+
+export interface GlossaryEntry {
+  term: string
+  definition: string
+  aliases: string[]
+  section_id: string
+}
+
+export interface TermOccurrence<T> {
+  start: number
+  end: number
+  entry: T
+}
+
+const MAX_TERM_LENGTH = 80
+const MAX_TERM_WORDS = 6
+
+// Titles that name the box rather than the term, e.g. "Definition 2.1:"
+const GENERIC_TITLE = /^(?:begriffs)?definition(?:en)?(\s+[\d.]+)?\s*([:–-])?\s*/i
+
+// Inflected forms that still count as the term (Subsumtion → Subsumtionen)
+const TERM_SUFFIX = '(?:e|en|n|s|es|er|ern)?'
+
+// Abbreviations this short only match with the same case (KI, not "ki")
+const CASE_SENSITIVE_LENGTH = 4
+
+function stripMarkdown(text: string): string {
+  return text.replace(/\*\*(.+?)\*\*/g, '$1').replace(/\*(.+?)\*/g, '$1')
+}
+
+function isPlausibleTerm(term: string): boolean {
+  return term.length >= 2
+    && term.length <= MAX_TERM_LENGTH
+    && term.split(/\s+/).length <= MAX_TERM_WORDS
+    && /\p{L}/u.test(term)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Split "Künstliche Intelligenz (KI)" into the term and its abbreviation
+ */
+function splitAbbreviation(term: string): { term: string; aliases: string[] } {
+  const match = term.match(/^(.+?)\s*\(([^()]{1,12})\)$/)
+  if (!match) return { term, aliases: [] }
+  return { term: match[1].trim(), aliases: [match[2].trim()] }
+}
+
+/**
+ * The term a definition section defines: its title, unless that only says
+ * "Definition", otherwise the lead of the text ("**Term**", "Term: …",
+ * "Unter Term versteht man …", "Term ist …") or a keyword of the section
+ */
+function definedTerm(section: GlossarySource): { term: string; lead: number } | null {
+  // "Definition 2.1 Term" and "Definition: Term", but not "Definitionen im Recht"
+  const generic = section.title.match(GENERIC_TITLE)
+  const title = (generic && (generic[1] || generic[2] || generic[0].length === section.title.length)
+    ? section.title.slice(generic[0].length)
+    : section.title
+  ).replace(/[:.]+$/, '').trim()
+  if (title && isPlausibleTerm(title)) return { term: title, lead: 0 }
+
+  const content = section.content.trim()
+  const leads: RegExp[] = [
+    /^\*\*([^*\n]+?)\*\*\s*[:–-]?\s*/,
+    /^((?:[^\s:.]+\s?){1,4}):\s+/,
+    /^Unter\s+(?:dem\s+Begriff\s+|einer?\s+|dem\s+|der\s+|den\s+)?[„"]?([^\n,]{2,60}?)[“"]?\s+versteh(?:t|en)\s+man/i,
+    /^(?:(?:Der|Die|Das|Ein|Eine)\s+)?(?:Begriff\s+)?[„"]?([^\n,]{2,60}?)[“"]?\s+(?:ist|sind|bezeichnet|bezeichnen|meint|beschreibt|umfasst)\s/,
+  ]
+  for (const pattern of leads) {
+    const match = content.match(pattern)
+    const term = match && stripMarkdown(match[1]).trim()
+    if (term && isPlausibleTerm(term)) {
+      // Only "Term:" and "**Term**" are dropped from the definition text
+      const lead = pattern === leads[0] || pattern === leads[1] ? match[0].length : 0
+      return { term, lead }
+    }
+  }
+
+  const lowerContent = content.toLowerCase()
+  const keyword = section.metadata?.keywords?.find((k) => isPlausibleTerm(k) && lowerContent.includes(k.toLowerCase()))
+  return keyword ? { term: keyword, lead: 0 } : null
+}
+
+/**
+ * Glossary entry for a definition section, or null if no term can be told
+ */
+export function extractGlossaryEntry(section: GlossarySource): GlossaryEntry | null {
+  if (section.section_type !== 'definition') return null
+
+  const found = definedTerm(section)
+  if (!found) return null
+
+  const { term, aliases } = splitAbbreviation(found.term)
+  const definition = stripMarkdown(section.content.trim().slice(found.lead)).trim()
+  if (!definition) return null
+
+  // "Term (ABK)" in the text also introduces an abbreviation
+  const inText = definition.match(new RegExp(`${escapeRegExp(term)}\\s*\\(([\\p{Lu}\\d-]{2,8})\\)`, 'u'))
+  if (inText && !aliases.includes(inText[1])) aliases.push(inText[1])
+
+  return { term, definition, aliases, section_id: section.id }
+}
+
+/**
+ * Entries of all definition sections, one per term (the first definition wins)
+ */
+export function buildGlossaryEntries(sections: GlossarySource[]): GlossaryEntry[] {
+  const entries = new Map<string, GlossaryEntry>()
+  for (const section of sections) {
+    const entry = extractGlossaryEntry(section)
+    if (entry && !entries.has(entry.term.toLowerCase())) {
+      entries.set(entry.term.toLowerCase(), entry)
+    }
+  }
+  return [...entries.values()]
+}
+
+/**
+ * Matcher for the terms and aliases of a glossary: returns non-overlapping
+ * occurrences in a text, longer names first, whole words only
+ */
+export function createTermMatcher<T extends Pick<GlossaryTerm, 'term' | 'aliases'>>(
+  entries: T[]
+): (text: string) => TermOccurrence<T>[] {
+  const names = new Map<string, { name: string; entry: T }>()
+  for (const entry of entries) {
+    for (const name of [entry.term, ...entry.aliases]) {
+      const trimmed = name.trim()
+      if (trimmed.length >= 2 && !names.has(trimmed.toLowerCase())) {
+        names.set(trimmed.toLowerCase(), { name: trimmed, entry })
+      }
+    }
+  }
+  if (names.size === 0) return () => []
+
+  const alternatives = [...names.values()]
+    .map(({ name }) => name)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${alternatives.join('|')})${TERM_SUFFIX}(?![\\p{L}\\p{N}])`,
+    'giu'
+  )
+
+  return (text) => {
+    const occurrences: TermOccurrence<T>[] = []
+    for (const match of text.matchAll(pattern)) {
+      const found = names.get(match[1].toLowerCase())
+      if (!found) continue
+      if (found.name.length <= CASE_SENSITIVE_LENGTH && match[1] !== found.name) continue
+      occurrences.push({ start: match.index, end: match.index + match[0].length, entry: found.entry })
+    }
+    return occurrences
+  }
+}
+
+/**
+ * Letter a term is listed under (umlauts with their base letter, others under #)
+ */
+export function glossaryLetter(term: string): string {
+  const letter = term.trim().charAt(0).normalize('NFD').charAt(0).toUpperCase()
+  return /^[A-Z]$/.test(letter) ? letter : '#'
+}
+
+export function compareTerms(a: Pick<GlossaryTerm, 'term'>, b: Pick<GlossaryTerm, 'term'>): number {
+  return a.term.localeCompare(b.term, 'de', { sensitivity: 'base' })
+}
+
+/**
+ * Flashcard asking for the definition of a term
+ */
+export function glossaryFlashcard(entry: Pick<GlossaryTerm, 'term' | 'definition'>): { question: string; answer: string } {
+  return { question: `Was bedeutet „${entry.term}“?`, answer: entry.definition }
+}
@@ -0,0 +1,32 @@
+/**
+ * Glossary Sync
+ * Fills the glossary of a document from its definition sections
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { buildGlossaryEntries, type GlossarySource } from './glossary'
+
+/**
+ * Replace the terms taken from definitions with those of the current
+ * sections, in one transaction (replace_generated_glossary_terms). Terms
+ * added or edited by an author are kept, also when a definition names the
+ * same term. Returns the number of terms taken.
+ */
+export async function syncDocumentGlossary(supabase: SupabaseClient, documentId: string): Promise<number> {
+  const { data: sections, error: sectionsError } = await supabase
+    .from('sections')
+    .select('id, title, content, section_type, metadata')
+    .eq('document_id', documentId)
+    .eq('section_type', 'definition')
+    .order('order_index', { ascending: true })
+
+  if (sectionsError) throw sectionsError
+
+  const { data: count, error: replaceError } = await supabase.rpc('replace_generated_glossary_terms', {
+    p_document_id: documentId,
+    p_terms: buildGlossaryEntries((sections || []) as GlossarySource[]),
+  })
+
+  if (replaceError) throw replaceError
+  return (count as number | null) ?? 0
+}
@@ -0,0 +1,473 @@
+/**
+ * PDF Ingestion Job Runner
+ * Runs the upload pipeline (extract → images → structure → persist → glossary → index) in the
+ * background, persisting per-stage status and intermediate results so that
+ * a failed or interrupted job can be resumed from the stage that broke
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { extractText, getDocumentProxy } from 'unpdf'
+import { extractImagesFromPDF } from '@/lib/pdf/image-extractor'
+import {
+  uploadExtractedImages,
+  saveImageMetadata,
+  deleteDocumentImages,
+  type StoredImage,
+} from '@/lib/pdf/image-storage'
+import { structureDocument, type ProcessedDocument } from '@/lib/ai/pdf-processor'
+import { indexDocument } from '@/lib/ai/section-index'
+import { syncDocumentGlossary } from '@/lib/glossary/sync'
+import type {
+  IngestionJob,
+  IngestionJobOptions,
+  IngestionStage,
+  IngestionStageState,
+} from '@/lib/supabase/types'
+
+export const INGESTION_STAGES: IngestionStage[] = ['extract', 'images', 'structure', 'persist', 'glossary', 'index']
+
+// Each stage is retried automatically before the job is marked as failed
+const MAX_STAGE_ATTEMPTS = 2
+
+// Stages whose failure does not stop the pipeline (document is usable without them)
+const OPTIONAL_STAGES: IngestionStage[] = ['images', 'glossary', 'index']
+
+// A running job that has not been updated for this long was most likely killed by a timeout
+export const STALE_JOB_MS = 10 * 60 * 1000
+
+interface IngestionArtifacts {
+  pages?: string[]
+  totalPages?: number
+  images?: StoredImage[]
+  pagesWithImages?: number[]
+  structured?: ProcessedDocument
+}
+
+interface JobRow extends IngestionJob {
+  artifacts: IngestionArtifacts
+}
+
+interface StageContext {
+  supabase: SupabaseClient
+  job: JobRow
+  document: { id: string; storage_path: string; original_filename: string }
+  artifacts: IngestionArtifacts
+}
+
+function createStageState(): IngestionStageState {
+  return { status: 'pending', attempts: 0, error: null, started_at: null, finished_at: null }
+}
+
+export function createInitialStages(): Record<IngestionStage, IngestionStageState> {
+  return {
+    extract: createStageState(),
+    images: createStageState(),
+    structure: createStageState(),
+    persist: createStageState(),
+    glossary: createStageState(),
+    index: createStageState(),
+  }
+}
+
+/**
+ * Whether a job is currently being worked on by another request
+ */
+export function isJobActive(job: Pick<IngestionJob, 'status' | 'updated_at'>): boolean {
+  if (job.status !== 'running' && job.status !== 'queued') return false
+  return Date.now() - new Date(job.updated_at).getTime() < STALE_JOB_MS
+}
+
+async function updateJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  patch: Partial<Omit<JobRow, 'id'>>
+) {
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+
+  if (error) {
+    console.error('Failed to update ingestion job:', error)
+  }
+}
+
+/**
+ * Create the ingestion job for a document, or prepare the existing one to run again.
+ * - Active jobs are returned untouched (queued: false, no new worker needed)
+ * - Failed or abandoned jobs resume from their first unfinished stage
+ * - Completed jobs (or restart: true) start over; persist replaces previous output
+ * The job is only claimed if nobody else changed it in the meantime, so of two
+ * concurrent requests for the same document only one gets queued: true.
+ */
+export async function enqueueIngestionJob(
+  supabase: SupabaseClient,
+  documentId: string,
+  userId: string,
+  options?: { restart?: boolean } & IngestionJobOptions
+): Promise<{ job: IngestionJob; queued: boolean }> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('document_id', documentId)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(fetchError.message)
+  }
+
+  if (existing && isJobActive(existing) && !options?.restart) {
+    return { job: existing as IngestionJob, queued: false }
+  }
+
+  const resume = existing && existing.status !== 'completed' && !options?.restart
+  const jobOptions: IngestionJobOptions = {
+    ...(existing?.options ?? {}),
+    ...(options?.structurer ? { structurer: options.structurer } : {}),
+  }
+  const fields = {
+    user_id: userId,
+    status: 'queued' as const,
+    stages: resume ? existing.stages : createInitialStages(),
+    artifacts: resume ? existing.artifacts : {},
+    options: jobOptions,
+    result: null,
+    error: null,
+    updated_at: new Date().toISOString(),
+  }
+
+  // Insert fails on the unique document_id, the update matches no row,
+  // if another request claimed the job first
+  const { data: job, error } = existing
+    ? await supabase
+        .from('ingestion_jobs')
+        .update(fields)
+        .eq('id', existing.id)
+        .eq('updated_at', existing.updated_at)
+        .select()
+        .maybeSingle()
+    : await supabase
+        .from('ingestion_jobs')
+        .insert({ ...fields, document_id: documentId })
+        .select()
+        .maybeSingle()
+
+  if (job) {
+    return { job: job as IngestionJob, queued: true }
+  }
+
+  // 23505: unique violation
+  if (error && error.code !== '23505') {
+    throw new Error(error.message)
+  }
+
+  const { data: claimed } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('document_id', documentId)
+    .maybeSingle()
+
+  if (!claimed) {
+    throw new Error('Verarbeitungsauftrag konnte nicht erstellt werden')
+  }
+
+  return { job: claimed as IngestionJob, queued: false }
+}
+
+/**
+ * Mark a stage and every stage after it as pending so the next run repeats them
+ */
+export async function resetStagesFrom(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  stage: IngestionStage
+): Promise<void> {
+  const stages = { ...job.stages }
+  const from = INGESTION_STAGES.indexOf(stage)
+
+  for (const name of INGESTION_STAGES.slice(from)) {
+    stages[name] = createStageState()
+  }
+
+  await updateJob(supabase, job.id, { status: 'queued', stages, error: null, result: null })
+}
+
+/**
+ * Run all unfinished stages of a job in order
+ */
+export async function runIngestionJob(supabase: SupabaseClient, jobId: string): Promise<void> {
+  const { data: job } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  if (!job) {
+    console.error(`Ingestion job ${jobId} not found`)
+    return
+  }
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id, storage_path, original_filename')
+    .eq('id', job.document_id)
+    .single()
+
+  const stages: Record<IngestionStage, IngestionStageState> = { ...createInitialStages(), ...job.stages }
+
+  if (!document) {
+    await updateJob(supabase, jobId, { status: 'error', error: 'Dokument nicht gefunden' })
+    return
+  }
+
+  const ctx: StageContext = {
+    supabase,
+    job: job as JobRow,
+    document,
+    artifacts: (job.artifacts || {}) as IngestionArtifacts,
+  }
+
+  await updateJob(supabase, jobId, { status: 'running', stages })
+  await supabase.from('documents').update({ processing_status: 'processing' }).eq('id', document.id)
+
+  for (const stage of INGESTION_STAGES) {
+    if (stages[stage].status === 'completed') continue
+
+    const ok = await runStageWithRetries(ctx, stages, stage)
+
+    if (!ok && !OPTIONAL_STAGES.includes(stage)) {
+      await updateJob(supabase, jobId, {
+        status: 'error',
+        stages,
+        error: stages[stage].error,
+      })
+      await supabase.from('documents').update({ processing_status: 'error' }).eq('id', document.id)
+      return
+    }
+  }
+
+  const structured = ctx.artifacts.structured
+  await updateJob(supabase, jobId, {
+    status: 'completed',
+    stages,
+    result: {
+      title: structured?.title ?? null,
+      sectionsCount: structured?.sections.length ?? 0,
+      totalPages: ctx.artifacts.totalPages ?? 0,
+      imagesExtracted: ctx.artifacts.images?.length ?? 0,
+      pagesWithImages: ctx.artifacts.pagesWithImages ?? [],
+      tableOfContents: structured?.tableOfContents ?? [],
+      coveredPageRanges: structured?.coverage?.structured ?? [],
+      fallbackPageRanges: structured?.coverage?.fallback ?? [],
+    },
+  })
+  await supabase.from('documents').update({ processing_status: 'completed' }).eq('id', document.id)
+}
+
+/**
+ * Run one stage, retrying it up to MAX_STAGE_ATTEMPTS times.
+ * Stage state and artifacts are written after every attempt.
+ */
+async function runStageWithRetries(
+  ctx: StageContext,
+  stages: Record<IngestionStage, IngestionStageState>,
+  stage: IngestionStage
+): Promise<boolean> {
+  for (let attempt = 1; attempt <= MAX_STAGE_ATTEMPTS; attempt++) {
+    stages[stage] = {
+      ...stages[stage],
+      status: 'running',
+      attempts: stages[stage].attempts + 1,
+      started_at: new Date().toISOString(),
+      finished_at: null,
+    }
+    await updateJob(ctx.supabase, ctx.job.id, { stages })
+
+    try {
+      await STAGE_RUNNERS[stage](ctx)
+      stages[stage] = { ...stages[stage], status: 'completed', error: null, finished_at: new Date().toISOString() }
+      await updateJob(ctx.supabase, ctx.job.id, { stages, artifacts: ctx.artifacts })
+      return true
+    } catch (error) {
+      console.error(`Ingestion stage "${stage}" failed (attempt ${attempt}):`, error)
+      stages[stage] = {
+        ...stages[stage],
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unbekannter Fehler',
+        finished_at: new Date().toISOString(),
+      }
+      await updateJob(ctx.supabase, ctx.job.id, { stages })
+    }
+  }
+
+  return false
+}
+
+async function downloadPDF(ctx: StageContext): Promise<Buffer> {
+  const { data: fileData, error } = await ctx.supabase.storage
+    .from('documents')
+    .download(ctx.document.storage_path)
+
+  if (error || !fileData) {
+    throw new Error('PDF konnte nicht heruntergeladen werden')
+  }
+
+  return Buffer.from(await fileData.arrayBuffer())
+}
+
+const STAGE_RUNNERS: Record<IngestionStage, (ctx: StageContext) => Promise<void>> = {
+  /**
+   * Download the PDF and extract its text page by page
+   */
+  async extract(ctx) {
+    const buffer = await downloadPDF(ctx)
+    const pdf = await getDocumentProxy(new Uint8Array(buffer))
+    const { text: pages, totalPages } = await extractText(pdf, { mergePages: false })
+
+    ctx.artifacts.pages = pages
+    ctx.artifacts.totalPages = totalPages
+  },
+
+  /**
+   * Extract embedded images and upload them, replacing images of earlier runs
+   */
+  async images(ctx) {
+    const buffer = await downloadPDF(ctx)
+    const imageResult = await extractImagesFromPDF(buffer, {
+      minWidth: 50,
+      minHeight: 50,
+      maxImages: 50,
+      outputFormat: 'png',
+    })
+
+    await deleteDocumentImages(ctx.document.id, ctx.job.user_id, ctx.supabase)
+
+    const storedImages = imageResult.images.length > 0
+      ? await uploadExtractedImages(
+          imageResult.images,
+          { documentId: ctx.document.id, userId: ctx.job.user_id },
+          ctx.supabase
+        )
+      : []
+
+    if (storedImages.length > 0) {
+      await saveImageMetadata(storedImages, ctx.document.id, ctx.supabase)
+    }
+
+    ctx.artifacts.images = storedImages
+    ctx.artifacts.pagesWithImages = imageResult.pagesWithImages
+  },
+
+  /**
+   * Structure the extracted pages into sections (AI or rule-based, per upload)
+   */
+  async structure(ctx) {
+    const { pages, totalPages } = ctx.artifacts
+    if (!pages || !totalPages) {
+      throw new Error('Kein extrahierter Text vorhanden')
+    }
+
+    // Create a map of images by page number for AI context
+    const imagesByPage = new Map<number, { pageNumber: number; imageIndex: number }[]>()
+    for (const img of ctx.artifacts.images ?? []) {
+      const pageImages = imagesByPage.get(img.pageNumber) || []
+      pageImages.push({ pageNumber: img.pageNumber, imageIndex: img.imageIndex })
+      imagesByPage.set(img.pageNumber, pageImages)
+    }
+
+    ctx.artifacts.structured = await structureDocument(
+      pages,
+      ctx.document.original_filename || 'document.pdf',
+      totalPages,
+      imagesByPage,
+      ctx.job.options?.structurer
+    )
+  },
+
+  /**
+   * Write document metadata and sections, replacing sections of earlier runs
+   */
+  async persist(ctx) {
+    const structuredDoc = ctx.artifacts.structured
+    if (!structuredDoc) {
+      throw new Error('Keine strukturierten Abschnitte vorhanden')
+    }
+
+    const storedImages = ctx.artifacts.images ?? []
+
+    const { error: updateError } = await ctx.supabase
+      .from('documents')
+      .update({
+        total_pages: ctx.artifacts.totalPages ?? null,
+        title: structuredDoc.title,
+        ai_summary: structuredDoc.summary,
+        author: structuredDoc.metadata?.author || null,
+        institution: structuredDoc.metadata?.institution || null,
+        has_images: storedImages.length > 0,
+      })
+      .eq('id', ctx.document.id)
+
+    if (updateError) throw updateError
+
+    // Helper to find images for a section based on page range
+    const getImagesForSection = (pageStart: number | null, pageEnd: number | null) => {
+      if (!pageStart) return []
+      const start = pageStart
+      const end = pageEnd || pageStart
+      return storedImages
+        .filter((img) => img.pageNumber >= start && img.pageNumber <= end)
+        .map((img) => ({
+          id: `${img.pageNumber}-${img.imageIndex}`,
+          storage_path: img.publicUrl,
+          alt_text: `Abbildung von Seite ${img.pageNumber}`,
+          page_number: img.pageNumber,
+          width: img.width,
+          height: img.height,
+        }))
+    }
+
+    const sections = structuredDoc.sections.map((section, index) => ({
+      title: section.title,
+      content: section.content,
+      order_index: index,
+      page_start: section.pageStart,
+      page_end: section.pageEnd,
+      ai_summary: section.summary || null,
+      section_type: section.section_type || 'chapter',
+      metadata: {
+        task_number: section.task_number || null,
+        keywords: section.keywords || [],
+        level: section.level ?? 0,
+        chapter_number: section.chapter_number || '0',
+        solution_id: section.solution_id || null,
+        exercise_id: section.exercise_id || null,
+      },
+      // Store images as JSON array in the section
+      images: getImagesForSection(section.pageStart, section.pageEnd),
+    }))
+
+    // Re-runs replace the sections of earlier runs in one transaction; sections
+    // that still match keep their id, so the user's data attached to them survives
+    const { error } = await ctx.supabase.rpc('replace_document_sections', {
+      p_document_id: ctx.document.id,
+      p_sections: sections,
+    })
+
+    if (error) throw error
+  },
+
+  /**
+   * Take glossary terms from the definition sections
+   */
+  async glossary(ctx) {
+    await syncDocumentGlossary(ctx.supabase, ctx.document.id)
+  },
+
+  /**
+   * Embed the new sections for questions about the script; without it the
+   * index is built on the first question
+   */
+  async index(ctx) {
+    await indexDocument(ctx.supabase, ctx.document.id)
+  },
+}
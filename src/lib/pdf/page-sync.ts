@@ -0,0 +1,49 @@
+/**
+ * Page Sync
+ * Maps between reader sections and pages of the original PDF through
+ * page_start/page_end
+ */
+
+import type { Section } from '@/lib/supabase/types'
+
+export type PagedSection = Pick<Section, 'id' | 'page_start' | 'page_end'>
+
+/**
+ * Pages a section covers, or null if the structurer recorded none
+ */
+export function sectionPageRange(section: PagedSection): { start: number; end: number } | null {
+  if (!section.page_start) return null
+  return { start: section.page_start, end: Math.max(section.page_end ?? section.page_start, section.page_start) }
+}
+
+/**
+ * Section to show for a page: the first one that starts on it, otherwise the
+ * one continuing over it (the last one starting before)
+ */
+export function sectionForPage<T extends PagedSection>(sections: T[], page: number): T | null {
+  let continuing: T | null = null
+  for (const section of sections) {
+    const range = sectionPageRange(section)
+    if (!range) continue
+    if (range.start === page) return section
+    if (range.start < page && range.end >= page) continuing = section
+  }
+  return continuing
+}
+
+/**
+ * Page the PDF shows next to a section. A page chosen in the PDF stays while
+ * the reader is still in the section it was chosen for, or in one covering it;
+ * otherwise the PDF follows the reader to the first page of the section.
+ */
+export function syncedPage(
+  section: PagedSection | null,
+  chosen: { page: number; sectionId: string | null } | null
+): number {
+  if (chosen && chosen.sectionId === (section?.id ?? null)) return chosen.page
+
+  const range = section ? sectionPageRange(section) : null
+  if (!range) return chosen?.page ?? 1
+  if (chosen && chosen.page >= range.start && chosen.page <= range.end) return chosen.page
+  return range.start
+}
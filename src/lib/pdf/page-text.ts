@@ -0,0 +1,140 @@
+/**
+ * Page-aware text helpers
+ * Keeps page boundaries of extracted PDF text and maps section text back
+ * to the pages it actually appears on
+ */
+
+export interface PageLocatable {
+  title: string
+  content: string
+  pageStart: number | null
+  pageEnd: number | null
+}
+
+// Marker placed at the start of every page in text sent to the model
+const PAGE_MARKER_PATTERN = /\[\[Seite (\d+)\]\]\n?/g
+
+// Characters that survive normalization (letters and digits of any script)
+const NON_WORD_PATTERN = new RegExp('[^\\p{L}\\p{N}]', 'gu')
+
+// Length of the text probes used to find where a section starts and ends
+const PROBE_LENGTH = 60
+const MIN_PROBE_LENGTH = 20
+
+export function pageMarker(pageNumber: number): string {
+  return `[[Seite ${pageNumber}]]`
+}
+
+/**
+ * Join per-page text into one string with a marker at the start of each page
+ */
+export function joinPagesWithMarkers(pages: string[], firstPage: number = 1): string {
+  return pages
+    .map((text, i) => `${pageMarker(firstPage + i)}\n${text.trim()}`)
+    .join('\n\n')
+}
+
+/**
+ * Remove page markers, e.g. from content the model copied verbatim
+ */
+export function stripPageMarkers(text: string): string {
+  return text.replace(PAGE_MARKER_PATTERN, '').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+/**
+ * Reduce text to lowercase letters and digits so that line breaks,
+ * hyphenation and Markdown formatting added by the model do not matter
+ */
+function normalize(text: string): string {
+  return stripPageMarkers(text).toLowerCase().replace(NON_WORD_PATTERN, '')
+}
+
+interface PageIndex {
+  text: string
+  // Offset in `text` where each page begins (index 0 = page 1)
+  pageOffsets: number[]
+}
+
+function buildPageIndex(pages: string[]): PageIndex {
+  const pageOffsets: number[] = []
+  let text = ''
+
+  for (const page of pages) {
+    pageOffsets.push(text.length)
+    text += normalize(page)
+  }
+
+  return { text, pageOffsets }
+}
+
+function pageAtOffset(index: PageIndex, offset: number): number {
+  let page = 1
+  for (let i = 0; i < index.pageOffsets.length; i++) {
+    if (index.pageOffsets[i] <= offset) page = i + 1
+    else break
+  }
+  return page
+}
+
+/**
+ * Find a probe of the given text in the page index, trying shorter probes if needed
+ */
+function findProbe(
+  index: PageIndex,
+  normalized: string,
+  fromOffset: number,
+  fromEnd: boolean
+): { offset: number; length: number } | null {
+  for (let length = PROBE_LENGTH; length >= MIN_PROBE_LENGTH; length = Math.floor(length / 2)) {
+    if (normalized.length < length) continue
+    const probe = fromEnd ? normalized.slice(-length) : normalized.slice(0, length)
+    const offset = index.text.indexOf(probe, fromOffset)
+    if (offset !== -1) return { offset, length }
+  }
+  return null
+}
+
+/**
+ * Compute page ranges from where each section's text appears in the PDF.
+ * The AI-provided pageStart/pageEnd are only used when the text cannot be
+ * located, and are then clamped to stay in document order.
+ */
+export function resolveSectionPages<T extends PageLocatable>(
+  sections: T[],
+  pages: string[]
+): { sections: T[]; corrected: number; unresolved: number } {
+  const index = buildPageIndex(pages)
+  const totalPages = Math.max(pages.length, 1)
+  let cursor = 0
+  let previousStart = 1
+  let corrected = 0
+  let unresolved = 0
+
+  const resolved = sections.map((section) => {
+    const content = normalize(section.content)
+    const probeSource = content.length >= MIN_PROBE_LENGTH ? content : normalize(section.title)
+    const start = findProbe(index, probeSource, cursor, false)
+
+    let pageStart: number
+    let pageEnd: number
+
+    if (start) {
+      const end = findProbe(index, probeSource, start.offset, true)
+      pageStart = pageAtOffset(index, start.offset)
+      pageEnd = end ? pageAtOffset(index, end.offset + end.length - 1) : pageStart
+      cursor = start.offset
+
+      if (section.pageStart !== pageStart || section.pageEnd !== pageEnd) corrected++
+    } else {
+      // Not found verbatim (e.g. rephrased by the model) - keep the AI estimate in bounds
+      unresolved++
+      pageStart = Math.min(Math.max(section.pageStart ?? previousStart, previousStart), totalPages)
+      pageEnd = Math.min(Math.max(section.pageEnd ?? pageStart, pageStart), totalPages)
+    }
+
+    previousStart = pageStart
+    return { ...section, pageStart, pageEnd: Math.max(pageEnd, pageStart) }
+  })
+
+  return { sections: resolved, corrected, unresolved }
+}
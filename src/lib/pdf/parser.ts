@@ -1,4 +1,5 @@
 import { extractText, getDocumentProxy } from 'unpdf'
+import { resolveSectionPages } from './page-text'
 
 export interface ParsedSection {
   title: string
@@ -25,9 +26,10 @@ export async function parsePDF(buffer: Buffer): Promise<ParsedDocument> {
   // Use unpdf for modern ESM-compatible PDF parsing
   const uint8Array = new Uint8Array(buffer)
   const pdf = await getDocumentProxy(uint8Array)
-  const { text, totalPages } = await extractText(pdf, { mergePages: true })
+  const { text: pages, totalPages } = await extractText(pdf, { mergePages: false })
 
-  const sections = extractSections(text)
+  // Split the joined text, then map each section back to the pages it came from
+  const { sections } = resolveSectionPages(extractSections(pages.join('\n\n')), pages)
 
   return {
     sections,
@@ -0,0 +1,31 @@
+/**
+ * pdfjs-dist configuration for the browser
+ * Loaded on demand; pages are parsed in a web worker
+ */
+
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist'
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null
+
+function loadPdfjs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then((pdfjs) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+        'pdfjs-dist/build/pdf.worker.min.mjs',
+        import.meta.url
+      ).toString()
+      return pdfjs
+    })
+  }
+  return pdfjsPromise
+}
+
+/**
+ * Open a PDF from a URL (e.g. a signed storage URL)
+ */
+export async function loadPDFDocument(url: string): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfjs()
+  return pdfjs.getDocument({ url }).promise
+}
+
+export type { PDFDocumentProxy, PDFPageProxy }
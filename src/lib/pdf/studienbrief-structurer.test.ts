@@ -0,0 +1,140 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { structureDocumentWithRules, structurePagesWithRules } from './studienbrief-structurer'
+
+// Sample Studienbrief, pages separated by form feeds
+const pages = readFileSync(join(__dirname, '__fixtures__', 'studienbrief.txt'), 'utf8').split('\f')
+
+function findSection(title: string) {
+  const section = structurePagesWithRules(pages).find((s) => s.title === title)
+  if (!section) throw new Error(`Section "${title}" not found`)
+  return section
+}
+
+describe('structurePagesWithRules', () => {
+  it('recognizes numbered chapters and subchapters with their pages', () => {
+    const headings = structurePagesWithRules(pages)
+      .filter((s) => s.section_type === 'chapter' || s.section_type === 'subchapter')
+      .map((s) => [s.title, s.section_type, s.level, s.chapter_number, s.pageStart])
+
+    expect(headings).toEqual([
+      ['Einführung', 'chapter', 0, 'intro', 1],
+      ['1 Grundlagen des Projektmanagements', 'chapter', 0, '1', 1],
+      ['1.1 Was ist ein Projekt?', 'subchapter', 1, '1', 2],
+      ['1.2 Projektphasen', 'subchapter', 1, '1', 3],
+      ['2 Projektplanung', 'chapter', 0, '2', 4],
+      ['2.1 Strukturplan', 'subchapter', 1, '2', 4],
+    ])
+  })
+
+  it('keeps list items and page numbers in the body text', () => {
+    expect(findSection('1.2 Projektphasen').content).toBe(
+      'Projekte durchlaufen Initiierung, Planung, Durchführung und Abschluss.\n' +
+      '- Initiierung und Planung\n' +
+      '- Durchführung und Abschluss'
+    )
+  })
+
+  it('recognizes Lernziele', () => {
+    expect(findSection('Lernziele')).toMatchObject({
+      section_type: 'learning_objectives',
+      chapter_number: '1',
+      level: 1,
+      content: 'Nach diesem Kapitel können Sie Projekte von Routineaufgaben abgrenzen.\n' +
+        'Sie kennen die Phasen eines Projekts.',
+    })
+  })
+
+  it('recognizes Merke, Beispiel and Definition, with text after the colon as content', () => {
+    expect(findSection('Definition')).toMatchObject({
+      section_type: 'definition',
+      content: 'Ein Projekt ist ein zeitlich befristetes Vorhaben.\nEs ist durch Einmaligkeit gekennzeichnet.',
+    })
+    expect(findSection('Beispiel')).toMatchObject({
+      section_type: 'example',
+      content: 'Der Bau einer Brücke ist ein Projekt, der tägliche Betrieb nicht.',
+    })
+    expect(findSection('Merke')).toMatchObject({
+      section_type: 'important',
+      content: 'Jedes Projekt hat ein definiertes Ende.',
+    })
+  })
+
+  it('recognizes tasks and exercises with their number', () => {
+    expect(findSection('Aufgabe 1.1')).toMatchObject({ section_type: 'task', task_number: '1.1' })
+    expect(findSection('Übungsaufgabe 1.2')).toMatchObject({
+      section_type: 'exercise',
+      task_number: '1.2',
+      content: 'Grenzen Sie Projekt und Linienaufgabe ab.',
+    })
+  })
+
+  it('starts a new section at a plain "Lösungen" heading instead of extending the last task', () => {
+    expect(findSection('Aufgabe 2.1').content).toBe('Erstellen Sie einen Strukturplan für einen Umzug.')
+    expect(findSection('Lösungen')).toMatchObject({ section_type: 'solution', pageStart: 5 })
+  })
+
+  it('reads tasks in a solutions block as their solutions', () => {
+    expect(findSection('Lösung zu Aufgabe 1.2')).toMatchObject({
+      section_type: 'solution',
+      task_number: '1.2',
+      content: 'Ein Projekt ist einmalig, eine Linienaufgabe wiederkehrend.',
+    })
+    expect(structurePagesWithRules(pages).filter((s) => s.title === 'Aufgabe 2.1')).toHaveLength(1)
+  })
+
+  it('keeps text after a "Lösungen" heading without numbered solutions in that section', () => {
+    const sections = structurePagesWithRules([
+      'Aufgabe 3.1\nBeschreiben Sie das Vorgehen.',
+      'Lösungen zu den Aufgaben:\nDas Vorgehen folgt dem Phasenmodell.',
+    ])
+
+    expect(sections.map((s) => [s.title, s.section_type, s.content])).toEqual([
+      ['Aufgabe 3.1', 'task', 'Beschreiben Sie das Vorgehen.'],
+      ['Lösungen zu den Aufgaben', 'solution', 'Das Vorgehen folgt dem Phasenmodell.'],
+    ])
+  })
+
+  it('marks text before the first heading as continuation of the previous chunk', () => {
+    const [first] = structurePagesWithRules(['noch zum vorigen Abschnitt\n1.3 Weiter'], {
+      firstPage: 7,
+      continuesPrevious: true,
+      chapter: 1,
+    })
+
+    expect(first).toMatchObject({ title: 'Fortsetzung', continues_previous: true, pageStart: 7 })
+  })
+})
+
+describe('structureDocumentWithRules', () => {
+  const document = structureDocumentWithRules(pages, 'Projektmanagement.pdf')
+  const indexOf = (title: string) => document.sections.findIndex((s) => s.title === title)
+
+  it('links tasks and solutions in both directions', () => {
+    const pairs: [string, string][] = [
+      ['Aufgabe 1.1', 'Lösung zu Aufgabe 1.1'],
+      ['Übungsaufgabe 1.2', 'Lösung zu Aufgabe 1.2'],
+      ['Aufgabe 2.1', 'Lösung zu Aufgabe 2.1'],
+    ]
+
+    for (const [task, solution] of pairs) {
+      expect(document.sections[indexOf(task)].solution_id).toBe(String(indexOf(solution)))
+      expect(document.sections[indexOf(solution)].exercise_id).toBe(String(indexOf(task)))
+    }
+  })
+
+  it('leaves the plain "Lösungen" heading unlinked', () => {
+    expect(document.sections[indexOf('Lösungen')].exercise_id).toBeUndefined()
+  })
+
+  it('builds the table of contents from the chapters', () => {
+    expect(document.title).toBe('Projektmanagement')
+    expect(document.tableOfContents.map((entry) => [entry.title, entry.page])).toEqual([
+      ['Einführung', 1],
+      ['1 Grundlagen des Projektmanagements', 1],
+      ['2 Projektplanung', 4],
+    ])
+    expect(document.coverage).toEqual({ structured: [{ pageStart: 1, pageEnd: 5 }], fallback: [] })
+  })
+})
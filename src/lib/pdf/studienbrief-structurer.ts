@@ -0,0 +1,269 @@
+/**
+ * Rule-based Studienbrief structurer
+ * Deterministic, offline alternative to the AI structuring. Recognizes
+ * numbered chapters (1., 1.1, 1.1.1) and the typical Studienbrief blocks
+ * (Lernziele, Aufgabe X.Y, Lösung zu Aufgabe, Lösungen, Merke/Wichtig, Beispiel, Definition)
+ */
+
+import { mergeChunkResults, type ChunkResult } from '@/lib/ai/document-chunker'
+import type { ProcessedDocument } from '@/lib/ai/pdf-processor'
+import type { SectionType } from '@/lib/supabase/types'
+
+type RuleSection = ChunkResult['sections'][number]
+
+interface HeadingMatch {
+  title: string
+  section_type: SectionType
+  // Numbering depth for numbered headings (1 = "1.", 2 = "1.1", 3 = "1.1.1")
+  depth?: number
+  number?: string
+  task_number?: string
+  // Text after "Merke:", "Beispiel:" etc. that already belongs to the content
+  inlineContent?: string
+  // Plain "Lösungen" heading: tasks that follow are its solutions
+  solutionsBlock?: boolean
+}
+
+const NUMBER = String.raw`(\d+(?:\.\d+)*)`
+
+/**
+ * Block headings: keyword alone on a line, optionally numbered,
+ * optionally followed by ":" and the first line of content
+ */
+function blockPattern(keywords: string): RegExp {
+  return new RegExp(String.raw`^(${keywords})(?:\s+${NUMBER})?\s*(?:[:.]\s*(.*))?$`, 'i')
+}
+
+const BLOCK_RULES: { pattern: RegExp; section_type: SectionType; numbered?: boolean }[] = [
+  { pattern: blockPattern('Lernziele|Lernziel'), section_type: 'learning_objectives' },
+  { pattern: blockPattern('Übungsaufgabe|Selbsttest|Selbstkontrollaufgabe'), section_type: 'exercise', numbered: true },
+  { pattern: blockPattern('Aufgabe|Übung'), section_type: 'task', numbered: true },
+  { pattern: blockPattern('Merke|Wichtig|Achtung'), section_type: 'important' },
+  { pattern: blockPattern('Beispiel'), section_type: 'example' },
+  { pattern: blockPattern('Definition'), section_type: 'definition' },
+  { pattern: blockPattern('Hinweis|Tipp'), section_type: 'tip' },
+  { pattern: blockPattern('Zusammenfassung'), section_type: 'summary' },
+  { pattern: blockPattern('Praxisimpuls|Praxisbeispiel|Fallstudie'), section_type: 'practice_impulse' },
+  { pattern: blockPattern('Reflexion|Reflexionsfragen?'), section_type: 'reflection' },
+  { pattern: blockPattern('Literatur|Weiterführende Literatur|Literaturverzeichnis|Siehe auch'), section_type: 'reference' },
+]
+
+const SOLUTION_PATTERN = new RegExp(
+  String.raw`^Lösung(?:en)?(?:\s+(?:zu(?:r)?\s+)?(?:Übungsaufgabe|Aufgabe))?\s+${NUMBER}\s*(?:[:.]\s*(.*))?$`,
+  'i'
+)
+
+// "Lösungen", "Lösungen zu den Aufgaben", "Musterlösungen", "Lösungshinweise" without a task number
+const SOLUTIONS_BLOCK_PATTERN = /^(?:Muster)?Lösung(?:en|shinweise)(?:\s+(?:zu\s+den|der)\s+(?:Übungs|Selbstkontroll)?aufgaben)?\s*:?$/i
+
+// "1 Grundlagen", "1. Grundlagen", "2.3 Anwendung", "2.3.1 Details"
+const NUMBERED_HEADING_PATTERN = new RegExp(String.raw`^${NUMBER}\.?\s+([A-ZÄÖÜ].{1,118})$`)
+const CHAPTER_KEYWORD_PATTERN = /^Kapitel\s+(\d+)\s*[:.\-–]?\s*(.+)$/i
+
+/**
+ * Classify a single line as heading, or return null for body text
+ */
+function matchHeading(line: string, currentChapter: number | null): HeadingMatch | null {
+  const solution = line.match(SOLUTION_PATTERN)
+  if (solution) {
+    return {
+      title: `Lösung zu Aufgabe ${solution[1]}`,
+      section_type: 'solution',
+      task_number: solution[1],
+      inlineContent: solution[2],
+    }
+  }
+
+  if (SOLUTIONS_BLOCK_PATTERN.test(line)) {
+    return { title: line.replace(/\s*:$/, ''), section_type: 'solution', solutionsBlock: true }
+  }
+
+  for (const rule of BLOCK_RULES) {
+    const match = line.match(rule.pattern)
+    if (!match) continue
+    const [, keyword, number, rest] = match
+    return {
+      title: number ? `${keyword} ${number}` : keyword,
+      section_type: rule.section_type,
+      task_number: rule.numbered ? number : undefined,
+      inlineContent: rest,
+    }
+  }
+
+  const chapterKeyword = line.match(CHAPTER_KEYWORD_PATTERN)
+  if (chapterKeyword) {
+    return { title: line, section_type: 'chapter', depth: 1, number: chapterKeyword[1] }
+  }
+
+  const numbered = line.match(NUMBERED_HEADING_PATTERN)
+  if (numbered && !/[.,;:]$/.test(line)) {
+    const number = numbered[1]
+    const parts = number.split('.').map(Number)
+    if (parts.length > 3) return null
+
+    // Numbered lists in body text look like headings - require plausible chapter numbering
+    if (parts.length === 1) {
+      if (currentChapter !== null && parts[0] !== currentChapter + 1) return null
+    } else if (parts[0] !== currentChapter) {
+      return null
+    }
+
+    return {
+      title: line,
+      section_type: parts.length === 1 ? 'chapter' : 'subchapter',
+      depth: parts.length,
+      number,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Structure consecutive pages into sections.
+ * With continuesPrevious, text before the first heading is marked as
+ * continuation of the previous chunk instead of becoming an introduction;
+ * chapter is the chapter number the previous chunk ended in.
+ */
+export function structurePagesWithRules(
+  pages: string[],
+  options?: { firstPage?: number; continuesPrevious?: boolean; chapter?: number | null }
+): RuleSection[] {
+  const firstPage = options?.firstPage ?? 1
+  const sections: RuleSection[] = []
+  let currentChapter: number | null = options?.chapter ?? null
+  // Inside a "Lösungen" block, until the next chapter or subchapter
+  let inSolutionsBlock = false
+  let current: (RuleSection & { lines: string[] }) | null = null
+
+  const flush = () => {
+    if (!current) return
+    const { lines, ...section } = current
+    const content = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+    // Drop empty leading fragments, keep empty headings (e.g. chapter followed by subchapter)
+    if (content || section.section_type !== undefined) {
+      sections.push({ ...section, content })
+    }
+    current = null
+  }
+
+  pages.forEach((pageText, i) => {
+    const pageNumber = firstPage + i
+
+    for (const rawLine of pageText.replace(/\r\n/g, '\n').split('\n')) {
+      const line = rawLine.trim()
+      // Skip blank lines and bare page numbers
+      if (!line || /^\d{1,4}$/.test(line)) {
+        current?.lines.push('')
+        continue
+      }
+
+      let heading = matchHeading(line, currentChapter)
+
+      if (heading?.solutionsBlock) {
+        inSolutionsBlock = true
+      } else if (heading?.section_type === 'chapter' || heading?.section_type === 'subchapter') {
+        inSolutionsBlock = false
+      } else if (
+        inSolutionsBlock && heading?.task_number &&
+        (heading.section_type === 'task' || heading.section_type === 'exercise')
+      ) {
+        // "Aufgabe 1.2" in a solutions block introduces the solution, not the task
+        heading = {
+          title: `Lösung zu Aufgabe ${heading.task_number}`,
+          section_type: 'solution',
+          task_number: heading.task_number,
+          inlineContent: heading.inlineContent,
+        }
+      }
+
+      if (heading) {
+        flush()
+        if (heading.section_type === 'chapter' && heading.number) {
+          currentChapter = Number(heading.number)
+        }
+
+        const chapterNumber = currentChapter !== null ? String(currentChapter) : 'intro'
+        current = {
+          title: heading.title,
+          content: '',
+          lines: heading.inlineContent ? [heading.inlineContent] : [],
+          pageStart: pageNumber,
+          pageEnd: pageNumber,
+          section_type: heading.section_type,
+          // Special elements sit one level below their chapter
+          level: heading.depth ? heading.depth - 1 : 1,
+          // Tasks belong to the chapter of their number, solutions to where they appear
+          chapter_number: heading.section_type !== 'solution' && heading.task_number
+            ? heading.task_number.split('.')[0]
+            : chapterNumber,
+          task_number: heading.task_number,
+        }
+        continue
+      }
+
+      if (!current) {
+        current = options?.continuesPrevious
+          ? {
+              title: 'Fortsetzung',
+              content: '',
+              lines: [],
+              pageStart: pageNumber,
+              pageEnd: pageNumber,
+              continues_previous: true,
+            }
+          : {
+              title: 'Einführung',
+              content: '',
+              lines: [],
+              pageStart: pageNumber,
+              pageEnd: pageNumber,
+              section_type: 'chapter',
+              level: 0,
+              chapter_number: 'intro',
+            }
+      }
+
+      current.lines.push(line)
+      current.pageEnd = pageNumber
+    }
+  })
+  flush()
+
+  return sections
+}
+
+/**
+ * Structure a whole document without AI
+ */
+export function structureDocumentWithRules(
+  pages: string[],
+  filename: string
+): ProcessedDocument {
+  const sections = mergeChunkResults([{
+    chunk: { index: 0, pageStart: 1, pageEnd: pages.length, text: '' },
+    sections: structurePagesWithRules(pages),
+    structured: true,
+  }])
+
+  return {
+    title: filename.replace('.pdf', ''),
+    summary: '',
+    sections: sections.length > 0
+      ? sections
+      : [{ title: 'Inhalt', content: pages.join('\n\n'), pageStart: 1, pageEnd: pages.length, section_type: 'chapter' }],
+    tableOfContents: sections
+      .filter(s => (s.level ?? 0) === 0)
+      .map(s => ({
+        title: s.title,
+        page: s.pageStart,
+        section_type: s.section_type,
+        level: 0,
+        chapter_number: s.chapter_number,
+      })),
+    coverage: {
+      structured: pages.length > 0 ? [{ pageStart: 1, pageEnd: pages.length }] : [],
+      fallback: [],
+    },
+  }
+}
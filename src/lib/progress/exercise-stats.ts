@@ -0,0 +1,56 @@
+/**
+ * Exercise Statistics
+ * Attempted and solved exercises per chapter. An exercise counts as solved
+ * when the latest attempt was rated "solved".
+ */
+
+import { chapterKey } from '@/lib/flashcards/chapter-cards'
+import type { ExerciseAttempt, ExerciseRating, Section } from '@/lib/supabase/types'
+
+export interface ExerciseStats {
+  total: number
+  attempted: number
+  solved: number
+}
+
+/** Key of sections without a chapter number, as in the table of contents */
+export const NO_CHAPTER = '0'
+
+/**
+ * Rating of the latest attempt per exercise
+ */
+export function latestRatings(
+  attempts: Pick<ExerciseAttempt, 'exercise_section_id' | 'rating' | 'created_at'>[]
+): Map<string, ExerciseRating> {
+  const latest = new Map<string, { rating: ExerciseRating; created_at: string }>()
+  for (const attempt of attempts) {
+    const current = latest.get(attempt.exercise_section_id)
+    if (!current || attempt.created_at > current.created_at) {
+      latest.set(attempt.exercise_section_id, attempt)
+    }
+  }
+  return new Map([...latest].map(([id, attempt]) => [id, attempt.rating]))
+}
+
+/**
+ * Exercise statistics per chapter (keyed like chapterKey)
+ */
+export function exerciseStatsByChapter(
+  sections: Pick<Section, 'id' | 'section_type' | 'metadata'>[],
+  attempts: Pick<ExerciseAttempt, 'exercise_section_id' | 'rating' | 'created_at'>[]
+): Map<string, ExerciseStats> {
+  const ratings = latestRatings(attempts)
+  const stats = new Map<string, ExerciseStats>()
+
+  for (const section of sections) {
+    if (section.section_type !== 'exercise') continue
+    const chapter = chapterKey(section) ?? NO_CHAPTER
+    const entry = stats.get(chapter) ?? { total: 0, attempted: 0, solved: 0 }
+    const rating = ratings.get(section.id)
+    entry.total++
+    if (rating) entry.attempted++
+    if (rating === 'solved') entry.solved++
+    stats.set(chapter, entry)
+  }
+  return stats
+}
@@ -0,0 +1,88 @@
+/**
+ * Quiz Statistics
+ * Scoring of quiz attempts and the score per learning objective over time
+ */
+
+import type { ObjectiveScore, QuizAttempt, QuizQuestion } from '@/lib/supabase/types'
+
+export interface QuizScore {
+  score: number
+  max_score: number
+  objective_scores: Record<string, ObjectiveScore>
+}
+
+/** Share of correct answers for one objective in one attempt */
+export interface ObjectivePoint {
+  created_at: string
+  ratio: number
+}
+
+export interface ObjectiveHistory {
+  objective: string
+  points: ObjectivePoint[]
+}
+
+/**
+ * Score the chosen options (null = skipped) of an attempt
+ */
+export function scoreQuiz(questions: QuizQuestion[], answers: (number | null)[]): QuizScore {
+  const objectiveScores: Record<string, ObjectiveScore> = {}
+  let score = 0
+
+  questions.forEach((question, index) => {
+    const entry = objectiveScores[question.objective] ?? { correct: 0, total: 0 }
+    entry.total++
+    if (answers[index] === question.correct_index) {
+      entry.correct++
+      score++
+    }
+    objectiveScores[question.objective] = entry
+  })
+
+  return { score, max_score: questions.length, objective_scores: objectiveScores }
+}
+
+/**
+ * Score per objective across attempts, oldest first. Objectives are listed
+ * in the order they first appear.
+ */
+export function objectiveHistory(
+  attempts: Pick<QuizAttempt, 'objective_scores' | 'created_at'>[]
+): ObjectiveHistory[] {
+  const history = new Map<string, ObjectivePoint[]>()
+  const sorted = [...attempts].sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+  for (const attempt of sorted) {
+    for (const [objective, { correct, total }] of Object.entries(attempt.objective_scores)) {
+      if (total === 0) continue
+      const points = history.get(objective) ?? []
+      points.push({ created_at: attempt.created_at, ratio: correct / total })
+      history.set(objective, points)
+    }
+  }
+
+  return [...history].map(([objective, points]) => ({ objective, points }))
+}
+
+/**
+ * Share of correct answers per objective summed over all attempts
+ * (e.g. all students of a module)
+ */
+export function objectiveAverages(
+  attempts: Pick<QuizAttempt, 'objective_scores'>[]
+): Map<string, number> {
+  const totals = new Map<string, ObjectiveScore>()
+  for (const attempt of attempts) {
+    for (const [objective, { correct, total }] of Object.entries(attempt.objective_scores)) {
+      const entry = totals.get(objective) ?? { correct: 0, total: 0 }
+      entry.correct += correct
+      entry.total += total
+      totals.set(objective, entry)
+    }
+  }
+  return new Map(
+    [...totals]
+      .filter(([, { total }]) => total > 0)
+      .map(([objective, { correct, total }]) => [objective, correct / total])
+  )
+}
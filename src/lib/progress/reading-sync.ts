@@ -0,0 +1,199 @@
+/**
+ * Reading Progress Sync
+ * Changes are queued in localStorage and flushed to Supabase when online,
+ * so progress made offline reaches the other devices later.
+ * Conflicts resolve by last write wins; reading time is added up.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/** Change to one section's progress, or reading time only (no updated_at) */
+export interface ProgressChange {
+  document_id: string
+  section_id: string
+  progress_percent?: number
+  completed?: boolean
+  updated_at?: string
+  time_spent_delta?: number
+}
+
+/** A saved position, or a tombstone for one that was cleared */
+export interface SyncedPosition {
+  timestamp: string
+  cleared?: boolean
+}
+
+interface PositionChange {
+  document_id: string
+  position?: SyncedPosition
+  playback?: SyncedPosition
+}
+
+interface SyncQueue {
+  progress: Record<string, ProgressChange> // by section_id
+  positions: Record<string, PositionChange> // by document_id
+}
+
+const QUEUE_KEY = 'reading-sync-queue'
+
+/**
+ * Whether timestamp a is later than b (missing counts as oldest)
+ */
+export function isNewer(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a) return false
+  if (!b) return true
+  return new Date(a).getTime() > new Date(b).getTime()
+}
+
+function newerPosition(a?: SyncedPosition, b?: SyncedPosition): SyncedPosition | undefined {
+  if (!a) return b
+  if (!b) return a
+  return isNewer(b.timestamp, a.timestamp) ? b : a
+}
+
+function mergeProgress(a: ProgressChange | undefined, b: ProgressChange): ProgressChange {
+  if (!a) return b
+  const timeSpent = (a.time_spent_delta ?? 0) + (b.time_spent_delta ?? 0)
+  const latest = isNewer(b.updated_at, a.updated_at) ? b : a
+  return {
+    document_id: b.document_id,
+    section_id: b.section_id,
+    progress_percent: latest.progress_percent,
+    completed: latest.completed,
+    updated_at: latest.updated_at,
+    time_spent_delta: timeSpent || undefined,
+  }
+}
+
+function mergeQueues(a: SyncQueue, b: SyncQueue): SyncQueue {
+  const merged: SyncQueue = { progress: { ...a.progress }, positions: { ...a.positions } }
+  for (const [key, change] of Object.entries(b.progress)) {
+    merged.progress[key] = mergeProgress(merged.progress[key], change)
+  }
+  for (const [key, change] of Object.entries(b.positions)) {
+    const existing = merged.positions[key]
+    merged.positions[key] = {
+      document_id: change.document_id,
+      position: newerPosition(existing?.position, change.position),
+      playback: newerPosition(existing?.playback, change.playback),
+    }
+  }
+  return merged
+}
+
+function emptyQueue(): SyncQueue {
+  return { progress: {}, positions: {} }
+}
+
+function isQueueEmpty(queue: SyncQueue): boolean {
+  return Object.keys(queue.progress).length === 0 && Object.keys(queue.positions).length === 0
+}
+
+function readQueue(): SyncQueue {
+  if (typeof window === 'undefined') return emptyQueue()
+  try {
+    const stored = localStorage.getItem(QUEUE_KEY)
+    if (!stored) return emptyQueue()
+    const data = JSON.parse(stored) as Partial<SyncQueue>
+    return { progress: data.progress || {}, positions: data.positions || {} }
+  } catch {
+    return emptyQueue()
+  }
+}
+
+function writeQueue(queue: SyncQueue) {
+  try {
+    if (isQueueEmpty(queue)) {
+      localStorage.removeItem(QUEUE_KEY)
+    } else {
+      localStorage.setItem(QUEUE_KEY, JSON.stringify(queue))
+    }
+  } catch (err) {
+    console.warn('Failed to store reading sync queue:', err)
+  }
+}
+
+function enqueue(changes: SyncQueue) {
+  if (typeof window === 'undefined') return
+  writeQueue(mergeQueues(readQueue(), changes))
+}
+
+/**
+ * Queue a change to a section's progress or reading time
+ */
+export function queueProgressChange(change: ProgressChange) {
+  enqueue({ progress: { [change.section_id]: change }, positions: {} })
+}
+
+/**
+ * Queue a new reading or playback position (or its removal) for a document
+ */
+export function queuePositionChange(
+  documentId: string,
+  change: { position?: SyncedPosition; playback?: SyncedPosition }
+) {
+  enqueue({ progress: {}, positions: { [documentId]: { document_id: documentId, ...change } } })
+}
+
+let flushing: Promise<boolean> | null = null
+
+/**
+ * Send queued changes to Supabase. Returns false if they stay queued
+ * (offline, logged out or a failed request).
+ */
+export function flushSyncQueue(supabase: SupabaseClient): Promise<boolean> {
+  // One flush at a time; callers during a flush share its result
+  if (!flushing) {
+    flushing = flush(supabase).finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
+
+async function flush(supabase: SupabaseClient): Promise<boolean> {
+  if (typeof window === 'undefined' || !navigator.onLine) return false
+
+  if (isQueueEmpty(readQueue())) return true
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return false
+
+  // Take the changes out in one step after the last await, so nothing queued
+  // during the auth check is lost; anything queued from here on stays queued
+  const queue = readQueue()
+  writeQueue(emptyQueue())
+  if (isQueueEmpty(queue)) return true
+
+  const progress = Object.values(queue.progress)
+  const positions = Object.values(queue.positions)
+
+  const failed = emptyQueue()
+  try {
+    if (progress.length > 0) {
+      const { error } = await supabase.rpc('sync_reading_progress', { p_entries: progress })
+      if (error) throw error
+    }
+  } catch (err) {
+    console.warn('Failed to sync reading progress:', err)
+    failed.progress = queue.progress
+  }
+
+  for (const change of positions) {
+    try {
+      const { error } = await supabase.rpc('sync_reading_position', {
+        p_document_id: change.document_id,
+        p_position: change.position ?? null,
+        p_playback: change.playback ?? null,
+      })
+      if (error) throw error
+    } catch (err) {
+      console.warn('Failed to sync reading position:', err)
+      failed.positions[change.document_id] = change
+    }
+  }
+
+  const hasFailed = !isQueueEmpty(failed)
+  if (hasFailed) writeQueue(mergeQueues(failed, readQueue()))
+  return !hasFailed
+}
@@ -0,0 +1,190 @@
+/**
+ * Cross References
+ * Finds references like "siehe Kapitel 2.3", "vgl. Aufgabe 1.2" or
+ * "Abbildung 4" in section text and resolves them to sections of the document
+ */
+
+import type { DocumentImage, Section, SectionMetadata } from '@/lib/supabase/types'
+
+export type ReferenceKind = 'chapter' | 'task' | 'figure' | 'table'
+
+export type ReferenceSource = Pick<Section, 'id' | 'title' | 'content' | 'section_type' | 'metadata' | 'images'>
+
+export interface SectionReference {
+  start: number
+  end: number
+  kind: ReferenceKind
+  number: string
+  /** The reference as written, e.g. "Abb. 4" */
+  label: string
+}
+
+export interface ResolvedReference<T> extends SectionReference {
+  target: T | null
+}
+
+/** A reference that was resolved, shown as a link */
+export type SectionLink<T> = ResolvedReference<T> & { target: T }
+
+export const REFERENCE_KIND_LABELS: Record<ReferenceKind, string> = {
+  chapter: 'Kapitel',
+  task: 'Aufgabe',
+  figure: 'Abbildung',
+  table: 'Tabelle',
+}
+
+const KIND_BY_WORD: Record<string, ReferenceKind> = {
+  'Kapitel': 'chapter',
+  'Kap.': 'chapter',
+  'Abschnitt': 'chapter',
+  'Abschn.': 'chapter',
+  'Aufgabe': 'task',
+  'Übungsaufgabe': 'task',
+  'Abbildung': 'figure',
+  'Abb.': 'figure',
+  'Tabelle': 'table',
+  'Tab.': 'table',
+}
+
+// Whole words only; a number like "2.3" must not continue ("2.3.1", "2.3a")
+const REFERENCE_PATTERN = /(?<![\p{L}\p{N}])(Kapitel|Kap\.|Abschnitt|Abschn\.|Übungsaufgabe|Aufgabe|Abbildung|Abb\.|Tabelle|Tab\.)\s?(\d+(?:\.\d+)*)(?![\p{L}\p{N}]|\.\d)/gu
+
+// Numbered headings: "2.3 Marktformen", "2.3. Marktformen"
+const NUMBERED_TITLE = /^(\d+(?:\.\d+)*)\.?\s+\S/
+
+const TASK_TITLE = /(?:Übungs)?[Aa]ufgabe\s+(\d+(?:\.\d+)*)/
+
+// Captions that name a figure or table: "Abbildung 4: …", "Tab. 2 – …".
+// In the text a caption line needs the separator, so that "Abbildung 4
+// zeigt …" at the start of a paragraph stays a reference.
+const FIGURE_CAPTION = /^(?:Abbildung|Abb\.)\s?(\d+(?:\.\d+)*)(?![\d.]\d)/
+const TABLE_CAPTION = /^(?:Tabelle|Tab\.)\s?(\d+(?:\.\d+)*)(?![\d.]\d)/
+const CAPTION_LINE_SEPARATOR = /^\s*[:.–-]\s/
+
+/**
+ * All references in a text, in order
+ */
+export function findReferences(text: string): SectionReference[] {
+  const references: SectionReference[] = []
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    references.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      kind: KIND_BY_WORD[match[1]],
+      number: match[2],
+      label: match[0],
+    })
+  }
+  return references
+}
+
+function addTarget<T>(index: Map<string, T>, number: string | null | undefined, section: T) {
+  if (number && !index.has(number)) index.set(number, section)
+}
+
+/**
+ * Resolver for the references of one document: chapters by chapter_number or
+ * title numbering, tasks by task_number or "Aufgabe 1.2" in the title,
+ * figures and tables by their captions (image captions or caption lines)
+ */
+export function createReferenceResolver<T extends ReferenceSource>(
+  sections: T[]
+): (kind: ReferenceKind, number: string) => T | null {
+  const targets: Record<ReferenceKind, Map<string, T>> = {
+    chapter: new Map(),
+    task: new Map(),
+    figure: new Map(),
+    table: new Map(),
+  }
+
+  for (const section of sections) {
+    const metadata = (section.metadata as SectionMetadata | null) ?? {}
+
+    if (section.section_type === 'chapter' || section.section_type === 'subchapter') {
+      addTarget(targets.chapter, section.title.trim().match(NUMBERED_TITLE)?.[1], section)
+      addTarget(targets.chapter, metadata.chapter_number, section)
+    }
+
+    // Solutions carry the task number too, but a reference means the task
+    if (section.section_type === 'exercise' || section.section_type === 'task') {
+      addTarget(targets.task, metadata.task_number, section)
+      addTarget(targets.task, section.title.match(TASK_TITLE)?.[1], section)
+    }
+
+    const images = Array.isArray(section.images) ? (section.images as DocumentImage[]) : []
+    const imageCaptions = images.flatMap((image) => [image.caption, image.alt_text])
+    for (const caption of imageCaptions) {
+      const text = caption?.trim() ?? ''
+      addTarget(targets.figure, text.match(FIGURE_CAPTION)?.[1], section)
+      addTarget(targets.table, text.match(TABLE_CAPTION)?.[1], section)
+    }
+    for (const line of section.content.split('\n')) {
+      const text = line.replace(/^\*\*|\*\*/g, '').trim()
+      for (const [kind, pattern] of [['figure', FIGURE_CAPTION], ['table', TABLE_CAPTION]] as const) {
+        const match = text.match(pattern)
+        if (match && CAPTION_LINE_SEPARATOR.test(text.slice(match[0].length))) {
+          addTarget(targets[kind], match[1], section)
+        }
+      }
+    }
+  }
+
+  // Chapter numbers written without a subchapter heading fall back to any
+  // section of that chapter ("Kapitel 3" where the heading has no number)
+  for (const section of sections) {
+    addTarget(targets.chapter, (section.metadata as SectionMetadata | null)?.chapter_number, section)
+  }
+
+  return (kind, number) => targets[kind].get(number) ?? null
+}
+
+/**
+ * References in a text with their target section. References to the
+ * section the text belongs to (e.g. a caption) are left out.
+ */
+export function resolveReferences<T extends Pick<ReferenceSource, 'id'>>(
+  text: string,
+  resolve: (kind: ReferenceKind, number: string) => T | null,
+  currentSectionId: string
+): ResolvedReference<T>[] {
+  return findReferences(text)
+    .map((reference) => ({ ...reference, target: resolve(reference.kind, reference.number) }))
+    .filter((reference) => reference.target?.id !== currentSectionId)
+}
+
+/**
+ * References of each section that point to nothing in the document, one per
+ * label, for the author report
+ */
+export function findUnresolvedReferences<T extends ReferenceSource>(
+  sections: T[],
+  resolve: (kind: ReferenceKind, number: string) => T | null
+): { section: T; references: SectionReference[] }[] {
+  const result: { section: T; references: SectionReference[] }[] = []
+
+  for (const section of sections) {
+    const seen = new Set<string>()
+    const unresolved = resolveReferences(section.content, resolve, section.id).filter((reference) => {
+      const key = `${reference.kind}:${reference.number}`
+      if (reference.target || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    if (unresolved.length > 0) {
+      result.push({
+        section,
+        references: unresolved.map(({ start, end, kind, number, label }) => ({ start, end, kind, number, label })),
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Short preview of a target section for the popover
+ */
+export function referencePreview(section: Pick<Section, 'content'>, maxLength = 280): string {
+  const text = section.content.replace(/\*\*(.+?)\*\*/g, '$1').replace(/\*(.+?)\*/g, '$1').replace(/\s+/g, ' ').trim()
+  return text.length > maxLength ? `${text.slice(0, maxLength).trimEnd()} …` : text
+}
@@ -0,0 +1,79 @@
+/**
+ * Search Results
+ * Helpers for the results of the full-text search (search_content)
+ */
+
+import type { SearchResult, SearchResultKind } from '@/lib/supabase/types'
+
+// Must match StartSel/StopSel in supabase-migration-search.sql
+const MATCH_START = '⟦'
+const MATCH_END = '⟧'
+
+export const SEARCH_RESULT_KINDS: SearchResultKind[] = ['section', 'note', 'highlight', 'flashcard']
+
+export const SEARCH_MIN_QUERY_LENGTH = 2
+
+export interface SnippetPart {
+  text: string
+  match: boolean
+}
+
+/**
+ * Split a snippet into plain text and the marked matches
+ */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = []
+  let rest = snippet
+
+  while (rest) {
+    const start = rest.indexOf(MATCH_START)
+    const end = start === -1 ? -1 : rest.indexOf(MATCH_END, start)
+    if (end === -1) {
+      parts.push({ text: rest.replaceAll(MATCH_START, '').replaceAll(MATCH_END, ''), match: false })
+      break
+    }
+    if (start > 0) parts.push({ text: rest.slice(0, start), match: false })
+    parts.push({ text: rest.slice(start + MATCH_START.length, end), match: true })
+    rest = rest.slice(end + MATCH_END.length)
+  }
+
+  return parts
+}
+
+/**
+ * Reader link to a section and, if known, a position within it
+ */
+export function readerHref(documentId: string, sectionId: string | null, offset: number | null = null): string {
+  const params = new URLSearchParams()
+  if (sectionId) params.set('section', sectionId)
+  if (sectionId && offset !== null) params.set('offset', String(offset))
+  const query = params.toString()
+  return `/documents/${documentId}${query ? `?${query}` : ''}`
+}
+
+/**
+ * Reader link for a result: the section and, if known, the match within it
+ */
+export function searchResultHref(result: SearchResult): string {
+  return readerHref(result.document_id, result.section_id, result.match_offset)
+}
+
+/**
+ * Index of the paragraph (as split by the reader) that contains a character
+ * offset of the section content
+ */
+export function paragraphIndexAt(content: string, offset: number): number {
+  const separator = /\n{2,}/g
+  let index = 0
+  let paragraphStart = 0
+
+  for (const match of content.matchAll(separator)) {
+    const nextStart = match.index + match[0].length
+    const isEmpty = content.slice(paragraphStart, match.index).trim().length === 0
+    if (offset < nextStart) return isEmpty ? Math.max(0, index - 1) : index
+    if (!isEmpty) index++
+    paragraphStart = nextStart
+  }
+
+  return content.slice(paragraphStart).trim() ? index : Math.max(0, index - 1)
+}
@@ -0,0 +1,22 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+
+// Rows per request; PostgREST caps each response at its max-rows setting
+export const PAGE_SIZE = 1000
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+
+/**
+ * Load every row of a query page by page, so large results are not cut off.
+ * fetchPage builds the query for one page with .range(from, to); it needs a
+ * stable order (e.g. .order('id')) for the pages not to overlap.
+ */
+export async function fetchAllRows<T>(fetchPage: (from: number, to: number) => PageResult<T>): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
@@ -23,6 +23,103 @@ export type SectionType =
   | 'solution'            // Lösung zu Übungsaufgabe
   | 'reference'           // Verweis/Link
 
+// basic: question/answer, cloze: question with {{c1::...}} gaps
+export type FlashcardType = 'basic' | 'cloze'
+
+// Spaced repetition: learning phase of a card and the grades given in a review
+export type FlashcardState = 'new' | 'learning' | 'review' | 'relearning'
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+// Self-rating of an exercise attempt after comparing it with the solution
+export type ExerciseRating = 'solved' | 'partial' | 'failed'
+
+// AI comparison of a written answer with the exercise's solution
+export interface AnswerFeedback {
+  covered: string[]        // Punkte der Lösung, die die Antwort abdeckt
+  missing: string[]        // Fehlende Punkte
+  misconceptions: string[] // Fehlvorstellungen in der Antwort
+  score: number            // 0..max_score
+  max_score: number
+  summary: string
+}
+
+// Quiz questions generated from the sections of a learning unit
+export type QuizQuestionType = 'multiple_choice' | 'true_false'
+
+export interface QuizQuestion {
+  id: string
+  type: QuizQuestionType
+  question: string
+  options: string[]        // true_false: ['Wahr', 'Falsch']
+  correct_index: number
+  explanation: string      // Shown right after answering
+  objective: string        // Lernziel der Lerneinheit, das die Frage prüft
+  section_id: string | null
+}
+
+// Correct answers per learning objective in a quiz attempt
+export interface ObjectiveScore {
+  correct: number
+  total: number
+}
+
+// Mock exam across all documents of a module
+export type ExamItemKind = 'flashcard' | 'exercise' | 'quiz'
+
+// An exam question as shown while the exam runs
+export interface ExamItem {
+  id: string
+  kind: ExamItemKind
+  prompt: string
+  options?: string[]       // quiz items: choose one
+  points: number
+}
+
+// Stored with the exam only, sent to the client with the report
+export interface ExamItemKey extends ExamItem {
+  document_id: string
+  section_id: string | null
+  source_title: string     // "Dokument · Abschnitt"
+  reference: string        // Musterantwort, Lösung oder Erklärung
+  correct_index?: number
+}
+
+export interface ExamItemResult {
+  item_id: string
+  answer: string | number | null
+  points: number
+  feedback: string | null
+  grading_failed?: boolean // The open answer could not be graded (AI error)
+}
+
+// Answers as handed in, per item id (option index or text)
+export type ExamAnswerMap = Record<string, string | number | null>
+
+// Source cited in an answer to a question about a script
+export interface ScriptAnswerCitation {
+  index: number            // [n] in the answer text
+  document_id: string
+  document_title: string
+  section_id: string
+  section_title: string
+  page_start: number | null
+  page_end: number | null
+  offset: number           // start of the cited passage in the section content
+}
+
+export interface ScriptAnswer {
+  question: string
+  answer: string
+  citations: ScriptAnswerCitation[]
+  refused: boolean         // nothing relevant found in the script
+}
+
+// 'explain' answers questions, 'socratic' leads with questions back
+export type TutorMode = 'explain' | 'socratic'
+
+export type TutorMessageRole = 'user' | 'assistant'
+
 export interface SectionMetadata {
   task_number?: string
   keywords?: string[]
@@ -227,11 +324,18 @@ export interface Database {
           user_id: string
           document_id: string
           section_id: string | null
+          card_type: FlashcardType
+          annotation_id: string | null
           question: string
           answer: string
           difficulty: number
           next_review: string | null
           review_count: number
+          state: FlashcardState
+          stability: number | null
+          srs_difficulty: number | null
+          lapses: number
+          last_review: string | null
           created_at: string
         }
         Insert: {
@@ -239,11 +343,18 @@ export interface Database {
           user_id: string
           document_id: string
           section_id?: string | null
+          card_type?: FlashcardType
+          annotation_id?: string | null
           question: string
           answer: string
           difficulty?: number
           next_review?: string | null
           review_count?: number
+          state?: FlashcardState
+          stability?: number | null
+          srs_difficulty?: number | null
+          lapses?: number
+          last_review?: string | null
           created_at?: string
         }
         Update: {
@@ -251,11 +362,18 @@ export interface Database {
           user_id?: string
           document_id?: string
           section_id?: string | null
+          card_type?: FlashcardType
+          annotation_id?: string | null
           question?: string
           answer?: string
           difficulty?: number
           next_review?: string | null
           review_count?: number
+          state?: FlashcardState
+          stability?: number | null
+          srs_difficulty?: number | null
+          lapses?: number
+          last_review?: string | null
           created_at?: string
         }
       }
@@ -266,8 +384,10 @@ export interface Database {
           document_id: string
           section_id: string
           completed: boolean
+          progress_percent: number
           time_spent_seconds: number
           last_accessed: string
+          updated_at: string
         }
         Insert: {
           id?: string
@@ -275,8 +395,10 @@ export interface Database {
           document_id: string
           section_id: string
           completed?: boolean
+          progress_percent?: number
           time_spent_seconds?: number
           last_accessed?: string
+          updated_at?: string
         }
         Update: {
           id?: string
@@ -284,8 +406,10 @@ export interface Database {
           document_id?: string
           section_id?: string
           completed?: boolean
+          progress_percent?: number
           time_spent_seconds?: number
           last_accessed?: string
+          updated_at?: string
         }
       }
       modules: {
@@ -438,6 +562,449 @@ export interface Database {
           created_at?: string
         }
       }
+      ingestion_jobs: {
+        Row: {
+          id: string
+          document_id: string
+          user_id: string
+          status: IngestionJobStatus
+          stages: Json
+          artifacts: Json
+          options: Json
+          result: Json | null
+          error: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          document_id: string
+          user_id: string
+          status?: IngestionJobStatus
+          stages?: Json
+          artifacts?: Json
+          options?: Json
+          result?: Json | null
+          error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          document_id?: string
+          user_id?: string
+          status?: IngestionJobStatus
+          stages?: Json
+          artifacts?: Json
+          options?: Json
+          result?: Json | null
+          error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      audiobook_jobs: {
+        Row: {
+          id: string
+          document_id: string
+          learning_unit_id: string | null
+          user_id: string
+          status: AudiobookJobStatus
+          title: string
+          progress: Json
+          artifacts: Json
+          storage_path: string | null
+          error: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          document_id: string
+          learning_unit_id?: string | null
+          user_id: string
+          status?: AudiobookJobStatus
+          title: string
+          progress?: Json
+          artifacts?: Json
+          storage_path?: string | null
+          error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          document_id?: string
+          learning_unit_id?: string | null
+          user_id?: string
+          status?: AudiobookJobStatus
+          title?: string
+          progress?: Json
+          artifacts?: Json
+          storage_path?: string | null
+          error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      reading_positions: {
+        Row: {
+          id: string
+          user_id: string
+          document_id: string
+          position: Json | null
+          playback: Json | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          document_id: string
+          position?: Json | null
+          playback?: Json | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          document_id?: string
+          position?: Json | null
+          playback?: Json | null
+          updated_at?: string
+        }
+      }
+      flashcard_reviews: {
+        Row: {
+          id: string
+          user_id: string
+          flashcard_id: string
+          grade: ReviewGrade
+          state: FlashcardState
+          stability: number
+          srs_difficulty: number
+          elapsed_days: number
+          scheduled_days: number
+          reviewed_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          flashcard_id: string
+          grade: ReviewGrade
+          state: FlashcardState
+          stability: number
+          srs_difficulty: number
+          elapsed_days: number
+          scheduled_days: number
+          reviewed_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          flashcard_id?: string
+          grade?: ReviewGrade
+          state?: FlashcardState
+          stability?: number
+          srs_difficulty?: number
+          elapsed_days?: number
+          scheduled_days?: number
+          reviewed_at?: string
+        }
+      }
+      exercise_attempts: {
+        Row: {
+          id: string
+          user_id: string
+          document_id: string
+          exercise_section_id: string
+          answer: string
+          rating: ExerciseRating
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          document_id: string
+          exercise_section_id: string
+          answer: string
+          rating: ExerciseRating
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          document_id?: string
+          exercise_section_id?: string
+          answer?: string
+          rating?: ExerciseRating
+          created_at?: string
+        }
+      }
+      exercise_feedback: {
+        Row: {
+          id: string
+          user_id: string
+          document_id: string
+          exercise_section_id: string
+          answer: string
+          feedback: AnswerFeedback
+          score: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          document_id: string
+          exercise_section_id: string
+          answer: string
+          feedback: AnswerFeedback
+          score: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          document_id?: string
+          exercise_section_id?: string
+          answer?: string
+          feedback?: AnswerFeedback
+          score?: number
+          created_at?: string
+        }
+      }
+      quizzes: {
+        Row: {
+          id: string
+          learning_unit_id: string
+          created_by: string
+          questions: QuizQuestion[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          learning_unit_id: string
+          created_by: string
+          questions: QuizQuestion[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          learning_unit_id?: string
+          created_by?: string
+          questions?: QuizQuestion[]
+          created_at?: string
+        }
+      }
+      module_exams: {
+        Row: {
+          id: string
+          module_id: string
+          user_id: string
+          items: ExamItemKey[]
+          duration_minutes: number
+          started_at: string
+          submitted_at: string | null
+          answers: ExamAnswerMap | null
+          grading_started_at: string | null
+          results: ExamItemResult[] | null
+          score: number | null
+          max_score: number
+        }
+        Insert: {
+          id?: string
+          module_id: string
+          user_id: string
+          items: ExamItemKey[]
+          duration_minutes: number
+          started_at?: string
+          submitted_at?: string | null
+          answers?: ExamAnswerMap | null
+          grading_started_at?: string | null
+          results?: ExamItemResult[] | null
+          score?: number | null
+          max_score: number
+        }
+        Update: {
+          id?: string
+          module_id?: string
+          user_id?: string
+          items?: ExamItemKey[]
+          duration_minutes?: number
+          started_at?: string
+          submitted_at?: string | null
+          answers?: ExamAnswerMap | null
+          grading_started_at?: string | null
+          results?: ExamItemResult[] | null
+          score?: number | null
+          max_score?: number
+        }
+      }
+      quiz_attempts: {
+        Row: {
+          id: string
+          quiz_id: string
+          learning_unit_id: string
+          user_id: string
+          answers: (number | null)[]
+          score: number
+          max_score: number
+          objective_scores: Record<string, ObjectiveScore>
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          quiz_id: string
+          learning_unit_id: string
+          user_id: string
+          answers: (number | null)[]
+          score: number
+          max_score: number
+          objective_scores: Record<string, ObjectiveScore>
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          quiz_id?: string
+          learning_unit_id?: string
+          user_id?: string
+          answers?: (number | null)[]
+          score?: number
+          max_score?: number
+          objective_scores?: Record<string, ObjectiveScore>
+          created_at?: string
+        }
+      }
+      section_embeddings: {
+        Row: {
+          id: string
+          section_id: string
+          document_id: string
+          chunk_index: number
+          start_offset: number
+          end_offset: number
+          model: string
+          content_hash: string
+          embedding: number[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          section_id: string
+          document_id: string
+          chunk_index: number
+          start_offset: number
+          end_offset: number
+          model: string
+          content_hash: string
+          embedding: number[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          section_id?: string
+          document_id?: string
+          chunk_index?: number
+          start_offset?: number
+          end_offset?: number
+          model?: string
+          content_hash?: string
+          embedding?: number[]
+          created_at?: string
+        }
+      }
+      tutor_threads: {
+        Row: {
+          id: string
+          user_id: string
+          section_id: string
+          document_id: string
+          title: string
+          text_selection: string
+          mode: TutorMode
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          section_id: string
+          document_id: string
+          title: string
+          text_selection: string
+          mode?: TutorMode
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          section_id?: string
+          document_id?: string
+          title?: string
+          text_selection?: string
+          mode?: TutorMode
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      glossary_terms: {
+        Row: {
+          id: string
+          document_id: string
+          section_id: string | null
+          term: string
+          definition: string
+          aliases: string[]
+          is_manual: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          document_id: string
+          section_id?: string | null
+          term: string
+          definition: string
+          aliases?: string[]
+          is_manual?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          document_id?: string
+          section_id?: string | null
+          term?: string
+          definition?: string
+          aliases?: string[]
+          is_manual?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      tutor_messages: {
+        Row: {
+          id: string
+          thread_id: string
+          role: TutorMessageRole
+          content: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          thread_id: string
+          role: TutorMessageRole
+          content: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          thread_id?: string
+          role?: TutorMessageRole
+          content?: string
+          created_at?: string
+        }
+      }
     }
   }
 }
@@ -448,6 +1015,16 @@ export type Section = Database['public']['Tables']['sections']['Row']
 export type DocumentImage = Database['public']['Tables']['document_images']['Row']
 export type Annotation = Database['public']['Tables']['annotations']['Row']
 export type Flashcard = Database['public']['Tables']['flashcards']['Row']
+export type FlashcardReview = Database['public']['Tables']['flashcard_reviews']['Row']
+export type ExerciseAttempt = Database['public']['Tables']['exercise_attempts']['Row']
+export type ExerciseFeedback = Database['public']['Tables']['exercise_feedback']['Row']
+export type Quiz = Database['public']['Tables']['quizzes']['Row']
+export type QuizAttempt = Database['public']['Tables']['quiz_attempts']['Row']
+export type ModuleExam = Database['public']['Tables']['module_exams']['Row']
+export type SectionEmbedding = Database['public']['Tables']['section_embeddings']['Row']
+export type GlossaryTerm = Database['public']['Tables']['glossary_terms']['Row']
+export type TutorThread = Database['public']['Tables']['tutor_threads']['Row']
+export type TutorMessage = Database['public']['Tables']['tutor_messages']['Row']
 export type Progress = Database['public']['Tables']['progress']['Row']
 
 // Extended types with relations
@@ -462,6 +1039,13 @@ export interface DocumentWithSections extends Document {
   sections: Section[]
 }
 
+export interface FlashcardWithSource extends Flashcard {
+  document_title: string
+  section_title: string | null
+  module_id: string | null
+  module_title: string | null
+}
+
 export interface DocumentWithProgress extends Document {
   progress?: number // Calculated progress percentage
   sectionsCount?: number
@@ -532,6 +1116,16 @@ export interface ExerciseSolution {
   created_at: string
 }
 
+// Module Quick Prompt (eigene Schnellaktion im KI-Assistenten)
+export interface ModuleQuickPrompt {
+  id: string
+  module_id: string
+  label: string
+  prompt: string
+  sequence_order: number
+  created_at: string
+}
+
 // Extended Module types with relations
 export interface ModuleWithDocuments extends Module {
   documents: (ModuleDocument & { document: Document })[]
@@ -554,3 +1148,78 @@ export interface LearningUnitWithSections extends LearningUnit {
 export interface DocumentWithLearningUnits extends Document {
   learning_units: LearningUnit[]
 }
+
+// ============================================
+// INGESTION JOB TYPES
+// ============================================
+
+// Stages of the PDF ingestion pipeline, in execution order
+export type IngestionStage = 'extract' | 'images' | 'structure' | 'persist' | 'glossary' | 'index'
+
+export type IngestionStageStatus = 'pending' | 'running' | 'completed' | 'error'
+
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'error'
+
+export interface IngestionJobOptions {
+  structurer?: 'ai' | 'rules'
+}
+
+export interface IngestionStageState {
+  status: IngestionStageStatus
+  attempts: number
+  error: string | null
+  started_at: string | null
+  finished_at: string | null
+}
+
+// Ingestion Job (Hintergrundverarbeitung eines hochgeladenen PDFs)
+export interface IngestionJob {
+  id: string
+  document_id: string
+  user_id: string
+  status: IngestionJobStatus
+  stages: Record<IngestionStage, IngestionStageState>
+  options: IngestionJobOptions
+  result: Record<string, unknown> | null
+  error: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Hörbuch-Export im Hintergrund; paused = stopped before the request time limit, continued on the next poll
+export type AudiobookJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'error'
+
+// Audiobook Job (Hörbuch einer Lerneinheit oder eines ganzen Dokuments)
+export interface AudiobookJob {
+  id: string
+  document_id: string
+  learning_unit_id: string | null
+  user_id: string
+  status: AudiobookJobStatus
+  title: string
+  progress: { done: number; total: number }
+  storage_path: string | null
+  error: string | null
+  created_at: string
+  updated_at: string
+}
+
+// ============================================
+// SEARCH TYPES
+// ============================================
+
+export type SearchResultKind = 'section' | 'note' | 'highlight' | 'flashcard'
+
+// Treffer der Volltextsuche (search_content)
+export interface SearchResult {
+  kind: SearchResultKind
+  id: string
+  document_id: string
+  document_title: string
+  section_id: string | null
+  section_title: string | null
+  section_type: SectionType | null
+  snippet: string            // Treffer mit ⟦ ⟧ markiert
+  match_offset: number | null // Zeichenposition im Abschnittstext
+  rank: number
+}
@@ -0,0 +1,101 @@
+/**
+ * TTS Alignment
+ * Character timestamps from ElevenLabs and the word timings derived from
+ * them for read-along highlighting. Shared by the /api/tts route and the client.
+ */
+
+export interface CharacterAlignment {
+  characters: string[]
+  character_start_times_seconds: number[]
+  character_end_times_seconds: number[]
+}
+
+export interface WordTiming {
+  start: number   // Character offset in the spoken text
+  end: number     // Character offset after the last character
+  startTime: number
+  endTime: number
+}
+
+export function emptyAlignment(): CharacterAlignment {
+  return {
+    characters: [],
+    character_start_times_seconds: [],
+    character_end_times_seconds: [],
+  }
+}
+
+/**
+ * Append the alignment of a streamed chunk. Chunks may carry times relative
+ * to their own start; those are shifted behind the audio received so far.
+ */
+export function appendAlignment(target: CharacterAlignment, chunk: CharacterAlignment): void {
+  if (chunk.characters.length === 0) return
+
+  const previousEnd = target.character_end_times_seconds[target.character_end_times_seconds.length - 1] ?? 0
+  // Tolerance for overlapping character times at chunk borders
+  const offset = chunk.character_start_times_seconds[0] < previousEnd - 0.05 ? previousEnd : 0
+
+  target.characters.push(...chunk.characters)
+  target.character_start_times_seconds.push(...chunk.character_start_times_seconds.map(t => t + offset))
+  target.character_end_times_seconds.push(...chunk.character_end_times_seconds.map(t => t + offset))
+}
+
+/**
+ * Group character timestamps into words (runs of non-whitespace)
+ */
+export function buildWordTimings(alignment: CharacterAlignment): WordTiming[] {
+  const text = alignment.characters.join('')
+  const words: WordTiming[] = []
+
+  // Characters are single code units for the text we send; guard against mismatches anyway
+  if (text.length !== alignment.characters.length) return words
+
+  for (const match of text.matchAll(/\S+/g)) {
+    const start = match.index ?? 0
+    const end = start + match[0].length
+    words.push({
+      start,
+      end,
+      startTime: alignment.character_start_times_seconds[start],
+      endTime: alignment.character_end_times_seconds[end - 1],
+    })
+  }
+
+  return words
+}
+
+/**
+ * Index of the word being spoken at a playback time (-1 before the first word)
+ */
+export function findWordAtTime(words: WordTiming[], time: number): number {
+  let low = 0
+  let high = words.length - 1
+  let found = -1
+
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (words[mid].startTime <= time) {
+      found = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+
+  return found
+}
+
+/**
+ * Character range of the word at (or right after) an offset in a text
+ */
+export function wordRangeAt(text: string, offset: number): { start: number; end: number } | null {
+  let start = Math.max(0, Math.min(offset, text.length))
+  while (start > 0 && /\S/.test(text[start - 1])) start--
+  while (start < text.length && /\s/.test(text[start])) start++
+  if (start >= text.length) return null
+
+  let end = start
+  while (end < text.length && /\S/.test(text[end])) end++
+  return { start, end }
+}
@@ -0,0 +1,106 @@
+/**
+ * TTS Audio Cache
+ * Stores generated speech in Supabase Storage so replaying a section
+ * does not hit ElevenLabs again
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CharacterAlignment } from './alignment'
+import type { VoiceSettings } from './elevenlabs'
+
+const STORAGE_BUCKET = 'tts-audio'
+
+/**
+ * Storage path for a text: grouped by voice, keyed by a hash of the
+ * content and all settings that change the generated audio
+ */
+export function ttsCachePath(text: string, settings: VoiceSettings): string {
+  const hash = createHash('sha256')
+    .update([settings.modelId, settings.stability, settings.similarityBoost, text.trim()].join('\n'))
+    .digest('hex')
+  return `${settings.voiceId}/${hash}.mp3`
+}
+
+/**
+ * Load cached audio, or null if it has not been generated yet
+ */
+export async function getCachedAudio(
+  supabase: SupabaseClient,
+  path: string
+): Promise<Blob | null> {
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .download(path)
+
+  if (error || !data) return null
+  return data
+}
+
+/**
+ * Load the character timestamps stored next to cached audio
+ */
+export async function getCachedAlignment(
+  supabase: SupabaseClient,
+  path: string
+): Promise<CharacterAlignment | null> {
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .download(alignmentPath(path))
+
+  if (error || !data) return null
+  try {
+    return JSON.parse(await data.text())
+  } catch {
+    return null
+  }
+}
+
+function alignmentPath(audioPath: string): string {
+  return audioPath.replace(/\.mp3$/, '.json')
+}
+
+/**
+ * Store generated audio and its timestamps (failures only cost a regeneration next time)
+ */
+export async function cacheSpeech(
+  supabase: SupabaseClient,
+  path: string,
+  audio: Uint8Array,
+  alignment: CharacterAlignment
+): Promise<void> {
+  const bucket = supabase.storage.from(STORAGE_BUCKET)
+
+  // Alignment first: audio without timestamps would be served without read-along
+  const { error: alignmentError } = await bucket.upload(
+    alignmentPath(path),
+    JSON.stringify(alignment),
+    { contentType: 'application/json', upsert: true }
+  )
+  if (alignmentError) {
+    console.error(`Failed to cache TTS alignment ${path}:`, alignmentError)
+    return
+  }
+
+  const { error } = await bucket.upload(path, audio, {
+    contentType: 'audio/mpeg',
+    upsert: true,
+  })
+
+  if (error) {
+    console.error(`Failed to cache TTS audio ${path}:`, error)
+  }
+}
+
+/**
+ * Join audio chunks into one buffer
+ */
+export function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const audio = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    audio.set(chunk, offset)
+    offset += chunk.length
+  }
+  return audio
+}
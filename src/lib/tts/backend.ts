@@ -0,0 +1,126 @@
+/**
+ * TTS Backend
+ * Server-side speech synthesis for whole-document rendering (audiobook export).
+ * Configured via environment:
+ *   TTS_PROVIDER  'elevenlabs' (default) | 'mock'
+ * The mock backend returns silence whose length follows the text, so exports
+ * can be exercised in tests and local development without an API key.
+ */
+
+import { appendAlignment, emptyAlignment, type CharacterAlignment } from './alignment'
+import { concatChunks } from './audio-cache'
+import {
+  isElevenLabsConfigured,
+  readSpeechChunks,
+  synthesizeSpeech,
+  type VoiceSettings,
+} from './elevenlabs'
+import { silentMp3 } from './mp3'
+
+export type TTSBackendName = 'elevenlabs' | 'mock'
+
+export interface SynthesizedSpeech {
+  audio: Uint8Array
+  alignment: CharacterAlignment | null
+}
+
+export interface TTSBackend {
+  name: TTSBackendName
+  /** Whether results may be stored in the shared audio cache */
+  cacheable: boolean
+  synthesize(text: string, settings: VoiceSettings, signal?: AbortSignal): Promise<SynthesizedSpeech>
+}
+
+/**
+ * Error from the backend, carrying the upstream HTTP status if known
+ */
+export class TTSBackendError extends Error {
+  status: number
+
+  constructor(message: string, status: number = 500) {
+    super(message)
+    this.name = 'TTSBackendError'
+    this.status = status
+  }
+}
+
+function getBackendName(): TTSBackendName {
+  return process.env.TTS_PROVIDER === 'mock' ? 'mock' : 'elevenlabs'
+}
+
+function createElevenLabsBackend(): TTSBackend {
+  return {
+    name: 'elevenlabs',
+    cacheable: true,
+    async synthesize(text, settings, signal) {
+      const response = await synthesizeSpeech(text, settings, signal)
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new TTSBackendError(
+          errorData.detail?.message || `ElevenLabs API Fehler: ${response.status}`,
+          response.status
+        )
+      }
+
+      const audioChunks: Uint8Array[] = []
+      const alignment = emptyAlignment()
+      for await (const chunk of readSpeechChunks(response.body)) {
+        audioChunks.push(chunk.audio)
+        if (chunk.alignment) appendAlignment(alignment, chunk.alignment)
+      }
+
+      return { audio: concatChunks(audioChunks), alignment }
+    },
+  }
+}
+
+// Roughly the pace of a German voice
+const MOCK_CHARACTERS_PER_SECOND = 15
+
+/**
+ * Silent audio with evenly spread character timestamps
+ */
+export function createMockBackend(): TTSBackend {
+  return {
+    name: 'mock',
+    cacheable: false,
+    async synthesize(text) {
+      const step = 1 / MOCK_CHARACTERS_PER_SECOND
+      const characters = Array.from(text)
+      return {
+        audio: silentMp3(Math.max(characters.length * step, 0.5)),
+        alignment: {
+          characters,
+          character_start_times_seconds: characters.map((_, i) => i * step),
+          character_end_times_seconds: characters.map((_, i) => (i + 1) * step),
+        },
+      }
+    },
+  }
+}
+
+let cachedBackend: TTSBackend | null = null
+
+/**
+ * Get the configured TTS backend
+ */
+export function getTTSBackend(): TTSBackend {
+  if (cachedBackend) return cachedBackend
+  cachedBackend = getBackendName() === 'mock' ? createMockBackend() : createElevenLabsBackend()
+  return cachedBackend
+}
+
+/**
+ * Replace the backend, e.g. with a mock backend in tests
+ */
+export function setTTSBackend(backend: TTSBackend | null) {
+  cachedBackend = backend
+}
+
+/**
+ * Whether the configured backend can synthesize speech
+ */
+export function isTTSConfigured(): boolean {
+  if (cachedBackend?.name === 'mock') return true
+  return getBackendName() === 'mock' || isElevenLabsConfigured()
+}
@@ -0,0 +1,106 @@
+/**
+ * ElevenLabs Text-to-Speech
+ * Server-side client; the API key never leaves the server
+ */
+
+import type { CharacterAlignment } from './alignment'
+
+// Jennifer Meyer voice ID on ElevenLabs
+export const DEFAULT_VOICE_ID = 'XrExE9yKIg1WjnnlVkGX'
+export const DEFAULT_MODEL_ID = 'eleven_multilingual_v2'
+
+// ElevenLabs rejects longer requests; the client sends one paragraph at a time
+export const MAX_TTS_TEXT_LENGTH = 5000
+
+export interface VoiceSettings {
+  voiceId: string
+  modelId: string
+  stability: number
+  similarityBoost: number
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceId: DEFAULT_VOICE_ID,
+  modelId: DEFAULT_MODEL_ID,
+  stability: 0.5,
+  similarityBoost: 0.75,
+}
+
+export function isElevenLabsConfigured(): boolean {
+  return Boolean(process.env.ELEVENLABS_API_KEY)
+}
+
+export interface SpeechChunk {
+  audio: Uint8Array
+  alignment: CharacterAlignment | null
+}
+
+/**
+ * Request streamed MP3 audio with character timestamps for a text.
+ * Returns the raw upstream response (newline-delimited JSON), see readSpeechChunks.
+ */
+export async function synthesizeSpeech(
+  text: string,
+  settings: VoiceSettings,
+  signal?: AbortSignal
+): Promise<Response> {
+  const apiKey = process.env.ELEVENLABS_API_KEY
+  if (!apiKey) {
+    throw new Error('ELEVENLABS_API_KEY ist nicht konfiguriert')
+  }
+
+  return fetch(
+    `https://api.elevenlabs.io/v1/text-to-speech/${encodeURIComponent(settings.voiceId)}/stream/with-timestamps`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'xi-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        text,
+        model_id: settings.modelId,
+        voice_settings: {
+          stability: settings.stability,
+          similarity_boost: settings.similarityBoost,
+        },
+      }),
+      signal,
+    }
+  )
+}
+
+/**
+ * Decode the newline-delimited JSON chunks of a with-timestamps stream
+ */
+export async function* readSpeechChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<SpeechChunk> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const parseLine = (line: string): SpeechChunk | null => {
+    if (!line.trim()) return null
+    const data = JSON.parse(line)
+    return {
+      audio: data.audio_base64 ? new Uint8Array(Buffer.from(data.audio_base64, 'base64')) : new Uint8Array(),
+      alignment: data.alignment ?? null,
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      const chunk = parseLine(line)
+      if (chunk) yield chunk
+    }
+  }
+
+  const last = parseLine(buffer + decoder.decode())
+  if (last) yield last
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { buildId3Tag, MAX_ID3_CHAPTERS } from './id3'
+
+interface Frame {
+  id: string
+  body: Uint8Array
+}
+
+const decoder = new TextDecoder()
+
+function synchsafe(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3]
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset)
+}
+
+/** Frames of a tag body or of the sub-frames after a CHAP/CTOC header */
+function readFrames(bytes: Uint8Array): Frame[] {
+  const frames: Frame[] = []
+  for (let offset = 0; offset < bytes.length;) {
+    const size = synchsafe(bytes, offset + 4)
+    frames.push({ id: decoder.decode(bytes.subarray(offset, offset + 4)), body: bytes.subarray(offset + 10, offset + 10 + size) })
+    offset += 10 + size
+  }
+  return frames
+}
+
+function text(frame: Frame): string {
+  expect(frame.body[0]).toBe(0x03) // UTF-8
+  return decoder.decode(frame.body.subarray(1))
+}
+
+/** Null-terminated string at offset, and the offset after it */
+function cString(bytes: Uint8Array, offset: number): [string, number] {
+  const end = bytes.indexOf(0, offset)
+  return [decoder.decode(bytes.subarray(offset, end)), end + 1]
+}
+
+const chapters = [
+  { title: '1 Grundlagen', startMs: 0, endMs: 61_500 },
+  { title: '2 Planung – Übersicht', startMs: 61_500, endMs: 125_250.4 },
+]
+
+describe('buildId3Tag', () => {
+  const tag = buildId3Tag({ title: 'Projektmanagement', author: 'Dr. Muster', publisher: 'Hochschule', chapters })
+
+  it('writes an ID3v2.4 header with the synchsafe size of the frames', () => {
+    expect(decoder.decode(tag.subarray(0, 3))).toBe('ID3')
+    expect([...tag.subarray(3, 6)]).toEqual([0x04, 0x00, 0x00])
+    expect(tag.subarray(6, 10).every((byte) => byte < 0x80)).toBe(true)
+    expect(10 + synchsafe(tag, 6)).toBe(tag.length)
+  })
+
+  it('writes title, album, author, publisher and genre as UTF-8 text frames', () => {
+    const frames = readFrames(tag.subarray(10))
+    const texts = Object.fromEntries(frames.filter((f) => f.id.startsWith('T')).map((f) => [f.id, text(f)]))
+
+    expect(texts).toEqual({
+      TIT2: 'Projektmanagement',
+      TALB: 'Projektmanagement',
+      TPE1: 'Dr. Muster',
+      TPUB: 'Hochschule',
+      TCON: 'Audiobook',
+    })
+  })
+
+  it('lists every chapter in an ordered top-level table of contents', () => {
+    const toc = readFrames(tag.subarray(10)).find((f) => f.id === 'CTOC')!
+    const [elementId, flagsOffset] = cString(toc.body, 0)
+
+    expect(elementId).toBe('toc')
+    expect(toc.body[flagsOffset]).toBe(0x03)
+    expect(toc.body[flagsOffset + 1]).toBe(2)
+
+    let offset = flagsOffset + 2
+    const children: string[] = []
+    for (let i = 0; i < 2; i++) {
+      const [child, next] = cString(toc.body, offset)
+      children.push(child)
+      offset = next
+    }
+    expect(children).toEqual(['ch0', 'ch1'])
+    expect(readFrames(toc.body.subarray(offset)).map(text)).toEqual(['Projektmanagement'])
+  })
+
+  it('writes a chapter frame with start and end in milliseconds and its title', () => {
+    const chapterFrames = readFrames(tag.subarray(10)).filter((f) => f.id === 'CHAP')
+
+    expect(chapterFrames.map((frame) => {
+      const [elementId, offset] = cString(frame.body, 0)
+      return {
+        elementId,
+        startMs: uint32(frame.body, offset),
+        endMs: uint32(frame.body, offset + 4),
+        startByte: uint32(frame.body, offset + 8),
+        endByte: uint32(frame.body, offset + 12),
+        title: readFrames(frame.body.subarray(offset + 16)).map(text),
+      }
+    })).toEqual([
+      { elementId: 'ch0', startMs: 0, endMs: 61_500, startByte: 0xffffffff, endByte: 0xffffffff, title: ['1 Grundlagen'] },
+      { elementId: 'ch1', startMs: 61_500, endMs: 125_250, startByte: 0xffffffff, endByte: 0xffffffff, title: ['2 Planung – Übersicht'] },
+    ])
+  })
+
+  it('leaves out missing author, publisher and chapters', () => {
+    const frames = readFrames(buildId3Tag({ title: 'Skript', chapters: [] }).subarray(10))
+    expect(frames.map((f) => f.id)).toEqual(['TIT2', 'TALB', 'TCON'])
+  })
+
+  it('keeps at most 255 chapters', () => {
+    const many = Array.from({ length: 300 }, (_, i) => ({ title: `Kapitel ${i}`, startMs: i * 1000, endMs: (i + 1) * 1000 }))
+    const frames = readFrames(buildId3Tag({ title: 'Skript', chapters: many }).subarray(10))
+
+    expect(frames.filter((f) => f.id === 'CHAP')).toHaveLength(MAX_ID3_CHAPTERS)
+    const toc = frames.find((f) => f.id === 'CTOC')!
+    expect(toc.body[cString(toc.body, 0)[1] + 1]).toBe(MAX_ID3_CHAPTERS)
+  })
+})
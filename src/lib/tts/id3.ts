@@ -0,0 +1,98 @@
+/**
+ * ID3v2.4 Tag Writer
+ * Title/author metadata and chapter frames (CHAP/CTOC), which podcast and
+ * audiobook players show as a chapter list
+ */
+
+export interface AudioChapter {
+  title: string
+  startMs: number
+  endMs: number
+}
+
+export interface AudioMetadata {
+  title: string
+  author?: string | null
+  publisher?: string | null
+  chapters: AudioChapter[]
+}
+
+// A table of contents lists at most 255 entries
+export const MAX_ID3_CHAPTERS = 255
+
+const encoder = new TextEncoder()
+
+function synchsafe(size: number): number[] {
+  return [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+}
+
+function concat(parts: (Uint8Array | number[])[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+function frame(id: string, body: Uint8Array): Uint8Array {
+  return concat([encoder.encode(id), synchsafe(body.length), [0, 0], body])
+}
+
+/** Text frame, UTF-8 encoded */
+function textFrame(id: string, text: string): Uint8Array {
+  return frame(id, concat([[0x03], encoder.encode(text)]))
+}
+
+/** Null-terminated Latin-1 identifier */
+function elementId(id: string): Uint8Array {
+  return concat([encoder.encode(id), [0]])
+}
+
+function chapterFrame(id: string, chapter: AudioChapter): Uint8Array {
+  return frame('CHAP', concat([
+    elementId(id),
+    uint32(Math.round(chapter.startMs)),
+    uint32(Math.round(chapter.endMs)),
+    // Byte offsets unused: players seek by time
+    uint32(0xffffffff),
+    uint32(0xffffffff),
+    textFrame('TIT2', chapter.title),
+  ]))
+}
+
+function tableOfContentsFrame(childIds: string[], title: string): Uint8Array {
+  return frame('CTOC', concat([
+    elementId('toc'),
+    [0x03], // Top-level, ordered
+    [childIds.length],
+    ...childIds.map(elementId),
+    textFrame('TIT2', title),
+  ]))
+}
+
+/**
+ * Build an ID3v2.4 tag to put in front of the MP3 frames
+ */
+export function buildId3Tag(metadata: AudioMetadata): Uint8Array {
+  const chapters = metadata.chapters.slice(0, MAX_ID3_CHAPTERS)
+  const chapterIds = chapters.map((_, index) => `ch${index}`)
+
+  const frames = [
+    textFrame('TIT2', metadata.title),
+    textFrame('TALB', metadata.title),
+    ...(metadata.author ? [textFrame('TPE1', metadata.author)] : []),
+    ...(metadata.publisher ? [textFrame('TPUB', metadata.publisher)] : []),
+    textFrame('TCON', 'Audiobook'),
+    ...(chapters.length > 0 ? [tableOfContentsFrame(chapterIds, metadata.title)] : []),
+    ...chapters.map((chapter, index) => chapterFrame(chapterIds[index], chapter)),
+  ]
+
+  const body = concat(frames)
+  return concat([encoder.encode('ID3'), [0x04, 0x00, 0x00], synchsafe(body.length), body])
+}
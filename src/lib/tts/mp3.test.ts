@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { buildId3Tag } from './id3'
+import { mp3Duration, silentMp3, stripId3 } from './mp3'
+
+// Playing time of one MPEG1 Layer III frame at 44.1 kHz
+const FRAME_SECONDS = 1152 / 44100
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+describe('silentMp3', () => {
+  it('writes whole 417-byte frames covering at least the requested time', () => {
+    const audio = silentMp3(1)
+
+    expect(audio.length).toBe(39 * 417)
+    expect([...audio.subarray(0, 4)]).toEqual([0xff, 0xfb, 0x90, 0xc4])
+    expect([...audio.subarray(417, 421)]).toEqual([0xff, 0xfb, 0x90, 0xc4])
+    expect(mp3Duration(audio)).toBeCloseTo(39 * FRAME_SECONDS, 10)
+    expect(mp3Duration(audio)).toBeGreaterThanOrEqual(1)
+  })
+
+  it('writes at least one frame', () => {
+    expect(silentMp3(0).length).toBe(417)
+  })
+})
+
+describe('mp3Duration', () => {
+  it('counts frame by frame after a leading ID3 tag', () => {
+    const tag = buildId3Tag({ title: 'Skript', chapters: [{ title: 'Kapitel', startMs: 0, endMs: 1000 }] })
+    expect(mp3Duration(concat(tag, silentMp3(0.5)))).toBeCloseTo(20 * FRAME_SECONDS, 10)
+  })
+
+  it('skips garbage between frames', () => {
+    const audio = concat(silentMp3(0), new Uint8Array([0x00, 0x12, 0xff, 0x00]), silentMp3(0))
+    expect(mp3Duration(audio)).toBeCloseTo(2 * FRAME_SECONDS, 10)
+  })
+
+  it('reads MPEG2 frames with their sample rate and frame size', () => {
+    // MPEG2 Layer III, 64 kbit/s, 22.05 kHz: 72 * 64000 / 22050 = 208 bytes, 576 samples
+    const frame = new Uint8Array(208)
+    frame.set([0xff, 0xf3, 0x80, 0xc4])
+    expect(mp3Duration(concat(frame, frame, frame))).toBeCloseTo((3 * 576) / 22050, 10)
+  })
+
+  it('ignores frames it cannot measure', () => {
+    // Free-format bitrate (index 0)
+    expect(mp3Duration(new Uint8Array([0xff, 0xfb, 0x00, 0xc4, 0, 0, 0, 0]))).toBe(0)
+  })
+})
+
+describe('stripId3', () => {
+  it('removes the tag and keeps the frames', () => {
+    const frames = silentMp3(0.1)
+    const tag = buildId3Tag({ title: 'Skript', chapters: [] })
+
+    expect(stripId3(concat(tag, frames))).toEqual(frames)
+    expect(stripId3(frames)).toBe(frames)
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * MP3 Utilities
+ * Just enough MPEG audio parsing to join TTS clips and know where chapters start
+ */
+
+// Layer III bitrates in kbit/s by bitrate index
+const BITRATES_MPEG1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+const BITRATES_MPEG2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+
+// Sample rates by version bits (3 = MPEG1, 2 = MPEG2, 0 = MPEG2.5)
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+}
+
+interface FrameHeader {
+  length: number
+  samples: number
+  sampleRate: number
+}
+
+function readFrameHeader(audio: Uint8Array, offset: number): FrameHeader | null {
+  if (offset + 4 > audio.length) return null
+  if (audio[offset] !== 0xff || (audio[offset + 1] & 0xe0) !== 0xe0) return null
+
+  const version = (audio[offset + 1] >> 3) & 0x03
+  const layer = (audio[offset + 1] >> 1) & 0x03
+  const bitrateIndex = audio[offset + 2] >> 4
+  const sampleRateIndex = (audio[offset + 2] >> 2) & 0x03
+  const padding = (audio[offset + 2] >> 1) & 0x01
+
+  // Only Layer III; reserved and free-format values cannot be measured
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null
+  }
+
+  const isMpeg1 = version === 3
+  const bitrate = (isMpeg1 ? BITRATES_MPEG1 : BITRATES_MPEG2)[bitrateIndex] * 1000
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex]
+  const length = Math.floor(((isMpeg1 ? 144 : 72) * bitrate) / sampleRate) + padding
+
+  return { length, samples: isMpeg1 ? 1152 : 576, sampleRate }
+}
+
+/**
+ * Size of a leading ID3v2 tag (0 if there is none)
+ */
+function id3Length(audio: Uint8Array): number {
+  if (audio.length < 10 || audio[0] !== 0x49 || audio[1] !== 0x44 || audio[2] !== 0x33) return 0
+  const size = (audio[6] << 21) | (audio[7] << 14) | (audio[8] << 7) | audio[9]
+  const hasFooter = (audio[5] & 0x10) !== 0
+  return 10 + size + (hasFooter ? 10 : 0)
+}
+
+/**
+ * Remove a leading ID3 tag, so clips can be concatenated under one tag
+ */
+export function stripId3(audio: Uint8Array): Uint8Array {
+  const length = id3Length(audio)
+  return length > 0 ? audio.subarray(Math.min(length, audio.length)) : audio
+}
+
+/**
+ * Playing time of MP3 audio in seconds, counted frame by frame
+ */
+export function mp3Duration(audio: Uint8Array): number {
+  let offset = id3Length(audio)
+  let seconds = 0
+
+  while (offset < audio.length) {
+    const frame = readFrameHeader(audio, offset)
+    if (!frame) {
+      // Garbage between frames: resynchronize on the next byte
+      offset++
+      continue
+    }
+    seconds += frame.samples / frame.sampleRate
+    offset += frame.length
+  }
+
+  return seconds
+}
+
+// MPEG1 Layer III, 128 kbit/s, 44.1 kHz, mono; all-zero side info decodes as silence
+const SILENT_FRAME_HEADER = [0xff, 0xfb, 0x90, 0xc4]
+const SILENT_FRAME_LENGTH = 417
+const SILENT_FRAME_SECONDS = 1152 / 44100
+
+/**
+ * MP3 silence of (at least) the given length
+ */
+export function silentMp3(seconds: number): Uint8Array {
+  const frames = Math.max(1, Math.ceil(seconds / SILENT_FRAME_SECONDS))
+  const audio = new Uint8Array(frames * SILENT_FRAME_LENGTH)
+  for (let i = 0; i < frames; i++) {
+    audio.set(SILENT_FRAME_HEADER, i * SILENT_FRAME_LENGTH)
+  }
+  return audio
+}
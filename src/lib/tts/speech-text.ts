@@ -0,0 +1,45 @@
+/**
+ * Speech Text
+ * How section content is split for speech; shared by the reader and the
+ * audiobook export so both request the same paragraphs (and hit the same cache)
+ */
+
+import type { SectionType } from '@/lib/supabase/types'
+
+/** Section types not read aloud unless the listener opts in */
+export const DEFAULT_SKIPPED_SECTION_TYPES: SectionType[] = ['solution', 'reference']
+
+/**
+ * Split text into the paragraphs that are spoken one request at a time
+ */
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n{2,}/)
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0)
+}
+
+/**
+ * Split an overlong paragraph at sentence ends so each part fits one TTS request
+ */
+export function splitForSpeech(paragraph: string, maxLength: number): string[] {
+  if (paragraph.length <= maxLength) return [paragraph]
+
+  const parts: string[] = []
+  let current = ''
+  for (const sentence of paragraph.match(/[^.!?]+[.!?]*\s*/g) ?? [paragraph]) {
+    if (current && current.length + sentence.length > maxLength) {
+      parts.push(current.trim())
+      current = ''
+    }
+    // A single sentence longer than the limit is cut hard
+    let rest = sentence
+    while (rest.length > maxLength) {
+      parts.push(rest.slice(0, maxLength).trim())
+      rest = rest.slice(maxLength)
+    }
+    current += rest
+  }
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
@@ -0,0 +1,49 @@
+-- Audiobook Jobs - Database Migration
+-- Run this in your Supabase SQL Editor after supabase-migration-tts-cache.sql
+-- Renders MP3 audiobooks in the background, one part after another
+
+-- ============================================
+-- 1. AUDIOBOOK_JOBS (Hörbuch-Export im Hintergrund)
+-- ============================================
+-- status:    queued | running | paused | completed | error
+--            paused: the worker stopped before the request time limit,
+--            the next status poll continues with the next part
+-- progress:  { done, total } spoken texts
+-- artifacts: chapter plan and the parts rendered so far
+--            ({ path, durations_ms }[]) under audiobooks/{id}/ in tts-audio
+-- storage_path: the finished MP3 in the tts-audio bucket
+CREATE TABLE IF NOT EXISTS audiobook_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  learning_unit_id UUID REFERENCES learning_units(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'paused', 'completed', 'error')),
+  title TEXT NOT NULL,
+  progress JSONB NOT NULL DEFAULT '{"done": 0, "total": 0}',
+  artifacts JSONB NOT NULL DEFAULT '{}',
+  storage_path TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_audiobook_jobs_user_document ON audiobook_jobs(user_id, document_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================
+ALTER TABLE audiobook_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can follow their own exports
+CREATE POLICY "Users can view their own audiobook jobs"
+  ON audiobook_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Jobs are created and advanced by the audiobook API with the service role
+CREATE POLICY "Service role can manage audiobook jobs"
+  ON audiobook_jobs FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
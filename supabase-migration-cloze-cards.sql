@@ -0,0 +1,20 @@
+-- Cloze Cards - Database Migration
+-- Run this in your Supabase SQL Editor
+-- Adds cloze (fill-in-the-gap) flashcards, e.g. made from highlights
+
+-- ============================================
+-- 1. FLASHCARDS (Kartentyp und Quelle)
+-- ============================================
+-- card_type:     basic = question/answer, cloze = question holds the text
+--                with {{c1::...}} gaps, answer holds the gap texts
+-- annotation_id: highlight the card was made from; the card stays when
+--                the highlight is deleted
+ALTER TABLE flashcards
+  ADD COLUMN IF NOT EXISTS card_type TEXT NOT NULL DEFAULT 'basic'
+    CHECK (card_type IN ('basic', 'cloze')),
+  ADD COLUMN IF NOT EXISTS annotation_id UUID REFERENCES annotations(id) ON DELETE SET NULL;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_flashcards_annotation_id ON flashcards(annotation_id);
@@ -0,0 +1,38 @@
+-- Exercise Self-Test - Database Migration
+-- Run this in your Supabase SQL Editor
+-- Stores the answers students type into exercises and how they rated them
+
+-- ============================================
+-- 1. EXERCISE_ATTEMPTS (Übungsversuche)
+-- ============================================
+-- One row per attempt. rating is the student's own verdict after comparing
+-- the answer with the solution: solved | partial | failed
+CREATE TABLE IF NOT EXISTS exercise_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  exercise_section_id UUID NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+  answer TEXT NOT NULL,
+  rating TEXT NOT NULL CHECK (rating IN ('solved', 'partial', 'failed')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE exercise_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exercise attempts"
+  ON exercise_attempts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own exercise attempts"
+  ON exercise_attempts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exercise attempts"
+  ON exercise_attempts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_exercise_attempts_document ON exercise_attempts(user_id, document_id);
+CREATE INDEX IF NOT EXISTS idx_exercise_attempts_exercise ON exercise_attempts(exercise_section_id);
@@ -0,0 +1,38 @@
+-- Exercise Feedback - Database Migration
+-- Run this in your Supabase SQL Editor
+-- Stores written answers together with the AI feedback comparing them to the solution
+
+-- ============================================
+-- 1. EXERCISE_FEEDBACK (KI-Rückmeldungen zu Lösungen)
+-- ============================================
+-- One row per checked answer. feedback holds covered/missing points,
+-- misconceptions and the rubric score; score is copied out for sorting and stats
+CREATE TABLE IF NOT EXISTS exercise_feedback (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  exercise_section_id UUID NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+  answer TEXT NOT NULL,
+  feedback JSONB NOT NULL,
+  score INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE exercise_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exercise feedback"
+  ON exercise_feedback FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own exercise feedback"
+  ON exercise_feedback FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exercise feedback"
+  ON exercise_feedback FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_exercise_feedback_exercise ON exercise_feedback(user_id, exercise_section_id, created_at DESC);
@@ -0,0 +1,63 @@
+-- Flashcard Scheduling - Database Migration
+-- Run this in your Supabase SQL Editor
+-- Replaces the right/wrong scheduler with four grades and per-card memory state
+
+-- ============================================
+-- 1. FLASHCARDS (Lernzustand pro Karte)
+-- ============================================
+-- state:          new | learning | review | relearning
+-- stability:      days until recall drops to 90% (NULL for new cards)
+-- srs_difficulty: how hard the card is to remember, 1 (easy) to 10 (hard)
+-- lapses:         how often the card was forgotten after being learned
+-- difficulty (1-5) is no longer updated; it is only read once below
+ALTER TABLE flashcards
+  ADD COLUMN IF NOT EXISTS state TEXT NOT NULL DEFAULT 'new'
+    CHECK (state IN ('new', 'learning', 'review', 'relearning')),
+  ADD COLUMN IF NOT EXISTS stability REAL,
+  ADD COLUMN IF NOT EXISTS srs_difficulty REAL CHECK (srs_difficulty BETWEEN 1 AND 10),
+  ADD COLUMN IF NOT EXISTS lapses INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_review TIMESTAMPTZ;
+
+-- Existing cards: the old interval doubled per correct answer up to 30 days,
+-- and a wrong answer raised the difficulty (4-5 = recently forgotten).
+-- Mirrors migrateLegacySchedule() in src/lib/flashcards/scheduler.ts
+UPDATE flashcards SET
+  state = 'review',
+  stability = CASE WHEN difficulty >= 4 THEN 1 ELSE LEAST(30, POWER(2, review_count)) END,
+  srs_difficulty = 1 + (LEAST(GREATEST(COALESCE(NULLIF(difficulty, 0), 3), 1), 5) - 1) * 9 / 4.0
+WHERE review_count > 0 AND stability IS NULL;
+
+-- ============================================
+-- 2. FLASHCARD_REVIEWS (Wiederholungsverlauf)
+-- ============================================
+-- One row per review. state is the card's state before the review,
+-- stability/srs_difficulty are the values after it.
+CREATE TABLE IF NOT EXISTS flashcard_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  flashcard_id UUID NOT NULL REFERENCES flashcards(id) ON DELETE CASCADE,
+  grade TEXT NOT NULL CHECK (grade IN ('again', 'hard', 'good', 'easy')),
+  state TEXT NOT NULL CHECK (state IN ('new', 'learning', 'review', 'relearning')),
+  stability REAL NOT NULL,
+  srs_difficulty REAL NOT NULL,
+  elapsed_days REAL NOT NULL DEFAULT 0,
+  scheduled_days INTEGER NOT NULL DEFAULT 0,
+  reviewed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE flashcard_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own flashcard reviews"
+  ON flashcard_reviews FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own flashcard reviews"
+  ON flashcard_reviews FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_flashcards_next_review ON flashcards(user_id, next_review);
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_flashcard_id ON flashcard_reviews(flashcard_id);
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_user_id ON flashcard_reviews(user_id, reviewed_at);
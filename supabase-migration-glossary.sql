@@ -0,0 +1,118 @@
+-- Glossary - Database Migration
+-- Run this in your Supabase SQL Editor after supabase-migration-modules.sql
+-- Term table per document, filled from definition sections and editable in author mode
+
+-- ============================================
+-- 1. GLOSSARY_TERMS (Glossar)
+-- ============================================
+-- section_id is the definition the term was taken from (or its source when
+-- entered by hand). Terms taken from definitions (is_manual = false) are
+-- rebuilt when the document is processed again; added or edited terms
+-- (is_manual = true) are kept.
+CREATE TABLE IF NOT EXISTS glossary_terms (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  section_id UUID REFERENCES sections(id) ON DELETE SET NULL,
+  term TEXT NOT NULL,
+  definition TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  is_manual BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE glossary_terms ENABLE ROW LEVEL SECURITY;
+
+-- Readable wherever the document is (own documents and shared modules)
+CREATE POLICY "Users can view glossary terms of visible documents"
+  ON glossary_terms FOR SELECT
+  USING (document_id IN (SELECT id FROM documents));
+
+-- Editable by the document owner and by owners/editors of its modules
+CREATE POLICY "Authors can insert glossary terms"
+  ON glossary_terms FOR INSERT
+  WITH CHECK (
+    document_id IN (SELECT id FROM documents WHERE user_id = auth.uid())
+    OR document_id IN (
+      SELECT md.document_id FROM module_documents md
+      JOIN modules m ON m.id = md.module_id
+      WHERE m.owner_id = auth.uid()
+      OR m.id IN (
+        SELECT module_id FROM module_members
+        WHERE user_id = auth.uid() AND role IN ('owner', 'editor')
+      )
+    )
+  );
+
+CREATE POLICY "Authors can update glossary terms"
+  ON glossary_terms FOR UPDATE
+  USING (
+    document_id IN (SELECT id FROM documents WHERE user_id = auth.uid())
+    OR document_id IN (
+      SELECT md.document_id FROM module_documents md
+      JOIN modules m ON m.id = md.module_id
+      WHERE m.owner_id = auth.uid()
+      OR m.id IN (
+        SELECT module_id FROM module_members
+        WHERE user_id = auth.uid() AND role IN ('owner', 'editor')
+      )
+    )
+  );
+
+CREATE POLICY "Authors can delete glossary terms"
+  ON glossary_terms FOR DELETE
+  USING (
+    document_id IN (SELECT id FROM documents WHERE user_id = auth.uid())
+    OR document_id IN (
+      SELECT md.document_id FROM module_documents md
+      JOIN modules m ON m.id = md.module_id
+      WHERE m.owner_id = auth.uid()
+      OR m.id IN (
+        SELECT module_id FROM module_members
+        WHERE user_id = auth.uid() AND role IN ('owner', 'editor')
+      )
+    )
+  );
+
+-- ============================================
+-- 2. REPLACE GENERATED TERMS
+-- ============================================
+-- Replaces the terms taken from definitions in one transaction, so a failed
+-- insert leaves the previous glossary in place. Terms already entered by an
+-- author (same term, any case) are kept and the generated one is skipped.
+-- Returns the number of terms taken.
+--
+-- p_terms: [{ term, definition, aliases, section_id }]
+CREATE OR REPLACE FUNCTION replace_generated_glossary_terms(
+  p_document_id UUID,
+  p_terms JSONB
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  inserted integer;
+BEGIN
+  -- Concurrent runs for the same document wait for each other
+  PERFORM 1 FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  DELETE FROM glossary_terms
+  WHERE document_id = p_document_id
+    AND is_manual = false;
+
+  INSERT INTO glossary_terms (document_id, section_id, term, definition, aliases, is_manual)
+  SELECT p_document_id, t.section_id, t.term, t.definition, COALESCE(t.aliases, '{}'), false
+  FROM jsonb_to_recordset(p_terms) AS t(term TEXT, definition TEXT, aliases TEXT[], section_id UUID)
+  ON CONFLICT (document_id, LOWER(term)) DO NOTHING;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_glossary_terms_document ON glossary_terms(document_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_glossary_terms_document_term ON glossary_terms(document_id, LOWER(term));
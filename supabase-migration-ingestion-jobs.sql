@@ -0,0 +1,121 @@
+-- Ingestion Jobs - Database Migration
+-- Run this in your Supabase SQL Editor after the module migration
+-- Tracks background PDF processing per document with per-stage status
+
+-- ============================================
+-- 1. INGESTION_JOBS (Hintergrundverarbeitung)
+-- ============================================
+-- stages:    { extract|images|structure|persist|glossary|index:
+--              { status, attempts, error, started_at, finished_at } }
+-- artifacts: intermediate stage output (page texts, stored images, structured document)
+--            so a failed stage can be retried without re-running the ones before it
+-- options:   per-upload settings, e.g. { structurer: 'ai' | 'rules' }
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'error')),
+  stages JSONB NOT NULL DEFAULT '{}',
+  artifacts JSONB NOT NULL DEFAULT '{}',
+  options JSONB NOT NULL DEFAULT '{}',
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(document_id)
+);
+
+-- ============================================
+-- 2. REPLACE SECTIONS (persist stage)
+-- ============================================
+-- Replaces the sections of a document in one transaction. A section that
+-- still matches an existing one (same title and section_type, in reading
+-- order) keeps its id, so progress, annotations, notes, flashcards, exercise
+-- attempts, embeddings and tutor threads that reference it survive a re-run.
+-- Only sections that no longer exist are deleted.
+--
+-- p_sections: [{ title, content, order_index, page_start, page_end, ai_summary,
+--               section_type, metadata, images }] in reading order
+CREATE OR REPLACE FUNCTION replace_document_sections(
+  p_document_id UUID,
+  p_sections JSONB
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  entry JSONB;
+  incoming sections;
+  match_id UUID;
+  kept UUID[] := '{}';
+BEGIN
+  -- Concurrent runs for the same document wait for each other
+  PERFORM 1 FROM documents WHERE id = p_document_id FOR UPDATE;
+
+  FOR entry IN SELECT * FROM jsonb_array_elements(p_sections)
+  LOOP
+    incoming := jsonb_populate_record(NULL::sections, entry);
+
+    SELECT s.id INTO match_id
+    FROM sections s
+    WHERE s.document_id = p_document_id
+      AND s.title = incoming.title
+      AND s.section_type IS NOT DISTINCT FROM incoming.section_type
+      AND NOT (s.id = ANY(kept))
+    ORDER BY s.order_index
+    LIMIT 1;
+
+    IF match_id IS NOT NULL THEN
+      UPDATE sections SET
+        content = incoming.content,
+        order_index = incoming.order_index,
+        page_start = incoming.page_start,
+        page_end = incoming.page_end,
+        ai_summary = incoming.ai_summary,
+        metadata = incoming.metadata,
+        images = incoming.images
+      WHERE id = match_id;
+    ELSE
+      INSERT INTO sections (
+        document_id, title, content, order_index, page_start, page_end,
+        ai_summary, section_type, metadata, images
+      )
+      VALUES (
+        p_document_id, incoming.title, incoming.content, incoming.order_index,
+        incoming.page_start, incoming.page_end, incoming.ai_summary,
+        incoming.section_type, incoming.metadata, incoming.images
+      )
+      RETURNING id INTO match_id;
+    END IF;
+
+    kept := kept || match_id;
+  END LOOP;
+
+  DELETE FROM sections
+  WHERE document_id = p_document_id
+    AND NOT (id = ANY(kept));
+END;
+$$;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_user_id ON ingestion_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status ON ingestion_jobs(status);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can follow the processing of their own uploads
+CREATE POLICY "Users can view their own ingestion jobs"
+  ON ingestion_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Jobs are created and advanced by the parse API with the service role
+CREATE POLICY "Service role can manage ingestion jobs"
+  ON ingestion_jobs FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
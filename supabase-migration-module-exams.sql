@@ -0,0 +1,40 @@
+-- Module Mock Exams - Database Migration
+-- Run this in your Supabase SQL Editor after supabase-migration-modules.sql
+-- Stores timed mock exams drawn from all documents of a module
+
+-- ============================================
+-- 1. MODULE_EXAMS (Probeklausuren)
+-- ============================================
+-- items holds the drawn questions together with their answer key, so the
+-- exam is graded on the server. On submission answers and submitted_at are
+-- saved first; results/score are set once grading has finished.
+-- grading_started_at marks the running grading, so a cut-off one is restarted once.
+-- Rows are only read and written by the exam API with the service role:
+-- students never see the answer key and cannot set their own score.
+CREATE TABLE IF NOT EXISTS module_exams (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  items JSONB NOT NULL,
+  duration_minutes INTEGER NOT NULL,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  submitted_at TIMESTAMPTZ,
+  answers JSONB,
+  grading_started_at TIMESTAMPTZ,
+  results JSONB,
+  score REAL,
+  max_score INTEGER NOT NULL
+);
+
+ALTER TABLE module_exams ENABLE ROW LEVEL SECURITY;
+
+-- Exams are started, shown and graded by the exam API with the service role
+CREATE POLICY "Service role can manage exams"
+  ON module_exams FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_module_exams_user_module ON module_exams(user_id, module_id, started_at DESC);
@@ -0,0 +1,82 @@
+-- Learning Unit Quizzes - Database Migration
+-- Run this in your Supabase SQL Editor after supabase-migration-modules.sql
+-- Stores generated quizzes per learning unit and the attempts on them
+
+-- ============================================
+-- 1. QUIZZES (Quizze zu Lerneinheiten)
+-- ============================================
+-- questions is a JSON array of multiple-choice and true/false questions,
+-- each tagged with a learning objective of the unit
+CREATE TABLE IF NOT EXISTS quizzes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  learning_unit_id UUID NOT NULL REFERENCES learning_units(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  questions JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================
+-- 2. QUIZ_ATTEMPTS (Quiz-Durchläufe)
+-- ============================================
+-- answers holds the chosen option per question (null = skipped);
+-- objective_scores maps each learning objective to { correct, total }.
+-- Only the attempts API writes rows, with the score computed on the server.
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  learning_unit_id UUID NOT NULL REFERENCES learning_units(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  answers JSONB NOT NULL,
+  score INTEGER NOT NULL,
+  max_score INTEGER NOT NULL,
+  objective_scores JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_quizzes_learning_unit ON quizzes(learning_unit_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_learning_unit ON quiz_attempts(learning_unit_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user ON quiz_attempts(user_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================
+ALTER TABLE quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+-- learning_units has its own RLS, so these subqueries only return units
+-- the user is allowed to view
+
+-- Everyone who can view the learning unit can take its quizzes
+CREATE POLICY "Users can view quizzes of accessible learning units"
+  ON quizzes FOR SELECT
+  USING (learning_unit_id IN (SELECT id FROM learning_units));
+
+-- Everyone who can view the learning unit can generate a quiz for it
+CREATE POLICY "Users can create quizzes for accessible learning units"
+  ON quizzes FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND learning_unit_id IN (SELECT id FROM learning_units)
+  );
+
+-- Students see their own attempts, module owners all attempts on their units
+CREATE POLICY "Users and module owners can view quiz attempts"
+  ON quiz_attempts FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR learning_unit_id IN (
+      SELECT lu.id FROM learning_units lu
+      JOIN module_documents md ON md.document_id = lu.document_id
+      JOIN modules m ON m.id = md.module_id
+      WHERE m.owner_id = auth.uid()
+    )
+  );
+
+-- Attempts are scored and saved by the attempts API with the service role,
+-- so students cannot set their own score or objective results
+CREATE POLICY "Service role can insert quiz attempts"
+  ON quiz_attempts FOR INSERT
+  WITH CHECK (auth.role() = 'service_role');
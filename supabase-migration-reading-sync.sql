@@ -0,0 +1,119 @@
+-- Reading Progress Sync - Database Migration
+-- Run this in your Supabase SQL Editor
+-- Syncs reading progress and the last reading/playback position across devices
+
+-- ============================================
+-- 1. PROGRESS (Lesefortschritt pro Abschnitt)
+-- ============================================
+-- progress_percent: scroll progress within the section (0-100)
+-- updated_at:       when progress/completion was last changed on any device;
+--                   the newer change wins, time_spent_seconds is added up
+ALTER TABLE progress
+  ADD COLUMN IF NOT EXISTS progress_percent INTEGER NOT NULL DEFAULT 0 CHECK (progress_percent BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT 'epoch';
+
+-- ============================================
+-- 2. READING_POSITIONS (Weiterlesen / Weiterhören)
+-- ============================================
+-- position: { sectionId, sectionTitle, scrollPosition, chapterNumber, timestamp }
+-- playback: { sectionId, sectionTitle, paragraph, timestamp }
+-- Each carries its own timestamp; { cleared: true, timestamp } removes it
+CREATE TABLE IF NOT EXISTS reading_positions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  position JSONB,
+  playback JSONB,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, document_id)
+);
+
+ALTER TABLE reading_positions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reading positions"
+  ON reading_positions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own reading positions"
+  ON reading_positions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own reading positions"
+  ON reading_positions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- 3. SYNC FUNCTIONS (last write wins)
+-- ============================================
+-- Run as the calling user, so the RLS policies above still apply.
+
+-- entries: [{ document_id, section_id, progress_percent?, completed?, updated_at?, time_spent_delta? }]
+-- Entries without updated_at only add reading time.
+CREATE OR REPLACE FUNCTION sync_reading_progress(p_entries JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  entry JSONB;
+BEGIN
+  FOR entry IN SELECT * FROM jsonb_array_elements(p_entries)
+  LOOP
+    INSERT INTO progress (
+      user_id, document_id, section_id, completed, progress_percent,
+      time_spent_seconds, last_accessed, updated_at
+    )
+    VALUES (
+      auth.uid(),
+      (entry->>'document_id')::UUID,
+      (entry->>'section_id')::UUID,
+      COALESCE((entry->>'completed')::BOOLEAN, FALSE),
+      COALESCE((entry->>'progress_percent')::INTEGER, 0),
+      GREATEST(COALESCE((entry->>'time_spent_delta')::INTEGER, 0), 0),
+      NOW(),
+      COALESCE((entry->>'updated_at')::TIMESTAMPTZ, 'epoch')
+    )
+    ON CONFLICT (user_id, section_id) DO UPDATE SET
+      completed = CASE WHEN EXCLUDED.updated_at > progress.updated_at
+        THEN EXCLUDED.completed ELSE progress.completed END,
+      progress_percent = CASE WHEN EXCLUDED.updated_at > progress.updated_at
+        THEN EXCLUDED.progress_percent ELSE progress.progress_percent END,
+      updated_at = GREATEST(progress.updated_at, EXCLUDED.updated_at),
+      time_spent_seconds = progress.time_spent_seconds + EXCLUDED.time_spent_seconds,
+      last_accessed = NOW();
+  END LOOP;
+END;
+$$;
+
+-- Position/playback are only replaced by a newer one (NULL = unchanged)
+CREATE OR REPLACE FUNCTION sync_reading_position(
+  p_document_id UUID,
+  p_position JSONB,
+  p_playback JSONB
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+  INSERT INTO reading_positions (user_id, document_id, position, playback, updated_at)
+  VALUES (auth.uid(), p_document_id, p_position, p_playback, NOW())
+  ON CONFLICT (user_id, document_id) DO UPDATE SET
+    position = CASE
+      WHEN EXCLUDED.position IS NOT NULL AND (
+        reading_positions.position IS NULL OR
+        (EXCLUDED.position->>'timestamp')::TIMESTAMPTZ > (reading_positions.position->>'timestamp')::TIMESTAMPTZ
+      ) THEN EXCLUDED.position ELSE reading_positions.position END,
+    playback = CASE
+      WHEN EXCLUDED.playback IS NOT NULL AND (
+        reading_positions.playback IS NULL OR
+        (EXCLUDED.playback->>'timestamp')::TIMESTAMPTZ > (reading_positions.playback->>'timestamp')::TIMESTAMPTZ
+      ) THEN EXCLUDED.playback ELSE reading_positions.playback END,
+    updated_at = NOW();
+END;
+$$;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_reading_positions_user_id ON reading_positions(user_id);
@@ -0,0 +1,138 @@
+-- Full-Text Search - Database Migration
+-- Run this in your Supabase SQL Editor after supabase-migration-modules.sql
+-- German full-text search over sections, the user's notes/highlights and flashcards
+
+-- ============================================
+-- 1. SEARCH VECTORS (Suchindex, deutsche Stammformen)
+-- ============================================
+-- Generated columns, so they stay in sync with every insert/update.
+-- Titles and questions weigh more than body text.
+ALTER TABLE sections
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('german', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('german', COALESCE(content, '')), 'B')
+  ) STORED;
+
+ALTER TABLE annotations
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('german', COALESCE(content, '')), 'A') ||
+    setweight(to_tsvector('german', COALESCE(text_selection, '')), 'B')
+  ) STORED;
+
+ALTER TABLE flashcards
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('german', COALESCE(question, '')), 'A') ||
+    setweight(to_tsvector('german', COALESCE(answer, '')), 'B')
+  ) STORED;
+
+-- ============================================
+-- 2. SEARCH FUNCTION
+-- ============================================
+-- Run as the calling user, so only visible documents and the user's own
+-- notes, highlights and flashcards are found.
+--
+-- p_query:         search input (websearch syntax: "Phrase", -ohne, oder)
+-- p_section_types: only hits in sections of these types
+-- p_kinds:         'section' | 'note' | 'highlight' | 'flashcard'
+--
+-- snippet marks matches with ⟦ ⟧. match_offset is the character offset of
+-- the match within the section content (for notes/highlights: their start).
+CREATE OR REPLACE FUNCTION search_content(
+  p_query TEXT,
+  p_module_id UUID DEFAULT NULL,
+  p_document_id UUID DEFAULT NULL,
+  p_section_types TEXT[] DEFAULT NULL,
+  p_kinds TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  document_id UUID,
+  document_title TEXT,
+  section_id UUID,
+  section_title TEXT,
+  section_type TEXT,
+  snippet TEXT,
+  match_offset INTEGER,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('german', p_query) AS q
+  ),
+  scope AS (
+    SELECT d.id, d.title
+    FROM documents d
+    WHERE (p_document_id IS NULL OR d.id = p_document_id)
+      AND (p_module_id IS NULL OR d.id IN (
+        SELECT md.document_id FROM module_documents md WHERE md.module_id = p_module_id
+      ))
+  ),
+  hits AS (
+    SELECT 'section'::TEXT AS kind, s.id, s.document_id, s.id AS section_id,
+      s.content AS body, NULL::INTEGER AS start_offset,
+      ts_rank_cd(s.search_vector, query.q, 32) AS rank
+    FROM sections s, query
+    WHERE s.search_vector @@ query.q
+      AND s.document_id IN (SELECT scope.id FROM scope)
+
+    UNION ALL
+
+    SELECT a.type, a.id, s.document_id, a.section_id,
+      CONCAT_WS(E'\n', a.content, a.text_selection), a.position_start,
+      ts_rank_cd(a.search_vector, query.q, 32)
+    FROM annotations a
+    JOIN sections s ON s.id = a.section_id, query
+    WHERE a.type IN ('note', 'highlight')
+      AND a.user_id = auth.uid()
+      AND a.search_vector @@ query.q
+      AND s.document_id IN (SELECT scope.id FROM scope)
+
+    UNION ALL
+
+    SELECT 'flashcard', f.id, f.document_id, f.section_id,
+      f.question || E'\n' || f.answer, NULL,
+      ts_rank_cd(f.search_vector, query.q, 32)
+    FROM flashcards f, query
+    WHERE f.user_id = auth.uid()
+      AND f.search_vector @@ query.q
+      AND f.document_id IN (SELECT scope.id FROM scope)
+  ),
+  top_hits AS (
+    SELECT hits.*, s.title AS section_title, s.section_type::TEXT AS section_type, s.content AS section_content
+    FROM hits
+    LEFT JOIN sections s ON s.id = hits.section_id
+    WHERE (p_kinds IS NULL OR hits.kind = ANY(p_kinds))
+      AND (p_section_types IS NULL OR s.section_type::TEXT = ANY(p_section_types))
+    ORDER BY hits.rank DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  )
+  -- Snippets only for the hits that are returned
+  SELECT t.kind, t.id, t.document_id, scope.title, t.section_id, t.section_title,
+    t.section_type, h.snippet,
+    CASE WHEN t.kind = 'section'
+      THEN NULLIF(STRPOS(LOWER(t.section_content), LOWER(SUBSTRING(h.snippet FROM '⟦([^⟧]+)⟧'))), 0) - 1
+      ELSE t.start_offset
+    END,
+    t.rank
+  FROM top_hits t
+  JOIN scope ON scope.id = t.document_id
+  CROSS JOIN query
+  CROSS JOIN LATERAL (
+    SELECT ts_headline('german', t.body, query.q,
+      'StartSel=⟦, StopSel=⟧, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  ) h
+  ORDER BY t.rank DESC;
+$$;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_sections_search_vector ON sections USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_annotations_search_vector ON annotations USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_flashcards_search_vector ON flashcards USING GIN(search_vector);
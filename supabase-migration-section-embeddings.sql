@@ -0,0 +1,45 @@
+-- Section Embeddings - Database Migration
+-- Run this in your Supabase SQL Editor after supabase-migration-modules.sql
+-- Vector index over section chunks for questions about a script ("Frag das Skript")
+
+-- ============================================
+-- 1. SECTION_EMBEDDINGS (Suchindex für Fragen ans Skript)
+-- ============================================
+-- One row per chunk of a section. start_offset/end_offset locate the chunk
+-- in the section content. model identifies the embedding backend; vectors
+-- of different models are not compared. content_hash detects edited
+-- sections, whose chunks are then rebuilt.
+CREATE TABLE IF NOT EXISTS section_embeddings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  section_id UUID NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  model TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(section_id, model, chunk_index)
+);
+
+ALTER TABLE section_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Readable wherever the section is (own documents and shared modules)
+CREATE POLICY "Users can view embeddings of visible sections"
+  ON section_embeddings FOR SELECT
+  USING (section_id IN (SELECT id FROM sections));
+
+-- Only the document owner builds the index
+CREATE POLICY "Owners can insert embeddings of their documents"
+  ON section_embeddings FOR INSERT
+  WITH CHECK (document_id IN (SELECT id FROM documents WHERE user_id = auth.uid()));
+
+CREATE POLICY "Owners can delete embeddings of their documents"
+  ON section_embeddings FOR DELETE
+  USING (document_id IN (SELECT id FROM documents WHERE user_id = auth.uid()));
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_section_embeddings_document_model ON section_embeddings(document_id, model);
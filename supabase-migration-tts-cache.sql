@@ -0,0 +1,13 @@
+-- TTS Audio Cache - Database Migration
+-- Run this in your Supabase SQL Editor
+-- Stores speech generated by /api/tts, keyed by voice and content hash
+
+-- ============================================
+-- 1. STORAGE BUCKET (tts-audio)
+-- ============================================
+-- Paths: {voice_id}/{sha256 of model, voice settings and text}.mp3
+-- Private: only the API route reads and writes it with the service role,
+-- which already has full access via "Service role full access"
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('tts-audio', 'tts-audio', false)
+ON CONFLICT (id) DO NOTHING;
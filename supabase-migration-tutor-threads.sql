@@ -0,0 +1,99 @@
+-- AI Tutor Threads - Database Migration
+-- Run this in your Supabase SQL Editor after supabase-migration-modules.sql
+-- Stores conversations with the AI assistant per user and section, and
+-- quick prompts that module owners add to the assistant
+
+-- ============================================
+-- 1. TUTOR_THREADS (Gespräche mit dem KI-Assistenten)
+-- ============================================
+-- text_selection is the passage the conversation started from; mode is
+-- fixed per thread ('explain' answers, 'socratic' asks questions back)
+CREATE TABLE IF NOT EXISTS tutor_threads (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  section_id UUID NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  text_selection TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'explain' CHECK (mode IN ('explain', 'socratic')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE tutor_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tutor threads"
+  ON tutor_threads FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tutor threads"
+  ON tutor_threads FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tutor threads"
+  ON tutor_threads FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tutor threads"
+  ON tutor_threads FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- 2. TUTOR_MESSAGES (Nachrichten eines Gesprächs)
+-- ============================================
+CREATE TABLE IF NOT EXISTS tutor_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  thread_id UUID NOT NULL REFERENCES tutor_threads(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE tutor_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view messages of their threads"
+  ON tutor_messages FOR SELECT
+  USING (thread_id IN (SELECT id FROM tutor_threads WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can add messages to their threads"
+  ON tutor_messages FOR INSERT
+  WITH CHECK (thread_id IN (SELECT id FROM tutor_threads WHERE user_id = auth.uid()));
+
+-- ============================================
+-- 3. MODULE_QUICK_PROMPTS (Eigene Schnellaktionen pro Modul)
+-- ============================================
+CREATE TABLE IF NOT EXISTS module_quick_prompts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  sequence_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE module_quick_prompts ENABLE ROW LEVEL SECURITY;
+
+-- Everyone with access to the module sees its prompts
+CREATE POLICY "Users can view quick prompts of accessible modules"
+  ON module_quick_prompts FOR SELECT
+  USING (module_id IN (SELECT id FROM modules));
+
+-- Only owners can manage them
+CREATE POLICY "Owners can create quick prompts"
+  ON module_quick_prompts FOR INSERT
+  WITH CHECK (module_id IN (SELECT id FROM modules WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Owners can update quick prompts"
+  ON module_quick_prompts FOR UPDATE
+  USING (module_id IN (SELECT id FROM modules WHERE owner_id = auth.uid()));
+
+CREATE POLICY "Owners can delete quick prompts"
+  ON module_quick_prompts FOR DELETE
+  USING (module_id IN (SELECT id FROM modules WHERE owner_id = auth.uid()));
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_tutor_threads_user_section ON tutor_threads(user_id, section_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tutor_messages_thread ON tutor_messages(thread_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_module_quick_prompts_module ON module_quick_prompts(module_id, sequence_order);